@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native SQLite driver used by the API routes must not be bundled,
+  // nor pdf-parse, which loads its PDF.js worker and canvas at runtime
+  serverExternalPackages: ['better-sqlite3', 'pdf-parse'],
 };
 
 export default nextConfig;
@@ -0,0 +1,190 @@
+// ============================================
+// Possible Duplicates Page
+// Lists pairs of patients that may be the same person.
+// The scan runs in the background in small slices and
+// keeps going if the page is left before it finishes
+// ============================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth/auth-context';
+import { patientDb } from '@/lib/db/database';
+import type { DuplicateWarning, Patient } from '@/types';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+
+interface DuplicateReport {
+  scannedAt: Date;
+  patientCount: number;
+  warnings: DuplicateWarning[];
+}
+
+// Shared across visits to the page, so a running scan is picked up again
+let lastReport: DuplicateReport | null = null;
+let runningScan: Promise<DuplicateReport> | null = null;
+let scanProgress = 0;
+
+function startScan(): Promise<DuplicateReport> {
+  if (!runningScan) {
+    scanProgress = 0;
+    const patientCount = patientDb.getAll().length;
+    runningScan = patientDb
+      .findPossibleDuplicates({ onProgress: (done) => { scanProgress = done; } })
+      .then((warnings) => {
+        lastReport = { scannedAt: new Date(), patientCount, warnings };
+        return lastReport;
+      })
+      .finally(() => {
+        runningScan = null;
+      });
+  }
+  return runningScan;
+}
+
+export default function DuplicatesPage() {
+  const { hasPermission, isAuthenticated } = useAuth();
+  const [report, setReport] = useState<DuplicateReport | null>(lastReport);
+  const [scanning, setScanning] = useState(runningScan !== null);
+  const [progress, setProgress] = useState(scanProgress);
+  const [minScore, setMinScore] = useState(0);
+
+  const scan = () => {
+    setScanning(true);
+    startScan()
+      .then(setReport)
+      .catch((error) => console.error('Error scanning for duplicates:', error))
+      .finally(() => setScanning(false));
+  };
+
+  // Picks up a scan started on an earlier visit, or starts the first one
+  useEffect(() => {
+    if (lastReport && !runningScan) return;
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    scan();
+  }, []);
+
+  useEffect(() => {
+    if (!scanning) return;
+    const timer = setInterval(() => setProgress(scanProgress), 250);
+    return () => clearInterval(timer);
+  }, [scanning]);
+
+  if (!isAuthenticated || !hasPermission('settings')) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-gray-500">Access Denied</p>
+            <p className="text-sm text-gray-400">You don&apos;t have permission to review duplicate patients.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const warnings = (report?.warnings || []).filter((warning) => warning.matchScore >= minScore);
+
+  const describePatient = (id: string) => {
+    const patient = patientDb.getById(id) as Patient | undefined;
+    if (!patient) return <span className="text-gray-400">Deleted patient</span>;
+    return (
+      <Link href={`/patients/${patient.id}`} className="text-blue-600 hover:underline">
+        {patient.fullName || `${patient.firstName} ${patient.lastName}`}
+        <span className="block text-xs text-gray-500">
+          {patient.registrationNumber} · {patient.mobileNumber || 'No mobile'}
+          {patient.age ? ` · ${patient.age}y` : ''}
+        </span>
+      </Link>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Possible Duplicates</h1>
+        <Button onClick={scan} disabled={scanning}>
+          {scanning ? `Scanning ${Math.round(progress * 100)}%` : 'Scan Again'}
+        </Button>
+      </div>
+
+      {!report ? (
+        <Card>
+          <CardContent className="py-8 text-center text-gray-500">
+            Comparing patients by name, mobile numbers, age and address. This runs in the background;
+            you can leave the page and come back.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="pt-4">
+              <div className="flex justify-between items-end gap-4">
+                <p className="text-sm text-gray-500">
+                  Scanned {report.patientCount} patients on {report.scannedAt.toLocaleString()}:{' '}
+                  <strong className="text-gray-700">{report.warnings.length}</strong> possible duplicate pair(s)
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Match</label>
+                  <select
+                    value={minScore}
+                    onChange={(e) => setMinScore(parseInt(e.target.value))}
+                    className="border rounded px-3 py-2"
+                  >
+                    <option value={0}>All</option>
+                    <option value={70}>70% and above</option>
+                    <option value={80}>80% and above</option>
+                    <option value={90}>90% and above</option>
+                  </select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {warnings.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-gray-500">No possible duplicates found</CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b bg-gray-50">
+                      <th className="p-3">Match</th>
+                      <th className="p-3">Patient</th>
+                      <th className="p-3">Possible Duplicate</th>
+                      <th className="p-3">Why</th>
+                      <th className="p-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {warnings.map((warning) => (
+                      <tr key={`${warning.patientId}|${warning.matchedPatientId}`} className="border-b hover:bg-gray-50 align-top">
+                        <td className="p-3">
+                          <Badge variant={warning.matchScore >= 80 ? 'danger' : 'warning'} size="sm">
+                            {warning.matchScore}%
+                          </Badge>
+                        </td>
+                        <td className="p-3">{describePatient(warning.patientId)}</td>
+                        <td className="p-3">{describePatient(warning.matchedPatientId)}</td>
+                        <td className="p-3 text-gray-600">{warning.matchReasons.join(', ')}</td>
+                        <td className="p-3 text-right">
+                          <Link href={`/patients/merge?a=${warning.patientId}&b=${warning.matchedPatientId}`}>
+                            <Button variant="secondary" size="sm">Merge</Button>
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+// ============================================
+// Data Integrity Page
+// Scans for orphaned references and duplicate numbers;
+// fixes can be previewed as a dry run before they are applied
+// ============================================
+
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/lib/auth/auth-context';
+import {
+  INTEGRITY_RULE_LABELS,
+  repairIntegrity,
+  scanIntegrity,
+  type IntegrityIssue,
+  type IntegrityReport,
+  type IntegrityRule,
+  type RepairResult,
+} from '@/lib/db/integrity';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+
+export default function IntegrityPage() {
+  const { hasPermission, isAuthenticated, logActivity } = useAuth();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [filterRule, setFilterRule] = useState<IntegrityRule | 'all'>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<RepairResult | null>(null);
+
+  if (!isAuthenticated || !hasPermission('settings')) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-gray-500">Access Denied</p>
+            <p className="text-sm text-gray-400">You don&apos;t have permission to check data integrity.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const issues = report?.issues || [];
+  const rules = [...new Set(issues.map((entry) => entry.rule))];
+  const visibleIssues = issues.filter((entry) => filterRule === 'all' || entry.rule === filterRule);
+  const fixableIssues = visibleIssues.filter((entry) => entry.fix);
+  const selectedIssues = fixableIssues.filter((entry) => selected.has(entry.id));
+
+  const handleScan = () => {
+    const next = scanIntegrity();
+    setReport(next);
+    setSelected(new Set(next.issues.filter((entry) => entry.fix).map((entry) => entry.id)));
+    setResult(null);
+  };
+
+  const toggle = (entry: IntegrityIssue) => {
+    const next = new Set(selected);
+    if (next.has(entry.id)) {
+      next.delete(entry.id);
+    } else {
+      next.add(entry.id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedIssues.length === fixableIssues.length ? new Set() : new Set(fixableIssues.map((entry) => entry.id)));
+  };
+
+  const handlePreview = () => {
+    setResult(repairIntegrity(selectedIssues, { dryRun: true }));
+  };
+
+  const handleApply = () => {
+    if (!confirm(`Apply ${selectedIssues.length} fix(es)? Deleted records can be restored from the recycle bin.`)) return;
+    const applied = repairIntegrity(selectedIssues);
+    logActivity('integrity_repaired', 'admin', {
+      fixes: applied.applied.map((fix) => `${fix.type} ${fix.collection}/${fix.recordId}`),
+      skipped: applied.skipped.length,
+    });
+    // Rescan so the list shows what is left
+    const next = scanIntegrity();
+    setReport(next);
+    setSelected(new Set());
+    setResult(applied);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Data Integrity</h1>
+        <Button onClick={handleScan}>{report ? 'Scan Again' : 'Scan Now'}</Button>
+      </div>
+
+      {!report ? (
+        <Card>
+          <CardContent className="py-8 text-center text-gray-500">
+            Scan the database for records pointing at deleted visits, stale prescription
+            references and duplicate registration or receipt numbers. Scanning does not change anything.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <Card>
+            <CardContent className="pt-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-gray-500">Scanned {report.scannedAt.toLocaleString()}:</span>
+                {Object.entries(report.recordCounts).map(([collection, count]) => (
+                  <span key={collection} className="text-gray-700">{collection} <strong>{count}</strong></span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {issues.length === 0 ? (
+                  <Badge variant="success">No problems found</Badge>
+                ) : (
+                  (Object.keys(INTEGRITY_RULE_LABELS) as IntegrityRule[])
+                    .filter((rule) => rules.includes(rule))
+                    .map((rule) => (
+                      <Badge key={rule} variant="warning">
+                        {INTEGRITY_RULE_LABELS[rule]}: {issues.filter((entry) => entry.rule === rule).length}
+                      </Badge>
+                    ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Filters & fixes */}
+          {issues.length > 0 && (
+            <Card>
+              <CardContent className="pt-4">
+                <div className="flex justify-between items-end gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Filter by Problem
+                    </label>
+                    <select
+                      value={filterRule}
+                      onChange={(e) => setFilterRule(e.target.value as IntegrityRule | 'all')}
+                      className="border rounded px-3 py-2"
+                    >
+                      <option value="all">All Problems</option>
+                      {rules.map((rule) => (
+                        <option key={rule} value={rule}>{INTEGRITY_RULE_LABELS[rule]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="secondary" disabled={selectedIssues.length === 0} onClick={handlePreview}>
+                      Dry Run ({selectedIssues.length})
+                    </Button>
+                    <Button disabled={selectedIssues.length === 0} onClick={handleApply}>
+                      Apply Fixes
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Dry run / repair result */}
+          {result && (
+            <Card>
+              <CardContent className="pt-4 space-y-2">
+                <p className="font-medium">
+                  {result.dryRun
+                    ? `Dry run: ${result.applied.length} fix(es) would be applied, nothing was changed`
+                    : `${result.applied.length} fix(es) applied`}
+                  {result.skipped.length > 0 && `, ${result.skipped.length} skipped because the record changed since the scan`}
+                </p>
+                <ul className="text-sm text-gray-600 list-disc pl-5 max-h-48 overflow-y-auto">
+                  {result.applied.map((fix, index) => (
+                    <li key={index}>
+                      {fix.description} <span className="text-gray-400">({fix.collection}/{fix.recordId})</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Issues */}
+          {visibleIssues.length > 0 && (
+            <Card>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b bg-gray-50">
+                      <th className="p-3 w-8">
+                        <input
+                          type="checkbox"
+                          checked={fixableIssues.length > 0 && selectedIssues.length === fixableIssues.length}
+                          onChange={toggleAll}
+                        />
+                      </th>
+                      <th className="p-3">Severity</th>
+                      <th className="p-3">Problem</th>
+                      <th className="p-3">Details</th>
+                      <th className="p-3">Fix</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleIssues.map((entry) => (
+                      <tr key={entry.id} className="border-b hover:bg-gray-50 align-top">
+                        <td className="p-3">
+                          {entry.fix && (
+                            <input type="checkbox" checked={selected.has(entry.id)} onChange={() => toggle(entry)} />
+                          )}
+                        </td>
+                        <td className="p-3">
+                          <Badge variant={entry.severity === 'error' ? 'danger' : 'warning'} size="sm">
+                            {entry.severity}
+                          </Badge>
+                        </td>
+                        <td className="p-3 whitespace-nowrap">{INTEGRITY_RULE_LABELS[entry.rule]}</td>
+                        <td className="p-3">
+                          <div>{entry.message}</div>
+                          <div className="text-xs text-gray-400">{entry.collection}/{entry.recordId}</div>
+                        </td>
+                        <td className="p-3 text-gray-500">{entry.fix?.description || 'Needs manual review'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+// ============================================
+// Recycle Bin Page
+// Soft-deleted clinical and financial records can be
+// restored here; only the doctor can purge them for good
+// ============================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth/auth-context';
+import { db, recycleBinDb, SOFT_DELETE_COLLECTIONS, type DeletedRecord } from '@/lib/db/database';
+import { syncReplicator } from '@/lib/db/replicator';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+
+function entryKey(entry: DeletedRecord): string {
+  return `${entry.collection}:${entry.record.id}`;
+}
+
+// Files stored for the record on the server: an investigation report and its thumbnail, or a recording
+function uploadedFiles(entry: DeletedRecord): string[] {
+  return [entry.record.fileUrl, entry.record.thumbnailUrl]
+    .filter((url): url is string => typeof url === 'string' && url.startsWith('/api/files/'));
+}
+
+// Short human-readable description of a deleted record
+function describeRecord(entry: DeletedRecord): string {
+  const record = entry.record;
+  if (entry.collection === 'patients') {
+    return `${record.firstName || ''} ${record.lastName || ''} (${record.registrationNumber || 'no reg. no.'})`.trim();
+  }
+  if (entry.collection === 'materiaMedicaBooks') {
+    return String(record.title || record.id);
+  }
+  const parts: string[] = [];
+  if (typeof record.patientId === 'string') {
+    // The patient may be in the bin as well
+    const patient = db.getById<{ firstName?: string; lastName?: string }>('patients', record.patientId, { includeDeleted: true });
+    parts.push(patient ? `${patient.firstName} ${patient.lastName}` : `Patient ${record.patientId}`);
+  }
+  const date = record.visitDate || record.paidDate || record.date || record.createdAt;
+  if (date) parts.push(new Date(date as string).toLocaleDateString());
+  if (typeof record.medicine === 'string') parts.push(record.medicine);
+  if (typeof record.amount === 'number') parts.push(`₹${record.amount}`);
+  return parts.length > 0 ? parts.join(' · ') : String(record.id);
+}
+
+export default function RecycleBinPage() {
+  const { user, hasPermission, isAuthenticated, logActivity } = useAuth();
+  const [entries, setEntries] = useState<DeletedRecord[]>(() => recycleBinDb.getAll());
+  const [filterCollection, setFilterCollection] = useState<string>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => db.subscribe('*', null, (changes) => {
+    if (changes.some((change) => SOFT_DELETE_COLLECTIONS.includes(change.collection))) {
+      setEntries(recycleBinDb.getAll());
+    }
+  }), []);
+
+  if (!isAuthenticated || !hasPermission('settings')) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-gray-500">Access Denied</p>
+            <p className="text-sm text-gray-400">You don&apos;t have permission to view the recycle bin.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const canPurge = !!user?.isDoctor;
+  const collections = [...new Set(entries.map((entry) => entry.collection))];
+  const visibleEntries = entries.filter((entry) => filterCollection === 'all' || entry.collection === filterCollection);
+  const selectedEntries = visibleEntries.filter((entry) => selected.has(entryKey(entry)));
+
+  const toggle = (entry: DeletedRecord) => {
+    const next = new Set(selected);
+    if (next.has(entryKey(entry))) {
+      next.delete(entryKey(entry));
+    } else {
+      next.add(entryKey(entry));
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedEntries.length === visibleEntries.length ? new Set() : new Set(visibleEntries.map(entryKey)));
+  };
+
+  const handleRestore = (targets: DeletedRecord[]) => {
+    db.transaction(() => {
+      targets.forEach((entry) => recycleBinDb.restore(entry.collection, entry.record.id as string));
+    });
+    targets.forEach((entry) => {
+      logActivity('record_restored', 'admin', { collection: entry.collection, recordId: entry.record.id });
+    });
+    setSelected(new Set());
+  };
+
+  const handlePurge = async (targets: DeletedRecord[]) => {
+    if (!canPurge) return;
+    if (!confirm(`Permanently delete ${targets.length} record(s)? This cannot be undone.`)) return;
+    try {
+      db.transaction(() => {
+        targets.forEach((entry) => recycleBinDb.purge(entry.collection, entry.record.id as string));
+      });
+    } catch (error) {
+      console.error('Error purging records:', error);
+      alert(error instanceof Error ? error.message : 'Could not purge the records. Nothing was deleted.');
+      return;
+    }
+    targets.forEach((entry) => {
+      logActivity('record_purged', 'admin', { collection: entry.collection, recordId: entry.record.id });
+    });
+    setSelected(new Set());
+    // Only once the records are gone, here and on the server, which refuses to delete a file a record
+    // still points to; a file left behind is harmless, a record without its file is not
+    await syncReplicator.syncNow();
+    targets.flatMap(uploadedFiles).forEach((url) => {
+      fetch(url, { method: 'DELETE' })
+        .then((response) => {
+          if (!response.ok) console.error(`Could not delete ${url}: HTTP ${response.status}`);
+        })
+        .catch((error) => console.error(`Could not delete ${url}:`, error));
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Recycle Bin</h1>
+        <Badge variant="outline">{visibleEntries.length} deleted records</Badge>
+      </div>
+
+      {/* Filters & bulk actions */}
+      <Card>
+        <CardContent className="pt-4">
+          <div className="flex justify-between items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Filter by Type
+              </label>
+              <select
+                value={filterCollection}
+                onChange={(e) => {
+                  setFilterCollection(e.target.value);
+                  setSelected(new Set());
+                }}
+                className="border rounded px-3 py-2"
+              >
+                <option value="all">All Types</option>
+                {collections.map((collection) => (
+                  <option key={collection} value={collection}>{collection}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" disabled={selectedEntries.length === 0} onClick={() => handleRestore(selectedEntries)}>
+                Restore Selected ({selectedEntries.length})
+              </Button>
+              {canPurge && (
+                <Button variant="danger" disabled={selectedEntries.length === 0} onClick={() => handlePurge(selectedEntries)}>
+                  Delete Forever
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Deleted records */}
+      <Card>
+        <CardContent className="p-0">
+          {visibleEntries.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">The recycle bin is empty</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b bg-gray-50">
+                  <th className="p-3 w-8">
+                    <input
+                      type="checkbox"
+                      checked={selectedEntries.length === visibleEntries.length}
+                      onChange={toggleAll}
+                    />
+                  </th>
+                  <th className="p-3">Type</th>
+                  <th className="p-3">Record</th>
+                  <th className="p-3">Deleted</th>
+                  <th className="p-3">Deleted By</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr key={entryKey(entry)} className="border-b hover:bg-gray-50">
+                    <td className="p-3">
+                      <input type="checkbox" checked={selected.has(entryKey(entry))} onChange={() => toggle(entry)} />
+                    </td>
+                    <td className="p-3">
+                      <Badge variant="default" size="sm">{entry.collection}</Badge>
+                    </td>
+                    <td className="p-3">{describeRecord(entry)}</td>
+                    <td className="p-3 text-gray-500">{new Date(entry.record.deletedAt).toLocaleString()}</td>
+                    <td className="p-3 text-gray-500">{entry.record.deletedBy || '—'}</td>
+                    <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                      <Button size="sm" variant="secondary" onClick={() => handleRestore([entry])}>
+                        Restore
+                      </Button>
+                      {canPurge && (
+                        <Button size="sm" variant="danger" onClick={() => handlePurge([entry])}>
+                          Purge
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+// ============================================
+// LAN Sync Page
+// Per-PC sync settings, pairing with the server and status,
+// plus the conflict log where the doctor reviews concurrent
+// edits from different PCs
+// ============================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth/auth-context';
+import { db, syncConflictDb } from '@/lib/db/database';
+import { syncReplicator, type SyncConfig, type SyncStatus } from '@/lib/db/replicator';
+import type { SyncConflict, SyncConflictVersion } from '@/lib/db/sync';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+const STATUS_BADGES: Record<SyncStatus['state'], 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  disabled: 'default',
+  idle: 'success',
+  syncing: 'info',
+  error: 'danger',
+};
+
+// Fields that differ between the two versions, ignoring bookkeeping
+function changedFields(a?: Record<string, unknown>, b?: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b || {})]);
+  return [...keys]
+    .filter((key) => key !== 'updatedAt' && key !== 'createdAt')
+    .filter((key) => JSON.stringify(a?.[key]) !== JSON.stringify(b?.[key]));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function VersionLabel({ version }: { version: SyncConflictVersion }) {
+  return (
+    <span className="text-xs text-gray-500">
+      {version.node} · {new Date(version.updatedAt).toLocaleString()}
+      {version.deleted && <Badge variant="danger" size="sm" className="ml-2">Deleted</Badge>}
+    </span>
+  );
+}
+
+export default function SyncPage() {
+  const { user, isAuthenticated, logActivity } = useAuth();
+  const [config, setConfig] = useState<SyncConfig>(() => syncReplicator.getConfig());
+  const [status, setStatus] = useState<SyncStatus>(() => syncReplicator.getStatus());
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => syncConflictDb.getAll());
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [paired, setPaired] = useState<boolean | null>(null);
+  const [accessKey, setAccessKey] = useState('');
+
+  useEffect(() => syncReplicator.onStatus(setStatus), []);
+
+  useEffect(() => {
+    fetch('/api/access')
+      .then((response) => response.json())
+      .then((result: { paired: boolean }) => setPaired(result.paired))
+      .catch(() => setPaired(false));
+  }, []);
+
+  useEffect(() => db.subscribe('syncConflicts', null, () => setConflicts(syncConflictDb.getAll())), []);
+
+  // Conflict review is limited to the doctor
+  if (!isAuthenticated || !user?.isDoctor) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-gray-500">Access Denied</p>
+            <p className="text-sm text-gray-400">Only the doctor can manage sync and review conflicts.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // The key is only ever sent to be exchanged: the server this app came from
+  // pairs the browser with a cookie, a server at another address hands back a
+  // token derived from the key, and only that token is kept
+  const handleSaveConfig = async () => {
+    const serverUrl = config.serverUrl.trim().replace(/\/+$/, '');
+    const remote = serverUrl !== '';
+    let accessToken = remote && serverUrl === syncReplicator.getConfig().serverUrl ? config.accessToken : '';
+    if (accessKey) {
+      const response = await fetch(`${serverUrl}/api/access`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: accessKey, token: remote }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(result.error || 'Could not pair with the server');
+        return;
+      }
+      if (remote) accessToken = result.token;
+      else setPaired(true);
+      setAccessKey('');
+    }
+    const saved = { ...config, serverUrl, accessToken };
+    syncReplicator.saveConfig(saved);
+    setConfig(saved);
+    logActivity('sync_settings_updated', 'admin', { enabled: config.enabled, serverUrl });
+  };
+
+  const handleAccept = (conflict: SyncConflict) => {
+    syncConflictDb.accept(conflict.id, user.name);
+    logActivity('sync_conflict_accepted', 'admin', { collection: conflict.collection, recordId: conflict.recordId });
+  };
+
+  const handleOverride = (conflict: SyncConflict) => {
+    if (!confirm('Replace the current record with the other version? This change will sync to every PC.')) return;
+    try {
+      syncConflictDb.override(conflict.id, user.name);
+      logActivity('sync_conflict_overridden', 'admin', { collection: conflict.collection, recordId: conflict.recordId });
+    } catch (error) {
+      console.error('Error restoring conflict version:', error);
+      alert('Could not restore the other version. Nothing was changed.');
+    }
+  };
+
+  const visibleConflicts = conflicts
+    .filter((conflict) => showReviewed || conflict.status === 'open')
+    .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime());
+  const openCount = conflicts.filter((conflict) => conflict.status === 'open').length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">LAN Sync</h1>
+        <Badge variant={STATUS_BADGES[status.state]}>{status.state}</Badge>
+      </div>
+
+      {/* Settings for this PC */}
+      <Card>
+        <CardHeader>
+          <CardTitle>This PC</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={config.enabled}
+                onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+              />
+              <span className="text-sm font-medium text-gray-700">Sync with other PCs</span>
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sync server address</label>
+              <Input
+                value={config.serverUrl}
+                placeholder="Leave empty to use this server"
+                onChange={(e) => setConfig({ ...config, serverUrl: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sync every (seconds)</label>
+              <Input
+                type="number"
+                min={2}
+                value={config.intervalSeconds}
+                onChange={(e) => setConfig({ ...config, intervalSeconds: parseInt(e.target.value, 10) || 10 })}
+              />
+            </div>
+          </div>
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Clinic access key</label>
+              <Input
+                type="password"
+                value={accessKey}
+                placeholder={(config.serverUrl ? config.accessToken : paired) ? 'Paired' : 'PMS_API_KEY of the server'}
+                onChange={(e) => setAccessKey(e.target.value)}
+              />
+            </div>
+            <p className="md:col-span-2 text-sm text-gray-500">
+              {config.serverUrl
+                ? config.accessToken
+                  ? 'This browser is paired with the sync server above. The key itself is not kept.'
+                  : 'Enter the key of the sync server above and save to pair this browser with it.'
+                : paired
+                  ? 'This browser is paired with this server for sync, backups, files and FHIR.'
+                  : 'Enter the key and save to pair this browser with the server.'}
+            </p>
+            <p className="md:col-span-3 text-sm text-amber-700">
+              The sync server keeps its copy of every synced record unencrypted in its SQLite file, whether or not
+              this PC encrypts its own data. Keep that machine in a locked room on an encrypted disk.
+            </p>
+          </div>
+          <div className="mt-4 flex items-center justify-between">
+            <div className="text-sm text-gray-500 space-y-1">
+              <p>PC id: <span className="font-mono">{status.nodeId}</span></p>
+              <p>
+                Waiting to send: {status.pending}
+                {status.lastSyncAt && ` · Last sync ${new Date(status.lastSyncAt).toLocaleString()}`}
+              </p>
+              {status.lastError && <p className="text-red-600">Last error: {status.lastError}</p>}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => syncReplicator.syncNow()} disabled={!config.enabled}>
+                Sync Now
+              </Button>
+              <Button onClick={handleSaveConfig}>Save</Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Conflict Log */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Conflicts</CardTitle>
+            <div className="flex items-center gap-3">
+              <Badge variant={openCount > 0 ? 'warning' : 'outline'}>{openCount} to review</Badge>
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input type="checkbox" checked={showReviewed} onChange={(e) => setShowReviewed(e.target.checked)} />
+                Show reviewed
+              </label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleConflicts.length === 0 ? (
+            <p className="py-6 text-center text-gray-500">No conflicts to review</p>
+          ) : (
+            <div className="space-y-4">
+              {visibleConflicts.map((conflict) => {
+                const fields = changedFields(conflict.winner.data, conflict.loser.data);
+                return (
+                  <div key={conflict.id} className="border rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-3">
+                      <div>
+                        <p className="font-medium">
+                          {conflict.collection} <span className="font-mono text-sm text-gray-500">{conflict.recordId}</span>
+                        </p>
+                        <p className="text-xs text-gray-500">Detected {new Date(conflict.detectedAt).toLocaleString()}</p>
+                        {conflict.reason && <p className="text-xs text-red-600">Refused: {conflict.reason}</p>}
+                      </div>
+                      {conflict.status === 'open' ? (
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="secondary" onClick={() => handleOverride(conflict)}>
+                            Use Other Version
+                          </Button>
+                          <Button size="sm" onClick={() => handleAccept(conflict)}>
+                            Keep Current
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline">
+                          {conflict.status === 'accepted' ? 'Kept current' : 'Other version restored'}
+                          {conflict.reviewedBy && ` by ${conflict.reviewedBy}`}
+                        </Badge>
+                      )}
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b bg-gray-50">
+                          <th className="p-2 w-1/5">Field</th>
+                          <th className="p-2">Current <VersionLabel version={conflict.winner} /></th>
+                          <th className="p-2">Other <VersionLabel version={conflict.loser} /></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fields.length === 0 ? (
+                          <tr>
+                            <td colSpan={3} className="p-2 text-gray-500">Both versions have the same content</td>
+                          </tr>
+                        ) : (
+                          fields.map((field) => (
+                            <tr key={field} className="border-b">
+                              <td className="p-2 font-medium text-gray-700">{field}</td>
+                              <td className="p-2 break-all">{formatValue(conflict.winner.data?.[field])}</td>
+                              <td className="p-2 break-all text-gray-500">{formatValue(conflict.loser.data?.[field])}</td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
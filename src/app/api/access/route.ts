@@ -0,0 +1,62 @@
+// ============================================
+// Server Access API Route
+// Pairs this browser with the server: the clinic access key is
+// checked once and exchanged for an httpOnly cookie, or for a
+// token a browser syncing from another address sends instead
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ACCESS_COOKIE,
+  browserAccessToken,
+  hasAccess,
+  isAccessConfigured,
+  isAccessKey,
+} from '@/lib/auth/api-access';
+
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // One year, in seconds
+
+// GET - Whether the server has a key and this browser is paired
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ configured: isAccessConfigured(), paired: hasAccess(request) });
+}
+
+// POST - Pair with { key }; with { key, token: true } the token is returned rather than set as a cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as { key?: unknown; token?: unknown };
+    if (!isAccessConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Server access is not set up. Set PMS_API_KEY on the server.' },
+        { status: 503 }
+      );
+    }
+    if (!isAccessKey(body.key)) {
+      return NextResponse.json({ success: false, error: 'Wrong access key' }, { status: 401 });
+    }
+
+    if (body.token === true) {
+      return NextResponse.json({ success: true, token: browserAccessToken(body.key) });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(ACCESS_COOKIE, browserAccessToken(body.key), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: new URL(request.url).protocol === 'https:',
+      path: '/',
+      maxAge: COOKIE_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error pairing browser:', error);
+    return NextResponse.json({ success: false, error: 'Failed to pair' }, { status: 500 });
+  }
+}
+
+// DELETE - Unpair this browser
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ACCESS_COOKIE);
+  return response;
+}
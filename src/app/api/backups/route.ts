@@ -0,0 +1,66 @@
+// ============================================
+// Backups API Route
+// Stores backup archives sent by the browser, lists them,
+// returns one for restore and prunes expired ones. Paired PCs
+// only, and only archives sealed in the browser are accepted
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { validateBackupArchive, type BackupArchive } from '@/lib/db/backup';
+import { isArchiveFileName, listArchives, pruneArchives, readArchive, saveArchive } from '@/lib/db/backup-store';
+
+// GET - List archives, or download one with ?file=
+export async function GET(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const { searchParams } = new URL(request.url);
+    const fileName = searchParams.get('file');
+
+    if (!fileName) {
+      return NextResponse.json({ backups: await listArchives() });
+    }
+    if (!isArchiveFileName(fileName)) {
+      return NextResponse.json({ error: 'Invalid backup file name' }, { status: 400 });
+    }
+
+    return new NextResponse(await readArchive(fileName), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error reading backups:', error);
+    return NextResponse.json({ error: 'Failed to read backups' }, { status: 500 });
+  }
+}
+
+// POST - Store a new archive, then prune by retention
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const body = (await request.json()) as { archive?: BackupArchive; retentionDays?: number };
+
+    const validation = await validateBackupArchive(body.archive);
+    if (!body.archive || !validation.valid) {
+      return NextResponse.json({ error: 'Invalid backup archive', details: validation.errors }, { status: 400 });
+    }
+    if (!body.archive.encryption) {
+      return NextResponse.json({ error: 'Backups must be encrypted before they are sent' }, { status: 400 });
+    }
+
+    const summary = await saveArchive(body.archive);
+    const retentionDays = Number(body.retentionDays);
+    const pruned = Number.isFinite(retentionDays) && retentionDays > 0
+      ? await pruneArchives(retentionDays)
+      : [];
+
+    return NextResponse.json({ backup: summary, pruned }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving backup:', error);
+    return NextResponse.json({ error: 'Failed to save backup' }, { status: 500 });
+  }
+}
@@ -6,10 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { combinationDb } from '@/lib/db/doctor-panel';
 import type { CombinationMedicine } from '@/lib/db/schema';
+import { ensureServerDatabase } from '@/lib/db/server';
 
 // GET - Retrieve combinations
 export async function GET(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     const search = searchParams.get('search');
@@ -38,6 +40,7 @@ export async function GET(request: NextRequest) {
 // POST - Create new combination
 export async function POST(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     
     // Check if name already exists
@@ -62,6 +65,7 @@ export async function POST(request: NextRequest) {
 // PUT - Update combination
 export async function PUT(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -92,6 +96,7 @@ export async function PUT(request: NextRequest) {
 // DELETE - Delete combination
 export async function DELETE(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
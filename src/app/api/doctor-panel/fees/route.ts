@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/database';
+import { ensureServerDatabase } from '@/lib/db/server';
 
 // Helper to generate ID
 function generateId(): string {
@@ -31,6 +32,7 @@ interface FeeRecord {
 // GET - Retrieve fees
 export async function GET(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     const patientId = searchParams.get('patientId');
@@ -74,6 +76,7 @@ export async function GET(request: NextRequest) {
 // POST - Create new fee
 export async function POST(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     
     const newFee: FeeRecord = {
@@ -103,6 +106,7 @@ export async function POST(request: NextRequest) {
 // PUT - Update fee
 export async function PUT(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -137,6 +141,7 @@ export async function PUT(request: NextRequest) {
 // DELETE - Delete fee
 export async function DELETE(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -6,10 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { pharmacyQueueDb, medicineMemoryDb } from '@/lib/db/doctor-panel';
 import type { PharmacyQueueItem } from '@/lib/db/schema';
+import { ensureServerDatabase } from '@/lib/db/server';
 
 // GET - Retrieve pharmacy queue items
 export async function GET(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     const visitId = searchParams.get('visitId');
@@ -50,6 +52,7 @@ export async function GET(request: NextRequest) {
 // POST - Add to pharmacy queue
 export async function POST(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     
     const newItem = pharmacyQueueDb.create({
@@ -77,6 +80,7 @@ export async function POST(request: NextRequest) {
 // PUT - Update pharmacy item status
 export async function PUT(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -121,6 +125,7 @@ export async function PUT(request: NextRequest) {
 // DELETE - Remove from pharmacy queue
 export async function DELETE(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -4,18 +4,21 @@
 // ============================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { doctorVisitDb } from '@/lib/db/doctor-panel';
-import type { DoctorVisit } from '@/lib/db/schema';
+import { visitDb } from '@/lib/db/database';
+import type { Visit } from '@/types';
+import { ensureServerDatabase } from '@/lib/db/server';
+import { ValidationError } from '@/lib/db/validation';
 
 // GET - Retrieve visits
 export async function GET(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const visitId = searchParams.get('id');
     const patientId = searchParams.get('patientId');
 
     if (visitId) {
-      const visit = doctorVisitDb.getById(visitId);
+      const visit = visitDb.getById(visitId);
       if (!visit) {
         return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
       }
@@ -23,12 +26,12 @@ export async function GET(request: NextRequest) {
     }
 
     if (patientId) {
-      const visits = doctorVisitDb.getByPatient(patientId);
+      const visits = visitDb.getByPatient(patientId);
       return NextResponse.json(visits);
     }
 
     // Return all visits if no filters
-    const visits = doctorVisitDb.getAll();
+    const visits = visitDb.getAll();
     return NextResponse.json(visits);
   } catch (error) {
     console.error('Error fetching visits:', error);
@@ -39,9 +42,10 @@ export async function GET(request: NextRequest) {
 // POST - Create new visit
 export async function POST(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     
-    const newVisit = doctorVisitDb.create({
+    const newVisit = visitDb.create({
       patientId: body.patientId,
       visitDate: new Date(body.visitDate || Date.now()),
       visitNumber: body.visitNumber || 1,
@@ -59,6 +63,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newVisit, { status: 201 });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
     console.error('Error creating visit:', error);
     return NextResponse.json({ error: 'Failed to create visit' }, { status: 500 });
   }
@@ -67,6 +74,7 @@ export async function POST(request: NextRequest) {
 // PUT - Update visit
 export async function PUT(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const visitId = searchParams.get('id');
 
@@ -75,7 +83,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const updates: Partial<DoctorVisit> = {};
+    const updates: Partial<Visit> = {};
 
     if (body.chiefComplaint !== undefined) updates.chiefComplaint = body.chiefComplaint;
     if (body.caseText !== undefined) updates.caseText = body.caseText;
@@ -88,7 +96,7 @@ export async function PUT(request: NextRequest) {
     if (body.status !== undefined) updates.status = body.status;
     if (body.tokenNumber !== undefined) updates.tokenNumber = body.tokenNumber;
 
-    const updated = doctorVisitDb.update(visitId, updates);
+    const updated = visitDb.update(visitId, updates);
 
     if (!updated) {
       return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
@@ -96,6 +104,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(updated);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
     console.error('Error updating visit:', error);
     return NextResponse.json({ error: 'Failed to update visit' }, { status: 500 });
   }
@@ -104,6 +115,7 @@ export async function PUT(request: NextRequest) {
 // DELETE - Delete visit
 export async function DELETE(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const visitId = searchParams.get('id');
 
@@ -111,7 +123,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Visit ID required' }, { status: 400 });
     }
 
-    const deleted = doctorVisitDb.delete(visitId);
+    const deleted = visitDb.delete(visitId);
 
     if (!deleted) {
       return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
@@ -0,0 +1,34 @@
+// ============================================
+// FHIR Patient $everything API Route
+// A patient's whole record as a FHIR R4 searchset Bundle;
+// paired PCs only
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { ensureServerDatabase } from '@/lib/db/server';
+import { exportPatientEverything } from '@/lib/db/fhir-exchange';
+import { toOperationOutcome } from '@/lib/fhir';
+
+const FHIR_JSON = { 'Content-Type': 'application/fhir+json' };
+
+// GET - Export the patient, their visits, prescriptions, vitals and investigations
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    await ensureServerDatabase();
+    const { id } = await params;
+    const bundle = await exportPatientEverything(id, { baseUrl: new URL(request.url).origin });
+    if (!bundle) {
+      return NextResponse.json(
+        toOperationOutcome([{ severity: 'error', path: 'Patient', message: `Patient ${id} not found` }]),
+        { status: 404, headers: FHIR_JSON }
+      );
+    }
+    return NextResponse.json(bundle, { headers: FHIR_JSON });
+  } catch (error) {
+    console.error('Error exporting FHIR bundle:', error);
+    return NextResponse.json({ error: 'Failed to export patient' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// ============================================
+// FHIR Bundle Import API Route
+// Accepts a FHIR R4 Bundle (transaction, batch, collection or
+// an exported searchset). Nothing is saved unless the whole
+// Bundle is valid; problems come back as an OperationOutcome.
+// Paired PCs only
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { ensureServerDatabase } from '@/lib/db/server';
+import { FhirImportError, importFhirBundle } from '@/lib/db/fhir-exchange';
+import { toOperationOutcome } from '@/lib/fhir';
+import { ValidationError } from '@/lib/db/validation';
+
+const FHIR_JSON = { 'Content-Type': 'application/fhir+json' };
+
+// POST - Import a Bundle; ?dryRun=true only validates and counts
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    await ensureServerDatabase();
+    const { searchParams } = new URL(request.url);
+
+    let bundle: unknown;
+    try {
+      bundle = await request.json();
+    } catch {
+      return NextResponse.json(
+        toOperationOutcome([{ severity: 'error', path: 'Bundle', message: 'The request body is not JSON' }]),
+        { status: 400, headers: FHIR_JSON }
+      );
+    }
+
+    const result = await importFhirBundle(bundle, {
+      importedBy: searchParams.get('importedBy') || 'fhir-import',
+      dryRun: searchParams.get('dryRun') === 'true',
+    });
+    return NextResponse.json(
+      { ...result, outcome: toOperationOutcome(result.warnings) },
+      { status: result.dryRun ? 200 : 201 }
+    );
+  } catch (error) {
+    if (error instanceof FhirImportError) {
+      return NextResponse.json(toOperationOutcome(error.issues), { status: 422, headers: FHIR_JSON });
+    }
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
+    console.error('Error importing FHIR bundle:', error);
+    return NextResponse.json({ error: 'Failed to import bundle' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+// ============================================
+// Uploaded Files API Route
+// Hands out investigation reports and voice notes to paired
+// PCs, and deletes them once their records are purged
+// from the server database (see src/lib/upload-store.ts)
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { ensureServerDatabase } from '@/lib/db/server';
+import { deleteUpload, findUpload, readUpload } from '@/lib/upload-store';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Records that keep an upload URL; soft-deleted ones still need their file for a restore
+const FILE_COLLECTIONS = ['investigations', 'voiceNotes'];
+
+// GET - One file, e.g. /api/files/investigations/<patientId>/<fileName>
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const { path } = await params;
+    const upload = await findUpload(`/api/files/${path.join('/')}`);
+    if (!upload) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(await readUpload(upload)), {
+      headers: {
+        'Content-Type': upload.contentType,
+        'Content-Disposition': `inline; filename="${upload.fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading uploaded file:', error);
+    return NextResponse.json({ success: false, error: 'Failed to read file' }, { status: 500 });
+  }
+}
+
+// DELETE - The same URL, once the record it belongs to was purged
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const { path } = await params;
+    const url = `/api/files/${path.join('/')}`;
+    const db = await ensureServerDatabase();
+    const inUse = FILE_COLLECTIONS.some((collection) =>
+      db.getAll<{ fileUrl?: string; thumbnailUrl?: string }>(collection, { includeDeleted: true })
+        .some((record) => record.fileUrl === url || record.thumbnailUrl === url));
+    if (inUse) {
+      return NextResponse.json(
+        { success: false, error: 'The file still belongs to a record; purge the record first' },
+        { status: 409 }
+      );
+    }
+
+    const deleted = await deleteUpload(url);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error deleting uploaded file:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete file' }, { status: 500 });
+  }
+}
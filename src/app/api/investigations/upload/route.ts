@@ -0,0 +1,110 @@
+// ============================================
+// Investigation Upload API Route
+// Stores lab reports (PDF or image) in the upload store and
+// makes a thumbnail. Paired PCs only. The record itself is
+// created by the client with the returned URLs
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { saveUpload } from '@/lib/upload-store';
+import type { Investigation } from '@/types';
+
+const FILE_TYPES: Record<string, Investigation['fileType']> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const MAX_SIZE = 20 * 1024 * 1024; // 20MB
+const MAX_THUMBNAIL_SIZE = 512 * 1024;
+const THUMBNAIL_WIDTH = 240;
+
+// First page of the PDF as a PNG; null when the PDF cannot be rendered
+async function renderPdfThumbnail(data: Buffer): Promise<Uint8Array | null> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getScreenshot({ partial: [1], desiredWidth: THUMBNAIL_WIDTH, imageDataUrl: false });
+    return result.pages[0]?.data || null;
+  } catch (error) {
+    console.error('PDF thumbnail error:', error);
+    return null;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// POST - Upload one report; form fields: file, patientId, thumbnail (optional, images only)
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const patientId = String(formData.get('patientId') || '');
+    const thumbnail = formData.get('thumbnail') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, message: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Ids become directory names
+    if (!/^[\w-]+$/.test(patientId)) {
+      return NextResponse.json(
+        { success: false, message: 'A valid patientId is required' },
+        { status: 400 }
+      );
+    }
+
+    const fileType = FILE_TYPES[file.type];
+    if (!fileType) {
+      return NextResponse.json(
+        { success: false, message: 'Only PDF, JPG, PNG and WebP files are allowed' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_SIZE) {
+      return NextResponse.json(
+        { success: false, message: 'File size exceeds 20MB limit' },
+        { status: 400 }
+      );
+    }
+
+    const fileId = `inv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const fileUrl = await saveUpload('investigations', patientId, `${fileId}.${fileType}`, buffer);
+
+    // Thumbnail: rendered here for PDFs, downscaled by the browser for images
+    let thumbnailUrl: string | undefined;
+    if (fileType === 'pdf') {
+      const png = await renderPdfThumbnail(buffer);
+      if (png) {
+        thumbnailUrl = await saveUpload('investigations', patientId, `${fileId}-thumb.png`, png);
+      }
+    } else if (thumbnail && thumbnail.type === 'image/jpeg' && thumbnail.size <= MAX_THUMBNAIL_SIZE) {
+      thumbnailUrl = await saveUpload('investigations', patientId, `${fileId}-thumb.jpg`, Buffer.from(await thumbnail.arrayBuffer()));
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileName: file.name,
+      fileType,
+      fileSize: file.size,
+      fileUrl,
+      thumbnailUrl,
+    });
+
+  } catch (error) {
+    console.error('Investigation upload error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to upload file', error: String(error) },
+      { status: 500 }
+    );
+  }
+}
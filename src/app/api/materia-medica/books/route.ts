@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { materiaMedicaBookDb } from '@/lib/db/database';
+import { ensureServerDatabase } from '@/lib/db/server';
 
 export async function GET(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const searchParams = request.nextUrl.searchParams;
     const category = searchParams.get('category');
     const search = searchParams.get('search');
@@ -43,6 +45,7 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { bookId } = await request.json();
 
     if (!bookId) {
@@ -4,10 +4,12 @@ import {
   materiaMedicaBookPageDb, 
   materiaMedicaBookDb 
 } from '@/lib/db/database';
+import { ensureServerDatabase } from '@/lib/db/server';
 import { generateSnippet, calculateRelevanceScore, normalizeText } from '@/lib/pdf-processor';
 
 export async function POST(request: NextRequest) {
   try {
+    await ensureServerDatabase();
     const { query, bookIds, maxResults = 50 } = await request.json();
 
     if (!query || query.trim().length === 0) {
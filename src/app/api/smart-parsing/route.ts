@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/database';
 import type { SmartParsingRule } from '@/lib/db/schema';
+import { ensureServerDatabase } from '@/lib/db/server';
 
 // Helper to generate ID
 function generateId(): string {
@@ -10,6 +11,7 @@ function generateId(): string {
 // GET - Fetch all smart parsing rules
 export async function GET() {
   try {
+    await ensureServerDatabase();
     const rules = db.getAll('smartParsingRules');
     const sortedRules = (rules as SmartParsingRule[]).sort((a, b) => b.priority - a.priority);
     return NextResponse.json({ 
@@ -25,6 +27,7 @@ export async function GET() {
 // POST - Create a new smart parsing rule
 export async function POST(request: Request) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     const { name, type, pattern, replacement, isRegex, priority, isActive } = body;
     
@@ -52,6 +55,7 @@ export async function POST(request: Request) {
 // PUT - Update a smart parsing rule
 export async function PUT(request: Request) {
   try {
+    await ensureServerDatabase();
     const body = await request.json();
     const { id, ...updates } = body;
     
@@ -75,6 +79,7 @@ export async function PUT(request: Request) {
 // DELETE - Delete a smart parsing rule
 export async function DELETE(request: Request) {
   try {
+    await ensureServerDatabase();
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
@@ -0,0 +1,72 @@
+// ============================================
+// LAN Sync API Route
+// PCs on the clinic network push their local changes here
+// and pull everything the other PCs have written. Only PCs
+// paired with the clinic access key are answered
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { ensureServerDatabase } from '@/lib/db/server';
+import { applyPush, readChanges } from '@/lib/db/sync-server';
+import type { SyncChange, SyncPushRequest } from '@/lib/db/sync';
+
+function isValidChange(change: unknown): change is SyncChange {
+  if (!change || typeof change !== 'object') return false;
+  const c = change as Partial<SyncChange>;
+  return (
+    typeof c.collection === 'string' &&
+    typeof c.id === 'string' &&
+    typeof c.deleted === 'boolean' &&
+    (c.deleted || (!!c.record && typeof c.record === 'object')) &&
+    !!c.stamp &&
+    typeof c.stamp.node === 'string' &&
+    typeof c.stamp.updatedAt === 'string' &&
+    !!c.stamp.vector &&
+    typeof c.stamp.vector === 'object'
+  );
+}
+
+// GET - Pull changes after a cursor
+export async function GET(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    await ensureServerDatabase();
+    const { searchParams } = new URL(request.url);
+    const since = parseInt(searchParams.get('since') || '0', 10);
+    const limit = parseInt(searchParams.get('limit') || '500', 10);
+
+    if (isNaN(since) || since < 0 || isNaN(limit) || limit < 1) {
+      return NextResponse.json({ error: 'Invalid since or limit' }, { status: 400 });
+    }
+
+    return NextResponse.json(readChanges(since, Math.min(limit, 2000)));
+  } catch (error) {
+    console.error('Error reading sync changes:', error);
+    return NextResponse.json({ error: 'Failed to read changes' }, { status: 500 });
+  }
+}
+
+// POST - Push local changes
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    await ensureServerDatabase();
+    const body = (await request.json()) as Partial<SyncPushRequest>;
+
+    if (!body.nodeId || !Array.isArray(body.changes)) {
+      return NextResponse.json({ error: 'nodeId and changes are required' }, { status: 400 });
+    }
+    const invalid = body.changes.findIndex((change) => !isValidChange(change));
+    if (invalid !== -1) {
+      return NextResponse.json({ error: `Invalid change at index ${invalid}` }, { status: 400 });
+    }
+
+    return NextResponse.json(applyPush(body.changes));
+  } catch (error) {
+    console.error('Error applying sync changes:', error);
+    return NextResponse.json({ error: 'Failed to apply changes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+// ============================================
+// Voice Note Transcription API Route
+// Runs a stored recording through the configured transcription
+// provider (see src/lib/transcription.ts) and returns the text;
+// the client saves it on the voice note
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { findUpload, parseUploadUrl } from '@/lib/upload-store';
+import { TRANSCRIPTION_LANGUAGE, TranscriptionError, transcribeAudio } from '@/lib/transcription';
+
+// POST - Transcribe; body: { fileUrl, language }
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const { fileUrl, language = 'auto' } = await request.json();
+
+    // Only files written by the voice note upload route
+    if (typeof fileUrl !== 'string' || parseUploadUrl(fileUrl)?.kind !== 'voice-notes') {
+      return NextResponse.json(
+        { success: false, message: 'fileUrl must point to an uploaded voice note' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof language !== 'string' || !TRANSCRIPTION_LANGUAGE.test(language)) {
+      return NextResponse.json(
+        { success: false, message: 'language must be "auto" or a two-letter ISO 639-1 code' },
+        { status: 400 }
+      );
+    }
+
+    const recording = await findUpload(fileUrl);
+    if (!recording) {
+      return NextResponse.json(
+        { success: false, message: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await transcribeAudio(recording.path, { language });
+    return NextResponse.json({ success: true, transcript: result.text, provider: result.provider });
+
+  } catch (error) {
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 422 }
+      );
+    }
+    console.error('Transcription error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to transcribe recording', error: String(error) },
+      { status: 500 }
+    );
+  }
+}
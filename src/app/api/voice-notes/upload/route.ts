@@ -0,0 +1,82 @@
+// ============================================
+// Voice Note Upload API Route
+// Stores recordings in the upload store, next to the
+// investigation reports. Paired PCs only. The record itself is
+// created by the client with the returned URL
+// ============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/auth/api-access';
+import { saveUpload } from '@/lib/upload-store';
+
+// Recordings arrive as WAV; the rest are accepted for uploaded audio files
+const AUDIO_TYPES: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+};
+
+const MAX_SIZE = 50 * 1024 * 1024; // 50MB
+
+// POST - Upload one recording; form fields: file, patientId
+export async function POST(request: NextRequest) {
+  const denied = requireAccess(request);
+  if (denied) return denied;
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const patientId = String(formData.get('patientId') || '');
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, message: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Ids become directory names
+    if (!/^[\w-]+$/.test(patientId)) {
+      return NextResponse.json(
+        { success: false, message: 'A valid patientId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Browsers add codecs, e.g. "audio/webm;codecs=opus"
+    const extension = AUDIO_TYPES[file.type.split(';')[0]];
+    if (!extension) {
+      return NextResponse.json(
+        { success: false, message: 'Only WAV, WebM, Ogg, MP3 and M4A audio is allowed' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_SIZE) {
+      return NextResponse.json(
+        { success: false, message: 'File size exceeds 50MB limit' },
+        { status: 400 }
+      );
+    }
+
+    const fileId = `voice-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const fileName = `${fileId}.${extension}`;
+    const fileUrl = await saveUpload('voice-notes', patientId, fileName, Buffer.from(await file.arrayBuffer()));
+
+    return NextResponse.json({
+      success: true,
+      fileName,
+      fileSize: file.size,
+      fileUrl,
+    });
+
+  } catch (error) {
+    console.error('Voice note upload error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to upload recording', error: String(error) },
+      { status: 500 }
+    );
+  }
+}
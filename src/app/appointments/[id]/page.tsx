@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { appointmentDb, patientDb, slotDb, feeHistoryDb } from "@/lib/db/database";
+import { saveErrorMessage } from "@/lib/db/validation";
+import { usePrivacy } from "@/lib/auth/auth-context";
 import type { Appointment, Patient, Slot, FeeType } from "@/types";
 
 export default function AppointmentDetailPage() {
@@ -15,6 +17,8 @@ export default function AppointmentDetailPage() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [appointment, setAppointment] = useState<Appointment | null>(null);
   const [patient, setPatient] = useState<Patient | null>(null);
+  const { redactorFor } = usePrivacy();
+  const redactor = redactorFor(patient);
   const [slot, setSlot] = useState<Slot | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -231,15 +235,15 @@ export default function AppointmentDetailPage() {
               </div>
               <div>
                 <p className="text-sm text-gray-500">Total Fee</p>
-                <p className="font-medium text-gray-900">₹{appointment.feeAmount}</p>
+                <p className="font-medium text-gray-900">₹{redactor.amount(appointment.feeAmount)}</p>
               </div>
               <div>
                 <p className="text-sm text-gray-500">Advance Paid</p>
-                <p className="font-medium text-green-600">₹{appointment.advancePaid || 0}</p>
+                <p className="font-medium text-green-600">₹{redactor.amount(appointment.advancePaid || 0)}</p>
               </div>
               <div>
                 <p className="text-sm text-gray-500">Balance</p>
-                <p className="font-medium text-gray-900">₹{(appointment.feeAmount || 0) - (appointment.advancePaid || 0)}</p>
+                <p className="font-medium text-gray-900">₹{redactor.amount((appointment.feeAmount || 0) - (appointment.advancePaid || 0))}</p>
               </div>
             </div>
             <div className="mt-4">
@@ -262,7 +266,12 @@ export default function AppointmentDetailPage() {
                 <Button
                   variant="primary"
                   onClick={() => {
-                    appointmentDb.checkIn(appointment.id);
+                    try {
+                      appointmentDb.checkIn(appointment.id);
+                    } catch (error) {
+                      console.error("Error checking in:", error);
+                      alert(saveErrorMessage(error, "Failed to check in. Please try again."));
+                    }
                     loadData();
                   }}
                 >
@@ -272,7 +281,12 @@ export default function AppointmentDetailPage() {
                   variant="danger"
                   onClick={() => {
                     if (confirm("Cancel this appointment?")) {
-                      appointmentDb.cancel(appointment.id, "Cancelled by staff");
+                      try {
+                        appointmentDb.cancel(appointment.id, "Cancelled by staff");
+                      } catch (error) {
+                        console.error("Error cancelling appointment:", error);
+                        alert(saveErrorMessage(error, "Failed to cancel the appointment. Please try again."));
+                      }
                       loadData();
                     }
                   }}
@@ -7,9 +7,19 @@ import { Sidebar } from "@/components/layout/Sidebar";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
-import { appointmentDb, patientDb, slotDb, feeHistoryDb, feeDb } from "@/lib/db/database";
+import { db, appointmentDb, patientDb, slotDb, feeHistoryDb, feeDb, householdDb, visitDb } from "@/lib/db/database";
+import { saveErrorMessage } from "@/lib/db/validation";
+import { relationshipLabels } from "@/components/ui/FamilyCard";
 import type { Appointment, Patient, Slot, FeeType, FeeHistoryEntry } from "@/types";
 
+// Fee type that goes with each appointment type
+const TYPE_FEE_NAMES: Record<string, string> = {
+  'new': 'New Patient',
+  'follow-up': 'Follow Up',
+  'consultation': 'Follow Up',
+  'emergency': 'New Patient',
+};
+
 export default function NewAppointmentPage() {
   const router = useRouter();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -48,7 +58,14 @@ export default function NewAppointmentPage() {
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [previewTokenNumber, setPreviewTokenNumber] = useState<number>(0);
-  const [bookedPatientIds, setBookedPatientIds] = useState<Set<string>>(new Set());
+  // Other members of the selected patient's family to book in the same slot
+  const [familyMemberIds, setFamilyMemberIds] = useState<Set<string>>(new Set());
+  // Patients who already have an appointment on the chosen date
+  const bookedPatientIds = new Set(
+    (appointmentDb.getByDate(new Date(formData.date)) as Appointment[])
+      .filter((apt) => apt.status !== 'cancelled')
+      .map((apt) => apt.patientId)
+  );
   const [lastFeeInfo, setLastFeeInfo] = useState<{
     date: string;
     amount: number;
@@ -162,15 +179,7 @@ export default function NewAppointmentPage() {
   useEffect(() => {
     if (formData.feeExempt) return;
     
-    // Map appointment type to fee type name
-    const typeToFeeName: Record<string, string> = {
-      'new': 'New Patient',
-      'follow-up': 'Follow Up',
-      'consultation': 'Follow Up',
-      'emergency': 'New Patient',
-    };
-    
-    const targetFeeName = typeToFeeName[formData.type] || 'Follow Up';
+    const targetFeeName = TYPE_FEE_NAMES[formData.type] || 'Follow Up';
     const matchingFee = feeTypes.find(f => (f as FeeType).name === targetFeeName);
     
     if (matchingFee) {
@@ -235,6 +244,30 @@ export default function NewAppointmentPage() {
 
   const filteredPatients = displayPatients;
 
+  const household = selectedPatient ? householdDb.getByPatient(selectedPatient.id) : undefined;
+  const familyMembers = household && selectedPatient
+    ? householdDb.getMembers(household.id).filter(({ patient }) => patient.id !== selectedPatient.id)
+    : [];
+
+  // A member's own fee: new or follow-up by their own history, exempt by their own record
+  const resolveMemberFee = (patient: Patient) => {
+    const type = visitDb.getByPatient(patient.id).length === 0 ? 'new' as const : formData.type;
+    const feeName = TYPE_FEE_NAMES[type] || 'Follow Up';
+    const fee = feeTypes.find((f) => f.name === feeName);
+    const feeTypeName = fee?.name || feeName;
+    const feeAmount = patient.feeExempt ? 0 : fee?.amount ?? 0;
+    return {
+      type,
+      feeTypeName,
+      feeAmount,
+      feeStatus: patient.feeExempt ? 'exempt' as const : 'pending' as const,
+      isFreeFollowUp: (feeTypeName === 'Free Follow Up') || (feeTypeName === 'Follow Up' && feeAmount === 0),
+      feeExempt: !!patient.feeExempt,
+      feeExemptionReason: patient.feeExemptionReason,
+    };
+  };
+  const memberFees = new Map(familyMembers.map(({ patient }) => [patient.id, resolveMemberFee(patient)]));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedPatient) {
@@ -247,6 +280,14 @@ export default function NewAppointmentPage() {
       return;
     }
 
+    const selectedMembers = familyMembers.filter(({ patient }) => familyMemberIds.has(patient.id));
+    const alreadyBooked = [selectedPatient, ...selectedMembers.map(({ patient }) => patient)]
+      .filter((patient) => bookedPatientIds.has(patient.id));
+    if (alreadyBooked.length > 0) {
+      alert(`Already booked on this date: ${alreadyBooked.map((patient) => `${patient.firstName} ${patient.lastName}`).join(", ")}`);
+      return;
+    }
+
     setIsSubmitting(true);
 
     // Get slot info
@@ -299,112 +340,152 @@ export default function NewAppointmentPage() {
     const selectedFeeType = feeTypes.find(f => (f as FeeType).id === formData.feeTypeId);
     const feeTypeName = selectedFeeType ? (selectedFeeType as FeeType).name : 'Follow Up';
 
-    // Create appointment
-    const newAppointment = appointmentDb.create({
-      patientId: selectedPatient.id,
-      patientName: `${(selectedPatient as { firstName: string }).firstName} ${(selectedPatient as { lastName: string }).lastName}`,
-      doctorId,
-      appointmentDate: new Date(formData.date),
-      appointmentTime: formData.time,
-      visitMode: formData.visitMode,
-      slotId: formData.slotId,
-      slotName: slot?.name || "General",
-      tokenNumber,
-      duration: formData.duration,
-      type: formData.type,
-      status: "scheduled",
-      priority: formData.priority,
-      feeStatus: finalFeeStatus,
-      feeAmount: finalFeeAmount,
-      feeType: feeTypeName,
-      isFreeFollowUp: (feeTypeName === 'Free Follow Up') || (feeTypeName === 'Follow Up' && finalFeeAmount === 0),
-      notes: formData.notes,
-      isWalkIn: false,
-      reminderSent: false,
-      feeExempt: formData.feeExempt,
-      feeExemptionReason: formData.feeExemptionReason,
-    } as unknown as Parameters<typeof appointmentDb.create>[0]);
-
-    const aptId = newAppointment.id;
-
-    // If advance payment made, record in fee history (check for duplicates first)
-    if (formData.advancePaid > 0 && !formData.feeExempt) {
-      // Check if fee history already exists for this appointment
-      const allFeeHistory = feeHistoryDb.getAll() as FeeHistoryEntry[];
-      
-      console.log('[Appointments] Checking for existing fee history. appointmentId:', aptId);
-      
-      const existingFeeHistory = allFeeHistory.find((fh) => 
-        fh.appointmentId === aptId
-      );
-      
-      console.log('[Appointments] Found existing fee history?', !!existingFeeHistory, existingFeeHistory?.id);
-      
-      if (!existingFeeHistory) {
-        const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        
-        // Use the actual fee type name from fee settings, not hardcoded normalization
-        // The fee type name is already stored in feeTypeName variable
-        let feeTypeForHistory: 'first-visit' | 'follow-up' | 'exempt' | 'consultation' | 'medicine' = 'follow-up';
-        
-        // Map common fee type names to standard format
-        const feeTypeNameLower = feeTypeName.toLowerCase();
-        if (feeTypeNameLower.includes('new') || feeTypeNameLower.includes('first')) {
-          feeTypeForHistory = 'first-visit';
-        } else if (feeTypeNameLower.includes('follow')) {
-          feeTypeForHistory = 'follow-up';
-        } else if (feeTypeNameLower.includes('exempt')) {
-          feeTypeForHistory = 'exempt';
-        } else if (feeTypeNameLower.includes('medicine')) {
-          feeTypeForHistory = 'medicine';
-        } else {
-          feeTypeForHistory = 'consultation';
-        }
-        
-        feeHistoryDb.create({
-          id: newFeeHistoryId,
+    try {
+      // One transaction, so a rejected record leaves none of the booking behind
+      db.transaction(() => {
+        // Create appointment
+        const newAppointment = appointmentDb.create({
           patientId: selectedPatient.id,
-          appointmentId: aptId,
-          amount: formData.advancePaid,
-          feeType: feeTypeForHistory,
-          paymentMode: formData.paymentMode || 'cash',
-          paymentStatus: finalFeeStatus === 'paid' ? 'paid' : 'pending',
-          paidDate: new Date(),
-          receiptId: `RCP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          patientName: `${(selectedPatient as { firstName: string }).firstName} ${(selectedPatient as { lastName: string }).lastName}`,
+          doctorId,
+          appointmentDate: new Date(formData.date),
+          appointmentTime: formData.time,
+          visitMode: formData.visitMode,
+          slotId: formData.slotId,
+          slotName: slot?.name || "General",
+          tokenNumber,
+          duration: formData.duration,
+          type: formData.type,
+          status: "scheduled",
+          priority: formData.priority,
+          feeStatus: finalFeeStatus,
+          feeAmount: finalFeeAmount,
+          feeType: feeTypeName,
+          isFreeFollowUp: (feeTypeName === 'Free Follow Up') || (feeTypeName === 'Follow Up' && finalFeeAmount === 0),
+          notes: formData.notes,
+          isWalkIn: false,
+          reminderSent: false,
+          feeExempt: formData.feeExempt,
+          feeExemptionReason: formData.feeExemptionReason,
+        } as unknown as Parameters<typeof appointmentDb.create>[0]);
+
+        const aptId = newAppointment.id;
+
+        // Family members take the next tokens in the same slot, each with their own fee;
+        // any advance payment stays with the first patient
+        selectedMembers.forEach(({ patient }, index) => {
+          const memberFee = memberFees.get(patient.id) ?? resolveMemberFee(patient);
+          appointmentDb.create({
+            patientId: patient.id,
+            patientName: `${patient.firstName} ${patient.lastName}`,
+            doctorId,
+            appointmentDate: new Date(formData.date),
+            appointmentTime: formData.time,
+            visitMode: formData.visitMode,
+            slotId: formData.slotId,
+            slotName: slot?.name || "General",
+            tokenNumber: tokenNumber + index + 1,
+            duration: formData.duration,
+            type: memberFee.type,
+            status: "scheduled",
+            priority: formData.priority,
+            feeStatus: memberFee.feeStatus,
+            feeAmount: memberFee.feeAmount,
+            feeType: memberFee.feeTypeName,
+            isFreeFollowUp: memberFee.isFreeFollowUp,
+            notes: formData.notes,
+            isWalkIn: false,
+            reminderSent: false,
+            feeExempt: memberFee.feeExempt,
+            feeExemptionReason: memberFee.feeExemptionReason,
+          } as unknown as Parameters<typeof appointmentDb.create>[0]);
         });
-        console.log('[Appointments] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'appointmentId:', aptId, 'amount:', formData.advancePaid, 'feeTypeName:', feeTypeName, 'feeTypeForHistory:', feeTypeForHistory, 'paymentStatus:', finalFeeStatus === 'paid' ? 'paid' : 'pending');
-      } else {
-        // Update existing entry with advance payment
-        const feeTypeNameLower = feeTypeName.toLowerCase();
-        let feeTypeForHistory: 'first-visit' | 'follow-up' | 'exempt' | 'consultation' | 'medicine' = 'follow-up';
-        
-        if (feeTypeNameLower.includes('new') || feeTypeNameLower.includes('first')) {
-          feeTypeForHistory = 'first-visit';
-        } else if (feeTypeNameLower.includes('follow')) {
-          feeTypeForHistory = 'follow-up';
-        } else if (feeTypeNameLower.includes('exempt')) {
-          feeTypeForHistory = 'exempt';
-        } else if (feeTypeNameLower.includes('medicine')) {
-          feeTypeForHistory = 'medicine';
-        } else {
-          feeTypeForHistory = 'consultation';
+
+        // If advance payment made, record in fee history (check for duplicates first)
+        if (formData.advancePaid > 0 && !formData.feeExempt) {
+          // Check if fee history already exists for this appointment
+          const allFeeHistory = feeHistoryDb.getAll() as FeeHistoryEntry[];
+
+          console.log('[Appointments] Checking for existing fee history. appointmentId:', aptId);
+
+          const existingFeeHistory = allFeeHistory.find((fh) => 
+            fh.appointmentId === aptId
+          );
+
+          console.log('[Appointments] Found existing fee history?', !!existingFeeHistory, existingFeeHistory?.id);
+
+          if (!existingFeeHistory) {
+            const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+            // Use the actual fee type name from fee settings, not hardcoded normalization
+            // The fee type name is already stored in feeTypeName variable
+            let feeTypeForHistory: 'first-visit' | 'follow-up' | 'exempt' | 'consultation' | 'medicine' = 'follow-up';
+
+            // Map common fee type names to standard format
+            const feeTypeNameLower = feeTypeName.toLowerCase();
+            if (feeTypeNameLower.includes('new') || feeTypeNameLower.includes('first')) {
+              feeTypeForHistory = 'first-visit';
+            } else if (feeTypeNameLower.includes('follow')) {
+              feeTypeForHistory = 'follow-up';
+            } else if (feeTypeNameLower.includes('exempt')) {
+              feeTypeForHistory = 'exempt';
+            } else if (feeTypeNameLower.includes('medicine')) {
+              feeTypeForHistory = 'medicine';
+            } else {
+              feeTypeForHistory = 'consultation';
+            }
+
+            feeHistoryDb.create({
+              id: newFeeHistoryId,
+              patientId: selectedPatient.id,
+              appointmentId: aptId,
+              amount: formData.advancePaid,
+              feeType: feeTypeForHistory,
+              paymentMode: formData.paymentMode || 'cash',
+              paymentStatus: finalFeeStatus === 'paid' ? 'paid' : 'pending',
+              paidDate: new Date(),
+              receiptId: `RCP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            });
+            console.log('[Appointments] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'appointmentId:', aptId, 'amount:', formData.advancePaid, 'feeTypeName:', feeTypeName, 'feeTypeForHistory:', feeTypeForHistory, 'paymentStatus:', finalFeeStatus === 'paid' ? 'paid' : 'pending');
+          } else {
+            // Update existing entry with advance payment
+            const feeTypeNameLower = feeTypeName.toLowerCase();
+            let feeTypeForHistory: 'first-visit' | 'follow-up' | 'exempt' | 'consultation' | 'medicine' = 'follow-up';
+
+            if (feeTypeNameLower.includes('new') || feeTypeNameLower.includes('first')) {
+              feeTypeForHistory = 'first-visit';
+            } else if (feeTypeNameLower.includes('follow')) {
+              feeTypeForHistory = 'follow-up';
+            } else if (feeTypeNameLower.includes('exempt')) {
+              feeTypeForHistory = 'exempt';
+            } else if (feeTypeNameLower.includes('medicine')) {
+              feeTypeForHistory = 'medicine';
+            } else {
+              feeTypeForHistory = 'consultation';
+            }
+
+            feeHistoryDb.update(existingFeeHistory.id, {
+              amount: formData.advancePaid,
+              feeType: feeTypeForHistory,
+              paymentStatus: finalFeeStatus === 'paid' ? 'paid' : 'pending',
+            });
+            console.log('[Appointments] ✏️ UPDATED existing fee history entry:', existingFeeHistory.id, 'New amount:', formData.advancePaid, 'feeTypeName:', feeTypeName, 'feeTypeForHistory:', feeTypeForHistory, 'paymentStatus:', finalFeeStatus === 'paid' ? 'paid' : 'pending');
+          }
         }
-        
-        feeHistoryDb.update(existingFeeHistory.id, {
-          amount: formData.advancePaid,
-          feeType: feeTypeForHistory,
-          paymentStatus: finalFeeStatus === 'paid' ? 'paid' : 'pending',
-        });
-        console.log('[Appointments] ✏️ UPDATED existing fee history entry:', existingFeeHistory.id, 'New amount:', formData.advancePaid, 'feeTypeName:', feeTypeName, 'feeTypeForHistory:', feeTypeForHistory, 'paymentStatus:', finalFeeStatus === 'paid' ? 'paid' : 'pending');
-      }
-    }
 
-    // If fee exempt, record exemption
-    if (formData.feeExempt) {
-      // Log exemption in notes
-      appointmentDb.update(aptId, {
-        notes: `${formData.notes}\n[Fee Exempt: ${formData.feeExemptionReason}]`.trim(),
+        // If fee exempt, record exemption
+        if (formData.feeExempt) {
+          // Log exemption in notes
+          appointmentDb.update(aptId, {
+            notes: `${formData.notes}\n[Fee Exempt: ${formData.feeExemptionReason}]`.trim(),
+          });
+        }
       });
+    } catch (error) {
+      console.error("Error booking appointment:", error);
+      alert(saveErrorMessage(error, "Failed to book the appointment. Please try again."));
+      setIsSubmitting(false);
+      return;
     }
 
     router.push("/appointments");
@@ -529,11 +610,45 @@ export default function NewAppointmentPage() {
                     <Button
                       type="button"
                       variant="secondary"
-                      onClick={() => setSelectedPatient(null)}
+                      onClick={() => {
+                        setSelectedPatient(null);
+                        setFamilyMemberIds(new Set());
+                      }}
                     >
                       Change
                     </Button>
                   </div>
+
+                  {/* Family Members */}
+                  {familyMembers.length > 0 && (
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-sm font-medium text-gray-700 mb-2">Also book for {household?.name}</div>
+                      <div className="flex flex-wrap gap-4">
+                        {familyMembers.map(({ patient, relationship }) => (
+                          <label key={patient.id} className="flex items-center gap-2 text-sm">
+                            <input
+                              type="checkbox"
+                              disabled={bookedPatientIds.has(patient.id)}
+                              checked={familyMemberIds.has(patient.id)}
+                              onChange={(e) => {
+                                const next = new Set(familyMemberIds);
+                                if (e.target.checked) next.add(patient.id);
+                                else next.delete(patient.id);
+                                setFamilyMemberIds(next);
+                              }}
+                            />
+                            {patient.firstName} {patient.lastName}
+                            <span className="text-gray-500">({relationshipLabels[relationship]})</span>
+                            <span className="text-gray-500">
+                              {bookedPatientIds.has(patient.id)
+                                ? "· already booked"
+                                : `· ${memberFees.get(patient.id)?.feeTypeName}, ${memberFees.get(patient.id)?.feeAmount} Rs`}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   
                   {/* Last Fee Info */}
                   {lastFeeInfo ? (
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/Badge";
 import { Input } from "@/components/ui/Input";
 import { appointmentDb, patientDb, slotDb } from "@/lib/db/database";
 import { doctorSettingsDb } from "@/lib/db/doctor-panel";
+import { saveErrorMessage } from "@/lib/db/validation";
 import type { Appointment, Slot } from "@/types";
 
 export default function AppointmentsPage() {
@@ -161,13 +162,23 @@ export default function AppointmentsPage() {
   });
 
   const handleCheckIn = (appointmentId: string) => {
-    appointmentDb.checkIn(appointmentId);
+    try {
+      appointmentDb.checkIn(appointmentId);
+    } catch (error) {
+      console.error("Error checking in:", error);
+      alert(saveErrorMessage(error, "Failed to check in. Please try again."));
+    }
     loadAppointments();
   };
 
   const handleCancel = (appointmentId: string) => {
     if (confirm("Cancel this appointment?")) {
-      appointmentDb.cancel(appointmentId, "Cancelled by staff");
+      try {
+        appointmentDb.cancel(appointmentId, "Cancelled by staff");
+      } catch (error) {
+        console.error("Error cancelling appointment:", error);
+        alert(saveErrorMessage(error, "Failed to cancel the appointment. Please try again."));
+      }
       loadAppointments();
     }
   };
@@ -6,13 +6,15 @@ import { Sidebar } from '@/components/layout/Sidebar';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
-import { billingQueueDb, billingReceiptDb, patientDb, appointmentDb, feeHistoryDb, db, medicineBillDb, medicineAmountMemoryDb } from '@/lib/db/database';
-import { pharmacyQueueDb, doctorPrescriptionDb, doctorVisitDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
+import { billingQueueDb, billingReceiptDb, patientDb, appointmentDb, feeHistoryDb, db, medicineBillDb, medicineAmountMemoryDb, visitDb } from '@/lib/db/database';
+import { pharmacyQueueDb, doctorPrescriptionDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
 import type { PharmacyQueueItem, MedicineBill, MedicineBillItem } from '@/lib/db/schema';
 import type { BillingQueueItem, BillingReceipt, BillingReceiptItem } from '@/lib/db/schema';
-import type { DoctorPrescription, DoctorVisit } from '@/lib/db/schema';
-import type { FeeHistoryEntry } from '@/types';
+import type { DoctorPrescription } from '@/lib/db/schema';
+import type { FeeHistoryEntry, Patient, Visit } from '@/types';
 import { generatePrescriptionHTML } from '@/lib/prescription-formatter';
+import { usePrivacy } from '@/lib/auth/auth-context';
+import { saveErrorMessage } from '@/lib/db/validation';
 
 // Types
 interface PatientInfo {
@@ -27,7 +29,7 @@ interface PatientInfo {
 
 interface BillingQueueItemWithDetails extends BillingQueueItem {
   patient?: PatientInfo;
-  visit?: DoctorVisit;
+  visit?: Visit;
   prescriptions?: DoctorPrescription[];
 }
 
@@ -57,6 +59,7 @@ function formatDate(date: Date | string): string {
 
 export default function BillingPage() {
   const searchParams = useSearchParams();
+  const { redactorFor } = usePrivacy();
   const [queueItems, setQueueItems] = useState<BillingQueueItemWithDetails[]>([]);
   const [completedItems, setCompletedItems] = useState<BillingQueueItemWithDetails[]>([]);
   const [selectedItem, setSelectedItem] = useState<BillingQueueItemWithDetails | null>(null);
@@ -227,7 +230,7 @@ export default function BillingPage() {
       // Enrich with patient and visit details
       const enriched = patientPendingFees.map((item) => {
         const p = patientDb.getById(item.patientId) as PatientInfo | undefined;
-        const visit = doctorVisitDb.getById(item.visitId);
+        const visit = visitDb.getById(item.visitId);
         const prescriptions = doctorPrescriptionDb.getByVisit(item.visitId);
         return {
           ...item,
@@ -269,7 +272,7 @@ export default function BillingPage() {
       // Enrich with patient and visit details
       const enriched = allPendingFees.map((item) => {
         const p = patientDb.getById(item.patientId) as PatientInfo | undefined;
-        const visit = doctorVisitDb.getById(item.visitId);
+        const visit = visitDb.getById(item.visitId);
         const prescriptions = doctorPrescriptionDb.getByVisit(item.visitId);
         return {
           ...item,
@@ -513,7 +516,7 @@ export default function BillingPage() {
       if (item.feeType !== 'Self Repeat by P/T') return false;
       
       // Check the visit date, not the billing item creation date
-      const visit = doctorVisitDb.getById(item.visitId);
+      const visit = visitDb.getById(item.visitId);
       if (!visit) return true; // Delete if visit not found
       
       const visitDate = visit.visitDate instanceof Date ? visit.visitDate : new Date(visit.visitDate);
@@ -530,7 +533,7 @@ export default function BillingPage() {
       console.log('[Billing] Cleaning up self-repeat items:', {
         count: oldSelfRepeats.length,
         items: oldSelfRepeats.map(i => {
-          const visit = doctorVisitDb.getById(i.visitId);
+          const visit = visitDb.getById(i.visitId);
           return {
             id: i.id,
             billingCreatedAt: i.createdAt,
@@ -563,7 +566,7 @@ export default function BillingPage() {
     filteredByDate.forEach((item) => {
       if (item.status === 'pending') {
         // SKIP items from prescription module - they have explicit fee type set
-        const visit = doctorVisitDb.getById(item.visitId);
+        const visit = visitDb.getById(item.visitId);
         if (visit && visit.remarksToFrontdesk && visit.remarksToFrontdesk.startsWith('FEE_TYPE:')) {
           console.log('[Billing] Skipping fee update for prescription module item:', item.id, 'Fee type:', visit.remarksToFrontdesk);
           return;
@@ -621,12 +624,17 @@ export default function BillingPage() {
         
         // Update if fee, feeType, or status is different
         if (correctFee !== item.feeAmount || correctFeeType !== item.feeType || correctPaymentStatus !== item.paymentStatus) {
-          billingQueueDb.update(item.id, {
-            feeAmount: correctFee,
-            feeType: correctFeeType,
-            paymentStatus: correctPaymentStatus,
-            netAmount: correctFee - (item.discountAmount || 0)
-          });
+          try {
+            billingQueueDb.update(item.id, {
+              feeAmount: correctFee,
+              feeType: correctFeeType,
+              paymentStatus: correctPaymentStatus,
+              netAmount: correctFee - (item.discountAmount || 0)
+            });
+          } catch (error) {
+            console.error('[Billing] Could not correct fee for item:', item.id, error);
+            return;
+          }
           console.log('[Billing] Updated fee for existing item:', item.id, 'from', item.feeAmount, item.feeType, 'to', correctFee, correctFeeType, 'status:', correctPaymentStatus);
         }
       }
@@ -671,7 +679,7 @@ export default function BillingPage() {
     const enrichItems = (items: BillingQueueItem[]): BillingQueueItemWithDetails[] => {
       return items.map((item) => {
         const patient = patientDb.getById(item.patientId) as PatientInfo | undefined;
-        const visit = doctorVisitDb.getById(item.visitId);
+        const visit = visitDb.getById(item.visitId);
         const prescriptions = doctorPrescriptionDb.getByVisit(item.visitId);
         
         return {
@@ -758,7 +766,7 @@ export default function BillingPage() {
     });
     
     preparedPharmacyItems.forEach((pharmacyItem: PharmacyQueueItem) => {
-      const visit = doctorVisitDb.getById(pharmacyItem.visitId);
+      const visit = visitDb.getById(pharmacyItem.visitId);
       let feeAmount = 300;
       let feeType = 'Consultation';
       let paymentStatus: 'pending' | 'paid' | 'partial' | 'exempt' = 'pending';
@@ -863,7 +871,11 @@ export default function BillingPage() {
           paymentStatus,
         };
         console.log('[Billing] Creating new billing item:', newBillingItem);
-        billingQueueDb.create(newBillingItem);
+        try {
+          billingQueueDb.create(newBillingItem);
+        } catch (error) {
+          console.error('[Billing] Could not create billing item for visit:', pharmacyItem.visitId, error);
+        }
       } else {
         // For self-repeat items, don't update if already exists (allow manual fee editing)
         if (pharmacyItem.source === 'self-repeat') {
@@ -879,15 +891,19 @@ export default function BillingPage() {
         const billingUpdatedAt = (existingBilling.updatedAt instanceof Date) ? existingBilling.updatedAt : new Date(existingBilling.updatedAt || existingBilling.createdAt || new Date());
         const shouldReopen = (existingBilling.status === 'completed') && hasNewMeds && (pharmacyUpdatedAt.getTime() > billingUpdatedAt.getTime());
         
-        billingQueueDb.update(existingBilling.id, {
-          feeAmount,
-          feeType,
-          netAmount: feeAmount - (existingBilling.discountAmount || 0),
-          paymentStatus,
-          updatedAt: new Date(),
-          prescriptionIds: preparedIds,
-          status: shouldReopen ? 'pending' : existingBilling.status,
-        });
+        try {
+          billingQueueDb.update(existingBilling.id, {
+            feeAmount,
+            feeType,
+            netAmount: feeAmount - (existingBilling.discountAmount || 0),
+            paymentStatus,
+            updatedAt: new Date(),
+            prescriptionIds: preparedIds,
+            status: shouldReopen ? 'pending' : existingBilling.status,
+          });
+        } catch (error) {
+          console.error('[Billing] Could not update billing item:', existingBilling.id, error);
+        }
       }
       
       // Keep pharmacy status unchanged (prepared stays visible under Pharmacy's Prepared tab)
@@ -896,20 +912,12 @@ export default function BillingPage() {
     loadQueue();
   }, [loadQueue]);
 
-  // Initial load and interval for pharmacy queue check
+  // Pick up items prepared while this page was closed, then every item
+  // the pharmacy marks as prepared, from this or any other tab
   useEffect(() => {
-    console.log('[Billing] Setting up pharmacy queue check interval');
-    
-    // Set up interval to check for new items from pharmacy
-    const interval = setInterval(() => {
-      console.log('[Billing] Running pharmacy queue check...');
-      checkPharmacyQueue();
-    }, 3000);
+    checkPharmacyQueue();
     
-    return () => {
-      console.log('[Billing] Cleaning up pharmacy queue check interval');
-      clearInterval(interval);
-    };
+    return db.subscribe<PharmacyQueueItem>('pharmacy', (item) => item.status === 'prepared', () => checkPharmacyQueue());
   }, [checkPharmacyQueue]);
 
   // Initial load on mount
@@ -923,7 +931,7 @@ export default function BillingPage() {
       if (item.feeType !== 'Self Repeat by P/T') return false;
       
       // Check the visit date, not the billing item creation date
-      const visit = doctorVisitDb.getById(item.visitId);
+      const visit = visitDb.getById(item.visitId);
       if (!visit) return true; // Delete if visit not found
       
       const visitDate = visit.visitDate instanceof Date ? visit.visitDate : new Date(visit.visitDate);
@@ -940,7 +948,7 @@ export default function BillingPage() {
       console.log('[Billing] Initial cleanup of self-repeat items:', {
         count: oldSelfRepeats.length,
         items: oldSelfRepeats.map(i => {
-          const visit = doctorVisitDb.getById(i.visitId);
+          const visit = visitDb.getById(i.visitId);
           return {
             id: i.id,
             billingCreatedAt: i.createdAt,
@@ -959,18 +967,12 @@ export default function BillingPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   
+  // Reload when billing items, fees or payments change in any tab
   useEffect(() => {
-    const handler = () => {
-      loadQueue();
-    };
-    if (typeof window !== 'undefined') {
-      window.addEventListener('fees-updated', handler as EventListener);
-    }
-    return () => {
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('fees-updated', handler as EventListener);
-      }
-    };
+    const unsubscribers = ['billingQueue', 'billingReceipts', 'medicineBills', 'fees', 'feeHistory'].map((collection) =>
+      db.subscribe(collection, null, () => loadQueue())
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [loadQueue]);
   
   // Track changes in bill data
@@ -1079,105 +1081,115 @@ export default function BillingPage() {
       newPaymentStatus = 'paid';
     }
     
-    // Generate or update receipt
-    let receiptNumber = selectedItem.receiptNumber;
-    
-    if (!existingReceipt && newPaymentStatus === 'paid') {
-      // Generate new receipt
-      receiptNumber = billingQueueDb.generateReceiptNumber();
-      
-      const receiptItems: BillingReceiptItem[] = [
-        {
-          description: selectedItem.feeType,
-          quantity: 1,
-          unitPrice: editingFee.feeAmount,
-          total: editingFee.feeAmount
+    // Shown once the save has committed
+    let receiptToShow: BillingReceipt | undefined;
+    try {
+      db.transaction(() => {
+        // Generate or update receipt
+        let receiptNumber = selectedItem.receiptNumber;
+
+        if (!existingReceipt && newPaymentStatus === 'paid') {
+          // Generate new receipt
+          receiptNumber = billingQueueDb.generateReceiptNumber();
+
+          const receiptItems: BillingReceiptItem[] = [
+            {
+              description: selectedItem.feeType,
+              quantity: 1,
+              unitPrice: editingFee.feeAmount,
+              total: editingFee.feeAmount
+            }
+          ];
+
+          const receipt = {
+            receiptNumber,
+            billingQueueId: selectedItem.id,
+            patientId: selectedItem.patientId,
+            visitId: selectedItem.visitId,
+            items: receiptItems,
+            subtotal: editingFee.feeAmount,
+            discountPercent: editingFee.discountPercent,
+            discountAmount: editingFee.discountAmount,
+            netAmount: editingFee.netAmount,
+            paymentMethod: editingFee.paymentMethod as 'cash' | 'card' | 'upi' | 'cheque' | 'insurance' | 'exempt',
+            paymentStatus: 'paid' as const
+          };
+
+          receiptToShow = billingReceiptDb.create(receipt) as unknown as BillingReceipt;
+
+          console.log('[Billing] Generated new receipt:', receiptNumber);
+        } else if (existingReceipt && feeAmountChanged) {
+          // Update existing receipt with new amounts
+          billingReceiptDb.update(existingReceipt.id, {
+            items: [{
+              description: selectedItem.feeType,
+              quantity: 1,
+              unitPrice: editingFee.feeAmount,
+              total: editingFee.feeAmount
+            }],
+            subtotal: editingFee.feeAmount,
+            discountPercent: editingFee.discountPercent,
+            discountAmount: editingFee.discountAmount,
+            netAmount: editingFee.netAmount,
+            paymentMethod: editingFee.paymentMethod === 'exempt' || editingFee.feeAmount === 0 
+              ? 'exempt' as const 
+              : (editingFee.paymentMethod as 'cash' | 'card' | 'upi' | 'cheque' | 'insurance'),
+            paymentStatus: editingFee.paymentMethod === 'exempt' || editingFee.feeAmount === 0 
+              ? 'exempt' as const 
+              : 'paid' as const
+          });
+
+          receiptToShow = existingReceipt;
+          console.log('[Billing] Updated existing receipt:', existingReceipt.receiptNumber);
+        } else if (existingReceipt) {
+          receiptToShow = existingReceipt;
+        }
+
+        // Update billing queue item
+        billingQueueDb.update(selectedItem.id, {
+          feeAmount: editingFee.feeAmount,
+          discountPercent: editingFee.discountPercent,
+          discountAmount: editingFee.discountAmount,
+          netAmount: editingFee.netAmount,
+          paymentMethod: editingFee.paymentMethod,
+          notes: editingFee.notes,
+          paymentStatus: newPaymentStatus,
+          receiptNumber: receiptNumber,
+          status: newPaymentStatus === 'paid' ? 'paid' : 'pending',
+          paidAt: newPaymentStatus === 'paid' ? new Date() : undefined
+        });
+
+        // Sync fee changes back to appointment
+        if (selectedItem.appointmentId) {
+          appointmentDb.update(selectedItem.appointmentId, {
+            feeAmount: editingFee.feeAmount,
+            feeType: selectedItem.feeType,
+            feeStatus: newPaymentStatus
+          });
+          console.log('[Billing] Synced fee back to appointment:', selectedItem.appointmentId);
+        }
+
+        // Also update the fees table if there's a fee record
+        const feeRecords = (db.getAll('fees') || []) as any[];
+        const relatedFee = feeRecords.find((f) => 
+          f.patientId === selectedItem.patientId && 
+          f.visitId === selectedItem.visitId
+        );
+        if (relatedFee) {
+          db.update('fees', relatedFee.id, {
+            amount: editingFee.feeAmount,
+            paymentStatus: newPaymentStatus,
+            updatedAt: new Date(),
+          });
+          console.log('[Billing] Synced fee to fees table:', relatedFee.id);
         }
-      ];
-      
-      const receipt = {
-        receiptNumber,
-        billingQueueId: selectedItem.id,
-        patientId: selectedItem.patientId,
-        visitId: selectedItem.visitId,
-        items: receiptItems,
-        subtotal: editingFee.feeAmount,
-        discountPercent: editingFee.discountPercent,
-        discountAmount: editingFee.discountAmount,
-        netAmount: editingFee.netAmount,
-        paymentMethod: editingFee.paymentMethod as 'cash' | 'card' | 'upi' | 'cheque' | 'insurance' | 'exempt',
-        paymentStatus: 'paid' as const
-      };
-      
-      const createdReceipt = billingReceiptDb.create(receipt) as unknown as BillingReceipt;
-      setCurrentReceipt(createdReceipt);
-      
-      console.log('[Billing] Generated new receipt:', receiptNumber);
-    } else if (existingReceipt && feeAmountChanged) {
-      // Update existing receipt with new amounts
-      billingReceiptDb.update(existingReceipt.id, {
-        items: [{
-          description: selectedItem.feeType,
-          quantity: 1,
-          unitPrice: editingFee.feeAmount,
-          total: editingFee.feeAmount
-        }],
-        subtotal: editingFee.feeAmount,
-        discountPercent: editingFee.discountPercent,
-        discountAmount: editingFee.discountAmount,
-        netAmount: editingFee.netAmount,
-        paymentMethod: editingFee.paymentMethod === 'exempt' || editingFee.feeAmount === 0 
-          ? 'exempt' as const 
-          : (editingFee.paymentMethod as 'cash' | 'card' | 'upi' | 'cheque' | 'insurance'),
-        paymentStatus: editingFee.paymentMethod === 'exempt' || editingFee.feeAmount === 0 
-          ? 'exempt' as const 
-          : 'paid' as const
-      });
-      
-      setCurrentReceipt(existingReceipt);
-      console.log('[Billing] Updated existing receipt:', existingReceipt.receiptNumber);
-    } else if (existingReceipt) {
-      setCurrentReceipt(existingReceipt);
-    }
-    
-    // Update billing queue item
-    billingQueueDb.update(selectedItem.id, {
-      feeAmount: editingFee.feeAmount,
-      discountPercent: editingFee.discountPercent,
-      discountAmount: editingFee.discountAmount,
-      netAmount: editingFee.netAmount,
-      paymentMethod: editingFee.paymentMethod,
-      notes: editingFee.notes,
-      paymentStatus: newPaymentStatus,
-      receiptNumber: receiptNumber,
-      status: newPaymentStatus === 'paid' ? 'paid' : 'pending',
-      paidAt: newPaymentStatus === 'paid' ? new Date() : undefined
-    });
-    
-    // Sync fee changes back to appointment
-    if (selectedItem.appointmentId) {
-      appointmentDb.update(selectedItem.appointmentId, {
-        feeAmount: editingFee.feeAmount,
-        feeType: selectedItem.feeType,
-        feeStatus: newPaymentStatus
-      });
-      console.log('[Billing] Synced fee back to appointment:', selectedItem.appointmentId);
-    }
-    
-    // Also update the fees table if there's a fee record
-    const feeRecords = (db.getAll('fees') || []) as any[];
-    const relatedFee = feeRecords.find((f) => 
-      f.patientId === selectedItem.patientId && 
-      f.visitId === selectedItem.visitId
-    );
-    if (relatedFee) {
-      db.update('fees', relatedFee.id, {
-        amount: editingFee.feeAmount,
-        paymentStatus: newPaymentStatus,
-        updatedAt: new Date(),
       });
-      console.log('[Billing] Synced fee to fees table:', relatedFee.id);
+    } catch (error) {
+      console.error('[Billing] Error saving fee:', error);
+      alert(saveErrorMessage(error, 'Failed to save the fee. Please try again.'));
+      return;
     }
+    if (receiptToShow) setCurrentReceipt(receiptToShow);
     
     setShowFeePopup(false);
     
@@ -1801,36 +1813,46 @@ Get well soon.
       paymentStatus
     };
     
-    const createdReceipt = billingReceiptDb.create(receipt) as unknown as BillingReceipt;
-    setCurrentReceipt(createdReceipt);
-    
-    // Update billing queue item
-    if (paymentStatus === 'exempt') {
-      billingQueueDb.update(item.id, {
-        status: 'completed',
-        paymentStatus: 'exempt',
-        receiptNumber,
-        paidAt: new Date(), // Add payment timestamp
-        completedAt: new Date() // Add completion timestamp
-      });
-    } else {
-      billingQueueDb.update(item.id, {
-        status: 'paid',
-        paymentStatus: 'paid',
-        paymentMethod,
-        receiptNumber,
-        paidAt: new Date() // Add payment timestamp
-      });
-    }
-    
-    // Sync fee status back to appointment
-    if (item.appointmentId) {
-      appointmentDb.update(item.appointmentId, {
-        feeStatus: paymentStatus === 'exempt' ? 'exempt' : 'paid',
-        feeAmount: item.feeAmount,
-        feeType: item.feeType
+    let createdReceipt: BillingReceipt;
+    try {
+      createdReceipt = db.transaction(() => {
+        const created = billingReceiptDb.create(receipt) as unknown as BillingReceipt;
+
+        // Update billing queue item
+        if (paymentStatus === 'exempt') {
+          billingQueueDb.update(item.id, {
+            status: 'completed',
+            paymentStatus: 'exempt',
+            receiptNumber,
+            paidAt: new Date(), // Add payment timestamp
+            completedAt: new Date() // Add completion timestamp
+          });
+        } else {
+          billingQueueDb.update(item.id, {
+            status: 'paid',
+            paymentStatus: 'paid',
+            paymentMethod,
+            receiptNumber,
+            paidAt: new Date() // Add payment timestamp
+          });
+        }
+
+        // Sync fee status back to appointment
+        if (item.appointmentId) {
+          appointmentDb.update(item.appointmentId, {
+            feeStatus: paymentStatus === 'exempt' ? 'exempt' : 'paid',
+            feeAmount: item.feeAmount,
+            feeType: item.feeType
+          });
+        }
+        return created;
       });
+    } catch (error) {
+      console.error('[Billing] Error generating receipt:', error);
+      alert(saveErrorMessage(error, 'Failed to generate the receipt. Please try again.'));
+      return;
     }
+    setCurrentReceipt(createdReceipt);
     if (typeof window !== 'undefined') {
       window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: item.patientId, visitId: item.visitId } }));
     }
@@ -1940,8 +1962,15 @@ Get well soon.
     billingReceiptDb.markPrinted(currentReceipt.id);
   };
 
-  // Load specific receipt by query param
+  // Load specific receipt, or the queue of a given day (?date=YYYY-MM-DD), by query param
   useEffect(() => {
+    const date = searchParams.get('date');
+    if (date && !isNaN(new Date(`${date}T00:00:00`).getTime())) {
+      const day = new Date(`${date}T00:00:00`);
+      selectedDateRef.current = day;
+      setSelectedDate(day);
+      loadQueue();
+    }
     const receiptId = searchParams.get('receiptId');
     if (receiptId) {
       const rec = billingReceiptDb.getById(receiptId);
@@ -1985,6 +2014,13 @@ Get well soon.
     window.open(whatsappUrl, '_blank');
   };
 
+  // Visit for a prescription leaving the clinic, without the patient's private fields
+  const getShareableVisit = () => {
+    const visit = viewingBillingItem?.visit;
+    if (!visit || !viewingPatient) return visit;
+    return redactorFor(patientDb.getById(viewingPatient.id) as Patient | undefined).visit(visit, 'omit');
+  };
+
   // Send Prescription via WhatsApp
   const handleWhatsAppPrescription = () => {
     if (!viewingPatient || !viewingPrescriptions || viewingPrescriptions.length === 0) {
@@ -1993,7 +2029,7 @@ Get well soon.
     }
 
     const phone = viewingPatient.mobileNumber?.replace(/[^0-9]/g, '');
-    const visit = viewingBillingItem?.visit;
+    const visit = getShareableVisit();
     
     let message = `*Prescription*\n\n`;
     message += `*Patient:* ${viewingPatient.firstName} ${viewingPatient.lastName}\n`;
@@ -2029,7 +2065,7 @@ Get well soon.
       return;
     }
 
-    const visit = viewingBillingItem?.visit;
+    const visit = getShareableVisit();
     const doctorName = 'Dr. [Doctor Name]'; // You can fetch this from settings
 
     const prescriptionHTML = generatePrescriptionHTML(
@@ -2067,7 +2103,7 @@ Get well soon.
       return;
     }
 
-    const visit = viewingBillingItem?.visit;
+    const visit = getShareableVisit();
     const doctorName = 'Dr. [Doctor Name]'; // You can fetch this from settings
 
     const prescriptionHTML = generatePrescriptionHTML(
@@ -2090,99 +2126,107 @@ Get well soon.
 
   // Complete billing
   const handleComplete = (item: BillingQueueItemWithDetails) => {
-    // Check if receipt exists - if not and fee is 0 or exempt, generate it first
-    if (!item.receiptNumber && (item.feeAmount === 0 || item.paymentStatus === 'exempt')) {
-      const receiptNumber = billingQueueDb.generateReceiptNumber();
-      
-      const receiptItems: BillingReceiptItem[] = [
-        {
-          description: item.feeType,
-          quantity: 1,
-          unitPrice: item.feeAmount,
-          total: item.feeAmount
+    try {
+      db.transaction(() => {
+        // Check if receipt exists - if not and fee is 0 or exempt, generate it first
+        if (!item.receiptNumber && (item.feeAmount === 0 || item.paymentStatus === 'exempt')) {
+          const receiptNumber = billingQueueDb.generateReceiptNumber();
+
+          const receiptItems: BillingReceiptItem[] = [
+            {
+              description: item.feeType,
+              quantity: 1,
+              unitPrice: item.feeAmount,
+              total: item.feeAmount
+            }
+          ];
+
+          const receipt = {
+            receiptNumber,
+            billingQueueId: item.id,
+            patientId: item.patientId,
+            visitId: item.visitId,
+            items: receiptItems,
+            subtotal: item.feeAmount,
+            discountPercent: item.discountPercent || 0,
+            discountAmount: item.discountAmount || 0,
+            netAmount: item.netAmount,
+            paymentMethod: 'exempt' as const,
+            paymentStatus: 'exempt' as const
+          };
+
+          billingReceiptDb.create(receipt);
+
+          // Update billing queue item with receipt number and payment timestamp
+          billingQueueDb.update(item.id, {
+            receiptNumber,
+            paymentStatus: 'exempt',
+            paidAt: new Date() // Add timestamp
+          });
+        }
+
+        // Update billing queue with completion timestamp
+        billingQueueDb.update(item.id, {
+          status: 'completed',
+          completedAt: new Date() // Add completion timestamp
+        });
+
+        // Update appointment status
+        if (item.appointmentId) {
+          appointmentDb.update(item.appointmentId, { status: 'completed' });
+        }
+
+        // Create fee history entry - but check for duplicates first (by visitId)
+        const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
+
+        console.log('[Billing] Checking for existing fee history. visitId:', item.visitId, 'appointmentId:', item.appointmentId);
+        console.log('[Billing] Total fee history entries for patient:', existingFeeHistory.filter(fh => fh.patientId === item.patientId).length);
+
+        // Log all existing fee history entries for this patient
+        existingFeeHistory.filter(fh => fh.patientId === item.patientId).forEach(fh => {
+          console.log('[Billing] Existing fee history:', {
+            id: fh.id,
+            visitId: fh.visitId,
+            appointmentId: fh.appointmentId,
+            amount: fh.amount,
+            feeType: fh.feeType
+          });
+        });
+
+        const duplicateFeeHistory = existingFeeHistory.find((fh) => 
+          fh.visitId === item.visitId // Match by visitId only - allows multiple visits same day
+        );
+
+        console.log('[Billing] Found existing fee history?', !!duplicateFeeHistory, duplicateFeeHistory?.id);
+
+        if (!duplicateFeeHistory) {
+          // Use correct fee type
+          const feeTypeForHistory = item.feeAmount === 0 && item.feeType.toLowerCase().includes('follow') 
+            ? 'free-follow-up' 
+            : (item.paymentStatus === 'exempt' ? 'exempt' : (item.feeType === 'New Patient' ? 'first-visit' : 'follow-up'));
+
+          const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+          feeHistoryDb.create({
+            id: newFeeHistoryId,
+            patientId: item.patientId,
+            visitId: item.visitId,
+            appointmentId: item.appointmentId,
+            receiptId: item.receiptNumber || '',
+            feeType: feeTypeForHistory,
+            amount: item.netAmount,
+            paymentMethod: (item.paymentMethod as any) || 'cash',
+            paymentStatus: item.paymentStatus === 'exempt' ? 'exempt' : 'paid',
+            paidDate: new Date()
+          });
+          console.log('[Billing] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'visitId:', item.visitId, 'appointmentId:', item.appointmentId, 'amount:', item.netAmount);
+        } else {
+          console.log('[Billing] ⏭️ SKIPPED duplicate fee history entry for visitId:', item.visitId, 'Existing entry:', duplicateFeeHistory.id);
         }
-      ];
-      
-      const receipt = {
-        receiptNumber,
-        billingQueueId: item.id,
-        patientId: item.patientId,
-        visitId: item.visitId,
-        items: receiptItems,
-        subtotal: item.feeAmount,
-        discountPercent: item.discountPercent || 0,
-        discountAmount: item.discountAmount || 0,
-        netAmount: item.netAmount,
-        paymentMethod: 'exempt' as const,
-        paymentStatus: 'exempt' as const
-      };
-      
-      billingReceiptDb.create(receipt);
-      
-      // Update billing queue item with receipt number and payment timestamp
-      billingQueueDb.update(item.id, {
-        receiptNumber,
-        paymentStatus: 'exempt',
-        paidAt: new Date() // Add timestamp
-      });
-    }
-    
-    // Update billing queue with completion timestamp
-    billingQueueDb.update(item.id, {
-      status: 'completed',
-      completedAt: new Date() // Add completion timestamp
-    });
-    
-    // Update appointment status
-    if (item.appointmentId) {
-      appointmentDb.update(item.appointmentId, { status: 'completed' });
-    }
-    
-    // Create fee history entry - but check for duplicates first (by visitId)
-    const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
-    
-    console.log('[Billing] Checking for existing fee history. visitId:', item.visitId, 'appointmentId:', item.appointmentId);
-    console.log('[Billing] Total fee history entries for patient:', existingFeeHistory.filter(fh => fh.patientId === item.patientId).length);
-    
-    // Log all existing fee history entries for this patient
-    existingFeeHistory.filter(fh => fh.patientId === item.patientId).forEach(fh => {
-      console.log('[Billing] Existing fee history:', {
-        id: fh.id,
-        visitId: fh.visitId,
-        appointmentId: fh.appointmentId,
-        amount: fh.amount,
-        feeType: fh.feeType
-      });
-    });
-    
-    const duplicateFeeHistory = existingFeeHistory.find((fh) => 
-      fh.visitId === item.visitId // Match by visitId only - allows multiple visits same day
-    );
-    
-    console.log('[Billing] Found existing fee history?', !!duplicateFeeHistory, duplicateFeeHistory?.id);
-    
-    if (!duplicateFeeHistory) {
-      // Use correct fee type
-      const feeTypeForHistory = item.feeAmount === 0 && item.feeType.toLowerCase().includes('follow') 
-        ? 'free-follow-up' 
-        : (item.paymentStatus === 'exempt' ? 'exempt' : (item.feeType === 'New Patient' ? 'first-visit' : 'follow-up'));
-      
-      const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      feeHistoryDb.create({
-        id: newFeeHistoryId,
-        patientId: item.patientId,
-        visitId: item.visitId,
-        appointmentId: item.appointmentId,
-        receiptId: item.receiptNumber || '',
-        feeType: feeTypeForHistory,
-        amount: item.netAmount,
-        paymentMethod: (item.paymentMethod as any) || 'cash',
-        paymentStatus: item.paymentStatus === 'exempt' ? 'exempt' : 'paid',
-        paidDate: new Date()
       });
-      console.log('[Billing] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'visitId:', item.visitId, 'appointmentId:', item.appointmentId, 'amount:', item.netAmount);
-    } else {
-      console.log('[Billing] ⏭️ SKIPPED duplicate fee history entry for visitId:', item.visitId, 'Existing entry:', duplicateFeeHistory.id);
+    } catch (error) {
+      console.error('[Billing] Error completing bill:', error);
+      alert(saveErrorMessage(error, 'Failed to complete the bill. Please try again.'));
+      return;
     }
     
     loadQueue();
@@ -2191,9 +2235,15 @@ Get well soon.
   // Reopen completed billing
   const handleReopen = (item: BillingQueueItemWithDetails) => {
     // Update billing queue - set status back to paid (receipt generated but not completed)
-    billingQueueDb.update(item.id, {
-      status: 'paid'
-    });
+    try {
+      billingQueueDb.update(item.id, {
+        status: 'paid'
+      });
+    } catch (error) {
+      console.error('[Billing] Error reopening bill:', error);
+      alert(saveErrorMessage(error, 'Failed to reopen. Please try again.'));
+      return;
+    }
     
     loadQueue();
   };
@@ -2626,7 +2676,7 @@ Get well soon.
                                       createdAt: bill.createdAt,
                                       updatedAt: bill.updatedAt,
                                       patient,
-                                      visit: doctorVisitDb.getById(bill.visitId),
+                                      visit: visitDb.getById(bill.visitId),
                                       prescriptions: bill.items.map(i => i.prescriptionId).map(id => 
                                         doctorPrescriptionDb.getById(id)
                                       ).filter(Boolean) as any[]
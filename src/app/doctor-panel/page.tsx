@@ -7,12 +7,18 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import { patientDb, appointmentDb, billingQueueDb, feeDb } from '@/lib/db/database';
+import { VisitHistoryModal } from '@/components/ui/VisitHistoryModal';
+import { FamilyCard } from '@/components/ui/FamilyCard';
+import { VoiceNotes } from '@/components/ui/VoiceNotes';
+import { patientDb, appointmentDb, billingQueueDb, feeDb, visitDb, archiveDb } from '@/lib/db/database';
+import { mergeArchived } from '@/lib/db/archive';
 import { feeHistoryDb } from '@/lib/db/database';
-import { doctorVisitDb, doctorPrescriptionDb, pharmacyQueueDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
+import { doctorPrescriptionDb, pharmacyQueueDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
 import { db } from '@/lib/db/database';
-import type { Patient, Appointment, FeeHistoryEntry } from '@/types';
-import type { DoctorVisit, PharmacyQueueItem } from '@/lib/db/schema';
+import type { Patient, Appointment, FeeHistoryEntry, Visit } from '@/types';
+import type { PharmacyQueueItem } from '@/lib/db/schema';
+import { saveErrorMessage } from '@/lib/db/validation';
+import { usePrivacy } from '@/lib/auth/auth-context';
 
 // Local types for Doctor Panel (simpler for UI state)
 interface PatientRecord {
@@ -25,22 +31,6 @@ interface PatientRecord {
   gender?: string;
 }
 
-interface Visit {
-  id: string;
-  patientId: string;
-  visitDate: Date;
-  visitNumber: number;
-  chiefComplaint?: string;
-  caseText?: string;
-  diagnosis?: string;
-  advice?: string;
-  testsRequired?: string;
-  nextVisit?: Date;
-  prognosis?: string;
-  remarksToFrontdesk?: string;
-  status: string;
-}
-
 interface Prescription {
   medicine: string;
   potency?: string;
@@ -337,6 +327,8 @@ function DoctorPanelContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const patientIdFromUrl = searchParams.get('patientId');
+  const visitIdFromUrl = searchParams.get('visitId');
+  const { redactorFor } = usePrivacy();
 
   // State
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -792,6 +784,7 @@ function DoctorPanelContent() {
   
   // Past visits popup state
   const [showPastVisitsPopup, setShowPastVisitsPopup] = useState(false);
+  const [historyVisitId, setHistoryVisitId] = useState<string | null>(null);
   const [pastVisitPrescriptions, setPastVisitPrescriptions] = useState<Record<string, Prescription[]>>({});
   
   // Refs
@@ -904,7 +897,7 @@ function DoctorPanelContent() {
         appointmentDb.update(todayAppointment.id, { status: 'in-progress' });
       }
       // Load any active visit and hydrate symptoms
-      const activeVisit = doctorVisitDb.getActiveByPatient(patientData.id);
+      const activeVisit = visitDb.getActiveByPatient(patientData.id);
       if (activeVisit) {
         const text = activeVisit.caseText || '';
         setCaseText(text);
@@ -948,8 +941,34 @@ function DoctorPanelContent() {
       setLastFeeInfo(null);
     }
 
-    // Load actual past visits from database first to calculate visit number
-    const savedVisits = doctorVisitDb.getByPatient(id) as DoctorVisit[];
+    // Load actual past visits from database first to calculate visit number;
+    // visits older than the archive cutoff come from the archive
+    const archived = await archiveDb.getPatientHistory(id).catch((error) => {
+      console.error('[DoctorPanel] Could not read archived visits:', error);
+      return { visits: [], prescriptions: [] };
+    });
+    const savedVisits = mergeArchived(visitDb.getByPatient(id) as Visit[], archived.visits);
+    if (archived.prescriptions.length > 0) {
+      const archivedRx: Record<string, Prescription[]> = {};
+      archived.prescriptions.forEach((rx) => {
+        archivedRx[rx.visitId] = [...(archivedRx[rx.visitId] || []), {
+          medicine: rx.medicine,
+          potency: rx.potency,
+          quantity: rx.quantity,
+          doseForm: rx.doseForm,
+          dosePattern: rx.dosePattern,
+          frequency: rx.frequency,
+          duration: rx.duration,
+          durationDays: rx.durationDays,
+          bottles: rx.bottles,
+          instructions: rx.instructions,
+          isCombination: rx.isCombination,
+          combinationName: rx.combinationName,
+          combinationContent: rx.combinationContent,
+        }];
+      });
+      setPastVisitPrescriptions((prev) => ({ ...archivedRx, ...prev }));
+    }
     
     // Sort by date (oldest first) to assign correct visit numbers
     const sortedVisits = [...savedVisits]
@@ -962,19 +981,8 @@ function DoctorPanelContent() {
     
     // Assign visit numbers based on chronological order
     const formattedVisits: Visit[] = sortedVisits.map((v, index) => ({
-      id: v.id,
-      patientId: v.patientId,
-      visitDate: v.visitDate,
+      ...v,
       visitNumber: index + 1, // Assign visit number based on order
-      chiefComplaint: v.chiefComplaint,
-      caseText: v.caseText,
-      diagnosis: v.diagnosis,
-      advice: v.advice,
-      testsRequired: v.testsRequired,
-      nextVisit: v.nextVisit,
-      prognosis: v.prognosis,
-      remarksToFrontdesk: v.remarksToFrontdesk,
-      status: v.status,
     }));
     
     // Sort for display (newest first)
@@ -984,26 +992,16 @@ function DoctorPanelContent() {
     setPastVisits(displayVisits);
     
     const nextVisitNumber = formattedVisits.length + 1;
-    const activeVisit = doctorVisitDb.getActiveByPatient(id) as DoctorVisit | undefined;
+    const activeVisit = visitDb.getActiveByPatient(id) as Visit | undefined;
     const todayISO = new Date().toISOString().split('T')[0];
-    const todaysLocked = (doctorVisitDb.getByPatient(id) as DoctorVisit[]).find((v) => {
+    const todaysLocked = (visitDb.getByPatient(id) as Visit[]).find((v) => {
       const d = (v.visitDate instanceof Date ? v.visitDate : new Date(v.visitDate)).toISOString().split('T')[0];
       return d === todayISO && (v.status === 'locked' || v.status === 'completed');
     });
     if (activeVisit && !todaysLocked) {
       setCurrentVisit({
-        id: activeVisit.id,
-        patientId: activeVisit.patientId,
-        visitDate: activeVisit.visitDate,
+        ...activeVisit,
         visitNumber: nextVisitNumber,
-        chiefComplaint: activeVisit.chiefComplaint,
-        caseText: activeVisit.caseText,
-        diagnosis: activeVisit.diagnosis,
-        advice: activeVisit.advice,
-        testsRequired: activeVisit.testsRequired,
-        nextVisit: activeVisit.nextVisit,
-        prognosis: activeVisit.prognosis,
-        remarksToFrontdesk: activeVisit.remarksToFrontdesk,
         status: 'active',
       });
       setSavedVisitId(activeVisit.id);
@@ -1054,7 +1052,11 @@ function DoctorPanelContent() {
         patientId: id,
         visitDate: new Date(),
         visitNumber: nextVisitNumber,
+        mode: 'in-person',
         status: 'active',
+        isSelfRepeat: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
       };
       setCurrentVisit(mockActiveVisit);
     }
@@ -1281,6 +1283,12 @@ function DoctorPanelContent() {
   const removeSymptom = (index: number) => {
     setSymptoms((prev) => prev.filter((_, i) => i !== index));
   };
+
+  // A voice note transcript becomes one symptom per line
+  const insertTranscript = (transcript: string) => {
+    const lines = transcript.split('\n').map((line) => line.trim()).filter(Boolean);
+    setSymptoms((prev) => [...prev, ...lines]);
+  };
   const addCaseLine = (line: string) => {
     setCaseText(prev => prev + (prev ? '\n' : '') + line);
     setTimeout(() => {
@@ -2009,258 +2017,267 @@ function DoctorPanelContent() {
     
     console.log('[DoctorPanel] handleSaveFee - Found todayAppointment:', todayAppointment?.id, 'feeAmount:', todayAppointment?.feeAmount);
     
-    // Update or create fee record
-    let feeRecordId = currentAppointmentFee?.feeId;
-    
-    if (feeRecordId) {
-      // Update existing fee record
-      db.update('fees', feeRecordId, {
-        amount: feeAmountNum,
-        feeType: feeType,
-        paymentStatus: paymentStatus,
-        discountPercent: discountPercentNum,
-        discountReason: discountReason,
-        updatedAt: new Date(),
-      });
-    } else {
-      // Create new fee record
-      const newFee = db.create('fees', {
-        patientId: patient.id,
-        amount: feeAmountNum,
-        feeType: feeType,
-        paymentStatus: paymentStatus,
-        discountPercent: discountPercentNum,
-        discountReason: discountReason,
-        paymentMethod: '',
-        notes: '',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-      feeRecordId = newFee.id;
-    }
-    
-    // Update the appointment with new fee information
-    if (todayAppointment) {
-      appointmentDb.update(todayAppointment.id, {
-        feeStatus: paymentStatus,
-        feeAmount: feeAmountNum,
-        feeType: feeType,
-        feeId: feeRecordId,
-        isFreeFollowUp: (feeType === 'Free Follow Up') || (feeType === 'Follow Up' && feeAmountNum === 0),
-      });
-    }
-    
-    // Sync fee changes to billing queue if patient is already there
-    const existingBillingItems = billingQueueDb.getAll() as any[];
-    const patientBillingItem = existingBillingItems.find(
-      (item) => item.patientId === patient.id && 
-                (item.status === 'pending' || item.status === 'paid') &&
-                (item.appointmentId === todayAppointment?.id || 
-                 (todayAppointment && new Date(item.createdAt).toDateString() === new Date().toDateString()))
-    );
-    
-    if (patientBillingItem) {
-      billingQueueDb.update(patientBillingItem.id, {
-        feeAmount: feeAmountNum,
-        feeType: feeType,
-        netAmount: feeAmountNum - (patientBillingItem.discountAmount || 0),
-        paymentStatus: paymentStatus,
-        updatedAt: new Date(),
+    // Fee state and fees-updated listeners hear about the fee only once it has committed
+    let savedFeeId: string | undefined;
+    const updatedVisitIds: (string | undefined)[] = [];
+    try {
+      savedFeeId = db.transaction(() => {
+        // Update or create fee record
+        let feeRecordId = currentAppointmentFee?.feeId;
+
+        if (feeRecordId) {
+          // Update existing fee record
+          db.update('fees', feeRecordId, {
+            amount: feeAmountNum,
+            feeType: feeType,
+            paymentStatus: paymentStatus,
+            discountPercent: discountPercentNum,
+            discountReason: discountReason,
+            updatedAt: new Date(),
+          });
+        } else {
+          // Create new fee record
+          const newFee = db.create('fees', {
+            patientId: patient.id,
+            amount: feeAmountNum,
+            feeType: feeType,
+            paymentStatus: paymentStatus,
+            discountPercent: discountPercentNum,
+            discountReason: discountReason,
+            paymentMethod: '',
+            notes: '',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          });
+          feeRecordId = newFee.id;
+        }
+
+        // Update the appointment with new fee information
+        if (todayAppointment) {
+          appointmentDb.update(todayAppointment.id, {
+            feeStatus: paymentStatus,
+            feeAmount: feeAmountNum,
+            feeType: feeType,
+            feeId: feeRecordId,
+            isFreeFollowUp: (feeType === 'Free Follow Up') || (feeType === 'Follow Up' && feeAmountNum === 0),
+          });
+        }
+
+        // Sync fee changes to billing queue if patient is already there
+        const existingBillingItems = billingQueueDb.getAll() as any[];
+        const patientBillingItem = existingBillingItems.find(
+          (item) => item.patientId === patient.id && 
+                    (item.status === 'pending' || item.status === 'paid') &&
+                    (item.appointmentId === todayAppointment?.id || 
+                     (todayAppointment && new Date(item.createdAt).toDateString() === new Date().toDateString()))
+        );
+
+        if (patientBillingItem) {
+          billingQueueDb.update(patientBillingItem.id, {
+            feeAmount: feeAmountNum,
+            feeType: feeType,
+            netAmount: feeAmountNum - (patientBillingItem.discountAmount || 0),
+            paymentStatus: paymentStatus,
+            updatedAt: new Date(),
+          });
+          console.log('[DoctorPanel] Synced fee to billing queue:', patientBillingItem.id);
+        }
+
+        updatedVisitIds.push(todayAppointment?.id);
+
+        if (paymentStatus === 'paid') {
+          // Add to fee history when paid
+          const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
+
+          // CLEANUP: Remove duplicate fee history entries for this VISIT (not just today)
+          // A patient can have multiple visits same day, so we match by visitId or appointmentId
+
+          console.log('[DoctorPanel] Starting duplicate cleanup check...');
+          console.log('[DoctorPanel] Current criteria - savedVisitId:', savedVisitId, 'appointmentId:', todayAppointment?.id);
+
+          const visitEntries = existingFeeHistory.filter((fh) => {
+            if (fh.patientId !== patient.id) return false;
+
+            // Match by visitId (if we have one)
+            if (savedVisitId && fh.visitId === savedVisitId) {
+              console.log('[DoctorPanel] Found entry by visitId:', fh.id, 'feeType:', fh.feeType);
+              return true;
+            }
+
+            // Match by appointmentId (if we have one)
+            if (todayAppointment?.id && fh.appointmentId === todayAppointment.id) {
+              console.log('[DoctorPanel] Found entry by appointmentId:', fh.id, 'feeType:', fh.feeType);
+              return true;
+            }
+
+            return false;
+          });
+
+          console.log('[DoctorPanel] Found', visitEntries.length, 'fee history entries for this visit');
+
+          // If multiple entries exist for this visit, keep only one
+          if (visitEntries.length > 1) {
+            console.log('[DoctorPanel] ⚠️ Multiple fee history entries detected for this visit. Cleaning up...');
+
+            // Sort by: 1) Has both visitId and appointmentId (best), 2) Has appointmentId, 3) Creation time (oldest first)
+            const sorted = [...visitEntries].sort((a, b) => {
+              const aScore = (a.visitId ? 2 : 0) + (a.appointmentId ? 1 : 0);
+              const bScore = (b.visitId ? 2 : 0) + (b.appointmentId ? 1 : 0);
+              if (aScore !== bScore) return bScore - aScore; // Higher score first
+              const dateA = new Date(a.paidDate).getTime();
+              const dateB = new Date(b.paidDate).getTime();
+              return dateA - dateB; // Oldest first
+            });
+
+            // Keep the first one, delete the rest
+            const toKeep = sorted[0];
+            const toDelete = sorted.slice(1);
+
+            console.log('[DoctorPanel] Keeping entry:', toKeep.id, 'Deleting:', toDelete.map(e => e.id));
+
+            toDelete.forEach(entry => {
+              db.delete('feeHistory', entry.id);
+              console.log('[DoctorPanel] 🗑️ Deleted duplicate fee history entry:', entry.id);
+            });
+
+            // Update the kept entry with latest values
+            const normalizedFeeType = normalizeFeeType(feeType);
+
+            db.update('feeHistory', toKeep.id, {
+              amount: feeAmountNum,
+              feeType: normalizedFeeType,
+              visitId: savedVisitId || toKeep.visitId,
+              appointmentId: todayAppointment?.id || toKeep.appointmentId,
+              paymentStatus: 'paid',
+              updatedAt: new Date(),
+            });
+            console.log('[DoctorPanel] ✏️ Updated kept entry:', toKeep.id, 'with latest values, feeType:', normalizedFeeType);
+
+            updatedVisitIds.push(savedVisitId || todayAppointment?.id);
+          } else {
+
+          // Find existing fee history by multiple criteria
+          console.log('[DoctorPanel] ========== DUPLICATE DETECTION START ==========');
+          console.log('[DoctorPanel] Looking for existing fee history. Criteria:', {
+            patientId: patient.id,
+            savedVisitId,
+            appointmentId: todayAppointment?.id,
+            existingFeeHistoryCount: existingFeeHistory.filter(fh => fh.patientId === patient.id).length
+          });
+
+          // Log all existing fee history entries for this patient
+          console.log('[DoctorPanel] All existing fee history entries for patient:');
+          existingFeeHistory.filter(fh => fh.patientId === patient.id).forEach(fh => {
+            console.log('  -', {
+              id: fh.id,
+              visitId: fh.visitId,
+              appointmentId: fh.appointmentId,
+              amount: fh.amount,
+              feeType: fh.feeType,
+              paymentStatus: fh.paymentStatus
+            });
+          });
+
+          // CRITICAL FIX: Match by appointmentId OR by today's date (for same-day entries)
+          const today = new Date();
+          today.setHours(0, 0, 0, 0);
+          const todayEnd = new Date(today);
+          todayEnd.setHours(23, 59, 59, 999);
+
+          const todayFeeHistory = existingFeeHistory.find((fh) => {
+            if (fh.patientId !== patient.id) return false;
+
+            // Match by appointmentId (most reliable)
+            if (todayAppointment?.id && fh.appointmentId === todayAppointment.id) {
+              console.log('[DoctorPanel] ✓ Match found by appointmentId:', fh.id, 'appointmentId:', todayAppointment.id);
+              return true;
+            }
+
+            // Match by visitId
+            if (savedVisitId && fh.visitId === savedVisitId) {
+              console.log('[DoctorPanel] ✓ Match found by savedVisitId:', fh.id, 'visitId:', savedVisitId);
+              return true;
+            }
+
+            // Match by today's date (fallback for entries created today without visitId)
+            const fhDate = new Date(fh.paidDate);
+            if (fhDate >= today && fhDate <= todayEnd && !fh.visitId && !savedVisitId) {
+              console.log('[DoctorPanel] ✓ Match found by today date (no visitId):', fh.id);
+              return true;
+            }
+
+            return false;
+          });
+
+          console.log('[DoctorPanel] Found existing fee history?', !!todayFeeHistory, todayFeeHistory?.id);
+          console.log('[DoctorPanel] ========== DUPLICATE DETECTION END ==========');
+
+          if (!todayFeeHistory) {
+            const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            const normalizedFeeType = normalizeFeeType(feeType);
+
+            feeHistoryDb.create({
+              id: newFeeHistoryId,
+              patientId: patient.id,
+              visitId: savedVisitId || todayAppointment?.id,
+              appointmentId: todayAppointment?.id,
+              receiptId: `RCP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+              feeType: normalizedFeeType,
+              amount: feeAmountNum,
+              paymentMethod: 'cash',
+              paymentStatus: 'paid',
+              paidDate: new Date(),
+              daysSinceLastFee: lastFeeInfo ? lastFeeInfo.daysAgo : undefined,
+            });
+            console.log('[DoctorPanel] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'visitId:', savedVisitId, 'appointmentId:', todayAppointment?.id, 'amount:', feeAmountNum, 'feeType:', normalizedFeeType);
+          } else {
+            // Update existing fee history entry instead of creating duplicate
+            const normalizedFeeType = normalizeFeeType(feeType);
+
+            db.update('feeHistory', todayFeeHistory.id, {
+              amount: feeAmountNum,
+              feeType: normalizedFeeType,
+              visitId: savedVisitId || todayFeeHistory.visitId, // Update visitId if we have it now
+              appointmentId: todayAppointment?.id || todayFeeHistory.appointmentId, // Ensure appointmentId is set
+              paymentStatus: 'paid', // Ensure it's marked as paid
+              updatedAt: new Date(),
+            });
+            console.log('[DoctorPanel] ✏️ UPDATED existing fee history entry:', todayFeeHistory.id, 'New amount:', feeAmountNum, 'New feeType:', normalizedFeeType, 'visitId:', savedVisitId, 'paymentStatus: paid');
+          }
+          }
+        }
+
+        return feeRecordId;
       });
-      console.log('[DoctorPanel] Synced fee to billing queue:', patientBillingItem.id);
+    } catch (error) {
+      console.error('Error saving fee:', error);
+      alert(saveErrorMessage(error, 'Could not save the fee. Please try again.'));
+      return;
     }
-    
+
     if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: patient.id, visitId: todayAppointment?.id } }));
+      updatedVisitIds.forEach((visitId) => {
+        window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: patient.id, visitId } }));
+      });
     }
-    
+
     // Update the visible fee info immediately
     setCurrentAppointmentFee(prev => prev ? {
       ...prev,
-      feeId: feeRecordId,
+      feeId: savedFeeId,
       feeAmount: feeAmountNum,
       feeType: feeType,
       feeStatus: paymentStatus,
     } : null);
-    
+
     // Update last fee info based on payment status
-    if (paymentStatus === 'paid') {
+    if (paymentStatus === 'paid' || paymentStatus === 'pending') {
       setLastFeeInfo({
         date: new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
         amount: feeAmountNum,
         daysAgo: 0,
         feeType: feeType,
-        status: 'paid',
-      });
-      
-      // Add to fee history when paid
-      const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
-      
-      // CLEANUP: Remove duplicate fee history entries for this VISIT (not just today)
-      // A patient can have multiple visits same day, so we match by visitId or appointmentId
-      
-      console.log('[DoctorPanel] Starting duplicate cleanup check...');
-      console.log('[DoctorPanel] Current criteria - savedVisitId:', savedVisitId, 'appointmentId:', todayAppointment?.id);
-      
-      const visitEntries = existingFeeHistory.filter((fh) => {
-        if (fh.patientId !== patient.id) return false;
-        
-        // Match by visitId (if we have one)
-        if (savedVisitId && fh.visitId === savedVisitId) {
-          console.log('[DoctorPanel] Found entry by visitId:', fh.id, 'feeType:', fh.feeType);
-          return true;
-        }
-        
-        // Match by appointmentId (if we have one)
-        if (todayAppointment?.id && fh.appointmentId === todayAppointment.id) {
-          console.log('[DoctorPanel] Found entry by appointmentId:', fh.id, 'feeType:', fh.feeType);
-          return true;
-        }
-        
-        return false;
-      });
-      
-      console.log('[DoctorPanel] Found', visitEntries.length, 'fee history entries for this visit');
-      
-      // If multiple entries exist for this visit, keep only one
-      if (visitEntries.length > 1) {
-        console.log('[DoctorPanel] ⚠️ Multiple fee history entries detected for this visit. Cleaning up...');
-        
-        // Sort by: 1) Has both visitId and appointmentId (best), 2) Has appointmentId, 3) Creation time (oldest first)
-        const sorted = [...visitEntries].sort((a, b) => {
-          const aScore = (a.visitId ? 2 : 0) + (a.appointmentId ? 1 : 0);
-          const bScore = (b.visitId ? 2 : 0) + (b.appointmentId ? 1 : 0);
-          if (aScore !== bScore) return bScore - aScore; // Higher score first
-          const dateA = new Date(a.paidDate).getTime();
-          const dateB = new Date(b.paidDate).getTime();
-          return dateA - dateB; // Oldest first
-        });
-        
-        // Keep the first one, delete the rest
-        const toKeep = sorted[0];
-        const toDelete = sorted.slice(1);
-        
-        console.log('[DoctorPanel] Keeping entry:', toKeep.id, 'Deleting:', toDelete.map(e => e.id));
-        
-        toDelete.forEach(entry => {
-          db.delete('feeHistory', entry.id);
-          console.log('[DoctorPanel] 🗑️ Deleted duplicate fee history entry:', entry.id);
-        });
-        
-        // Update the kept entry with latest values
-        const normalizedFeeType = normalizeFeeType(feeType);
-        
-        db.update('feeHistory', toKeep.id, {
-          amount: feeAmountNum,
-          feeType: normalizedFeeType,
-          visitId: savedVisitId || toKeep.visitId,
-          appointmentId: todayAppointment?.id || toKeep.appointmentId,
-          paymentStatus: 'paid',
-          updatedAt: new Date(),
-        });
-        console.log('[DoctorPanel] ✏️ Updated kept entry:', toKeep.id, 'with latest values, feeType:', normalizedFeeType);
-        
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: patient.id, visitId: savedVisitId || todayAppointment?.id } }));
-        }
-      } else {
-      
-      // Find existing fee history by multiple criteria
-      console.log('[DoctorPanel] ========== DUPLICATE DETECTION START ==========');
-      console.log('[DoctorPanel] Looking for existing fee history. Criteria:', {
-        patientId: patient.id,
-        savedVisitId,
-        appointmentId: todayAppointment?.id,
-        existingFeeHistoryCount: existingFeeHistory.filter(fh => fh.patientId === patient.id).length
-      });
-      
-      // Log all existing fee history entries for this patient
-      console.log('[DoctorPanel] All existing fee history entries for patient:');
-      existingFeeHistory.filter(fh => fh.patientId === patient.id).forEach(fh => {
-        console.log('  -', {
-          id: fh.id,
-          visitId: fh.visitId,
-          appointmentId: fh.appointmentId,
-          amount: fh.amount,
-          feeType: fh.feeType,
-          paymentStatus: fh.paymentStatus
-        });
-      });
-      
-      // CRITICAL FIX: Match by appointmentId OR by today's date (for same-day entries)
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(today);
-      todayEnd.setHours(23, 59, 59, 999);
-      
-      const todayFeeHistory = existingFeeHistory.find((fh) => {
-        if (fh.patientId !== patient.id) return false;
-        
-        // Match by appointmentId (most reliable)
-        if (todayAppointment?.id && fh.appointmentId === todayAppointment.id) {
-          console.log('[DoctorPanel] ✓ Match found by appointmentId:', fh.id, 'appointmentId:', todayAppointment.id);
-          return true;
-        }
-        
-        // Match by visitId
-        if (savedVisitId && fh.visitId === savedVisitId) {
-          console.log('[DoctorPanel] ✓ Match found by savedVisitId:', fh.id, 'visitId:', savedVisitId);
-          return true;
-        }
-        
-        // Match by today's date (fallback for entries created today without visitId)
-        const fhDate = new Date(fh.paidDate);
-        if (fhDate >= today && fhDate <= todayEnd && !fh.visitId && !savedVisitId) {
-          console.log('[DoctorPanel] ✓ Match found by today date (no visitId):', fh.id);
-          return true;
-        }
-        
-        return false;
-      });
-      
-      console.log('[DoctorPanel] Found existing fee history?', !!todayFeeHistory, todayFeeHistory?.id);
-      console.log('[DoctorPanel] ========== DUPLICATE DETECTION END ==========');
-      
-      if (!todayFeeHistory) {
-        const newFeeHistoryId = `fh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const normalizedFeeType = normalizeFeeType(feeType);
-        
-        feeHistoryDb.create({
-          id: newFeeHistoryId,
-          patientId: patient.id,
-          visitId: savedVisitId || todayAppointment?.id,
-          appointmentId: todayAppointment?.id,
-          receiptId: `RCP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          feeType: normalizedFeeType,
-          amount: feeAmountNum,
-          paymentMethod: 'cash',
-          paymentStatus: 'paid',
-          paidDate: new Date(),
-          daysSinceLastFee: lastFeeInfo ? lastFeeInfo.daysAgo : undefined,
-        });
-        console.log('[DoctorPanel] ✅ CREATED NEW fee history entry:', newFeeHistoryId, 'visitId:', savedVisitId, 'appointmentId:', todayAppointment?.id, 'amount:', feeAmountNum, 'feeType:', normalizedFeeType);
-      } else {
-        // Update existing fee history entry instead of creating duplicate
-        const normalizedFeeType = normalizeFeeType(feeType);
-        
-        db.update('feeHistory', todayFeeHistory.id, {
-          amount: feeAmountNum,
-          feeType: normalizedFeeType,
-          visitId: savedVisitId || todayFeeHistory.visitId, // Update visitId if we have it now
-          appointmentId: todayAppointment?.id || todayFeeHistory.appointmentId, // Ensure appointmentId is set
-          paymentStatus: 'paid', // Ensure it's marked as paid
-          updatedAt: new Date(),
-        });
-        console.log('[DoctorPanel] ✏️ UPDATED existing fee history entry:', todayFeeHistory.id, 'New amount:', feeAmountNum, 'New feeType:', normalizedFeeType, 'visitId:', savedVisitId, 'paymentStatus: paid');
-      }
-      }
-    } else if (paymentStatus === 'pending') {
-      setLastFeeInfo({
-        date: new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
-        amount: feeAmountNum,
-        daysAgo: 0,
-        feeType: feeType,
-        status: 'pending',
+        status: paymentStatus,
       });
     } else if (paymentStatus === 'exempt') {
       // For exempt status, clear the last fee info or keep it as is
@@ -2357,177 +2374,191 @@ function DoctorPanelContent() {
       status: 'locked' as const, // Lock the visit
     };
 
-    let visitIdToUse: string;
-    if (savedVisitId) {
-      doctorVisitDb.update(savedVisitId, visitData);
-      visitIdToUse = savedVisitId;
-    } else {
-      const savedVisit = doctorVisitDb.create(visitData);
-      setSavedVisitId(savedVisit.id);
-      visitIdToUse = savedVisit.id;
-    }
+    // Visit, prescriptions, fee and billing changes are saved together or not at all
+    let endedVisitId: string;
+    try {
+      endedVisitId = db.transaction(() => {
+        let visitIdToUse: string;
+        if (savedVisitId) {
+          visitDb.update(savedVisitId, visitData);
+          visitIdToUse = savedVisitId;
+        } else {
+          const savedVisit = visitDb.create(visitData);
+          visitIdToUse = savedVisit.id;
+        }
 
-    // Save prescriptions
-    const prescriptionIds: string[] = [];
-    const existingRx = doctorPrescriptionDb.getByVisit(visitIdToUse);
-    prescriptions.forEach((rx, index) => {
-      if (!rx.medicine.trim()) return;
-      if (index < existingRx.length) {
-        const existing = existingRx[index];
-        doctorPrescriptionDb.update(existing.id, {
-          patientId: patient.id,
-          medicine: rx.medicine,
-          potency: rx.potency,
-          quantity: rx.quantity,
-          doseForm: rx.doseForm,
-          dosePattern: rx.dosePattern,
-          frequency: rx.frequency,
-          duration: rx.duration,
-          durationDays: rx.durationDays,
-          bottles: rx.bottles,
-          instructions: rx.instructions,
-          rowOrder: index,
-          isCombination: rx.isCombination,
-          combinationName: rx.combinationName,
-          combinationContent: rx.combinationContent,
-        });
-        prescriptionIds.push(existing.id);
-      } else {
-        const created = doctorPrescriptionDb.create({
-          visitId: visitIdToUse,
-          patientId: patient.id,
-          medicine: rx.medicine,
-          potency: rx.potency,
-          quantity: rx.quantity,
-          doseForm: rx.doseForm,
-          dosePattern: rx.dosePattern,
-          frequency: rx.frequency,
-          duration: rx.duration,
-          durationDays: rx.durationDays,
-          bottles: rx.bottles,
-          instructions: rx.instructions,
-          rowOrder: index,
-          isCombination: rx.isCombination,
-          combinationName: rx.combinationName,
-          combinationContent: rx.combinationContent,
+        // Save prescriptions
+        const prescriptionIds: string[] = [];
+        const existingRx = doctorPrescriptionDb.getByVisit(visitIdToUse);
+        prescriptions.forEach((rx, index) => {
+          if (!rx.medicine.trim()) return;
+          if (index < existingRx.length) {
+            const existing = existingRx[index];
+            doctorPrescriptionDb.update(existing.id, {
+              patientId: patient.id,
+              medicine: rx.medicine,
+              potency: rx.potency,
+              quantity: rx.quantity,
+              doseForm: rx.doseForm,
+              dosePattern: rx.dosePattern,
+              frequency: rx.frequency,
+              duration: rx.duration,
+              durationDays: rx.durationDays,
+              bottles: rx.bottles,
+              instructions: rx.instructions,
+              rowOrder: index,
+              isCombination: rx.isCombination,
+              combinationName: rx.combinationName,
+              combinationContent: rx.combinationContent,
+            });
+            prescriptionIds.push(existing.id);
+          } else {
+            const created = doctorPrescriptionDb.create({
+              visitId: visitIdToUse,
+              patientId: patient.id,
+              medicine: rx.medicine,
+              potency: rx.potency,
+              quantity: rx.quantity,
+              doseForm: rx.doseForm,
+              dosePattern: rx.dosePattern,
+              frequency: rx.frequency,
+              duration: rx.duration,
+              durationDays: rx.durationDays,
+              bottles: rx.bottles,
+              instructions: rx.instructions,
+              rowOrder: index,
+              isCombination: rx.isCombination,
+              combinationName: rx.combinationName,
+              combinationContent: rx.combinationContent,
+            });
+            prescriptionIds.push(created.id);
+          }
         });
-        prescriptionIds.push(created.id);
-      }
-    });
 
-    // Save/update fee record
-    const feeAmountNum = parseFloat(feeAmount) || 0;
-    const discountPercentNum = parseFloat(discountPercent) || 0;
-    const finalAmount = feeAmountNum - (feeAmountNum * discountPercentNum / 100);
-    
-    if (currentAppointmentFee?.feeId) {
-      // Update existing fee record
-      db.update('fees', currentAppointmentFee.feeId, {
-        amount: feeAmountNum,
-        feeType: feeType,
-        paymentStatus: paymentStatus,
-        discountPercent: discountPercentNum,
-        discountReason: discountReason,
-        notes: remarksToFrontdesk,
-        updatedAt: new Date(),
-      });
-    } else {
-      // Create new fee record
-      db.create('fees', {
-        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        patientId: patient.id,
-        visitId: visitIdToUse,
-        amount: feeAmountNum,
-        feeType: feeType,
-        paymentStatus: paymentStatus,
-        discountPercent: discountPercentNum,
-        discountReason: discountReason,
-        paymentMethod: '',
-        notes: remarksToFrontdesk,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-    }
+        // Save/update fee record
+        const feeAmountNum = parseFloat(feeAmount) || 0;
+        const discountPercentNum = parseFloat(discountPercent) || 0;
+        const finalAmount = feeAmountNum - (feeAmountNum * discountPercentNum / 100);
 
-    // If fee is paid, add to fee history (check for duplicates first)
-    if (paymentStatus === 'paid') {
-      const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
-      const duplicateFeeHistory = existingFeeHistory.find((fh) => 
-        fh.patientId === patient.id && (
-          fh.visitId === visitIdToUse ||
-          (currentAppointmentFee?.appointmentId && fh.appointmentId === currentAppointmentFee.appointmentId)
-        )
-      );
-      
-      if (!duplicateFeeHistory) {
-        const normalizedFeeType = normalizeFeeType(feeType);
-        feeHistoryDb.create({
-          id: `fh-${Date.now()}`,
-          patientId: patient.id,
-          visitId: visitIdToUse,
-          appointmentId: currentAppointmentFee?.appointmentId,
-          receiptId: `RCP-${Date.now()}`,
-          feeType: normalizedFeeType,
-          amount: finalAmount,
-          paymentMethod: 'cash',
-          paymentStatus: 'paid',
-          paidDate: new Date(),
-          daysSinceLastFee: lastFeeInfo ? lastFeeInfo.daysAgo : undefined,
-        });
-        console.log('[DoctorPanel] handleEndConsultation - Created fee history entry');
-      } else {
-        // Update existing entry
-        const normalizedFeeType = normalizeFeeType(feeType);
-        db.update('feeHistory', duplicateFeeHistory.id, {
-          amount: finalAmount,
-          feeType: normalizedFeeType,
-          visitId: visitIdToUse,
-          appointmentId: currentAppointmentFee?.appointmentId || duplicateFeeHistory.appointmentId,
-          paymentStatus: 'paid',
-          updatedAt: new Date(),
-        });
-        console.log('[DoctorPanel] handleEndConsultation - Updated existing fee history entry');
-      }
-    }
+        if (currentAppointmentFee?.feeId) {
+          // Update existing fee record
+          db.update('fees', currentAppointmentFee.feeId, {
+            amount: feeAmountNum,
+            feeType: feeType,
+            paymentStatus: paymentStatus,
+            discountPercent: discountPercentNum,
+            discountReason: discountReason,
+            notes: remarksToFrontdesk,
+            updatedAt: new Date(),
+          });
+        } else {
+          // Create new fee record
+          db.create('fees', {
+            id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            patientId: patient.id,
+            visitId: visitIdToUse,
+            amount: feeAmountNum,
+            feeType: feeType,
+            paymentStatus: paymentStatus,
+            discountPercent: discountPercentNum,
+            discountReason: discountReason,
+            paymentMethod: '',
+            notes: remarksToFrontdesk,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          });
+        }
 
-    // Update appointment fee status if exists
-    if (currentAppointmentFee?.feeId) {
-      const appointments = appointmentDb.getAll() as Appointment[];
-      const todayAppt = appointments.find((apt: Appointment) => 
-        apt.feeId === currentAppointmentFee.feeId
-      );
-      if (todayAppt) {
-        appointmentDb.update(todayAppt.id, {
-          feeStatus: paymentStatus,
-          feeAmount: feeAmountNum,
-          feeType: feeType,
-          isFreeFollowUp: (feeType === 'Free Follow Up') || (feeType === 'Follow Up' && feeAmountNum === 0),
-        });
-      }
-    }
-    
-    // Sync fee changes to billing queue if patient is already there
-    const existingBillingItems = billingQueueDb.getAll() as any[];
-    const patientBillingItem = existingBillingItems.find(
-      (item) => item.patientId === patient.id && 
-                (item.status === 'pending' || item.status === 'paid') &&
-                (item.appointmentId === currentAppointmentFee?.appointmentId || 
-                 new Date(item.createdAt).toDateString() === new Date().toDateString())
-    );
-    
-    if (patientBillingItem) {
-      billingQueueDb.update(patientBillingItem.id, {
-        feeAmount: feeAmountNum,
-        feeType: feeType,
-        netAmount: feeAmountNum - (patientBillingItem.discountAmount || 0),
-        paymentStatus: paymentStatus,
-        updatedAt: new Date(),
+        // If fee is paid, add to fee history (check for duplicates first)
+        if (paymentStatus === 'paid') {
+          const existingFeeHistory = db.getAll('feeHistory') as FeeHistoryEntry[];
+          const duplicateFeeHistory = existingFeeHistory.find((fh) =>
+            fh.patientId === patient.id && (
+              fh.visitId === visitIdToUse ||
+              (currentAppointmentFee?.appointmentId && fh.appointmentId === currentAppointmentFee.appointmentId)
+            )
+          );
+
+          if (!duplicateFeeHistory) {
+            const normalizedFeeType = normalizeFeeType(feeType);
+            feeHistoryDb.create({
+              id: `fh-${Date.now()}`,
+              patientId: patient.id,
+              visitId: visitIdToUse,
+              appointmentId: currentAppointmentFee?.appointmentId,
+              receiptId: `RCP-${Date.now()}`,
+              feeType: normalizedFeeType,
+              amount: finalAmount,
+              paymentMethod: 'cash',
+              paymentStatus: 'paid',
+              paidDate: new Date(),
+              daysSinceLastFee: lastFeeInfo ? lastFeeInfo.daysAgo : undefined,
+            });
+            console.log('[DoctorPanel] handleEndConsultation - Created fee history entry');
+          } else {
+            // Update existing entry
+            const normalizedFeeType = normalizeFeeType(feeType);
+            db.update('feeHistory', duplicateFeeHistory.id, {
+              amount: finalAmount,
+              feeType: normalizedFeeType,
+              visitId: visitIdToUse,
+              appointmentId: currentAppointmentFee?.appointmentId || duplicateFeeHistory.appointmentId,
+              paymentStatus: 'paid',
+              updatedAt: new Date(),
+            });
+            console.log('[DoctorPanel] handleEndConsultation - Updated existing fee history entry');
+          }
+        }
+
+        // Update appointment fee status if exists
+        if (currentAppointmentFee?.feeId) {
+          const appointments = appointmentDb.getAll() as Appointment[];
+          const todayAppt = appointments.find((apt: Appointment) =>
+            apt.feeId === currentAppointmentFee.feeId
+          );
+          if (todayAppt) {
+            appointmentDb.update(todayAppt.id, {
+              feeStatus: paymentStatus,
+              feeAmount: feeAmountNum,
+              feeType: feeType,
+              isFreeFollowUp: (feeType === 'Free Follow Up') || (feeType === 'Follow Up' && feeAmountNum === 0),
+            });
+          }
+        }
+
+        // Sync fee changes to billing queue if patient is already there
+        const existingBillingItems = billingQueueDb.getAll() as any[];
+        const patientBillingItem = existingBillingItems.find(
+          (item) => item.patientId === patient.id &&
+                    (item.status === 'pending' || item.status === 'paid') &&
+                    (item.appointmentId === currentAppointmentFee?.appointmentId ||
+                     new Date(item.createdAt).toDateString() === new Date().toDateString())
+        );
+
+        if (patientBillingItem) {
+          billingQueueDb.update(patientBillingItem.id, {
+            feeAmount: feeAmountNum,
+            feeType: feeType,
+            netAmount: feeAmountNum - (patientBillingItem.discountAmount || 0),
+            paymentStatus: paymentStatus,
+            updatedAt: new Date(),
+          });
+          console.log('[DoctorPanel] Synced fee to billing queue on end consultation:', patientBillingItem.id);
+        }
+
+        return visitIdToUse;
       });
-      console.log('[DoctorPanel] Synced fee to billing queue on end consultation:', patientBillingItem.id);
+    } catch (error) {
+      console.error('Error ending consultation:', error);
+      alert(saveErrorMessage(error, 'Could not end the consultation. No changes were saved, please try again.'));
+      return;
+    }
+    if (!savedVisitId) {
+      setSavedVisitId(endedVisitId);
     }
     
     if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: patient.id, visitId: savedVisitId } }));
+      window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: patient.id, visitId: endedVisitId } }));
     }
 
     // Mark consultation as ended and show preview popup
@@ -2558,142 +2589,153 @@ function DoctorPanelContent() {
       weightKg: weightKg || undefined,
       status: 'active' as const,
     };
-    
-    // Always update if we have a savedVisitId, never create duplicate
-    if (savedVisitId) {
-      doctorVisitDb.update(savedVisitId, visitData);
-      const existingRx = doctorPrescriptionDb.getByVisit(savedVisitId);
-      prescriptions.forEach((rx, index) => {
-        if (!rx.medicine.trim()) return;
-        if (index < existingRx.length) {
-          const existing = existingRx[index];
-          doctorPrescriptionDb.update(existing.id, {
-            patientId: patient.id,
-            medicine: rx.medicine,
-            potency: rx.potency,
-            quantity: rx.quantity,
-            doseForm: rx.doseForm,
-            dosePattern: rx.dosePattern,
-            frequency: rx.frequency,
-            duration: rx.duration,
-            durationDays: rx.durationDays,
-            bottles: rx.bottles,
-            instructions: rx.instructions,
-            rowOrder: index,
-            isCombination: rx.isCombination,
-            combinationName: rx.combinationName,
-            combinationContent: rx.combinationContent,
+    // Kept once the save has committed
+    let visitIdToKeep: string | undefined;
+    try {
+      db.transaction(() => {
+
+        // Always update if we have a savedVisitId, never create duplicate
+        if (savedVisitId) {
+          visitDb.update(savedVisitId, visitData);
+          const existingRx = doctorPrescriptionDb.getByVisit(savedVisitId);
+          prescriptions.forEach((rx, index) => {
+            if (!rx.medicine.trim()) return;
+            if (index < existingRx.length) {
+              const existing = existingRx[index];
+              doctorPrescriptionDb.update(existing.id, {
+                patientId: patient.id,
+                medicine: rx.medicine,
+                potency: rx.potency,
+                quantity: rx.quantity,
+                doseForm: rx.doseForm,
+                dosePattern: rx.dosePattern,
+                frequency: rx.frequency,
+                duration: rx.duration,
+                durationDays: rx.durationDays,
+                bottles: rx.bottles,
+                instructions: rx.instructions,
+                rowOrder: index,
+                isCombination: rx.isCombination,
+                combinationName: rx.combinationName,
+                combinationContent: rx.combinationContent,
+              });
+            } else {
+              doctorPrescriptionDb.create({
+                visitId: savedVisitId,
+                patientId: patient.id,
+                medicine: rx.medicine,
+                potency: rx.potency,
+                quantity: rx.quantity,
+                doseForm: rx.doseForm,
+                dosePattern: rx.dosePattern,
+                frequency: rx.frequency,
+                duration: rx.duration,
+                durationDays: rx.durationDays,
+                bottles: rx.bottles,
+                instructions: rx.instructions,
+                rowOrder: index,
+                isCombination: rx.isCombination,
+                combinationName: rx.combinationName,
+                combinationContent: rx.combinationContent,
+              });
+            }
           });
         } else {
-          doctorPrescriptionDb.create({
-            visitId: savedVisitId,
-            patientId: patient.id,
-            medicine: rx.medicine,
-            potency: rx.potency,
-            quantity: rx.quantity,
-            doseForm: rx.doseForm,
-            dosePattern: rx.dosePattern,
-            frequency: rx.frequency,
-            duration: rx.duration,
-            durationDays: rx.durationDays,
-            bottles: rx.bottles,
-            instructions: rx.instructions,
-            rowOrder: index,
-            isCombination: rx.isCombination,
-            combinationName: rx.combinationName,
-            combinationContent: rx.combinationContent,
+          // Check if a visit already exists for this patient today before creating
+          const today = new Date();
+          today.setHours(0, 0, 0, 0);
+          const todayEnd = new Date(today);
+          todayEnd.setHours(23, 59, 59, 999);
+
+          const allVisits = visitDb.getByPatient(patient.id) as Visit[];
+          const todayVisit = allVisits.find((v) => {
+            const vDate = new Date(v.visitDate);
+            return vDate >= today && vDate <= todayEnd && v.status === 'active';
           });
-        }
-      });
-    } else {
-      // Check if a visit already exists for this patient today before creating
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(today);
-      todayEnd.setHours(23, 59, 59, 999);
-      
-      const allVisits = doctorVisitDb.getByPatient(patient.id) as DoctorVisit[];
-      const todayVisit = allVisits.find((v) => {
-        const vDate = new Date(v.visitDate);
-        return vDate >= today && vDate <= todayEnd && v.status === 'active';
-      });
-      
-      if (todayVisit) {
-        // Use existing visit instead of creating duplicate
-        console.log('[DoctorPanel] Using existing visit instead of creating duplicate:', todayVisit.id);
-        setSavedVisitId(todayVisit.id);
-        doctorVisitDb.update(todayVisit.id, visitData);
-        
-        const existingRx = doctorPrescriptionDb.getByVisit(todayVisit.id);
-        prescriptions.forEach((rx, index) => {
-          if (!rx.medicine.trim()) return;
-          if (index < existingRx.length) {
-            doctorPrescriptionDb.update(existingRx[index].id, {
-              patientId: patient.id,
-              medicine: rx.medicine,
-              potency: rx.potency,
-              quantity: rx.quantity,
-              doseForm: rx.doseForm,
-              dosePattern: rx.dosePattern,
-              frequency: rx.frequency,
-              duration: rx.duration,
-              durationDays: rx.durationDays,
-              bottles: rx.bottles,
-              instructions: rx.instructions,
-              rowOrder: index,
-              isCombination: rx.isCombination,
-              combinationName: rx.combinationName,
-              combinationContent: rx.combinationContent,
+
+          if (todayVisit) {
+            // Use existing visit instead of creating duplicate
+            console.log('[DoctorPanel] Using existing visit instead of creating duplicate:', todayVisit.id);
+            visitIdToKeep = todayVisit.id;
+            visitDb.update(todayVisit.id, visitData);
+
+            const existingRx = doctorPrescriptionDb.getByVisit(todayVisit.id);
+            prescriptions.forEach((rx, index) => {
+              if (!rx.medicine.trim()) return;
+              if (index < existingRx.length) {
+                doctorPrescriptionDb.update(existingRx[index].id, {
+                  patientId: patient.id,
+                  medicine: rx.medicine,
+                  potency: rx.potency,
+                  quantity: rx.quantity,
+                  doseForm: rx.doseForm,
+                  dosePattern: rx.dosePattern,
+                  frequency: rx.frequency,
+                  duration: rx.duration,
+                  durationDays: rx.durationDays,
+                  bottles: rx.bottles,
+                  instructions: rx.instructions,
+                  rowOrder: index,
+                  isCombination: rx.isCombination,
+                  combinationName: rx.combinationName,
+                  combinationContent: rx.combinationContent,
+                });
+              } else {
+                doctorPrescriptionDb.create({
+                  visitId: todayVisit.id,
+                  patientId: patient.id,
+                  medicine: rx.medicine,
+                  potency: rx.potency,
+                  quantity: rx.quantity,
+                  doseForm: rx.doseForm,
+                  dosePattern: rx.dosePattern,
+                  frequency: rx.frequency,
+                  duration: rx.duration,
+                  durationDays: rx.durationDays,
+                  bottles: rx.bottles,
+                  instructions: rx.instructions,
+                  rowOrder: index,
+                  isCombination: rx.isCombination,
+                  combinationName: rx.combinationName,
+                  combinationContent: rx.combinationContent,
+                });
+              }
             });
           } else {
-            doctorPrescriptionDb.create({
-              visitId: todayVisit.id,
-              patientId: patient.id,
-              medicine: rx.medicine,
-              potency: rx.potency,
-              quantity: rx.quantity,
-              doseForm: rx.doseForm,
-              dosePattern: rx.dosePattern,
-              frequency: rx.frequency,
-              duration: rx.duration,
-              durationDays: rx.durationDays,
-              bottles: rx.bottles,
-              instructions: rx.instructions,
-              rowOrder: index,
-              isCombination: rx.isCombination,
-              combinationName: rx.combinationName,
-              combinationContent: rx.combinationContent,
-            });
-          }
-        });
-      } else {
-        // No existing visit, create new one
-        const savedVisit = doctorVisitDb.create(visitData);
-        setSavedVisitId(savedVisit.id);
-        prescriptions.forEach((rx, index) => {
-          if (rx.medicine.trim()) {
-            doctorPrescriptionDb.create({
-              visitId: savedVisit.id,
-              patientId: patient.id,
-              medicine: rx.medicine,
-              potency: rx.potency,
-              quantity: rx.quantity,
-              doseForm: rx.doseForm,
-              dosePattern: rx.dosePattern,
-              frequency: rx.frequency,
-              duration: rx.duration,
-              durationDays: rx.durationDays,
-              bottles: rx.bottles,
-              instructions: rx.instructions,
-              rowOrder: index,
-              isCombination: rx.isCombination,
-              combinationName: rx.combinationName,
-              combinationContent: rx.combinationContent,
+            // No existing visit, create new one
+            const savedVisit = visitDb.create(visitData);
+            visitIdToKeep = savedVisit.id;
+            prescriptions.forEach((rx, index) => {
+              if (rx.medicine.trim()) {
+                doctorPrescriptionDb.create({
+                  visitId: savedVisit.id,
+                  patientId: patient.id,
+                  medicine: rx.medicine,
+                  potency: rx.potency,
+                  quantity: rx.quantity,
+                  doseForm: rx.doseForm,
+                  dosePattern: rx.dosePattern,
+                  frequency: rx.frequency,
+                  duration: rx.duration,
+                  durationDays: rx.durationDays,
+                  bottles: rx.bottles,
+                  instructions: rx.instructions,
+                  rowOrder: index,
+                  isCombination: rx.isCombination,
+                  combinationName: rx.combinationName,
+                  combinationContent: rx.combinationContent,
+                });
+              }
             });
           }
-        });
-      }
+        }
+      });
+    } catch (error) {
+      console.error('Error saving consultation:', error);
+      alert(saveErrorMessage(error, 'Could not save the consultation. Please try again.'));
+      return;
     }
+    if (visitIdToKeep) setSavedVisitId(visitIdToKeep);
     if (typeof window !== 'undefined') {
       window.dispatchEvent(new CustomEvent('pharmacy-queue-updated'));
     }
@@ -2745,29 +2787,7 @@ function DoctorPanelContent() {
       }
     }
     
-    // Reuse existing queue item if present to preserve preparedPrescriptionIds
-    const existingQueueItem = pharmacyQueueDb.getByVisit(savedVisitId);
-    if (existingQueueItem) {
-      pharmacyQueueDb.update(existingQueueItem.id, {
-        status: 'pending',
-      });
-    } else {
-      // Add to pharmacy queue with appointment ID
-      pharmacyQueueDb.create({
-        visitId: savedVisitId,
-        patientId: patient.id,
-        appointmentId: appointmentIdToUse,
-        prescriptionIds: [],
-        priority: false,
-        status: 'pending',
-      });
-    }
-    
-    setPharmacySent(true);
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('pharmacy-queue-updated'));
-    }
-    // Update today's appointment status to medicines-prepared (Sent to pharmacy)
+    // Today's appointment moves to sent-to-pharmacy along with the queue entry
     let aptIdToUpdate = currentAppointmentFee?.appointmentId;
     if (!aptIdToUpdate) {
       const today = new Date();
@@ -2781,8 +2801,39 @@ function DoctorPanelContent() {
       });
       aptIdToUpdate = todayAppointment?.id;
     }
-    if (aptIdToUpdate) {
-      appointmentDb.update(aptIdToUpdate, { status: 'sent-to-pharmacy' });
+
+    try {
+      db.transaction(() => {
+        // Reuse existing queue item if present to preserve preparedPrescriptionIds
+        const existingQueueItem = pharmacyQueueDb.getByVisit(savedVisitId);
+        if (existingQueueItem) {
+          pharmacyQueueDb.update(existingQueueItem.id, {
+            status: 'pending',
+          });
+        } else {
+          // Add to pharmacy queue with appointment ID
+          pharmacyQueueDb.create({
+            visitId: savedVisitId,
+            patientId: patient.id,
+            appointmentId: appointmentIdToUse,
+            prescriptionIds: [],
+            priority: false,
+            status: 'pending',
+          });
+        }
+        if (aptIdToUpdate) {
+          appointmentDb.update(aptIdToUpdate, { status: 'sent-to-pharmacy' });
+        }
+      });
+    } catch (error) {
+      console.error('Error sending to pharmacy:', error);
+      alert(saveErrorMessage(error, 'Could not send the prescription to pharmacy. Please try again.'));
+      return;
+    }
+    
+    setPharmacySent(true);
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('pharmacy-queue-updated'));
     }
   };
 
@@ -2847,22 +2898,30 @@ function DoctorPanelContent() {
       }
     }
     
-    // Create billing queue item directly
-    billingQueueDb.create({
-      visitId: savedVisitId,
-      patientId: patient.id,
-      appointmentId: appointmentIdToUse,
-      prescriptionIds: [],
-      status: 'pending',
-      feeAmount,
-      feeType,
-      netAmount: feeAmount,
-      paymentStatus
-    });
-    
-    // Update appointment status to medicines-prepared (bypassing pharmacy)
-    if (appointmentIdToUse) {
-      appointmentDb.update(appointmentIdToUse, { status: 'medicines-prepared' });
+    try {
+      db.transaction(() => {
+        // Create billing queue item directly
+        billingQueueDb.create({
+          visitId: savedVisitId,
+          patientId: patient.id,
+          appointmentId: appointmentIdToUse,
+          prescriptionIds: [],
+          status: 'pending',
+          feeAmount,
+          feeType,
+          netAmount: feeAmount,
+          paymentStatus
+        });
+
+        // Update appointment status to medicines-prepared (bypassing pharmacy)
+        if (appointmentIdToUse) {
+          appointmentDb.update(appointmentIdToUse, { status: 'medicines-prepared' });
+        }
+      });
+    } catch (error) {
+      console.error('Error sending to billing:', error);
+      alert(saveErrorMessage(error, 'Could not send the patient to billing. Please try again.'));
+      return;
     }
     
     setPharmacySent(true);
@@ -3028,6 +3087,16 @@ Dr. Homeopathic Clinic`);
       loadPastVisitPrescriptions(visit.id);
     });
   };
+
+  // Deep link (?patientId=&visitId=, e.g. from the patient timeline): open that past visit once loaded
+  const openedVisitFromUrl = useRef(false);
+  useEffect(() => {
+    if (!visitIdFromUrl || openedVisitFromUrl.current || !pastVisits.some((visit) => visit.id === visitIdFromUrl)) return;
+    openedVisitFromUrl.current = true;
+    openPastVisitsPopup();
+    setTimeout(() => document.getElementById(`past-visit-${visitIdFromUrl}`)?.scrollIntoView({ block: 'start' }), 100);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pastVisits, visitIdFromUrl]);
   
   // Share past visit via WhatsApp (opens PDF for sharing)
   const sharePastVisitWhatsApp = (visit: Visit) => {
@@ -3086,8 +3155,12 @@ Dr. Homeopathic Clinic`);
     window.open(`mailto:?subject=${subject}&body=${body}`, '_blank');
   };
   
+  // Privacy for what leaves the screen: prints, PDFs and shares
+  const getShareRedactor = () => redactorFor(patient ? (patientDb.getById(patient.id) as Patient | undefined) : undefined);
+
   // Generate PDF content for past visit
-  const generatePastVisitPDFContent = (visit: Visit) => {
+  const generatePastVisitPDFContent = (pastVisit: Visit) => {
+    const visit = getShareRedactor().visit(pastVisit, 'omit');
     const visitRx = pastVisitPrescriptions[visit.id] || [];
     return `
       <!DOCTYPE html>
@@ -3161,6 +3234,8 @@ Dr. Homeopathic Clinic`);
 
   // ===== RENDER =====
 
+  const previewRedactor = getShareRedactor();
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Datalists for autocomplete using prescription settings */}
@@ -3267,6 +3342,7 @@ Dr. Homeopathic Clinic`);
                             </svg>
                             View Patient Profile
                           </button>
+                          <FamilyCard key={patient.id} patientId={patient.id} compact className="px-4 py-2 border-t border-gray-100" />
                         </div>
                       )}
                     </div>
@@ -3342,13 +3418,19 @@ Dr. Homeopathic Clinic`);
                             const age = parseInt((document.getElementById('edit-age') as HTMLInputElement)?.value || '0');
                             
                             if (firstName && lastName && mobile) {
-                              patientDb.update(patient.id, {
-                                firstName,
-                                lastName,
-                                fullName: `${firstName} ${lastName}`,
-                                mobileNumber: mobile,
-                                age,
-                              });
+                              try {
+                                patientDb.update(patient.id, {
+                                  firstName,
+                                  lastName,
+                                  fullName: `${firstName} ${lastName}`,
+                                  mobileNumber: mobile,
+                                  age,
+                                });
+                              } catch (error) {
+                                console.error('Error updating patient:', error);
+                                alert(saveErrorMessage(error, 'Failed to update patient details. Please try again.'));
+                                return;
+                              }
                               
                               // Update local state
                               setPatient({
@@ -3567,6 +3649,19 @@ Dr. Homeopathic Clinic`);
                   </div>
                 </section>
 
+                {/* Voice Notes */}
+                {patient && (
+                  <section>
+                    <h2 className="text-lg font-semibold text-gray-800 mb-2">Voice Notes</h2>
+                    <VoiceNotes
+                      key={patient.id}
+                      patientId={patient.id}
+                      visitId={savedVisitId || undefined}
+                      onInsert={insertTranscript}
+                    />
+                  </section>
+                )}
+
                 {/* Prescription Table */}
                 <section className="bg-white rounded-xl shadow-sm border border-gray-200">
                   <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
@@ -4606,6 +4701,11 @@ Dr. Homeopathic Clinic`);
         </>
       </div>
 
+      {/* Visit Revision History */}
+      {historyVisitId && (
+        <VisitHistoryModal visitId={historyVisitId} onClose={() => setHistoryVisitId(null)} />
+      )}
+
       {/* Past Visits Popup Modal */}
       {showPastVisitsPopup && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -4634,7 +4734,11 @@ Dr. Homeopathic Clinic`);
                 [...pastVisits].sort((a, b) => new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime()).map((visit) => {
                   const visitRx = pastVisitPrescriptions[visit.id] || [];
                   return (
-                    <div key={visit.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                    <div
+                      key={visit.id}
+                      id={`past-visit-${visit.id}`}
+                      className={`border rounded-lg overflow-hidden ${visit.id === visitIdFromUrl ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-200'}`}
+                    >
                       {/* Visit Header */}
                       <div className="bg-gray-50 px-4 py-3 flex items-center justify-between">
                         <div>
@@ -4706,6 +4810,16 @@ Dr. Homeopathic Clinic`);
                             </svg>
                             Email
                           </button>
+                          <button
+                            onClick={() => setHistoryVisitId(visit.id)}
+                            className="px-3 py-1.5 text-sm bg-yellow-100 text-yellow-700 rounded-lg hover:bg-yellow-200 flex items-center gap-1"
+                            title="Who changed what in this visit"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            History
+                          </button>
                         </div>
                       </div>
                       
@@ -4872,7 +4986,7 @@ Dr. Homeopathic Clinic`);
                 className="flex-1"
                 onClick={() => {
                   if (repeatVisitId) {
-                    const v = doctorVisitDb.getById(repeatVisitId) as DoctorVisit | undefined;
+                    const v = visitDb.getById(repeatVisitId) as Visit | undefined;
                     if (v) {
                       setSavedVisitId(v.id);
                       setCaseText(v.caseText || '');
@@ -5209,11 +5323,11 @@ Dr. Homeopathic Clinic`);
                 </div>
               )}
               
-              {/* Case Summary */}
-              {(!prescriptionSettingsView || prescriptionSettingsView.additional?.caseText) && (
+              {/* Case Summary (printed from here, so withheld notes are left out) */}
+              {(!prescriptionSettingsView || prescriptionSettingsView.additional?.caseText) && !previewRedactor.isHidden('hideCaseNotes') && (
                 <div className="mb-6">
                   <p className="font-bold border-b border-gray-300 mb-2">Clinical Notes</p>
-                  <p className="whitespace-pre-wrap">{caseText || 'No case notes recorded.'}</p>
+                  <p className="whitespace-pre-wrap">{previewRedactor.caseText(caseText, 'omit') || 'No case notes recorded.'}</p>
                 </div>
               )}
               
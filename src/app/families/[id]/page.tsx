@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { Badge } from "@/components/ui/Badge";
+import { relationshipLabels } from "@/components/ui/FamilyCard";
+import { useAuth, usePrivacy } from "@/lib/auth/auth-context";
+import { householdDb } from "@/lib/db/database";
+import {
+  collectFamilyPayment,
+  getFamilyOutstanding,
+  getFamilyStatement,
+  medicineBillPending,
+  type FamilyPaymentMethod,
+} from "@/lib/db/family-billing";
+import { saveErrorMessage } from "@/lib/db/validation";
+import { OPEN_REDACTOR, PRIVACY_MASK } from "@/lib/privacy";
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function toInputDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function formatRupees(amount: number): string {
+  return `₹${amount}`;
+}
+
+export default function FamilyPage() {
+  const router = useRouter();
+  const params = useParams();
+  const householdId = params.id as string;
+  const { hasPermission, logActivity } = useAuth();
+  const { redactorFor } = usePrivacy();
+  const canBill = hasPermission("view_fees");
+
+  const [household, setHousehold] = useState(() => householdDb.getById(householdId));
+  const [outstanding, setOutstanding] = useState(() => getFamilyOutstanding(householdId));
+  const [paymentMethod, setPaymentMethod] = useState<FamilyPaymentMethod>("cash");
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [from, setFrom] = useState(() => {
+    const start = new Date();
+    start.setMonth(start.getMonth() - 3);
+    return toInputDate(start);
+  });
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+
+  const members = household ? householdDb.getMembers(household.id) : [];
+  const names = new Map(members.map(({ patient }) => [patient.id, patient.fullName]));
+  // Each member's own privacy settings decide whether their amounts show
+  const redactors = new Map(members.map(({ patient }) => [patient.id, redactorFor(patient)]));
+  const memberAmount = (patientId: string, amount: number) => (redactors.get(patientId) ?? OPEN_REDACTOR).amount(amount, formatRupees);
+  // A family total would give a hidden member's amounts away by subtraction
+  const feesHidden = [...redactors.values()].some((redactor) => redactor.isHidden("hideFees"));
+  const familyAmount = (amount: number) => (feesHidden ? PRIVACY_MASK : formatRupees(amount));
+  const statement = getFamilyStatement(householdId, new Date(`${from}T00:00:00`), new Date(`${to}T23:59:59`));
+
+  const handleRename = () => {
+    if (!household) return;
+    const name = prompt("Family name", household.name);
+    if (!name?.trim()) return;
+    setHousehold(householdDb.rename(household.id, name.trim()));
+  };
+
+  const handleCollect = () => {
+    if (!household || outstanding.total <= 0) return;
+    if (!confirm(`Collect ₹${outstanding.total} from ${household.name} by ${paymentMethod.toUpperCase()}?`)) return;
+    setIsCollecting(true);
+    try {
+      const payment = collectFamilyPayment(household.id, paymentMethod);
+      logActivity("family_payment_collected", "billing", {
+        householdId: household.id,
+        familyPaymentId: payment.familyPaymentId,
+        amount: payment.total,
+        paymentMethod,
+        receipts: payment.receipts.map((receipt) => receipt.receiptNumber),
+        medicineBills: payment.medicineBills.length,
+      });
+      setOutstanding(getFamilyOutstanding(household.id));
+    } catch (error) {
+      console.error("Error collecting family payment:", error);
+      alert(saveErrorMessage(error, "Failed to collect the family payment"));
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!household) return;
+    const rows = statement.entries.map((entry) => `
+      <tr>
+        <td>${formatDate(entry.date)}</td>
+        <td>${entry.patientName}</td>
+        <td>${entry.reference}</td>
+        <td>${entry.description}</td>
+        <td class="amount">${memberAmount(entry.patientId, entry.amount)}</td>
+        <td class="amount">${memberAmount(entry.patientId, entry.paid)}</td>
+      </tr>`).join("");
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8" />
+        <title>${household.name} - Statement</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border-bottom: 1px solid #ddd; padding: 6px; text-align: left; }
+          .amount { text-align: right; }
+          .totals td { font-weight: bold; border-top: 2px solid #333; }
+        </style>
+      </head>
+      <body onload="window.print(); setTimeout(() => window.close(), 300);">
+        <h2 style="margin:0;">${household.name}</h2>
+        <p>Statement ${formatDate(statement.from)} to ${formatDate(statement.to)}</p>
+        <p>Members: ${members.map(({ patient }) => `${patient.fullName} (${patient.registrationNumber})`).join(", ")}</p>
+        <table>
+          <thead>
+            <tr><th>Date</th><th>Patient</th><th>Ref</th><th>Description</th><th class="amount">Amount</th><th class="amount">Paid</th></tr>
+          </thead>
+          <tbody>
+            ${rows}
+            <tr class="totals">
+              <td colspan="4">Total</td>
+              <td class="amount">${familyAmount(statement.totalBilled)}</td>
+              <td class="amount">${familyAmount(statement.totalPaid)}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p><strong>Outstanding as of today: ${familyAmount(statement.outstanding)}</strong></p>
+      </body>
+      </html>
+    `;
+    const printWindow = window.open("", "_blank");
+    if (printWindow) {
+      printWindow.document.write(html);
+      printWindow.document.close();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-2xl font-semibold text-gray-900">{household?.name || "Family"}</h1>
+                <p className="text-sm text-gray-500 mt-1">Members, family billing and statement</p>
+              </div>
+            </div>
+            {household && (
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={handleRename}>Rename</Button>
+                <Link href={`/appointments/new?patientId=${members[0]?.patient.id || ""}`}>
+                  <Button>Book for Family</Button>
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-w-5xl space-y-6">
+          {!household ? (
+            <Card className="p-6 text-center text-gray-500">This family no longer exists.</Card>
+          ) : (
+            <>
+              {/* Members */}
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Members</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b bg-gray-50">
+                      <th className="p-2">Name</th>
+                      <th className="p-2">Regd No</th>
+                      <th className="p-2">Relationship</th>
+                      <th className="p-2">Age</th>
+                      <th className="p-2">Mobile</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {members.map(({ patient, relationship }) => (
+                      <tr key={patient.id} className="border-b">
+                        <td className="p-2">
+                          <Link href={`/patients/${patient.id}`} className="text-blue-600 hover:underline">
+                            {patient.fullName}
+                          </Link>
+                        </td>
+                        <td className="p-2">{patient.registrationNumber}</td>
+                        <td className="p-2">{relationshipLabels[relationship]}</td>
+                        <td className="p-2">{patient.age ?? "-"}</td>
+                        <td className="p-2">{patient.mobileNumber || "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+
+              {!canBill ? (
+                <Card className="p-6 text-center text-gray-500">
+                  You do not have permission to view family billing.
+                </Card>
+              ) : (
+                <>
+                  {/* Outstanding */}
+                  <Card className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-lg font-medium text-gray-900">Outstanding</h2>
+                      <span className="text-2xl font-bold text-gray-900">{familyAmount(outstanding.total)}</span>
+                    </div>
+                    {outstanding.total <= 0 ? (
+                      <p className="text-sm text-gray-500">Nothing is outstanding for this family.</p>
+                    ) : (
+                      <>
+                        <table className="w-full text-sm mb-4">
+                          <thead>
+                            <tr className="text-left border-b bg-gray-50">
+                              <th className="p-2">Patient</th>
+                              <th className="p-2">Item</th>
+                              <th className="p-2 text-right">Amount</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {outstanding.feeItems.map((item) => (
+                              <tr key={item.id} className="border-b">
+                                <td className="p-2">{names.get(item.patientId)}</td>
+                                <td className="p-2">
+                                  <Badge variant="info" size="sm">Fee</Badge> {item.feeType}
+                                </td>
+                                <td className="p-2 text-right">{memberAmount(item.patientId, item.netAmount)}</td>
+                              </tr>
+                            ))}
+                            {outstanding.medicineBills.map((bill) => (
+                              <tr key={bill.id} className="border-b">
+                                <td className="p-2">{names.get(bill.patientId)}</td>
+                                <td className="p-2">
+                                  <Badge variant="purple" size="sm">Medicine</Badge> {bill.items.length} item(s), {formatDate(bill.createdAt)}
+                                </td>
+                                <td className="p-2 text-right">{memberAmount(bill.patientId, medicineBillPending(bill))}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="flex items-center justify-end gap-3">
+                          <select
+                            value={paymentMethod}
+                            onChange={(e) => setPaymentMethod(e.target.value as FamilyPaymentMethod)}
+                            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                          >
+                            <option value="cash">Cash</option>
+                            <option value="card">Card</option>
+                            <option value="upi">UPI</option>
+                            <option value="cheque">Cheque</option>
+                          </select>
+                          <Button onClick={handleCollect} loading={isCollecting}>
+                            Collect Family Payment
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </Card>
+
+                  {/* Statement */}
+                  <Card className="p-6">
+                    <div className="flex items-end justify-between gap-4 mb-4">
+                      <h2 className="text-lg font-medium text-gray-900">Statement</h2>
+                      <div className="flex items-end gap-3">
+                        <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                        <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                        <Button variant="secondary" onClick={handlePrint}>Print</Button>
+                      </div>
+                    </div>
+                    {statement.entries.length === 0 ? (
+                      <p className="py-6 text-center text-gray-500">No bills in this period</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left border-b bg-gray-50">
+                            <th className="p-2">Date</th>
+                            <th className="p-2">Patient</th>
+                            <th className="p-2">Ref</th>
+                            <th className="p-2">Description</th>
+                            <th className="p-2 text-right">Amount</th>
+                            <th className="p-2 text-right">Paid</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {statement.entries.map((entry) => (
+                            <tr key={entry.id} className="border-b">
+                              <td className="p-2">{formatDate(entry.date)}</td>
+                              <td className="p-2">{entry.patientName}</td>
+                              <td className="p-2">{entry.reference}</td>
+                              <td className="p-2">{entry.description}</td>
+                              <td className="p-2 text-right">{memberAmount(entry.patientId, entry.amount)}</td>
+                              <td className="p-2 text-right">{memberAmount(entry.patientId, entry.paid)}</td>
+                            </tr>
+                          ))}
+                          <tr className="font-medium">
+                            <td className="p-2" colSpan={4}>Total</td>
+                            <td className="p-2 text-right">{familyAmount(statement.totalBilled)}</td>
+                            <td className="p-2 text-right">{familyAmount(statement.totalPaid)}</td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    )}
+                  </Card>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
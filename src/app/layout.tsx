@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/lib/auth/auth-context";
+import { DatabaseProvider } from "@/lib/db/database-provider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -28,9 +29,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased bg-gray-50`}
       >
-        <AuthProvider>
-          {children}
-        </AuthProvider>
+        <DatabaseProvider>
+          <AuthProvider>
+            {children}
+          </AuthProvider>
+        </DatabaseProvider>
       </body>
     </html>
   );
@@ -6,13 +6,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/lib/auth/auth-context';
-import { staffMessageDb, userDb } from '@/lib/db/database';
+import { patientDb, staffMessageDb, userDb } from '@/lib/db/database';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
-import type { StaffMessage, User } from '@/types';
+import type { Patient, StaffMessage, User } from '@/types';
 
 export default function MessagesPage() {
   const { user, isAuthenticated } = useAuth();
@@ -21,6 +22,7 @@ export default function MessagesPage() {
   const [selectedRecipient, setSelectedRecipient] = useState<string>('');
   const [messageContent, setMessageContent] = useState('');
   const [priority, setPriority] = useState<'normal' | 'urgent' | 'critical'>('normal');
+  const [patientRegNumber, setPatientRegNumber] = useState('');
 
   useEffect(() => {
     if (user) {
@@ -44,6 +46,15 @@ export default function MessagesPage() {
     const recipient = users.find((u) => u.id === selectedRecipient);
     if (!recipient) return;
 
+    // Optional: the patient the message is about, so it shows on their timeline
+    const patient = patientRegNumber.trim()
+      ? (patientDb.getByRegNumber(patientRegNumber.trim()) as Patient | undefined)
+      : undefined;
+    if (patientRegNumber.trim() && !patient) {
+      alert(`No patient with registration number ${patientRegNumber.trim()}`);
+      return;
+    }
+
     staffMessageDb.create({
       senderId: user.id,
       senderName: user.name,
@@ -51,6 +62,8 @@ export default function MessagesPage() {
       recipientName: recipient.name,
       content: messageContent,
       priority,
+      patientId: patient?.id,
+      patientName: patient?.fullName,
       createdAt: new Date(),
     });
 
@@ -58,6 +71,7 @@ export default function MessagesPage() {
     setMessageContent('');
     setSelectedRecipient('');
     setPriority('normal');
+    setPatientRegNumber('');
     setShowCompose(false);
 
     // Refresh messages
@@ -140,6 +154,13 @@ export default function MessagesPage() {
                 </select>
               </div>
 
+              <Input
+                label="About Patient (Regd No, optional)"
+                value={patientRegNumber}
+                onChange={(e) => setPatientRegNumber(e.target.value)}
+                placeholder="e.g. DK-1001"
+              />
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Message
@@ -199,6 +220,14 @@ export default function MessagesPage() {
                         {new Date(message.createdAt).toLocaleString()}
                       </span>
                     </div>
+                    {message.patientId && (
+                      <p className="text-sm text-gray-500 mb-1">
+                        About{' '}
+                        <Link href={`/patients/${message.patientId}`} className="text-blue-600 hover:underline">
+                          {message.patientName || 'patient'}
+                        </Link>
+                      </p>
+                    )}
                     <p className="text-gray-700">{message.content}</p>
                   </div>
                   {!message.readAt && (
@@ -14,9 +14,9 @@ import { Card, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge, StatusBadge } from '@/components/ui/Badge';
 import { useAuth } from '@/lib/auth/auth-context';
-import { db, seedModule2Data, seedInitialData, patientDb, appointmentDb } from '@/lib/db/database';
+import { db, seedModule2Data, seedInitialData, patientDb, appointmentDb, visitDb } from '@/lib/db/database';
 import { queueItemDb, queueDb } from '@/lib/db/database';
-import { doctorPrescriptionDb, doctorVisitDb } from '@/lib/db/doctor-panel';
+import { doctorPrescriptionDb } from '@/lib/db/doctor-panel';
 import type { Patient, Appointment, QueueItem, MateriaMedica } from '@/types';
 
 export default function Dashboard() {
@@ -94,7 +94,7 @@ export default function Dashboard() {
     });
     
     // Get today's visits
-    const allVisits = doctorVisitDb.getAll() as any[];
+    const allVisits = visitDb.getAll() as any[];
     const todayVisits = allVisits.filter((visit: any) => {
       const visitDate = new Date(visit.visitDate);
       return visitDate >= today && visitDate <= todayEnd;
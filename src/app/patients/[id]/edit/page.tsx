@@ -9,6 +9,9 @@ import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
 import { PhotoUpload } from "@/components/ui/PhotoUpload";
 import { patientDb, patientTagDb } from "@/lib/db/database";
+import { saveErrorMessage } from "@/lib/db/validation";
+import { useAuth } from "@/lib/auth/auth-context";
+import { PRIVACY_FLAGS, type PrivacyFlag, type PrivacySettings } from "@/lib/privacy";
 import type { Patient, PatientTag } from "@/types";
 
 // Collapsible Section Component
@@ -45,8 +48,17 @@ function CollapsibleSection({
   );
 }
 
+const NO_PRIVACY: PrivacySettings = {
+  hideMentalSymptoms: false,
+  hideDiagnosis: false,
+  hidePrognosis: false,
+  hideFees: false,
+  hideCaseNotes: false,
+};
+
 export default function EditPatientPage() {
   const router = useRouter();
+  const { logActivity } = useAuth();
   const params = useParams();
   const patientId = params.id as string;
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -85,8 +97,10 @@ export default function EditPatientPage() {
     allergies: "",
     feeExempt: false,
     feeExemptionReason: "",
+    privacySettings: NO_PRIVACY,
     selectedTags: [] as string[],
   });
+  const [savedPrivacy, setSavedPrivacy] = useState<PrivacySettings | null>(null);
 
   // Load patient data
   useEffect(() => {
@@ -118,8 +132,10 @@ export default function EditPatientPage() {
           allergies: patient.allergies?.join(", ") || "",
           feeExempt: patient.feeExempt,
           feeExemptionReason: patient.feeExemptionReason || "",
+          privacySettings: { ...NO_PRIVACY, ...patient.privacySettings },
           selectedTags: patient.tags || [],
         });
+        setSavedPrivacy(patient.privacySettings || null);
       }
       setIsLoadingPatient(false);
     };
@@ -143,6 +159,13 @@ export default function EditPatientPage() {
     }));
   };
 
+  const handlePrivacyToggle = (flag: PrivacyFlag) => {
+    setFormData((prev) => ({
+      ...prev,
+      privacySettings: { ...prev.privacySettings, [flag]: !prev.privacySettings[flag] },
+    }));
+  };
+
   const handleTagToggle = (tagId: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -203,18 +226,23 @@ export default function EditPatientPage() {
           : [],
         feeExempt: formData.feeExempt,
         feeExemptionReason: formData.feeExemptionReason,
+        privacySettings: formData.privacySettings,
         tags: formData.selectedTags,
       };
 
       // Update patient
       patientDb.update(patientId, patientUpdates);
 
+      if (PRIVACY_FLAGS.some(({ flag }) => !!savedPrivacy?.[flag] !== formData.privacySettings[flag])) {
+        logActivity("privacy_settings_changed", "patients", { settings: formData.privacySettings }, patientId);
+      }
+
       // Note: Patient history tracking can be added later
 
       router.push(`/patients/${patientId}`);
     } catch (error) {
       console.error("Error updating patient:", error);
-      alert("Failed to update patient. Please try again.");
+      alert(saveErrorMessage(error, "Failed to update patient. Please try again."));
     } finally {
       setLoading(false);
     }
@@ -613,6 +641,27 @@ export default function EditPatientPage() {
                   </div>
                 )}
               </div>
+
+              {/* Privacy */}
+              <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700">Privacy - Hide from staff other than the doctor</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Fees stay visible to staff who collect them. Hidden details can be revealed with a reason, which is logged.
+                </p>
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {PRIVACY_FLAGS.map(({ flag, label }) => (
+                    <label key={flag} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.privacySettings[flag]}
+                        onChange={() => handlePrivacyToggle(flag)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
             </CollapsibleSection>
 
             {/* Form Actions */}
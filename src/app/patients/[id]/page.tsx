@@ -1,14 +1,28 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter, useParams } from "next/navigation";
+import Image from "next/image";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { PhotoUpload } from "@/components/ui/PhotoUpload";
+import { VisitHistoryModal } from "@/components/ui/VisitHistoryModal";
+import { FamilyCard } from "@/components/ui/FamilyCard";
+import { PatientTimeline } from "@/components/ui/PatientTimeline";
+import { InvestigationForm } from "@/components/ui/InvestigationForm";
+import { LabTrendChart } from "@/components/ui/LabTrendChart";
+import { VoiceNotes } from "@/components/ui/VoiceNotes";
+import { PrivacyNotice } from "@/components/ui/PrivacyNotice";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { Header } from "@/components/layout/Header";
-import { patientDb, visitDb, patientTagDb, feeHistoryDb, investigationDb, voiceNoteDb } from "@/lib/db/database";
+import { patientDb, visitDb, patientTagDb, feeHistoryDb, investigationDb, voiceNoteDb, archiveDb } from "@/lib/db/database";
+import { mergeArchived } from "@/lib/db/archive";
+import { saveErrorMessage } from "@/lib/db/validation";
+import { exportPatientEverything } from "@/lib/db/fhir-exchange";
+import { useAuth, usePrivacy } from "@/lib/auth/auth-context";
+import { getLabTrends, labValueFlag, formatReferenceRange } from "@/lib/lab-parameters";
+import { safeHref } from "@/lib/safe-url";
 import type { Patient, PatientTag, Visit, Investigation, FeeHistoryEntry } from "@/types";
 
 // Format date helper
@@ -33,10 +47,12 @@ function calculateAge(dateOfBirth: string): number {
   return age;
 }
 
-type TabType = "overview" | "visits" | "prescriptions" | "fees" | "investigations";
+type TabType = "overview" | "timeline" | "visits" | "prescriptions" | "fees" | "investigations" | "voiceNotes";
 
 export default function PatientProfilePage() {
   const router = useRouter();
+  const { user, logActivity } = useAuth();
+  const { redactorFor } = usePrivacy();
   const params = useParams();
   const patientId = params.id as string;
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -50,6 +66,11 @@ export default function PatientProfilePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [historyVisitId, setHistoryVisitId] = useState<string | null>(null);
+  // null = closed, "new" = upload, otherwise the investigation being edited
+  const [investigationForm, setInvestigationForm] = useState<"new" | Investigation | null>(null);
+
+  const redactor = useMemo(() => redactorFor(patient), [redactorFor, patient]);
 
   // Load patient data function
   const loadPatientData = () => {
@@ -63,16 +84,45 @@ export default function PatientProfilePage() {
 
       const patientVisits = visitDb.getByPatient(patientId) as Visit[];
       setVisits(patientVisits);
+      // Visits older than the archive cutoff arrive a moment later
+      archiveDb.getPatientHistory(patientId).then(({ visits: archived }) => {
+        if (archived.length === 0) return;
+        setVisits(mergeArchived(patientVisits, archived)
+          .sort((a, b) => new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime()));
+      }).catch((error) => console.error("Error loading archived visits:", error));
 
       const patientFeeHistory = feeHistoryDb.getByPatient(patientId) as FeeHistoryEntry[];
       setFeeHistory(patientFeeHistory);
 
-      const patientInvestigations = investigationDb.getByPatient(patientId) as Investigation[];
-      setInvestigations(patientInvestigations);
+      loadInvestigations();
     }
     setIsLoading(false);
   };
 
+  // Newest report first
+  const loadInvestigations = () => {
+    const patientInvestigations = investigationDb.getByPatient(patientId) as Investigation[];
+    setInvestigations(patientInvestigations
+      .sort((a, b) => new Date(b.investigationDate).getTime() - new Date(a.investigationDate).getTime()));
+  };
+
+  const handleInvestigationSaved = (investigation: Investigation) => {
+    const isNew = investigationForm === "new";
+    setInvestigationForm(null);
+    loadInvestigations();
+    logActivity(isNew ? "investigation_uploaded" : "investigation_updated", "patients", {
+      title: investigation.title,
+      labValues: investigation.labValues?.length || 0,
+    }, patientId);
+  };
+
+  const handleDeleteInvestigation = (investigation: Investigation) => {
+    if (!confirm(`Delete "${investigation.title}"?`)) return;
+    investigationDb.delete(investigation.id);
+    loadInvestigations();
+    logActivity("investigation_deleted", "patients", { title: investigation.title }, patientId);
+  };
+
   useEffect(() => {
     loadPatientData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -100,11 +150,36 @@ export default function PatientProfilePage() {
     }
   };
 
+  // Download the whole record as a FHIR R4 Bundle, for handing over to another provider
+  const handleExportFhir = async () => {
+    if (!patient) return;
+    try {
+      const bundle = await exportPatientEverything(patientId, { baseUrl: window.location.origin });
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${patient.registrationNumber}-fhir.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      logActivity("patient_fhir_exported", "patients", { resources: bundle?.total }, patientId);
+    } catch (error) {
+      console.error("Error exporting FHIR bundle:", error);
+      alert("Failed to export the patient record");
+    }
+  };
+
   // Handle photo upload
   const handlePhotoUpload = (photoUrl: string) => {
     if (patient) {
       const updatedPatient = { ...patient, photoUrl, updatedAt: new Date() };
-      patientDb.update(patientId, updatedPatient);
+      try {
+        patientDb.update(patientId, updatedPatient);
+      } catch (error) {
+        console.error("Error saving photo:", error);
+        alert(saveErrorMessage(error, "Failed to save the photo. Please try again."));
+        return;
+      }
       setPatient(updatedPatient);
     }
   };
@@ -204,6 +279,9 @@ export default function PatientProfilePage() {
                 <Button variant="ghost" onClick={() => router.push(`/patients/${patientId}/edit`)}>
                   Edit
                 </Button>
+                <Button variant="ghost" onClick={handleExportFhir}>
+                  Export FHIR
+                </Button>
                 <Button variant="danger" onClick={handleDelete} loading={deleting}>
                   Delete
                 </Button>
@@ -231,14 +309,18 @@ export default function PatientProfilePage() {
               </div>
             )}
 
+            {patient && <PrivacyNotice patient={patient} className="mt-4" />}
+
             {/* Tabs */}
             <div className="mt-4 flex gap-1 border-b border-gray-200 -mb-px">
               {[
                 { id: "overview", label: "Overview" },
+                { id: "timeline", label: "Timeline" },
                 { id: "visits", label: "Visits" },
                 { id: "prescriptions", label: "Prescriptions" },
                 { id: "fees", label: "Fees" },
                 { id: "investigations", label: "Investigations" },
+                { id: "voiceNotes", label: "Voice Notes" },
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -389,7 +471,7 @@ export default function PatientProfilePage() {
                     <div className="flex justify-between">
                       <span className="text-gray-500">Total Paid</span>
                       <span className="font-medium">
-                        ₹{feeHistory.reduce((sum, f) => sum + (f.paymentStatus === 'paid' ? f.amount : 0), 0)}
+                        ₹{redactor.amount(feeHistory.reduce((sum, f) => sum + (f.paymentStatus === 'paid' ? f.amount : 0), 0))}
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -406,9 +488,14 @@ export default function PatientProfilePage() {
                     </div>
                   </div>
                 </Card>
+
+                {/* Family */}
+                <FamilyCard key={patient.id} patientId={patient.id} className="lg:col-span-3" />
               </div>
             )}
 
+            {activeTab === "timeline" && <PatientTimeline key={patientId} patientId={patientId} redactor={redactor} />}
+
             {activeTab === "visits" && (
               <Card className="overflow-hidden">
                 <div className="overflow-x-auto">
@@ -450,16 +537,16 @@ export default function PatientProfilePage() {
                               <div className="text-sm text-gray-500">{visit.visitTime}</div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm text-gray-900">{visit.doctorName}</div>
+                              <div className="text-sm text-gray-900">{visit.doctorName || "-"}</div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <Badge variant="default">
-                                {visit.mode === "video" ? "📹 Video" : visit.mode === "self-repeat" ? "🔄 Self-Repeat" : "🏥 In-Person"}
+                                {visit.mode === "video" ? "📹 Video" : visit.mode === "tele" ? "📞 Tele" : visit.mode === "self-repeat" ? "🔄 Self-Repeat" : "🏥 In-Person"}
                               </Badge>
                             </td>
                             <td className="px-6 py-4">
                               <div className="text-sm text-gray-900 truncate max-w-xs">
-                                {visit.chiefComplaint || "-"}
+                                {redactor.visitField("chiefComplaint", visit.chiefComplaint) || "-"}
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
@@ -470,8 +557,8 @@ export default function PatientProfilePage() {
                               </Badge>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-right">
-                              <Button variant="ghost" size="sm">
-                                View
+                              <Button variant="ghost" size="sm" onClick={() => setHistoryVisitId(visit.id)}>
+                                History
                               </Button>
                             </td>
                           </tr>
@@ -537,7 +624,7 @@ export default function PatientProfilePage() {
                               {fee.feeType.replace("-", " ")}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                              ₹{fee.amount}
+                              ₹{redactor.amount(fee.amount)}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 capitalize">
                               {fee.paymentMethod}
@@ -559,24 +646,151 @@ export default function PatientProfilePage() {
             )}
 
             {activeTab === "investigations" && (
-              <Card className="p-6 text-center">
-                <div className="text-gray-400 mb-4">
-                  <svg className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                  </svg>
+              investigations.length === 0 ? (
+                <Card className="p-6 text-center">
+                  <div className="text-gray-400 mb-4">
+                    <svg className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No Investigations Yet</h3>
+                  <p className="text-gray-500 mb-4">
+                    Lab reports and investigations can be uploaded here.
+                  </p>
+                  <Button variant="ghost" onClick={() => setInvestigationForm("new")}>
+                    Upload Investigation
+                  </Button>
+                </Card>
+              ) : (
+                <div className="space-y-6">
+                  {/* Lab trends */}
+                  {(() => {
+                    const trends = getLabTrends(investigations);
+                    if (trends.length === 0) return null;
+                    const visitNumbers = new Map(visits.map((visit) => [visit.id, visit.visitNumber]));
+                    return (
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-3">Lab Trends</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                          {trends.map((trend) => (
+                            <LabTrendChart key={`${trend.parameter}-${trend.unit}`} trend={trend} visitNumbers={visitNumbers} />
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Reports */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-lg font-semibold text-gray-900">Reports</h3>
+                      <Button size="sm" onClick={() => setInvestigationForm("new")}>Upload Investigation</Button>
+                    </div>
+                    <div className="space-y-3">
+                      {investigations.map((investigation) => {
+                        const visit = visits.find((v) => v.id === investigation.visitId);
+                        const fileHref = safeHref(investigation.fileUrl);
+                        const preview = safeHref(investigation.thumbnailUrl)
+                          || (investigation.fileType !== "pdf" ? fileHref : undefined);
+                        return (
+                          <Card key={investigation.id} className="p-4">
+                            <div className="flex gap-4">
+                              <a
+                                href={fileHref}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex-shrink-0 w-20 h-24 rounded border border-gray-200 bg-gray-50 overflow-hidden flex items-center justify-center"
+                              >
+                                {preview ? (
+                                  <Image
+                                    src={preview}
+                                    alt={investigation.title}
+                                    width={80}
+                                    height={96}
+                                    unoptimized
+                                    className="w-full h-full object-cover object-top"
+                                  />
+                                ) : (
+                                  <span className="text-xs font-semibold text-gray-500 uppercase">{investigation.fileType}</span>
+                                )}
+                              </a>
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between gap-4">
+                                  <div>
+                                    <a
+                                      href={fileHref}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="font-medium text-blue-600 hover:underline"
+                                    >
+                                      {investigation.title}
+                                    </a>
+                                    <p className="text-sm text-gray-500">
+                                      {formatDate(investigation.investigationDate)}
+                                      {visit && ` · Visit ${visit.visitNumber}`}
+                                      {investigation.description && ` · ${investigation.description}`}
+                                    </p>
+                                  </div>
+                                  <div className="flex gap-2">
+                                    <Button size="sm" variant="ghost" onClick={() => setInvestigationForm(investigation)}>
+                                      Edit
+                                    </Button>
+                                    <Button size="sm" variant="ghost" onClick={() => handleDeleteInvestigation(investigation)}>
+                                      Delete
+                                    </Button>
+                                  </div>
+                                </div>
+                                {investigation.labValues && investigation.labValues.length > 0 && (
+                                  <div className="mt-2 flex flex-wrap gap-2">
+                                    {investigation.labValues.map((labValue) => {
+                                      const flag = labValueFlag(labValue);
+                                      const range = formatReferenceRange(labValue);
+                                      return (
+                                        <Badge
+                                          key={`${labValue.parameter}-${labValue.unit}`}
+                                          variant={flag === "normal" ? "default" : "danger"}
+                                          size="sm"
+                                        >
+                                          <span title={range ? `Reference ${range} ${labValue.unit}` : undefined}>
+                                            {labValue.name}: {labValue.value} {labValue.unit}
+                                            {flag === "high" && " ↑"}
+                                            {flag === "low" && " ↓"}
+                                          </span>
+                                        </Badge>
+                                      );
+                                    })}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </Card>
+                        );
+                      })}
+                    </div>
+                  </div>
                 </div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">No Investigations Yet</h3>
-                <p className="text-gray-500 mb-4">
-                  Lab reports and investigations can be uploaded here.
-                </p>
-                <Button variant="ghost">
-                  Upload Investigation
-                </Button>
-              </Card>
+              )
             )}
+
+            {activeTab === "voiceNotes" && <VoiceNotes key={patientId} patientId={patientId} redactor={redactor} />}
           </div>
         </main>
       </div>
+
+      {historyVisitId && (
+        <VisitHistoryModal visitId={historyVisitId} redactor={redactor} onClose={() => setHistoryVisitId(null)} />
+      )}
+
+      {investigationForm && patient && (
+        <InvestigationForm
+          patient={patient}
+          visits={visits}
+          investigation={investigationForm === "new" ? undefined : investigationForm}
+          uploadedBy={user?.name || "unknown"}
+          onSaved={handleInvestigationSaved}
+          onClose={() => setInvestigationForm(null)}
+        />
+      )}
     </div>
   );
 }
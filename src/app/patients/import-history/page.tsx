@@ -0,0 +1,524 @@
+"use client";
+
+import { useState, useRef } from "react";
+import Link from "next/link";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Badge } from "@/components/ui/Badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import { readSpreadsheet, type Spreadsheet } from "@/lib/spreadsheet";
+import {
+  HISTORY_IMPORT_FIELDS,
+  applyImportTemplate,
+  deleteImportTemplate,
+  getHistoryImports,
+  getImportTemplates,
+  previewHistoryImport,
+  runHistoryImport,
+  saveImportTemplate,
+  suggestHistoryMapping,
+  type HistoryColumnMapping,
+  type HistoryImportField,
+  type HistoryImportResult,
+  type HistoryPreview,
+} from "@/lib/db/history-import";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+// Enough to review; the counts above the tables cover the rest
+const PREVIEW_ROW_LIMIT = 200;
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+export default function ImportVisitHistoryPage() {
+  const { user, logActivity } = useAuth();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<HistoryColumnMapping>([]);
+  const [templates, setTemplates] = useState(() => getImportTemplates());
+  const [templateId, setTemplateId] = useState("");
+  const [preview, setPreview] = useState<HistoryPreview | null>(null);
+  const [dryRun, setDryRun] = useState<HistoryImportResult | null>(null);
+  const [result, setResult] = useState<HistoryImportResult | null>(null);
+  const [history, setHistory] = useState(() => getHistoryImports().slice(0, 5));
+  const [isWorking, setIsWorking] = useState(false);
+  const [fileError, setFileError] = useState("");
+  const [dragActive, setDragActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = async (file: File) => {
+    if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setFileError("Please upload a CSV or Excel (.xlsx) file");
+      return;
+    }
+
+    setIsWorking(true);
+    setFileError("");
+    try {
+      const data = await readSpreadsheet(file);
+      const template = templates.find((saved) => saved.id === templateId);
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(template ? applyImportTemplate(template, data.headers) : suggestHistoryMapping(data.headers));
+      setPreview(null);
+      setDryRun(null);
+      setResult(null);
+      setStep("map");
+    } catch (error) {
+      setFileError(`Failed to read file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setIsWorking(false);
+  };
+
+  // A field can only come from one column
+  const handleMap = (column: number, field: HistoryImportField | "") => {
+    setMapping(mapping.map((current, index) => {
+      if (index === column) return field;
+      return field && current === field ? "" : current;
+    }));
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((saved) => saved.id === id);
+    if (!sheet) return;
+    setMapping(template ? applyImportTemplate(template, sheet.headers) : suggestHistoryMapping(sheet.headers));
+  };
+
+  const handleSaveTemplate = () => {
+    if (!sheet) return;
+    const current = templates.find((saved) => saved.id === templateId);
+    const name = prompt("Template name (an existing name is replaced)", current?.name || "");
+    if (!name?.trim()) return;
+    const saved = saveImportTemplate(name.trim(), sheet.headers, mapping);
+    setTemplates(getImportTemplates());
+    setTemplateId(saved.id);
+  };
+
+  const handleDeleteTemplate = () => {
+    const template = templates.find((saved) => saved.id === templateId);
+    if (!template || !confirm(`Delete the mapping template "${template.name}"?`)) return;
+    deleteImportTemplate(template.id);
+    setTemplates(getImportTemplates());
+    setTemplateId("");
+  };
+
+  const handleCheck = async () => {
+    if (!sheet) return;
+    try {
+      setPreview(await previewHistoryImport(sheet, mapping));
+      setDryRun(null);
+      setStep("preview");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!preview) return;
+    setDryRun(await runHistoryImport(preview, { fileName, importedBy: user?.name || "unknown", dryRun: true }));
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsWorking(true);
+    try {
+      const imported = await runHistoryImport(preview, { fileName, importedBy: user?.name || "unknown" });
+      logActivity("visit_history_imported", "patients", {
+        importId: imported.importId,
+        fileName,
+        visitsCreated: imported.visitsCreated,
+        visitsUpdated: imported.visitsUpdated,
+        prescriptionsCreated: imported.prescriptionsCreated,
+        errorRows: preview.errorRows,
+      });
+      setResult(imported);
+      setHistory(getHistoryImports().slice(0, 5));
+      setStep("done");
+    } catch (error) {
+      console.error("Error importing visit history:", error);
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setIsWorking(false);
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave") {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      handleFileUpload(e.dataTransfer.files[0]);
+    }
+  };
+
+  const templateSelect = (
+    <select
+      value={templateId}
+      onChange={(e) => handleTemplateChange(e.target.value)}
+      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+    >
+      <option value="">Recognise headers automatically</option>
+      {templates.map((template) => (
+        <option key={template.id} value={template.id}>{template.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/patients" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Import Visit History</h1>
+              <p className="text-sm text-gray-500">Past visits and prescriptions from another system&apos;s CSV or Excel export</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {/* Steps */}
+          <div className="flex gap-2 text-sm">
+            {(["upload", "map", "preview", "done"] as Step[]).map((name, index) => (
+              <span
+                key={name}
+                className={`px-3 py-1 rounded-full ${step === name ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-600"}`}
+              >
+                {index + 1}. {{ upload: "Choose File", map: "Map Columns", preview: "Check & Import", done: "Done" }[name]}
+              </span>
+            ))}
+          </div>
+
+          {step === "upload" && (
+            <>
+              {/* Instructions */}
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">File Format</h2>
+                <div className="space-y-2 text-sm text-gray-600">
+                  <p>
+                    One row per prescribed medicine, or one row per visit. Each row needs the patient&apos;s registration
+                    number and the visit date; patients must be imported first. Rows with the same patient, date and old
+                    visit ID become one visit, numbered in date order with the patient&apos;s existing visits.
+                  </p>
+                  <p>
+                    Visits and prescriptions may come from separate files: import the visits first, then the
+                    prescriptions. Visits and medicines already brought in are not repeated.
+                  </p>
+                  <p className="mt-4">Example CSV:</p>
+                  <pre className="bg-gray-100 p-3 rounded text-xs mt-2 overflow-x-auto">
+Regd No,Visit Date,Complaint,Diagnosis,Medicine,Potency,Dose,Duration{"\n"}
+DK-1001,12/03/2019,Headache for 2 weeks,Migraine,Belladonna,200C,4 pills TDS,7 days{"\n"}
+DK-1001,12/03/2019,Headache for 2 weeks,Migraine,Sac Lac,,4 pills BD,2 weeks
+                  </pre>
+                </div>
+              </Card>
+
+              {templates.length > 0 && (
+                <Card className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">Mapping Template</h2>
+                      <p className="text-sm text-gray-500">Use the columns saved from an earlier export of the same system</p>
+                    </div>
+                    {templateSelect}
+                  </div>
+                </Card>
+              )}
+
+              {/* Drop Zone */}
+              <div
+                className={`p-12 text-center border-2 border-dashed rounded-lg transition-colors ${
+                  dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
+                }`}
+                onDragEnter={handleDrag}
+                onDragLeave={handleDrag}
+                onDragOver={handleDrag}
+                onDrop={handleDrop}
+              >
+                <div className="space-y-4">
+                  <div className="text-gray-400">
+                    <svg className="mx-auto h-12 w-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="text-lg font-medium text-gray-900">
+                      Drop your CSV or Excel file here
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      or click the button below to select a file
+                    </p>
+                  </div>
+                  <div>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.xlsx"
+                      onChange={(e) => {
+                        if (e.target.files && e.target.files[0]) {
+                          handleFileUpload(e.target.files[0]);
+                        }
+                        e.target.value = "";
+                      }}
+                      className="hidden"
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isWorking}
+                    >
+                      {isWorking ? "Reading..." : "Select File"}
+                    </Button>
+                  </div>
+                  {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === "map" && sheet && (
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Map Columns</h2>
+                  <p className="text-sm text-gray-500">{fileName}: {sheet.rows.length} rows</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {templateSelect}
+                  <Button variant="secondary" onClick={handleSaveTemplate}>Save as Template</Button>
+                  {templateId && (
+                    <Button variant="secondary" onClick={handleDeleteTemplate}>Delete</Button>
+                  )}
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b bg-gray-50">
+                    <th className="p-2">Column in File</th>
+                    <th className="p-2">Sample Values</th>
+                    <th className="p-2">Visit or Prescription Field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.headers.map((header, index) => (
+                    <tr key={index} className="border-b">
+                      <td className="p-2 font-medium">{header}</td>
+                      <td className="p-2 text-gray-500">
+                        {sheet.rows.slice(0, 3).map((row) => row[index]).filter(Boolean).join(" · ") || "-"}
+                      </td>
+                      <td className="p-2">
+                        <select
+                          value={mapping[index] || ""}
+                          onChange={(e) => handleMap(index, e.target.value as HistoryImportField | "")}
+                          className="border border-gray-300 rounded px-2 py-1 text-sm w-56"
+                        >
+                          <option value="">Don&apos;t import</option>
+                          {HISTORY_IMPORT_FIELDS.map(({ field, label }) => (
+                            <option key={field} value={field}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-between mt-4">
+                <Button variant="secondary" onClick={() => setStep("upload")}>Choose Another File</Button>
+                <Button onClick={handleCheck}>Check Rows</Button>
+              </div>
+            </Card>
+          )}
+
+          {step === "preview" && preview && (
+            <>
+              <Card className="p-6">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="default">{preview.rowCount} rows</Badge>
+                  <Badge variant="info">{preview.visits.length} visits</Badge>
+                  <Badge variant="info">{preview.prescriptionCount} prescriptions</Badge>
+                  <Badge variant="info">{preview.patientCount} patients</Badge>
+                  <Badge variant={preview.errorRows > 0 ? "danger" : "success"}>{preview.errorRows} rows with errors</Badge>
+                </div>
+              </Card>
+
+              {preview.issues.length > 0 && (
+                <Card className="p-0 overflow-x-auto">
+                  <h2 className="text-lg font-semibold text-gray-900 p-4 pb-2">Rows to Check</h2>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b bg-gray-50">
+                        <th className="p-2">Row</th>
+                        <th className="p-2">Status</th>
+                        <th className="p-2">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.issues.slice(0, PREVIEW_ROW_LIMIT).map((issue) => (
+                        <tr key={issue.rowNumber} className="border-b align-top">
+                          <td className="p-2 text-gray-500">{issue.rowNumber}</td>
+                          <td className="p-2">
+                            {issue.errors.length > 0
+                              ? <Badge variant="danger" size="sm">Left out</Badge>
+                              : <Badge variant="warning" size="sm">Check</Badge>}
+                          </td>
+                          <td className="p-2">
+                            {issue.errors.map((error) => <p key={error} className="text-red-600">{error}</p>)}
+                            {issue.warnings.map((warning) => <p key={warning} className="text-yellow-700">{warning}</p>)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
+              )}
+
+              <Card className="p-0 overflow-x-auto">
+                <h2 className="text-lg font-semibold text-gray-900 p-4 pb-2">Visits</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b bg-gray-50">
+                      <th className="p-2">Date</th>
+                      <th className="p-2">Patient</th>
+                      <th className="p-2">Complaint / Diagnosis</th>
+                      <th className="p-2">Medicines</th>
+                      <th className="p-2">Rows</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.visits.slice(0, PREVIEW_ROW_LIMIT).map((visit) => (
+                      <tr key={`${visit.patient.id}-${visit.visitDate}-${visit.visitRef || ""}`} className="border-b align-top">
+                        <td className="p-2 whitespace-nowrap">
+                          {formatDate(visit.visitDate)}
+                          {visit.existingVisitId && <Badge variant="info" size="sm" className="ml-2">Top up</Badge>}
+                        </td>
+                        <td className="p-2">
+                          <Link href={`/patients/${visit.patient.id}`} className="text-blue-600 hover:underline">
+                            {visit.patient.fullName}
+                          </Link>
+                          <span className="text-gray-500"> ({visit.patient.registrationNumber})</span>
+                        </td>
+                        <td className="p-2">
+                          {[visit.fields.chiefComplaint, visit.fields.diagnosis].filter(Boolean).join(" / ") || "-"}
+                        </td>
+                        <td className="p-2">
+                          {visit.prescriptions.map((rx) => [rx.medicine, rx.potency].filter(Boolean).join(" ")).join(", ") || "-"}
+                        </td>
+                        <td className="p-2 text-gray-500">{visit.rowNumbers.join(", ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.visits.length > PREVIEW_ROW_LIMIT && (
+                  <p className="p-3 text-sm text-gray-500">
+                    Showing the first {PREVIEW_ROW_LIMIT} of {preview.visits.length} visits
+                  </p>
+                )}
+              </Card>
+
+              {dryRun && (
+                <Card className="p-6 bg-blue-50 border-blue-200">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-2">Dry Run: nothing was saved</h2>
+                  <p className="text-sm text-gray-700">
+                    Would create {dryRun.visitsCreated} visits, add to {dryRun.visitsUpdated} visits from earlier imports
+                    and create {dryRun.prescriptionsCreated} prescriptions
+                    {dryRun.prescriptionsSkipped > 0 && <> ({dryRun.prescriptionsSkipped} already imported)</>}.
+                  </p>
+                </Card>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="secondary" onClick={() => setStep("map")}>Back to Mapping</Button>
+                <div className="flex gap-3">
+                  <Button variant="secondary" onClick={handleDryRun}>Dry Run</Button>
+                  <Button onClick={handleImport} loading={isWorking} disabled={preview.visits.length === 0}>
+                    Import {preview.visits.length} Visits
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === "done" && result && (
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Import Results</h2>
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center">
+                    <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {result.visitsCreated} visits and {result.prescriptionsCreated} prescriptions imported
+                    </p>
+                    {result.visitsUpdated > 0 && (
+                      <p className="text-sm text-gray-600">{result.visitsUpdated} visits from earlier imports topped up</p>
+                    )}
+                    {result.prescriptionsSkipped > 0 && (
+                      <p className="text-sm text-gray-600">{result.prescriptionsSkipped} prescriptions were already imported</p>
+                    )}
+                    {result.patientsRenumbered > 0 && (
+                      <p className="text-sm text-gray-600">Visits renumbered for {result.patientsRenumbered} patients</p>
+                    )}
+                  </div>
+                </div>
+                <Button variant="secondary" onClick={() => setStep("upload")}>Import Another File</Button>
+              </div>
+            </Card>
+          )}
+
+          {/* Earlier Imports */}
+          {history.length > 0 && (
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Earlier Imports</h2>
+              <div className="space-y-1">
+                {history.map((entry) => (
+                  <p key={entry.id} className="text-sm text-gray-600">
+                    {entry.fileName}: {entry.visitIds.length} visits, {entry.prescriptionIds.length} prescriptions by{" "}
+                    {entry.importedBy} on {new Date(entry.importedAt).toLocaleString()}
+                  </p>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-4">
+            <Link href="/patients">
+              <Button variant="secondary">Back to Patients</Button>
+            </Link>
+            <Link href="/patients/import">
+              <Button variant="secondary">Import Patients</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,168 +5,149 @@ import Link from "next/link";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
-import { db, patientDb } from "@/lib/db/database";
+import { Badge } from "@/components/ui/Badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import { readSpreadsheet, type Spreadsheet } from "@/lib/spreadsheet";
+import {
+  PATIENT_IMPORT_FIELDS,
+  getLastImport,
+  isLikelyDuplicate,
+  previewImport,
+  rollbackImport,
+  runImport,
+  suggestMapping,
+  type ColumnMapping,
+  type ImportPreview,
+  type ImportResult,
+  type ImportRow,
+  type PatientImport,
+  type PatientImportField,
+} from "@/lib/db/patient-import";
 import type { Patient } from "@/types";
 
-interface ImportRow {
-  registrationNumber: string;
-  firstName: string;
-  lastName: string;
-  mobileNumber: string;
+type Step = "upload" | "map" | "preview" | "done";
+type RowFilter = "all" | "errors" | "warnings" | "duplicates";
+
+// Enough to review; the counts above the table cover the rest
+const PREVIEW_ROW_LIMIT = 200;
+
+function rowStatus(row: ImportRow): { label: string; variant: "success" | "danger" | "warning" } {
+  if (!row.patient) return { label: "Error", variant: "danger" };
+  if (isLikelyDuplicate(row)) return { label: "Duplicate?", variant: "warning" };
+  if (row.warnings.length > 0 || row.duplicates.length > 0) return { label: "Check", variant: "warning" };
+  return { label: "OK", variant: "success" };
 }
 
 export default function ImportPatientsPage() {
+  const { user, logActivity } = useAuth();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const [isImporting, setIsImporting] = useState(false);
-  const [importResults, setImportResults] = useState<{ success: number; errors: string[] } | null>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [defaultGender, setDefaultGender] = useState<Patient["gender"] | "">("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all");
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [dryRun, setDryRun] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [lastImport, setLastImport] = useState<PatientImport | undefined>(() => getLastImport());
+  const [isWorking, setIsWorking] = useState(false);
+  const [fileError, setFileError] = useState("");
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = async (file: File) => {
     if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setFileError("Please upload a CSV or Excel (.xlsx) file");
+      return;
+    }
 
-    setIsImporting(true);
-    setImportResults(null);
-
+    setIsWorking(true);
+    setFileError("");
     try {
-      const text = await file.text();
-      const lines = text.trim().split("\n");
-      const headers = lines[0].toLowerCase().split(",").map(h => h.trim());
-
-      // Expected headers: regd no, name, mobile number
-      const regNoIndex = headers.findIndex(h => 
-        h.includes("reg") || h.includes("regd") || h.includes("registration")
-      );
-      const nameIndex = headers.findIndex(h => h.includes("name"));
-      const mobileIndex = headers.findIndex(h => 
-        h.includes("mobile") || h.includes("phone") || h.includes("contact")
-      );
-
-      if (nameIndex === -1) {
-        setImportResults({
-          success: 0,
-          errors: ["CSV must have a 'Name' column"]
-        });
-        setIsImporting(false);
-        return;
-      }
-
-      let successCount = 0;
-      const errors: string[] = [];
-
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-
-        // Handle CSV parsing with quotes
-        const values: string[] = [];
-        let currentValue = "";
-        let inQuotes = false;
-
-        for (const char of line) {
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === "," && !inQuotes) {
-            values.push(currentValue.trim());
-            currentValue = "";
-          } else {
-            currentValue += char;
-          }
-        }
-        values.push(currentValue.trim());
-
-        if (values.length < 2) continue;
-
-        const nameParts = values[nameIndex]?.split(" ") || [];
-        const firstName = nameParts[0] || "";
-        const lastName = nameParts.slice(1).join(" ") || "";
-        const mobile = values[mobileIndex >= 0 ? mobileIndex : nameIndex]?.replace(/["']/g, "") || ""; // Use name if mobile not found
-        const regNo = regNoIndex >= 0 ? values[regNoIndex]?.replace(/["']/g, "") : "";
-
-        if (!firstName) {
-          errors.push(`Row ${i + 1}: Missing required 'Name' field`);
-          continue;
-        }
-
-        // Check for duplicate by registration number only (same family can have same mobile)
-        const existingPatients = patientDb.getAll() as Patient[];
-        const duplicateRegNumber = regNo ? existingPatients.some(
-          (p: Patient) => p.registrationNumber.toLowerCase() === regNo.toLowerCase()
-        ) : false;
-        
-        if (duplicateRegNumber && regNo) {
-          errors.push(`Row ${i + 1}: Registration number '${regNo}' already exists`);
-          continue;
-        }
+      const data = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(suggestMapping(data.headers));
+      setPreview(null);
+      setDryRun(null);
+      setResult(null);
+      setStep("map");
+    } catch (error) {
+      setFileError(`Failed to read file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setIsWorking(false);
+  };
 
-        try {
-          // Use provided registration number or generate new one
-          let registrationNumber = regNo;
-          if (!registrationNumber) {
-            // Get current settings and generate
-            const settings = db.getRegNumberSettings(); 
-            const currentPatients = patientDb.getAll() as Patient[];
-            const maxReg = currentPatients.reduce((max: number, p: Patient) => {
-              const num = parseInt(p.registrationNumber?.replace(/[^0-9]/g, "") || "0");
-              return num > max ? num : max;
-            }, 0);
-            const nextNum = Math.max(maxReg + 1, settings.startingNumber);
-            registrationNumber = `${settings.prefix}${nextNum.toString().padStart(settings.padding, "0")}`;
-          }
+  // A field can only come from one column
+  const handleMap = (column: number, field: PatientImportField | "") => {
+    setMapping(mapping.map((current, index) => {
+      if (index === column) return field;
+      return field && current === field ? "" : current;
+    }));
+  };
 
-          patientDb.create({
-            registrationNumber,
-            firstName,
-            lastName,
-            fullName: `${firstName} ${lastName}`.trim(),
-            dateOfBirth: "",
-            age: 0,
-            gender: "other" as const,
-            mobileNumber: mobile,
-            email: "",
-            address: {
-              street: "",
-              city: "",
-              state: "",
-              pincode: "",
-              country: "India",
-            },
-            bloodGroup: "unknown" as const,
-            occupation: "",
-            maritalStatus: "single" as const,
-            tags: [],
-            feeExempt: false,
-            privacySettings: {
-              hideMentalSymptoms: false,
-              hideDiagnosis: false,
-              hidePrognosis: false,
-              hideFees: false,
-              hideCaseNotes: false,
-            },
-            medicalHistory: [],
-            allergies: [],
-            createdBy: "import",
-          } as unknown as Parameters<typeof patientDb.create>[0]);
+  const handleCheck = () => {
+    if (!sheet) return;
+    try {
+      setPreview(previewImport(sheet, mapping, { defaultGender: defaultGender || undefined }));
+      setDryRun(null);
+      setRowFilter("all");
+      setStep("preview");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
 
-          successCount++;
-        } catch (err) {
-          errors.push(`Row ${i + 1}: Failed to create patient - ${err}`);
-        }
-      }
+  const handleDryRun = () => {
+    if (!preview) return;
+    setDryRun(runImport(preview, { fileName, importedBy: user?.name || "unknown", skipDuplicates, dryRun: true }));
+  };
 
-      setImportResults({
-        success: successCount,
-        errors
+  const handleImport = () => {
+    if (!preview) return;
+    setIsWorking(true);
+    try {
+      const imported = runImport(preview, { fileName, importedBy: user?.name || "unknown", skipDuplicates });
+      logActivity("patients_imported", "patients", {
+        importId: imported.importId,
+        fileName,
+        created: imported.created.length,
+        skipped: imported.skipped.length,
       });
-
+      setResult(imported);
+      setLastImport(getLastImport());
+      setStep("done");
     } catch (error) {
-      setImportResults({
-        success: 0,
-        errors: [`Failed to read file: ${error}`]
-      });
+      console.error("Error importing patients:", error);
+      alert(`Import failed, nothing was saved: ${error instanceof Error ? error.message : String(error)}`);
     }
+    setIsWorking(false);
+  };
 
-    setIsImporting(false);
+  const handleRollback = () => {
+    if (!lastImport) return;
+    if (!confirm(
+      `Roll back the import of ${lastImport.fileName} (${lastImport.patientIds.length} patients)? ` +
+      "Patients edited or seen since the import are kept."
+    )) return;
+    try {
+      const { removed, kept } = rollbackImport(lastImport.id, user?.name || "unknown");
+      logActivity("patient_import_rolled_back", "patients", {
+        importId: lastImport.id,
+        fileName: lastImport.fileName,
+        removed,
+        kept: kept.map((patient) => patient.registrationNumber),
+      });
+      alert(kept.length > 0
+        ? `Removed ${removed} patients. Kept ${kept.length} used since the import: ${kept.map((patient) => patient.registrationNumber).join(", ")}`
+        : `Removed ${removed} patients`);
+      setLastImport(getLastImport());
+    } catch (error) {
+      alert(`Rollback failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -185,22 +166,22 @@ export default function ImportPatientsPage() {
     setDragActive(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.name.endsWith(".csv")) {
-        handleFileUpload(file);
-      } else {
-        setImportResults({
-          success: 0,
-          errors: ["Please upload a CSV file"]
-        });
-      }
+      handleFileUpload(e.dataTransfer.files[0]);
     }
   };
 
+  const filteredRows = (preview?.rows || []).filter((row) => {
+    if (rowFilter === "errors") return !row.patient;
+    if (rowFilter === "warnings") return row.patient && (row.warnings.length > 0 || row.duplicates.length > 0);
+    if (rowFilter === "duplicates") return row.patient && isLikelyDuplicate(row);
+    return true;
+  });
+  const importCount = preview ? preview.valid - (skipDuplicates ? preview.duplicates : 0) : 0;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Sidebar />
-      
+
       <div
         className={`transition-all duration-300 ${
           sidebarCollapsed ? "ml-16" : "ml-64"
@@ -216,81 +197,268 @@ export default function ImportPatientsPage() {
             </Link>
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Import Patients</h1>
-              <p className="text-sm text-gray-500">Bulk import patients from CSV file</p>
+              <p className="text-sm text-gray-500">Bulk import patients from a CSV or Excel file</p>
             </div>
           </div>
         </div>
 
         {/* Content */}
         <div className="p-6 space-y-6">
-          {/* Instructions */}
-          <Card className="p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">CSV Format Instructions</h2>
-            <div className="space-y-2 text-sm text-gray-600">
-              <p>Create a CSV file with the following columns:</p>
-              <ul className="list-disc list-inside space-y-1 ml-4">
-                <li><strong>Registration Number</strong> (optional) - Will be auto-generated if not provided</li>
-                <li><strong>Name</strong> (required) - Patient full name</li>
-                <li><strong>Mobile Number</strong> (optional) - Patient contact number</li>
-              </ul>
-              <p className="mt-4">Example CSV:</p>
-              <pre className="bg-gray-100 p-3 rounded text-xs mt-2 overflow-x-auto">
-Registration Number,Name,Mobile Number
-DK-1001,John Smith,9876543210
-DK-1002,Sarah Johnson,9876543211
-              </pre>
-            </div>
-          </Card>
+          {/* Steps */}
+          <div className="flex gap-2 text-sm">
+            {(["upload", "map", "preview", "done"] as Step[]).map((name, index) => (
+              <span
+                key={name}
+                className={`px-3 py-1 rounded-full ${step === name ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-600"}`}
+              >
+                {index + 1}. {{ upload: "Choose File", map: "Map Columns", preview: "Check & Import", done: "Done" }[name]}
+              </span>
+            ))}
+          </div>
 
-          {/* Drop Zone */}
-          <div 
-            className={`p-12 text-center border-2 border-dashed rounded-lg transition-colors ${
-              dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
-            }`}
-            onDragEnter={handleDrag}
-            onDragLeave={handleDrag}
-            onDragOver={handleDrag}
-            onDrop={handleDrop}
-          >
-            <div className="space-y-4">
-              <div className="text-gray-400">
-                <svg className="mx-auto h-12 w-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                </svg>
+          {step === "upload" && (
+            <>
+              {/* Instructions */}
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">File Format</h2>
+                <div className="space-y-2 text-sm text-gray-600">
+                  <p>
+                    Use a CSV file or an Excel workbook (.xlsx, first sheet) with a header row. You choose which
+                    column holds which patient detail in the next step; common headers are recognised automatically.
+                  </p>
+                  <p>
+                    Only a name is required. Rows need a gender too, unless you pick a default for rows without one.
+                    Dates may be written as DD/MM/YYYY or YYYY-MM-DD. Tags, medical history and allergies may list
+                    several values separated by semicolons.
+                  </p>
+                  <p className="mt-4">Example CSV:</p>
+                  <pre className="bg-gray-100 p-3 rounded text-xs mt-2 overflow-x-auto">
+Regd No,Name,Gender,DOB,Mobile,Address,City,Pincode,Allergies{"\n"}
+DK-1001,Mr. John Smith,M,12/03/1980,9876543210,&quot;12, MG Road&quot;,Pune,411001,Dust; Pollen{"\n"}
+DK-1002,Sarah Johnson,F,1992-07-01,9876543211,,,,
+                  </pre>
+                </div>
+              </Card>
+
+              {/* Drop Zone */}
+              <div
+                className={`p-12 text-center border-2 border-dashed rounded-lg transition-colors ${
+                  dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
+                }`}
+                onDragEnter={handleDrag}
+                onDragLeave={handleDrag}
+                onDragOver={handleDrag}
+                onDrop={handleDrop}
+              >
+                <div className="space-y-4">
+                  <div className="text-gray-400">
+                    <svg className="mx-auto h-12 w-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="text-lg font-medium text-gray-900">
+                      Drop your CSV or Excel file here
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      or click the button below to select a file
+                    </p>
+                  </div>
+                  <div>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.xlsx"
+                      onChange={(e) => {
+                        if (e.target.files && e.target.files[0]) {
+                          handleFileUpload(e.target.files[0]);
+                        }
+                        e.target.value = "";
+                      }}
+                      className="hidden"
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isWorking}
+                    >
+                      {isWorking ? "Reading..." : "Select File"}
+                    </Button>
+                  </div>
+                  {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+                </div>
               </div>
-              <div>
-                <p className="text-lg font-medium text-gray-900">
-                  Drop your CSV file here
-                </p>
-                <p className="text-sm text-gray-500 mt-1">
-                  or click the button below to select a file
-                </p>
+            </>
+          )}
+
+          {step === "map" && sheet && (
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Map Columns</h2>
+                  <p className="text-sm text-gray-500">{fileName}: {sheet.rows.length} rows</p>
+                </div>
+                <div className="flex items-end gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Gender when not given</label>
+                    <select
+                      value={defaultGender}
+                      onChange={(e) => setDefaultGender(e.target.value as Patient["gender"] | "")}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    >
+                      <option value="">Required (row is an error)</option>
+                      <option value="male">Male</option>
+                      <option value="female">Female</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
+                </div>
               </div>
-              <div>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept=".csv"
-                  onChange={(e) => {
-                    if (e.target.files && e.target.files[0]) {
-                      handleFileUpload(e.target.files[0]);
-                    }
-                  }}
-                  className="hidden"
-                />
-                <Button 
-                  variant="primary"
-                  onClick={() => fileInputRef.current?.click()}
-                  disabled={isImporting}
-                >
-                  {isImporting ? "Processing..." : "Select CSV File"}
-                </Button>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b bg-gray-50">
+                    <th className="p-2">Column in File</th>
+                    <th className="p-2">Sample Values</th>
+                    <th className="p-2">Patient Field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.headers.map((header, index) => (
+                    <tr key={index} className="border-b">
+                      <td className="p-2 font-medium">{header}</td>
+                      <td className="p-2 text-gray-500">
+                        {sheet.rows.slice(0, 3).map((row) => row[index]).filter(Boolean).join(" · ") || "-"}
+                      </td>
+                      <td className="p-2">
+                        <select
+                          value={mapping[index] || ""}
+                          onChange={(e) => handleMap(index, e.target.value as PatientImportField | "")}
+                          className="border border-gray-300 rounded px-2 py-1 text-sm w-56"
+                        >
+                          <option value="">Don&apos;t import</option>
+                          {PATIENT_IMPORT_FIELDS.map(({ field, label }) => (
+                            <option key={field} value={field}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-between mt-4">
+                <Button variant="secondary" onClick={() => setStep("upload")}>Choose Another File</Button>
+                <Button onClick={handleCheck}>Check Rows</Button>
               </div>
-            </div>
-          </div>
+            </Card>
+          )}
 
-          {/* Import Results */}
-          {importResults && (
+          {step === "preview" && preview && (
+            <>
+              <Card className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex flex-wrap gap-2">
+                    {([
+                      ["all", `All ${preview.rows.length}`, "default"],
+                      ["errors", `Errors ${preview.invalid}`, "danger"],
+                      ["warnings", "Warnings", "warning"],
+                      ["duplicates", `Likely duplicates ${preview.duplicates}`, "warning"],
+                    ] as const).map(([filter, label, variant]) => (
+                      <button key={filter} onClick={() => setRowFilter(filter)}>
+                        <Badge variant={rowFilter === filter ? "info" : variant}>{label}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                    Skip likely duplicates
+                  </label>
+                </div>
+              </Card>
+
+              <Card className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b bg-gray-50">
+                      <th className="p-2">Row</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Name</th>
+                      <th className="p-2">Regd No</th>
+                      <th className="p-2">Mobile</th>
+                      <th className="p-2">Age / Gender</th>
+                      <th className="p-2">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => {
+                      const status = rowStatus(row);
+                      return (
+                        <tr key={row.rowNumber} className="border-b align-top">
+                          <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="p-2"><Badge variant={status.variant} size="sm">{status.label}</Badge></td>
+                          <td className="p-2">{row.patient?.fullName || "-"}</td>
+                          <td className="p-2">{row.patient?.registrationNumber || (row.patient ? "Auto" : "-")}</td>
+                          <td className="p-2">{row.patient?.mobileNumber || "-"}</td>
+                          <td className="p-2">
+                            {row.patient ? `${row.patient.age || "?"} / ${row.patient.gender}` : "-"}
+                          </td>
+                          <td className="p-2">
+                            {row.errors.map((error) => <p key={error} className="text-red-600">{error}</p>)}
+                            {row.warnings.map((warning) => <p key={warning} className="text-yellow-700">{warning}</p>)}
+                            {row.duplicates.map((duplicate) => (
+                              <p key={duplicate.matchedPatientId} className="text-yellow-700">
+                                Possible duplicate of{" "}
+                                {duplicate.matchedPatientId.startsWith("row-") ? (
+                                  duplicate.matchedPatientName
+                                ) : (
+                                  <Link href={`/patients/${duplicate.matchedPatientId}`} className="text-blue-600 hover:underline">
+                                    {duplicate.matchedPatientName}
+                                  </Link>
+                                )}{" "}
+                                ({duplicate.matchScore}%: {duplicate.matchReasons.join(", ")})
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {filteredRows.length > PREVIEW_ROW_LIMIT && (
+                  <p className="p-3 text-sm text-gray-500">
+                    Showing the first {PREVIEW_ROW_LIMIT} of {filteredRows.length} rows
+                  </p>
+                )}
+              </Card>
+
+              {dryRun && (
+                <Card className="p-6 bg-blue-50 border-blue-200">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-2">Dry Run: nothing was saved</h2>
+                  <p className="text-sm text-gray-700">
+                    Would create {dryRun.created.length} patients
+                    {dryRun.created.length > 0 && (
+                      <> ({dryRun.created[0].registrationNumber} to {dryRun.created[dryRun.created.length - 1].registrationNumber})</>
+                    )}
+                    {" "}and skip {dryRun.skipped.length} rows.
+                  </p>
+                  {dryRun.newTags.length > 0 && (
+                    <p className="text-sm text-gray-700 mt-1">New tags: {dryRun.newTags.join(", ")}</p>
+                  )}
+                </Card>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="secondary" onClick={() => setStep("map")}>Back to Mapping</Button>
+                <div className="flex gap-3">
+                  <Button variant="secondary" onClick={handleDryRun}>Dry Run</Button>
+                  <Button onClick={handleImport} loading={isWorking} disabled={importCount <= 0}>
+                    Import {importCount} Patients
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === "done" && result && (
             <Card className="p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Import Results</h2>
               <div className="space-y-4">
@@ -302,28 +470,52 @@ DK-1002,Sarah Johnson,9876543211
                   </div>
                   <div>
                     <p className="font-medium text-gray-900">
-                      {importResults.success} patients imported successfully
+                      {result.created.length} patients imported successfully
                     </p>
-                    {importResults.errors.length > 0 && (
+                    {result.skipped.length > 0 && (
                       <p className="text-sm text-yellow-600">
-                        {importResults.errors.length} errors/warnings
+                        {result.skipped.length} rows skipped
                       </p>
                     )}
                   </div>
                 </div>
 
-                {importResults.errors.length > 0 && (
+                {result.skipped.length > 0 && (
                   <div className="mt-4">
-                    <h3 className="text-sm font-medium text-gray-700 mb-2">Errors/Warnings:</h3>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Skipped Rows:</h3>
                     <div className="max-h-48 overflow-y-auto bg-gray-50 rounded-lg p-3">
-                      {importResults.errors.map((error, index) => (
-                        <p key={index} className="text-sm text-red-600 py-1">
-                          {error}
+                      {result.skipped.map((skipped) => (
+                        <p key={skipped.rowNumber} className="text-sm text-red-600 py-1">
+                          Row {skipped.rowNumber}: {skipped.reason}
                         </p>
                       ))}
                     </div>
                   </div>
                 )}
+                <Button variant="secondary" onClick={() => setStep("upload")}>Import Another File</Button>
+              </div>
+            </Card>
+          )}
+
+          {/* Last Import */}
+          {lastImport && (
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Last Import</h2>
+                  <p className="text-sm text-gray-500">
+                    {lastImport.fileName}: {lastImport.patientIds.length} patients by {lastImport.importedBy} on{" "}
+                    {new Date(lastImport.importedAt).toLocaleString()}
+                  </p>
+                </div>
+                <Button
+                  variant="secondary"
+                  onClick={handleRollback}
+                  disabled={!user?.isDoctor}
+                  title={user?.isDoctor ? undefined : "Rolling back removes patients for good; only the doctor can"}
+                >
+                  Roll Back
+                </Button>
               </div>
             </Card>
           )}
@@ -333,6 +525,9 @@ DK-1002,Sarah Johnson,9876543211
             <Link href="/patients">
               <Button variant="secondary">Back to Patients</Button>
             </Link>
+            <Link href="/patients/import-history">
+              <Button variant="secondary">Import Visit History</Button>
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,302 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { Badge } from "@/components/ui/Badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import { patientDb } from "@/lib/db/database";
+import {
+  MERGE_FIELDS,
+  MERGE_UNDO_DAYS,
+  canUndoMerge,
+  getPatientMerges,
+  mergePatients,
+  previewMerge,
+  undoMerge,
+  type MergeFieldChoices,
+  type PatientMerge,
+} from "@/lib/db/merge";
+import type { Patient } from "@/types";
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "-";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") {
+    return Object.values(value as Record<string, unknown>).filter(Boolean).join(", ") || "-";
+  }
+  return String(value);
+}
+
+function findPatient(value: string | null): Patient | undefined {
+  if (!value) return undefined;
+  return (patientDb.getById(value) || patientDb.getByRegNumber(value)) as Patient | undefined;
+}
+
+export default function MergePatientsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, hasPermission, logActivity } = useAuth();
+  const canMerge = hasPermission("settings");
+
+  const [first, setFirst] = useState<Patient | undefined>(() => findPatient(searchParams.get("a")));
+  const [second, setSecond] = useState<Patient | undefined>(() => findPatient(searchParams.get("b")));
+  const [firstRef, setFirstRef] = useState(first?.registrationNumber || "");
+  const [secondRef, setSecondRef] = useState(second?.registrationNumber || "");
+  const [survivorId, setSurvivorId] = useState<string>(() => first?.id || "");
+  const [choices, setChoices] = useState<MergeFieldChoices>({});
+  const [merges, setMerges] = useState<PatientMerge[]>(() => getPatientMerges());
+  const [isMerging, setIsMerging] = useState(false);
+
+  const survivor = first?.id === survivorId ? first : second?.id === survivorId ? second : undefined;
+  const merged = survivor && (survivor.id === first?.id ? second : first);
+  const differing = survivor && merged
+    ? MERGE_FIELDS.filter(({ field }) => JSON.stringify(survivor[field] ?? "") !== JSON.stringify(merged[field] ?? ""))
+    : [];
+  const moving = merged ? previewMerge(merged.id) : {};
+
+  const handleLoad = () => {
+    const a = findPatient(firstRef.trim());
+    const b = findPatient(secondRef.trim());
+    if (!a || !b) {
+      alert("Enter two registration numbers of existing patients");
+      return;
+    }
+    setFirst(a);
+    setSecond(b);
+    setSurvivorId(a.id);
+    setChoices({});
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !merged) return;
+    if (!confirm(
+      `Merge ${merged.fullName} (${merged.registrationNumber}) into ${survivor.fullName} (${survivor.registrationNumber})? ` +
+      `This can be undone for ${MERGE_UNDO_DAYS} days.`
+    )) return;
+    setIsMerging(true);
+    try {
+      const merge = await mergePatients(survivor.id, merged.id, choices, user?.name || "unknown");
+      logActivity("patients_merged", "patients", {
+        mergeId: merge.id,
+        survivor: merge.survivorRegistrationNumber,
+        merged: merge.mergedRegistrationNumber,
+        moved: Object.fromEntries(Object.entries(merge.moved).map(([collection, records]) => [collection, records.length])),
+      }, survivor.id);
+      router.push(`/patients/${survivor.id}`);
+    } catch (error) {
+      console.error("Error merging patients:", error);
+      alert(`Merge failed: ${error instanceof Error ? error.message : String(error)}`);
+      setIsMerging(false);
+    }
+  };
+
+  const handleUndo = async (merge: PatientMerge) => {
+    if (!confirm(`Undo the merge of ${merge.mergedName} (${merge.mergedRegistrationNumber})? Its records move back.`)) return;
+    try {
+      await undoMerge(merge.id, user?.name || "unknown");
+      logActivity("patient_merge_undone", "patients", {
+        mergeId: merge.id,
+        survivor: merge.survivorRegistrationNumber,
+        merged: merge.mergedRegistrationNumber,
+      }, merge.mergedId);
+      setMerges(getPatientMerges());
+    } catch (error) {
+      console.error("Error undoing merge:", error);
+      alert(`Undo failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.back()}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">Merge Patients</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Combine two records of the same person into one
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-w-5xl space-y-6">
+          {!canMerge ? (
+            <Card className="p-6 text-center text-gray-500">
+              You do not have permission to merge patients.
+            </Card>
+          ) : (
+            <>
+              {/* Patients */}
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Patients</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <Input
+                    label="First patient (Regd No)"
+                    value={firstRef}
+                    onChange={(e) => setFirstRef(e.target.value)}
+                  />
+                  <Input
+                    label="Second patient (Regd No)"
+                    value={secondRef}
+                    onChange={(e) => setSecondRef(e.target.value)}
+                  />
+                  <Button variant="secondary" onClick={handleLoad}>Compare</Button>
+                </div>
+              </Card>
+
+              {first && second && first.id !== second.id && survivor && merged && (
+                <>
+                  {/* Survivor */}
+                  <Card className="p-6">
+                    <h2 className="text-lg font-medium text-gray-900 mb-2">Registration Number to Keep</h2>
+                    <p className="text-sm text-gray-500 mb-4">
+                      The other record moves to the recycle bin and everything linked to it moves to this one.
+                    </p>
+                    <div className="flex gap-6">
+                      {[first, second].map((patient) => (
+                        <label key={patient.id} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="radio"
+                            checked={survivorId === patient.id}
+                            onChange={() => {
+                              setSurvivorId(patient.id);
+                              setChoices({});
+                            }}
+                          />
+                          <span className="font-medium">{patient.registrationNumber}</span>
+                          <span className="text-gray-500">{patient.fullName}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </Card>
+
+                  {/* Fields */}
+                  <Card className="p-6">
+                    <h2 className="text-lg font-medium text-gray-900 mb-4">Profile Details</h2>
+                    {differing.length === 0 ? (
+                      <p className="text-sm text-gray-500">Both records have the same profile details.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left border-b bg-gray-50">
+                            <th className="p-2">Field</th>
+                            <th className="p-2">{survivor.registrationNumber} (kept)</th>
+                            <th className="p-2">{merged.registrationNumber}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {differing.map(({ field, label }) => (
+                            <tr key={field} className="border-b">
+                              <td className="p-2 text-gray-600">{label}</td>
+                              {(["survivor", "merged"] as const).map((side) => (
+                                <td key={side} className="p-2">
+                                  <label className="flex items-center gap-2">
+                                    <input
+                                      type="radio"
+                                      checked={(choices[field] || "survivor") === side}
+                                      onChange={() => setChoices({ ...choices, [field]: side })}
+                                    />
+                                    {formatValue((side === "survivor" ? survivor : merged)[field])}
+                                  </label>
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    <p className="text-xs text-gray-500 mt-3">Tags, medical history and allergies from both records are combined.</p>
+                  </Card>
+
+                  {/* Records */}
+                  <Card className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h2 className="text-lg font-medium text-gray-900">Linked Records</h2>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {Object.keys(moving).length === 0 ? (
+                            <span className="text-sm text-gray-500">{merged.registrationNumber} has no linked records</span>
+                          ) : (
+                            Object.entries(moving).map(([collection, count]) => (
+                              <Badge key={collection} variant="info">{collection} {count}</Badge>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                      <Button onClick={handleMerge} loading={isMerging}>
+                        Merge into {survivor.registrationNumber}
+                      </Button>
+                    </div>
+                  </Card>
+                </>
+              )}
+
+              {/* History */}
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Merges</h2>
+                {merges.length === 0 ? (
+                  <p className="py-6 text-center text-gray-500">No patients have been merged</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b bg-gray-50">
+                        <th className="p-2">Merged</th>
+                        <th className="p-2">By</th>
+                        <th className="p-2">Removed</th>
+                        <th className="p-2">Kept</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {merges.map((merge) => (
+                        <tr key={merge.id} className="border-b">
+                          <td className="p-2">{new Date(merge.mergedAt).toLocaleString()}</td>
+                          <td className="p-2">{merge.mergedBy}</td>
+                          <td className="p-2">{merge.mergedName} ({merge.mergedRegistrationNumber})</td>
+                          <td className="p-2">
+                            <Link href={`/patients/${merge.survivorId}`} className="text-blue-600 hover:underline">
+                              {merge.survivorRegistrationNumber}
+                            </Link>
+                          </td>
+                          <td className="p-2 text-right">
+                            {merge.undoneAt ? (
+                              <span className="text-gray-500">Undone by {merge.undoneBy}</span>
+                            ) : canUndoMerge(merge) ? (
+                              <Button variant="secondary" size="sm" onClick={() => handleUndo(merge)}>
+                                Undo
+                              </Button>
+                            ) : (
+                              <span className="text-gray-400">Final</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { Button } from "@/components/ui/Button";
@@ -9,7 +9,8 @@ import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
 import { PhotoUpload } from "@/components/ui/PhotoUpload";
 import { patientDb, patientTagDb } from "@/lib/db/database";
-import type { PatientTag, Patient } from "@/types";
+import { saveErrorMessage } from "@/lib/db/validation";
+import type { PatientTag, Patient, DuplicateWarning } from "@/types";
 
 // Collapsible Section Component
 function CollapsibleSection({
@@ -50,13 +51,6 @@ export default function NewPatientPage() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [tags, setTags] = useState<PatientTag[]>([]);
   const [loading, setLoading] = useState(false);
-  const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
-  const [duplicatePatients, setDuplicatePatients] = useState<Array<{
-    id: string;
-    registrationNumber: string;
-    fullName: string;
-    mobileNumber: string;
-  }>>([]);
 
   // Collapsible section states
   const [addressExpanded, setAddressExpanded] = useState(false);
@@ -143,11 +137,6 @@ export default function NewPatientPage() {
       }
     }
 
-    // Check for duplicates when name or mobile changes
-    if (name === "firstName" || name === "lastName" || name === "mobileNumber") {
-      checkForDuplicates();
-    }
-    
     // Check for mobile number matches
     if (name === "mobileNumber") {
       checkMobileMatches(value);
@@ -173,67 +162,39 @@ export default function NewPatientPage() {
     setMobileMatchingPatients(matches);
   };
 
-  const checkForDuplicates = () => {
-    const firstName = formData.firstName.trim().toLowerCase();
-    const lastName = formData.lastName.trim().toLowerCase();
-    const mobile = formData.mobileNumber.trim();
-    
-    // Need at least first name and mobile to check for duplicates
-    if (!firstName || !mobile) {
-      setShowDuplicateWarning(false);
-      setDuplicatePatients([]);
-      return;
-    }
-
-    const allPatients = patientDb.getAll() as Patient[];
-    const duplicates: Array<{
-      id: string;
-      registrationNumber: string;
-      fullName: string;
-      mobileNumber: string;
-    }> = [];
-    
-    allPatients.forEach((patient) => {
-      const pFirstName = (patient.firstName || '').trim().toLowerCase();
-      const pLastName = (patient.lastName || '').trim().toLowerCase();
-      const pMobile = (patient.mobileNumber || '').trim();
-      
-      // Check 1: Exact match on firstName + lastName + mobile (all 3 must match)
-      const exactNameMatch = firstName === pFirstName && lastName === pLastName;
-      const mobileMatch = mobile === pMobile;
-      
-      if (exactNameMatch && mobileMatch) {
-        // Exact duplicate - same name and same mobile
-        duplicates.push({
-          id: patient.id,
-          registrationNumber: patient.registrationNumber,
-          fullName: patient.fullName,
-          mobileNumber: patient.mobileNumber,
-        });
-      }
-      
-      // Check 2: Show all patients with same mobile number (for reference)
-      if (mobileMatch && pMobile) {
-        // Add to duplicates if not already added
-        if (!duplicates.find(d => d.id === patient.id)) {
-          duplicates.push({
-            id: patient.id,
-            registrationNumber: patient.registrationNumber,
-            fullName: patient.fullName,
-            mobileNumber: patient.mobileNumber,
-          });
-        }
-      }
-    });
-    
-    if (duplicates.length > 0) {
-      setDuplicatePatients(duplicates);
-      setShowDuplicateWarning(true);
-    } else {
-      setShowDuplicateWarning(false);
-      setDuplicatePatients([]);
-    }
-  };
+  // Ranked possible duplicates, rescored as identifying fields are filled in
+  const duplicateWarnings = useMemo((): DuplicateWarning[] => {
+    if (!formData.firstName.trim()) return [];
+    return patientDb.findDuplicates({
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      mobileNumber: formData.mobileNumber,
+      alternateMobile: formData.alternateMobile,
+      dateOfBirth: formData.dateOfBirth,
+      age: parseInt(formData.age) || undefined,
+      gender: formData.gender || undefined,
+      address: {
+        street: formData.addressStreet,
+        city: formData.addressCity,
+        state: formData.addressState,
+        pincode: formData.addressPincode,
+        country: formData.addressCountry,
+      },
+    }, { limit: 5 });
+  }, [
+    formData.firstName,
+    formData.lastName,
+    formData.mobileNumber,
+    formData.alternateMobile,
+    formData.dateOfBirth,
+    formData.age,
+    formData.gender,
+    formData.addressStreet,
+    formData.addressCity,
+    formData.addressState,
+    formData.addressPincode,
+    formData.addressCountry,
+  ]);
 
   const handleTagToggle = (tagId: string) => {
     setFormData((prev) => ({
@@ -328,7 +289,7 @@ export default function NewPatientPage() {
       }
     } catch (error) {
       console.error("Error creating patient:", error);
-      alert("Failed to create patient. Please try again.");
+      alert(saveErrorMessage(error, "Failed to create patient. Please try again."));
     } finally {
       setLoading(false);
     }
@@ -365,7 +326,7 @@ export default function NewPatientPage() {
 
         <form onSubmit={(e) => handleRegisterAndBookAppointment(e, false)} className="p-6 max-w-4xl mx-auto">
           {/* Duplicate Warning */}
-          {showDuplicateWarning && (
+          {duplicateWarnings.length > 0 && (
             <Card className="mb-6 p-4 border-amber-200 bg-amber-50">
               <div className="flex items-start gap-3">
                 <svg className="h-5 w-5 text-amber-600 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -376,24 +337,33 @@ export default function NewPatientPage() {
                     Possible Duplicate Patient Found
                   </h3>
                   <div className="mt-2 space-y-2">
-                    {duplicatePatients.map((patient) => (
-                      <div
-                        key={patient.id}
-                        className="text-sm text-amber-700 flex items-center justify-between"
-                      >
-                        <span>
-                          {patient.fullName} ({patient.registrationNumber}) - {patient.mobileNumber}
-                        </span>
-                        <Button
-                          type="button"
-                          variant="secondary"
-                          size="sm"
-                          onClick={() => router.push(`/patients/${patient.id}`)}
+                    {duplicateWarnings.map((warning) => {
+                      const match = patientDb.getById(warning.matchedPatientId) as Patient | undefined;
+                      return (
+                        <div
+                          key={warning.matchedPatientId}
+                          className="text-sm text-amber-700 flex items-center justify-between gap-4"
                         >
-                          View
-                        </Button>
-                      </div>
-                    ))}
+                          <div>
+                            <span>
+                              {warning.matchedPatientName} ({match?.registrationNumber || "-"}) - {warning.matchedMobile}
+                            </span>
+                            <Badge variant={warning.matchScore >= 80 ? "danger" : "warning"} size="sm" className="ml-2">
+                              {warning.matchScore}% match
+                            </Badge>
+                            <p className="text-xs text-amber-600">{warning.matchReasons.join(", ")}</p>
+                          </div>
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => router.push(`/patients/${warning.matchedPatientId}`)}
+                          >
+                            View
+                          </Button>
+                        </div>
+                      );
+                    })}
                   </div>
                   <p className="mt-2 text-xs text-amber-600">
                     This patient may already exist. Please verify before creating a new record.
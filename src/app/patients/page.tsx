@@ -1,16 +1,20 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useReducer } from "react";
 import { useRouter } from "next/navigation";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
-import { patientDb, patientTagDb, visitDb, feeHistoryDb, appointmentDb, billingQueueDb, db } from "@/lib/db/database";
-import { pharmacyQueueDb, doctorVisitDb, doctorPrescriptionDb } from "@/lib/db/doctor-panel";
+import { patientDb, patientTagDb, visitDb, feeHistoryDb, appointmentDb, billingQueueDb, voiceNoteDb, db } from "@/lib/db/database";
+import { pharmacyQueueDb, doctorPrescriptionDb } from "@/lib/db/doctor-panel";
+import { usePrivacy } from "@/lib/auth/auth-context";
 import type { Patient, PatientTag } from "@/types";
 
+// Patients rendered per page; each row looks up visit and fee history
+const PAGE_SIZE = 50;
+
 // Format date helper
 function formatDate(date: Date | string): string {
   const d = new Date(date);
@@ -35,10 +39,13 @@ function calculateAge(dateOfBirth: string): number {
 
 export default function PatientsPage() {
   const router = useRouter();
+  const { redactorFor } = usePrivacy();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const [patients, setPatients] = useState<Patient[]>([]);
+  // Patients are queried from the database on render; bumped after loads and deletes
+  const [, refresh] = useReducer((version: number) => version + 1, 0);
   const [tags, setTags] = useState<PatientTag[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -46,10 +53,9 @@ export default function PatientsPage() {
 
   const loadData = () => {
     setIsLoading(true);
-    const allPatients = patientDb.getAll() as Patient[];
     const allTags = patientTagDb.getAll() as PatientTag[];
-    setPatients(allPatients);
     setTags(allTags);
+    refresh();
     setIsLoading(false);
   };
 
@@ -59,19 +65,29 @@ export default function PatientsPage() {
     loadData();
   }, []);
 
-  // Filter patients based on search
-  const filteredPatients = patients.filter((patient) => {
+  // Patients whose voice note transcripts mention the search, for longer queries
+  const transcriptMatches = searchQuery.trim().length >= 3
+    ? new Set(voiceNoteDb.search(searchQuery).map((note) => note.patientId))
+    : new Set<string>();
+
+  // Match patients against the search
+  const matchesSearch = (patient: Patient) => {
     if (!searchQuery.trim()) return true;
-    
+
+
     const query = searchQuery.toLowerCase().trim();
     return (
       patient.registrationNumber.toLowerCase().includes(query) ||
       patient.firstName.toLowerCase().includes(query) ||
       patient.lastName.toLowerCase().includes(query) ||
       patient.fullName.toLowerCase().includes(query) ||
-      patient.mobileNumber.includes(query)
+      patient.mobileNumber.includes(query) ||
+      transcriptMatches.has(patient.id)
     );
-  });
+  };
+
+  // Current page of the matching patients
+  const pageResult = patientDb.query<Patient>({ filter: matchesSearch, page, limit: PAGE_SIZE });
 
   // Get tag by ID
   const getTagById = (tagId: string): PatientTag | undefined => {
@@ -132,10 +148,10 @@ export default function PatientsPage() {
 
   // Select/deselect all visible patients
   const toggleSelectAll = () => {
-    if (selectedIds.size === filteredPatients.length) {
+    if (selectedIds.size === pageResult.total) {
       setSelectedIds(new Set());
     } else {
-      setSelectedIds(new Set(filteredPatients.map((p) => p.id)));
+      setSelectedIds(new Set(patientDb.query<Patient>({ filter: matchesSearch }).data.map((p) => p.id)));
     }
   };
 
@@ -183,9 +199,9 @@ export default function PatientsPage() {
     });
     
     // 8. Delete all doctor visits
-    const allDoctorVisits = doctorVisitDb.getAll() as any[];
+    const allDoctorVisits = visitDb.getAll() as any[];
     allDoctorVisits.filter((v: any) => v.patientId === patientId).forEach((v: any) => {
-      doctorVisitDb.delete(v.id);
+      visitDb.delete(v.id);
     });
     
     // 9. Delete all doctor prescriptions
@@ -217,13 +233,11 @@ export default function PatientsPage() {
       allPatients.forEach((patient) => {
         deletePatientCompletely(patient.id);
       });
-      setPatients([]);
     } else {
       // Delete selected patients completely
       selectedIds.forEach((id) => {
         deletePatientCompletely(id);
       });
-      setPatients((prev) => prev.filter((p) => !selectedIds.has(p.id)));
       setSelectedIds(new Set());
     }
     setShowDeleteConfirm(false);
@@ -278,16 +292,19 @@ export default function PatientsPage() {
             <div className="flex-1">
               <Input
                 type="text"
-                placeholder="Search by Reg No, Name, or Mobile..."
+                placeholder="Search by Reg No, Name, Mobile or voice note..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setPage(1);
+                }}
                 className="w-full"
               />
             </div>
             <div className="text-sm text-gray-500 flex items-center gap-2">
               {selectedIds.size > 0 ? (
                 <Button onClick={toggleSelectAll} variant="ghost" size="sm">
-                  {selectedIds.size === filteredPatients.length ? 'Deselect All' : 'Select All'}
+                  {selectedIds.size === pageResult.total ? 'Deselect All' : 'Select All'}
                 </Button>
               ) : (
                 <Button onClick={toggleSelectionMode} variant="ghost" size="sm">
@@ -295,7 +312,7 @@ export default function PatientsPage() {
                 </Button>
               )}
               <span className="ml-2">
-                {filteredPatients.length} patient{filteredPatients.length !== 1 ? "s" : ""} found
+                {pageResult.total} patient{pageResult.total !== 1 ? "s" : ""} found
               </span>
             </div>
           </div>
@@ -307,7 +324,7 @@ export default function PatientsPage() {
             <div className="flex items-center justify-center h-64">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
-          ) : filteredPatients.length === 0 ? (
+          ) : pageResult.total === 0 ? (
             <Card className="p-12 text-center">
               <div className="text-gray-400 mb-4">
                 <svg className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -328,7 +345,7 @@ export default function PatientsPage() {
             </Card>
           ) : (
             <div className="grid gap-4">
-              {filteredPatients.map((patient) => {
+              {pageResult.data.map((patient) => {
                 const lastVisit = getLastVisitInfo(patient.id);
                 const lastFee = getLastFeeInfo(patient.id);
                 
@@ -426,7 +443,7 @@ export default function PatientsPage() {
                         {lastFee.date && (
                           <div className="text-sm mt-1">
                             <span className="text-gray-500">Last fee: </span>
-                            <span className="text-gray-900">₹{lastFee.amount}</span>
+                            <span className="text-gray-900">₹{redactorFor(patient).amount(lastFee.amount)}</span>
                             {lastFee.daysAgo > 0 && (
                               <span className="text-gray-400"> ({lastFee.daysAgo}d ago)</span>
                             )}
@@ -480,6 +497,36 @@ export default function PatientsPage() {
                   </Card>
                 );
               })}
+
+              {/* Pagination */}
+              {pageResult.totalPages > 1 && (
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-sm text-gray-500">
+                    Showing {(pageResult.page - 1) * PAGE_SIZE + 1}-{(pageResult.page - 1) * PAGE_SIZE + pageResult.data.length} of {pageResult.total}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={() => setPage(pageResult.page - 1)}
+                      variant="secondary"
+                      size="sm"
+                      disabled={pageResult.page <= 1}
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {pageResult.page} of {pageResult.totalPages}
+                    </span>
+                    <Button
+                      onClick={() => setPage(pageResult.page + 1)}
+                      variant="secondary"
+                      size="sm"
+                      disabled={pageResult.page >= pageResult.totalPages}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
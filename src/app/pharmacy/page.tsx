@@ -6,9 +6,13 @@ import { Sidebar } from '@/components/layout/Sidebar';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
-import { pharmacyQueueDb, doctorPrescriptionDb, doctorVisitDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
-import { patientDb, appointmentDb, billingQueueDb, db } from '@/lib/db/database';
-import type { PharmacyQueueItem, DoctorPrescription, DoctorVisit } from '@/lib/db/schema';
+import { PrivacyNotice } from '@/components/ui/PrivacyNotice';
+import { pharmacyQueueDb, doctorPrescriptionDb, doctorSettingsDb } from '@/lib/db/doctor-panel';
+import { patientDb, appointmentDb, billingQueueDb, db, visitDb } from '@/lib/db/database';
+import { saveErrorMessage } from '@/lib/db/validation';
+import type { PharmacyQueueItem, DoctorPrescription } from '@/lib/db/schema';
+import { usePrivacy } from '@/lib/auth/auth-context';
+import type { Patient, Visit } from '@/types';
 
 // Helper to format date for display
 function formatDate(date: Date): string {
@@ -47,7 +51,7 @@ interface PatientInfo {
 
 interface PharmacyQueueItemWithDetails extends PharmacyQueueItem {
   patient?: PatientInfo;
-  visit?: DoctorVisit;
+  visit?: Visit;
   prescriptions?: DoctorPrescription[];
   hasUpdates?: boolean; // Track if doctor made changes
 }
@@ -61,6 +65,7 @@ function generateId(): string {
 
 export default function PharmacyPage() {
   const searchParams = useSearchParams();
+  const { redactorFor } = usePrivacy();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [queueItems, setQueueItems] = useState<PharmacyQueueItemWithDetails[]>([]);
   const [allPendingItems, setAllPendingItems] = useState<PharmacyQueueItemWithDetails[]>([]);
@@ -176,7 +181,7 @@ export default function PharmacyPage() {
         const patient = patientDb.getById(item.patientId) as PatientInfo | undefined;
         
         // Get visit details
-        const visit = doctorVisitDb.getById(item.visitId);
+        const visit = visitDb.getById(item.visitId);
         
         // Get prescriptions for this visit
         const prescriptions = doctorPrescriptionDb.getByVisit(item.visitId);
@@ -216,17 +221,17 @@ export default function PharmacyPage() {
     setIsLoading(false);
   }, [lastUpdateTime, selectedDate]);
 
-  // Initial load and polling
+  // Initial load, then reload whenever the queue, a visit or its prescriptions
+  // change in this or any other tab (e.g. the doctor panel)
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect
     loadQueue();
     
-    // Poll every 5 seconds for real-time updates
-    const interval = setInterval(() => {
-      loadQueue();
-    }, 5000);
+    const unsubscribers = ['pharmacy', 'prescriptions', 'visits', 'patients'].map((collection) =>
+      db.subscribe(collection, null, () => loadQueue())
+    );
     
-    return () => clearInterval(interval);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [loadQueue]);
   
   // Deep link: preselect item by visitId
@@ -237,7 +242,7 @@ export default function PharmacyPage() {
       const match = allItems.find((q) => q.visitId === visitId);
       if (match) {
         const patient = patientDb.getById(match.patientId) as PatientInfo | undefined;
-        const visit = doctorVisitDb.getById(match.visitId);
+        const visit = visitDb.getById(match.visitId);
         const prescriptions = doctorPrescriptionDb.getByVisit(match.visitId);
         setSelectedItem({
           ...match,
@@ -252,20 +257,6 @@ export default function PharmacyPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   
-  useEffect(() => {
-    const handler = () => {
-      loadQueue();
-    };
-    if (typeof window !== 'undefined') {
-      window.addEventListener('pharmacy-queue-updated', handler as EventListener);
-    }
-    return () => {
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('pharmacy-queue-updated', handler as EventListener);
-      }
-    };
-  }, [loadQueue]);
-
   // Get patient name
   const getPatientName = (patientId: string): string => {
     const patient = patientDb.getById(patientId) as PatientInfo | undefined;
@@ -325,94 +316,102 @@ export default function PharmacyPage() {
       status: 'prepared'
     });
     
-    pharmacyQueueDb.markPrepared(itemId, 'pharmacy');
-    
-    // Update appointment status to medicines-prepared and send to billing
-    if (pharmacyItem) {
-      const patientAppointments = appointmentDb.getByPatient(pharmacyItem.patientId);
-      const relevantAppointment = pharmacyItem.appointmentId
-        ? appointmentDb.getById(pharmacyItem.appointmentId)
-        : patientAppointments.find((apt) => {
-            const typedApt = apt as { appointmentDate: Date; status: string };
-            const aptDateISO = new Date(typedApt.appointmentDate).toISOString().split('T')[0];
-            const todayISO = new Date().toISOString().split('T')[0];
-            return (
-              aptDateISO === todayISO &&
-              (typedApt.status === 'scheduled' ||
-                typedApt.status === 'checked-in' ||
-                typedApt.status === 'in-progress' ||
-                typedApt.status === 'completed' ||
-                typedApt.status === 'medicines-prepared')
-            );
-          });
-      
-      if (relevantAppointment) {
-        appointmentDb.update((relevantAppointment as { id: string }).id, { status: 'medicines-prepared' });
-      }
-      
-      // Resolve latest fee data (from appointment or doctor panel)
-      const patient = patientDb.getById(pharmacyItem.patientId) as PatientInfo | undefined;
-      const visit = doctorVisitDb.getById(pharmacyItem.visitId);
-      let feeAmount = 300;
-      let feeType = 'Follow Up';
-      let paymentStatus: 'pending' | 'paid' | 'partial' | 'exempt' = 'pending';
-      if (relevantAppointment) {
-        const apt = relevantAppointment as { feeAmount?: number; feeType?: string; feeStatus?: string };
-        if (apt.feeAmount !== undefined && apt.feeAmount !== null) feeAmount = apt.feeAmount;
-        if (apt.feeType) feeType = apt.feeType;
-        if (apt.feeStatus) paymentStatus = apt.feeStatus as typeof paymentStatus;
-      }
-      const allFees = db.getAll('fees') as any[];
-      const patientFees = allFees.filter((f) => f.patientId === pharmacyItem.patientId);
-      const feeByVisit = patientFees.find((f) => f.visitId === pharmacyItem.visitId);
-      if (feeByVisit) {
-        feeAmount = typeof feeByVisit.amount === 'number' ? feeByVisit.amount : feeAmount;
-        feeType = feeByVisit.feeType || feeType;
-        paymentStatus = (feeByVisit.paymentStatus as typeof paymentStatus) || paymentStatus;
-      } else if (patientFees.length > 0) {
-        const latestFee = patientFees
-          .sort((a, b) => new Date(b.updatedAt || b.createdAt || new Date()).getTime() - new Date(a.updatedAt || a.createdAt || new Date()).getTime())[0];
-        feeAmount = typeof latestFee.amount === 'number' ? latestFee.amount : feeAmount;
-        feeType = latestFee.feeType || feeType;
-        paymentStatus = (latestFee.paymentStatus as typeof paymentStatus) || paymentStatus;
-      } else if (visit && visit.visitNumber === 1) {
-        feeAmount = 500;
-        feeType = 'New Patient';
-      }
-      
-      // Check if billing item already exists for this visit
-      const existingBilling = (billingQueueDb.getAll() as any[]).find((b) => b.visitId === pharmacyItem.visitId);
-      if (!existingBilling) {
-        billingQueueDb.create({
-          visitId: pharmacyItem.visitId,
-          patientId: pharmacyItem.patientId,
-          appointmentId: pharmacyItem.appointmentId,
-          prescriptionIds: pharmacyItem.prescriptionIds || [],
-          status: 'pending',
-          feeAmount,
-          feeType,
-          netAmount: feeAmount,
-          paymentStatus
-        });
-      } else {
-        const preparedRx = doctorPrescriptionDb.getByVisit(pharmacyItem.visitId) || [];
-        const preparedIds = preparedRx.map(p => p.id);
-        const existingIds = Array.isArray((existingBilling as any).prescriptionIds) ? (existingBilling as any).prescriptionIds as string[] : [];
-        const hasNewMeds = preparedIds.some(id => !existingIds.includes(id));
-        billingQueueDb.update(existingBilling.id, {
-          feeAmount,
-          feeType,
-          netAmount: feeAmount - (existingBilling.discountAmount || 0),
-          paymentStatus,
-          updatedAt: new Date(),
-          prescriptionIds: preparedIds,
-          status: hasNewMeds ? 'pending' : (existingBilling.status || 'pending'),
-        });
-      }
-      
-      if (typeof window !== 'undefined') {
-        window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: pharmacyItem.patientId, visitId: pharmacyItem.visitId } }));
-      }
+    try {
+      db.transaction(() => {
+        pharmacyQueueDb.markPrepared(itemId, 'pharmacy');
+
+        // Update appointment status to medicines-prepared and send to billing
+        if (pharmacyItem) {
+          const patientAppointments = appointmentDb.getByPatient(pharmacyItem.patientId);
+          const relevantAppointment = pharmacyItem.appointmentId
+            ? appointmentDb.getById(pharmacyItem.appointmentId)
+            : patientAppointments.find((apt) => {
+                const typedApt = apt as { appointmentDate: Date; status: string };
+                const aptDateISO = new Date(typedApt.appointmentDate).toISOString().split('T')[0];
+                const todayISO = new Date().toISOString().split('T')[0];
+                return (
+                  aptDateISO === todayISO &&
+                  (typedApt.status === 'scheduled' ||
+                    typedApt.status === 'checked-in' ||
+                    typedApt.status === 'in-progress' ||
+                    typedApt.status === 'completed' ||
+                    typedApt.status === 'medicines-prepared')
+                );
+              });
+
+          if (relevantAppointment) {
+            appointmentDb.update((relevantAppointment as { id: string }).id, { status: 'medicines-prepared' });
+          }
+
+          // Resolve latest fee data (from appointment or doctor panel)
+          const patient = patientDb.getById(pharmacyItem.patientId) as PatientInfo | undefined;
+          const visit = visitDb.getById(pharmacyItem.visitId);
+          let feeAmount = 300;
+          let feeType = 'Follow Up';
+          let paymentStatus: 'pending' | 'paid' | 'partial' | 'exempt' = 'pending';
+          if (relevantAppointment) {
+            const apt = relevantAppointment as { feeAmount?: number; feeType?: string; feeStatus?: string };
+            if (apt.feeAmount !== undefined && apt.feeAmount !== null) feeAmount = apt.feeAmount;
+            if (apt.feeType) feeType = apt.feeType;
+            if (apt.feeStatus) paymentStatus = apt.feeStatus as typeof paymentStatus;
+          }
+          const allFees = db.getAll('fees') as any[];
+          const patientFees = allFees.filter((f) => f.patientId === pharmacyItem.patientId);
+          const feeByVisit = patientFees.find((f) => f.visitId === pharmacyItem.visitId);
+          if (feeByVisit) {
+            feeAmount = typeof feeByVisit.amount === 'number' ? feeByVisit.amount : feeAmount;
+            feeType = feeByVisit.feeType || feeType;
+            paymentStatus = (feeByVisit.paymentStatus as typeof paymentStatus) || paymentStatus;
+          } else if (patientFees.length > 0) {
+            const latestFee = patientFees
+              .sort((a, b) => new Date(b.updatedAt || b.createdAt || new Date()).getTime() - new Date(a.updatedAt || a.createdAt || new Date()).getTime())[0];
+            feeAmount = typeof latestFee.amount === 'number' ? latestFee.amount : feeAmount;
+            feeType = latestFee.feeType || feeType;
+            paymentStatus = (latestFee.paymentStatus as typeof paymentStatus) || paymentStatus;
+          } else if (visit && visit.visitNumber === 1) {
+            feeAmount = 500;
+            feeType = 'New Patient';
+          }
+
+          // Check if billing item already exists for this visit
+          const existingBilling = (billingQueueDb.getAll() as any[]).find((b) => b.visitId === pharmacyItem.visitId);
+          if (!existingBilling) {
+            billingQueueDb.create({
+              visitId: pharmacyItem.visitId,
+              patientId: pharmacyItem.patientId,
+              appointmentId: pharmacyItem.appointmentId,
+              prescriptionIds: pharmacyItem.prescriptionIds || [],
+              status: 'pending',
+              feeAmount,
+              feeType,
+              netAmount: feeAmount,
+              paymentStatus
+            });
+          } else {
+            const preparedRx = doctorPrescriptionDb.getByVisit(pharmacyItem.visitId) || [];
+            const preparedIds = preparedRx.map(p => p.id);
+            const existingIds = Array.isArray((existingBilling as any).prescriptionIds) ? (existingBilling as any).prescriptionIds as string[] : [];
+            const hasNewMeds = preparedIds.some(id => !existingIds.includes(id));
+            billingQueueDb.update(existingBilling.id, {
+              feeAmount,
+              feeType,
+              netAmount: feeAmount - (existingBilling.discountAmount || 0),
+              paymentStatus,
+              updatedAt: new Date(),
+              prescriptionIds: preparedIds,
+              status: hasNewMeds ? 'pending' : (existingBilling.status || 'pending'),
+            });
+          }
+        }
+      });
+    } catch (error) {
+      console.error('[Pharmacy] Error marking item as prepared:', error);
+      alert(saveErrorMessage(error, 'Failed to mark as prepared. Please try again.'));
+      return;
+    }
+
+    if (pharmacyItem && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('fees-updated', { detail: { patientId: pharmacyItem.patientId, visitId: pharmacyItem.visitId } }));
     }
     
     loadQueue();
@@ -428,21 +427,29 @@ export default function PharmacyPage() {
     // Get the pharmacy queue item to find the patient
     const pharmacyItem = pharmacyQueueDb.getById(itemId);
     
-    pharmacyQueueDb.update(itemId, { status: 'pending' });
-    
-    // Update appointment status back to completed
-    if (pharmacyItem) {
-      const patientAppointments = appointmentDb.getByPatient(pharmacyItem.patientId);
-      const today = new Date().toISOString().split('T')[0];
-      const relevantAppointment = patientAppointments.find((apt) => {
-        const typedApt = apt as { appointmentDate: Date; status: string };
-        const aptDate = new Date(typedApt.appointmentDate).toISOString().split('T')[0];
-        return aptDate === today && typedApt.status === 'medicines-prepared';
+    try {
+      db.transaction(() => {
+        pharmacyQueueDb.update(itemId, { status: 'pending' });
+
+        // Update appointment status back to completed
+        if (pharmacyItem) {
+          const patientAppointments = appointmentDb.getByPatient(pharmacyItem.patientId);
+          const today = new Date().toISOString().split('T')[0];
+          const relevantAppointment = patientAppointments.find((apt) => {
+            const typedApt = apt as { appointmentDate: Date; status: string };
+            const aptDate = new Date(typedApt.appointmentDate).toISOString().split('T')[0];
+            return aptDate === today && typedApt.status === 'medicines-prepared';
+          });
+
+          if (relevantAppointment) {
+            appointmentDb.update((relevantAppointment as { id: string }).id, { status: 'completed' });
+          }
+        }
       });
-      
-      if (relevantAppointment) {
-        appointmentDb.update((relevantAppointment as { id: string }).id, { status: 'completed' });
-      }
+    } catch (error) {
+      console.error('[Pharmacy] Error reopening item:', error);
+      alert(saveErrorMessage(error, 'Failed to reopen. Please try again.'));
+      return;
     }
     
     loadQueue();
@@ -523,11 +530,17 @@ export default function PharmacyPage() {
       const prescription = doctorPrescriptionDb.getById(prescriptionId);
       if (prescription) {
         const remark = '[Patient Requested Pharma Delete]';
-        doctorPrescriptionDb.update(prescriptionId, {
-          instructions: prescription.instructions 
-            ? `${prescription.instructions} ${remark}`
-            : remark
-        });
+        try {
+          doctorPrescriptionDb.update(prescriptionId, {
+            instructions: prescription.instructions
+              ? `${prescription.instructions} ${remark}`
+              : remark
+          });
+        } catch (error) {
+          console.error('[Pharmacy] Error hiding medicine:', error);
+          alert(saveErrorMessage(error, 'Failed to remove the medicine. Please try again.'));
+          return;
+        }
       }
       
       // Add to hidden prescriptions set
@@ -548,9 +561,15 @@ export default function PharmacyPage() {
       let updatedInstructions = prescription.instructions || '';
       updatedInstructions = updatedInstructions.replace(remark, '').trim();
       
-      doctorPrescriptionDb.update(prescriptionId, {
-        instructions: updatedInstructions || undefined
-      });
+      try {
+        doctorPrescriptionDb.update(prescriptionId, {
+          instructions: updatedInstructions || undefined
+        });
+      } catch (error) {
+        console.error('[Pharmacy] Error restoring medicine:', error);
+        alert(saveErrorMessage(error, 'Failed to restore the medicine. Please try again.'));
+        return;
+      }
     }
     
     // Remove from hidden prescriptions set
@@ -936,6 +955,9 @@ export default function PharmacyPage() {
     );
   }
 
+  const selectedPatient = selectedItem ? patientDb.getById(selectedItem.patientId) as Patient | undefined : undefined;
+  const selectedVisit = selectedItem?.visit && redactorFor(selectedPatient).visit(selectedItem.visit);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Sidebar />
@@ -1242,21 +1264,23 @@ export default function PharmacyPage() {
                       </div>
                     </div>
 
+                    {selectedPatient && <PrivacyNotice patient={selectedPatient} className="mb-4" />}
+
                     {/* Visit Details - Chief Complaint removed as per user request */}
-                    {selectedItem.visit && (selectedItem.visit.diagnosis || selectedItem.visit.advice) && (
+                    {selectedVisit && (selectedVisit.diagnosis || selectedVisit.advice) && (
                       <div className="mb-4">
                         <h3 className="text-sm font-semibold text-gray-700 mb-2">Visit Information</h3>
                         <div className="bg-gray-50 rounded-lg p-3 space-y-2">
-                          {selectedItem.visit.diagnosis && (
+                          {selectedVisit.diagnosis && (
                             <div>
                               <span className="text-xs text-gray-500">Diagnosis:</span>
-                              <div className="text-sm text-gray-900">{selectedItem.visit.diagnosis}</div>
+                              <div className="text-sm text-gray-900">{selectedVisit.diagnosis}</div>
                             </div>
                           )}
-                          {selectedItem.visit.advice && (
+                          {selectedVisit.advice && (
                             <div>
                               <span className="text-xs text-gray-500">Advice:</span>
-                              <div className="text-sm text-gray-900">{selectedItem.visit.advice}</div>
+                              <div className="text-sm text-gray-900">{selectedVisit.advice}</div>
                             </div>
                           )}
                         </div>
@@ -7,11 +7,14 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { patientDb, feeHistoryDb, appointmentDb } from '@/lib/db/database';
-import { doctorPrescriptionDb, doctorVisitDb, doctorSettingsDb, pharmacyQueueDb } from '@/lib/db/doctor-panel';
-import type { Patient } from '@/types';
-import type { DoctorPrescription, DoctorVisit } from '@/lib/db/schema';
+import { PrivacyNotice } from '@/components/ui/PrivacyNotice';
+import { db, patientDb, feeHistoryDb, appointmentDb, visitDb } from '@/lib/db/database';
+import { doctorPrescriptionDb, doctorSettingsDb, pharmacyQueueDb } from '@/lib/db/doctor-panel';
+import { saveErrorMessage } from '@/lib/db/validation';
+import type { Patient, Visit } from '@/types';
+import type { DoctorPrescription } from '@/lib/db/schema';
 import { generatePrescriptionHTML } from '@/lib/prescription-formatter';
+import { usePrivacy } from '@/lib/auth/auth-context';
 
 interface PatientInfo {
   id: string;
@@ -26,7 +29,7 @@ interface PatientInfo {
 
 interface PrescriptionWithVisit {
   prescription: DoctorPrescription;
-  visit: DoctorVisit;
+  visit: Visit;
   prescriptionDate: Date;
   feeAmount?: number;
   feeStatus?: string;
@@ -57,6 +60,7 @@ function calculateAge(dob: string): number {
 }
 
 export default function PrescriptionsPage() {
+  const { redactorFor } = usePrivacy();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<PatientInfo[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<PatientInfo | null>(null);
@@ -73,7 +77,7 @@ export default function PrescriptionsPage() {
   const [prescriptionSettings, setPrescriptionSettings] = useState<any>(null);
   const [showEditPrescriptionModal, setShowEditPrescriptionModal] = useState(false);
   const [editingPrescriptions, setEditingPrescriptions] = useState<DoctorPrescription[]>([]);
-  const [editingVisit, setEditingVisit] = useState<DoctorVisit | null>(null);
+  const [editingVisit, setEditingVisit] = useState<Visit | null>(null);
   const [selectedFeeType, setSelectedFeeType] = useState<string>('Self Repeat by P/T');
   const [selectedTag, setSelectedTag] = useState<string>('self-repeat'); // Visual tag for the prescription
 
@@ -145,7 +149,7 @@ export default function PrescriptionsPage() {
   // Load patient prescriptions
   const loadPatientPrescriptions = (patient: PatientInfo) => {
     const allPrescriptions = doctorPrescriptionDb.getByPatient(patient.id);
-    const allVisits = doctorVisitDb.getByPatient(patient.id);
+    const allVisits = visitDb.getByPatient(patient.id);
     
     // Group prescriptions by visit
     const prescriptionsByVisit = new Map<string, DoctorPrescription[]>();
@@ -218,6 +222,9 @@ export default function PrescriptionsPage() {
     });
   };
 
+  const selectedPatientRecord = selectedPatient ? patientDb.getById(selectedPatient.id) as Patient | undefined : undefined;
+  const redactor = redactorFor(selectedPatientRecord);
+
   // View prescription
   const handleViewPrescription = (item: PrescriptionWithVisit) => {
     setViewingPrescription(item);
@@ -235,7 +242,7 @@ export default function PrescriptionsPage() {
     const prescriptionHTML = generatePrescriptionHTML(
       selectedPatient,
       visitPrescriptions,
-      visit,
+      redactor.visit(visit, 'omit'),
       doctorName
     );
 
@@ -316,59 +323,67 @@ export default function PrescriptionsPage() {
       return;
     }
 
-    // Create a NEW visit for today with self-repeat flag and fee type
-    const newVisit = doctorVisitDb.create({
-      patientId: selectedPatient.id,
-      visitDate: new Date(), // Today's date
-      visitNumber: editingVisit.visitNumber,
-      chiefComplaint: editingVisit.chiefComplaint,
-      caseText: editingVisit.caseText,
-      diagnosis: editingVisit.diagnosis,
-      prognosis: editingVisit.prognosis,
-      advice: editingVisit.advice,
-      nextVisit: editingVisit.nextVisit,
-      testsRequired: editingVisit.testsRequired,
-      remarksToFrontdesk: `FEE_TYPE:${selectedFeeType}`, // Store fee type for billing
-      bp: editingVisit.bp,
-      pulse: editingVisit.pulse,
-      tempF: editingVisit.tempF,
-      weightKg: editingVisit.weightKg,
-      status: 'completed',
-      isSelfRepeat: selectedFeeType === 'Self Repeat by P/T',
-      selfRepeatDate: new Date(),
-    });
+    try {
+      db.transaction(() => {
+        // Create a NEW visit for today with self-repeat flag and fee type
+        const newVisit = visitDb.create({
+          patientId: selectedPatient.id,
+          visitDate: new Date(), // Today's date
+          visitNumber: editingVisit.visitNumber,
+          chiefComplaint: editingVisit.chiefComplaint,
+          caseText: editingVisit.caseText,
+          diagnosis: editingVisit.diagnosis,
+          prognosis: editingVisit.prognosis,
+          advice: editingVisit.advice,
+          nextVisit: editingVisit.nextVisit,
+          testsRequired: editingVisit.testsRequired,
+          remarksToFrontdesk: `FEE_TYPE:${selectedFeeType}`, // Store fee type for billing
+          bp: editingVisit.bp,
+          pulse: editingVisit.pulse,
+          tempF: editingVisit.tempF,
+          weightKg: editingVisit.weightKg,
+          status: 'completed',
+          isSelfRepeat: selectedFeeType === 'Self Repeat by P/T',
+          selfRepeatDate: new Date(),
+        });
 
-    // Create prescriptions for the new visit
-    const newPrescriptionIds: string[] = [];
-    editingPrescriptions.forEach((rx, index) => {
-      const newRx = doctorPrescriptionDb.create({
-        visitId: newVisit.id,
-        patientId: selectedPatient.id,
-        medicine: rx.medicine,
-        potency: rx.potency,
-        doseForm: rx.doseForm,
-        quantity: rx.quantity,
-        dosePattern: rx.dosePattern,
-        frequency: rx.frequency,
-        duration: rx.duration,
-        instructions: rx.instructions,
-        isCombination: rx.isCombination,
-        combinationContent: rx.combinationContent,
-        rowOrder: index,
-      });
-      newPrescriptionIds.push(newRx.id);
-    });
+        // Create prescriptions for the new visit
+        const newPrescriptionIds: string[] = [];
+        editingPrescriptions.forEach((rx, index) => {
+          const newRx = doctorPrescriptionDb.create({
+            visitId: newVisit.id,
+            patientId: selectedPatient.id,
+            medicine: rx.medicine,
+            potency: rx.potency,
+            doseForm: rx.doseForm,
+            quantity: rx.quantity,
+            dosePattern: rx.dosePattern,
+            frequency: rx.frequency,
+            duration: rx.duration,
+            instructions: rx.instructions,
+            isCombination: rx.isCombination,
+            combinationContent: rx.combinationContent,
+            rowOrder: index,
+          });
+          newPrescriptionIds.push(newRx.id);
+        });
 
-    // Send to pharmacy with the new visit and tag
-    pharmacyQueueDb.create({
-      visitId: newVisit.id,
-      patientId: selectedPatient.id,
-      appointmentId: undefined,
-      prescriptionIds: newPrescriptionIds,
-      status: 'pending',
-      priority: false,
-      source: selectedTag, // Use the selected tag (self-repeat, regular, etc.)
-    } as any);
+        // Send to pharmacy with the new visit and tag
+        pharmacyQueueDb.create({
+          visitId: newVisit.id,
+          patientId: selectedPatient.id,
+          appointmentId: undefined,
+          prescriptionIds: newPrescriptionIds,
+          status: 'pending',
+          priority: false,
+          source: selectedTag, // Use the selected tag (self-repeat, regular, etc.)
+        } as any);
+      });
+    } catch (error) {
+      console.error('Error sending to pharmacy:', error);
+      alert(saveErrorMessage(error, 'Failed to send the prescription to pharmacy. Please try again.'));
+      return;
+    }
 
     setShowEditPrescriptionModal(false);
     setEditingVisit(null);
@@ -484,6 +499,7 @@ export default function PrescriptionsPage() {
             <Card className="mb-6">
               <div className="p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Patient Details</h3>
+                {selectedPatientRecord && <PrivacyNotice patient={selectedPatientRecord} className="mb-4" />}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div>
                     <div className="text-sm text-gray-500">Name</div>
@@ -511,7 +527,7 @@ export default function PrescriptionsPage() {
                     <div className="col-span-2">
                       <div className="text-sm text-gray-500">Last Fee Paid</div>
                       <div className="font-medium">
-                        {lastFeeInfo.date} - {formatCurrency(lastFeeInfo.amount)} - {lastFeeInfo.daysAgo} days ago
+                        {lastFeeInfo.date} - {redactor.amount(lastFeeInfo.amount, formatCurrency)} - {lastFeeInfo.daysAgo} days ago
                         <Badge 
                           variant={lastFeeInfo.status === 'paid' ? 'success' : 'warning'} 
                           size="sm" 
@@ -553,7 +569,7 @@ export default function PrescriptionsPage() {
                           <div className="flex items-center gap-2">
                             {item.feeAmount !== undefined && (
                               <div className="text-right">
-                                <div className="text-sm font-medium">{formatCurrency(item.feeAmount)}</div>
+                                <div className="text-sm font-medium">{redactor.amount(item.feeAmount, formatCurrency)}</div>
                                 <Badge 
                                   variant={item.feeStatus === 'paid' ? 'success' : 'warning'} 
                                   size="sm"
@@ -723,7 +739,7 @@ export default function PrescriptionsPage() {
               {viewingPrescription.visit.caseText && (
                 <div className="mb-4">
                   <h4 className="font-semibold mb-2">Case Notes</h4>
-                  <div className="text-gray-700">{viewingPrescription.visit.caseText}</div>
+                  <div className="text-gray-700">{redactor.caseText(viewingPrescription.visit.caseText)}</div>
                 </div>
               )}
               {viewingPrescription.visit.advice && (
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
 import { queueDb, queueItemDb, appointmentDb, slotDb, patientDb } from "@/lib/db/database";
+import { saveErrorMessage } from "@/lib/db/validation";
 import type { QueueItem, QueueConfig, Slot, Appointment } from "@/types";
 
 export default function QueuePage() {
@@ -98,7 +99,12 @@ export default function QueuePage() {
   };
 
   const handleCheckInFromQueue = (appointmentId: string) => {
-    appointmentDb.checkIn(appointmentId);
+    try {
+      appointmentDb.checkIn(appointmentId);
+    } catch (error) {
+      console.error("Error checking in:", error);
+      alert(saveErrorMessage(error, "Failed to check in. Please try again."));
+    }
     loadQueue();
   };
 
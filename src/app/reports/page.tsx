@@ -1,13 +1,16 @@
  "use client";
  
- import { useMemo, useState } from "react";
+ import { useCallback, useEffect, useMemo, useState } from "react";
  import Link from "next/link";
  import { Sidebar } from "@/components/layout/Sidebar";
  import { Card } from "@/components/ui/Card";
  import { Button } from "@/components/ui/Button";
-import { useAuth } from "@/lib/auth/auth-context";
-import { appointmentDb, patientDb, billingReceiptDb, billingQueueDb, medicineBillDb } from "@/lib/db/database";
-import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/doctor-panel";
+import { useAuth, usePrivacy } from "@/lib/auth/auth-context";
+import { PRIVACY_MASK } from "@/lib/privacy";
+import { appointmentDb, patientDb, billingReceiptDb, billingQueueDb, medicineBillDb, visitDb, archiveDb } from "@/lib/db/database";
+import { doctorPrescriptionDb, pharmacyQueueDb } from "@/lib/db/doctor-panel";
+import { mergeArchived } from "@/lib/db/archive";
+import type { Patient } from "@/types";
  
  type TabKey =
    | "appointments"
@@ -27,6 +30,8 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
    prescriptionVisitId?: string;
   visitId?: string;
   billId?: string;
+  amountCols?: number[]; // Columns holding the patient's fees
+  feesHidden?: boolean;
  }
  
  const allTabs: { key: TabKey; label: string }[] = [
@@ -122,6 +127,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
  
  export default function ReportsPage() {
    const { role } = useAuth();
+  const { redactorFor } = usePrivacy();
    const [activeTab, setActiveTab] = useState<TabKey>("appointments");
   const today = new Date().toISOString().split("T")[0];
   const [applyKey, setApplyKey] = useState<number>(0);
@@ -144,6 +150,34 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
   const [upStart, setUpStart] = useState<string>(today);
   const [upEnd, setUpEnd] = useState<string>(today);
   const [billStatus, setBillStatus] = useState<"all" | "paid" | "pending" | "partial">("all");
+  // Archived records, loaded only when the selected range reaches back past the archive cutoff
+  const [archived, setArchived] = useState<Record<string, unknown[]> | null>(null);
+
+  const archiveFrom = useMemo((): string | null => {
+    if (activeTab === "patients") return ptStart;
+    if (activeTab === "prescriptions") return rxStart;
+    if (activeTab === "pharmacy") return phStart;
+    if (activeTab === "fees") {
+      if (feeType === "daily") return feeDate;
+      if (feeType === "range" || feeType === "refunds" || feeType === "bills") return feeStart;
+    }
+    return null;
+  }, [activeTab, ptStart, rxStart, phStart, feeType, feeDate, feeStart]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = archiveFrom
+      ? archiveDb.readFrom(new Date(archiveFrom), ["visits", "prescriptions", "pharmacy", "billingReceipts", "medicineBills"])
+      : Promise.resolve(null);
+    load
+      .then((records) => {
+        if (!cancelled) setArchived(records);
+      })
+      .catch((error) => console.error("Error reading archive:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveFrom, applyKey]);
  
    const visibleTabs = useMemo(() => {
      const name = role?.name || "";
@@ -153,7 +187,14 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
      return allTabs.filter((t) => t.key === "system");
    }, [role?.name]);
  
-  const data = useMemo((): { headers: string[]; rows: Row[] } => {
+  const reportData = useMemo((): { headers: string[]; rows: Row[] } => {
+    const withArchived = (collection: string, hot: Array<any>): Array<any> =>
+      mergeArchived(hot, (archived?.[collection] as Array<any> | undefined)?.filter((r) => !r.deletedAt));
+    const archivedRx = new Map<string, number>();
+    ((archived?.prescriptions || []) as Array<any>).forEach((rx) => {
+      if (!rx.deletedAt) archivedRx.set(rx.visitId, (archivedRx.get(rx.visitId) || 0) + 1);
+    });
+    const rxCountFor = (visitId: string) => (doctorPrescriptionDb.getByVisit(visitId) || []).length || archivedRx.get(visitId) || 0;
      if (activeTab === "appointments") {
       const start = new Date(aptStart);
       const end = new Date(aptEnd);
@@ -200,9 +241,15 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       const end = new Date(ptEnd);
       end.setHours(23, 59, 59, 999);
       const pts = patientDb.getAll() as Array<any>;
+      const archivedVisitsByPatient = new Map<string, Array<any>>();
+      withArchived("visits", [])
+        .sort((a, b) => new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime())
+        .forEach((v) => archivedVisitsByPatient.set(v.patientId, [...(archivedVisitsByPatient.get(v.patientId) || []), v]));
       const rows: Row[] = pts
         .map((p) => {
-          const visits = doctorVisitDb.getByPatient(p.id) as Array<any>;
+          let visits = visitDb.getByPatient(p.id) as Array<any>;
+          // Archived visits are all older, so they only matter when nothing recent is left
+          if (visits.length === 0) visits = archivedVisitsByPatient.get(p.id) || [];
           const lastVisitDate = visits.length > 0 ? new Date(visits[0].visitDate) : null;
           return {
             id: p.id,
@@ -224,7 +271,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
      }
     if (activeTab === "fees") {
       if (feeType === "daily") {
-        let receipts = (billingReceiptDb.getAll() as Array<any>).filter((r) => {
+        let receipts = withArchived("billingReceipts", billingReceiptDb.getAll() as Array<any>).filter((r) => {
           const d = new Date(r.createdAt).toISOString().split("T")[0];
           // Filter out receipts for deleted patients
           const patient = patientDb.getById(r.patientId);
@@ -237,7 +284,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
           const p = patientDb.getById(r.patientId) as any;
           const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
           const amount = typeof r.netAmount === "number" ? r.netAmount.toFixed(2) : `${r.netAmount}`;
-          return { id: r.id, cols: [formatDate(r.createdAt), r.receiptNumber, name, amount, (r.paymentMethod || "").toUpperCase()], patientId: r.patientId, receiptNumber: r.id };
+          return { id: r.id, cols: [formatDate(r.createdAt), r.receiptNumber, name, amount, (r.paymentMethod || "").toUpperCase()], patientId: r.patientId, receiptNumber: r.id, amountCols: [3] };
         });
         return { headers: ["Date", "Receipt No", "Patient", "Amount", "Payment"], rows };
       }
@@ -245,7 +292,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
         const start = new Date(feeStart);
         const end = new Date(feeEnd);
         end.setHours(23, 59, 59, 999);
-        let receipts = (billingReceiptDb.getAll() as Array<any>).filter((r) => {
+        let receipts = withArchived("billingReceipts", billingReceiptDb.getAll() as Array<any>).filter((r) => {
           const d = new Date(r.createdAt);
           // Filter out receipts for deleted patients
           const patient = patientDb.getById(r.patientId);
@@ -258,7 +305,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
           const p = patientDb.getById(r.patientId) as any;
           const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
           const amount = typeof r.netAmount === "number" ? r.netAmount.toFixed(2) : `${r.netAmount}`;
-          return { id: r.id, cols: [formatDate(r.createdAt), r.receiptNumber, name, amount, (r.paymentMethod || "").toUpperCase()], patientId: r.patientId, receiptNumber: r.id };
+          return { id: r.id, cols: [formatDate(r.createdAt), r.receiptNumber, name, amount, (r.paymentMethod || "").toUpperCase()], patientId: r.patientId, receiptNumber: r.id, amountCols: [3] };
         });
         return { headers: ["Date", "Receipt No", "Patient", "Amount", "Payment"], rows };
       }
@@ -282,9 +329,9 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
           const reg = p?.registrationNumber || "";
           const amountDue = typeof i.netAmount === "number" ? i.netAmount.toFixed(2) : `${i.netAmount}`;
           const daysPending = Math.floor((new Date(today).getTime() - new Date(i.createdAt).getTime()) / (1000 * 60 * 60 * 24));
-          const visits = doctorVisitDb.getByPatient(i.patientId) as Array<any>;
+          const visits = visitDb.getByPatient(i.patientId) as Array<any>;
           const lastVisit = visits.length > 0 ? formatDate(visits[0].visitDate) : "";
-          return { id: i.id, cols: [name, reg, amountDue, `${daysPending}`, lastVisit], patientId: i.patientId };
+          return { id: i.id, cols: [name, reg, amountDue, `${daysPending}`, lastVisit], patientId: i.patientId, amountCols: [2] };
         });
         return { headers: ["Patient", "Regd No", "Amount Due", "Days Pending", "Last Visit"], rows };
       }
@@ -292,7 +339,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
         const start = new Date(feeStart);
         const end = new Date(feeEnd);
         end.setHours(23, 59, 59, 999);
-        const receipts = (billingReceiptDb.getAll() as Array<any>).filter((r) => {
+        const receipts = withArchived("billingReceipts", billingReceiptDb.getAll() as Array<any>).filter((r) => {
           const d = new Date(r.createdAt);
           // Filter out receipts for deleted patients
           const patient = patientDb.getById(r.patientId);
@@ -302,7 +349,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
           const p = patientDb.getById(r.patientId) as any;
           const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
           const amount = typeof r.netAmount === "number" ? r.netAmount.toFixed(2) : `${r.netAmount}`;
-          return { id: r.id, cols: [formatDate(r.createdAt), name, amount, "-", "-"], patientId: r.patientId };
+          return { id: r.id, cols: [formatDate(r.createdAt), name, amount, "-", "-"], patientId: r.patientId, amountCols: [2] };
         });
         return { headers: ["Date", "Patient", "Amount", "Reason", "Processed By"], rows };
       }
@@ -310,7 +357,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
         const start = new Date(feeStart);
         const end = new Date(feeEnd);
         end.setHours(23, 59, 59, 999);
-        let bills = (medicineBillDb.getAll() as Array<any>).filter((b) => {
+        let bills = withArchived("medicineBills", medicineBillDb.getAll() as Array<any>).filter((b) => {
           const d = new Date(b.createdAt);
           // Filter out bills for deleted patients
           const patient = patientDb.getById(b.patientId);
@@ -323,7 +370,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
           const p = patientDb.getById(b.patientId) as any;
           const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
           const total = typeof b.grandTotal === "number" ? b.grandTotal.toFixed(2) : `${b.grandTotal || 0}`;
-          return { id: b.id, cols: [formatDate(b.createdAt), name, total, (b.paymentStatus || "").toUpperCase()], patientId: b.patientId, visitId: b.visitId, billId: b.id };
+          return { id: b.id, cols: [formatDate(b.createdAt), name, total, (b.paymentStatus || "").toUpperCase()], patientId: b.patientId, visitId: b.visitId, billId: b.id, amountCols: [2] };
         });
         return { headers: ["Date", "Patient", "Total", "Payment"], rows };
       }
@@ -333,7 +380,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       const start = new Date(rxStart);
       const end = new Date(rxEnd);
       end.setHours(23, 59, 59, 999);
-      const visits = (doctorVisitDb.getAll() as Array<any>).filter((v) => {
+      const visits = withArchived("visits", visitDb.getAll() as Array<any>).filter((v) => {
         const d = new Date(v.visitDate);
         // Filter out visits for deleted patients
         const patient = patientDb.getById(v.patientId);
@@ -342,7 +389,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
        const rows: Row[] = visits.map((v) => {
          const p = patientDb.getById(v.patientId) as any;
          const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
-         const rxCount = (doctorPrescriptionDb.getByVisit(v.id) || []).length;
+         const rxCount = rxCountFor(v.id);
          return {
            id: v.id,
            cols: [formatDate(v.visitDate), name, `${rxCount}`, v.status],
@@ -379,7 +426,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       const start = new Date(phStart);
       const end = new Date(phEnd);
       end.setHours(23, 59, 59, 999);
-      const items = pharmacyQueueDb.getAll() as Array<any>;
+      const items = withArchived("pharmacy", pharmacyQueueDb.getAll() as Array<any>);
       const filtered = items.filter((q) => {
         const dt = new Date(q.createdAt);
         const inRange = dt >= start && dt <= end;
@@ -394,7 +441,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       const rows: Row[] = filtered.map((q) => {
         const p = patientDb.getById(q.patientId) as any;
         const name = p ? `${p.firstName} ${p.lastName}` : "Unknown";
-        const count = Array.isArray(q.prescriptionIds) ? q.prescriptionIds.length : (doctorPrescriptionDb.getByVisit(q.visitId) || []).length;
+        const count = Array.isArray(q.prescriptionIds) ? q.prescriptionIds.length : rxCountFor(q.visitId);
         let prepMinutes = "";
         if ((q.status || "").toLowerCase() === "prepared") {
           const ms = new Date(q.updatedAt).getTime() - new Date(q.createdAt).getTime();
@@ -412,7 +459,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       const start = new Date(upStart);
       const end = new Date(upEnd);
       end.setHours(23, 59, 59, 999);
-      const visits = doctorVisitDb.getAll() as Array<any>;
+      const visits = visitDb.getAll() as Array<any>;
       const latestByPatient = new Map<string, any>();
       visits.forEach((v) => {
         // Filter out visits for deleted patients
@@ -437,7 +484,22 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
       return { headers: ["Next Visit Date", "Patient", "Regd No"], rows };
     }
      return { headers: ["Event"], rows: [] };
-  }, [activeTab, applyKey, aptStart, aptEnd, ptStart, ptEnd, rxStart, rxEnd, fuStart, fuEnd, phStart, phEnd, phType, feeType, feeDate, feeStart, feeEnd, feePayMethod, upStart, upEnd, billStatus, today]);
+  }, [activeTab, applyKey, aptStart, aptEnd, ptStart, ptEnd, rxStart, rxEnd, fuStart, fuEnd, phStart, phEnd, phType, feeType, feeDate, feeStart, feeEnd, feePayMethod, upStart, upEnd, billStatus, today, archived]);
+
+  // Fees of patients who asked to hide them, masked for the table, print, CSV and WhatsApp alike
+  const data = useMemo((): { headers: string[]; rows: Row[] } => ({
+    headers: reportData.headers,
+    rows: reportData.rows.map((r) => {
+      if (!r.amountCols || !r.patientId) return r;
+      const patient = patientDb.getById(r.patientId) as Patient | undefined;
+      if (!redactorFor(patient).isHidden("hideFees")) return r;
+      return { ...r, cols: r.cols.map((c, idx) => (r.amountCols?.includes(idx) ? PRIVACY_MASK : c)), feesHidden: true };
+    }),
+  }), [reportData, redactorFor]);
+
+  // Receipts and bills of those patients are left out of the totals rather than summed in plain view
+  const feesHiddenFor = useCallback((patientId: string | undefined) =>
+    !!patientId && redactorFor(patientDb.getById(patientId) as Patient | undefined).isHidden("hideFees"), [redactorFor]);
  
    const actionTitle = useMemo(() => {
      const tab = allTabs.find((t) => t.key === activeTab)?.label || "Report";
@@ -627,13 +689,16 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                 {activeTab === "fees" && (feeType === "daily" || feeType === "range") && (() => {
                   const start = feeType === "daily" ? new Date(feeDate) : new Date(feeStart);
                   const end = feeType === "daily" ? new Date(feeDate + "T23:59:59") : new Date(feeEnd + "T23:59:59");
-                  let receipts = (billingReceiptDb.getAll() as Array<any>).filter((r) => {
+                  const archivedReceipts = (archived?.billingReceipts as Array<any> | undefined)?.filter((r) => !r.deletedAt);
+                  let receipts = mergeArchived(billingReceiptDb.getAll() as Array<any>, archivedReceipts).filter((r) => {
                     const d = new Date(r.createdAt);
                     return d >= start && d <= end;
                   });
                   if (feePayMethod !== "all") {
                     receipts = receipts.filter((r) => (r.paymentMethod || "").toLowerCase() === feePayMethod);
                   }
+                  const hiddenCount = receipts.filter((r) => feesHiddenFor(r.patientId)).length;
+                  receipts = receipts.filter((r) => !feesHiddenFor(r.patientId));
                   const collected = receipts.filter((r) => (r.paymentStatus || "").toLowerCase() === "paid").reduce((sum, r) => sum + (r.netAmount || 0), 0);
                   const refunded = receipts.filter((r) => (r.paymentStatus || "").toLowerCase() === "refunded").reduce((sum, r) => sum + (r.netAmount || 0), 0);
                   const billed = receipts.reduce((sum, r) => sum + (r.netAmount || 0), 0);
@@ -644,7 +709,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                     const inRange = d >= start && d <= end;
                     const isPending = ["pending", "partial"].includes((i.paymentStatus || "").toLowerCase());
                     const coveredByReceipt = receiptQueueIds.has(i.id) || receiptVisitIds.has(i.visitId);
-                    return inRange && isPending && !coveredByReceipt && (i.netAmount || 0) > 0;
+                    return inRange && isPending && !coveredByReceipt && (i.netAmount || 0) > 0 && !feesHiddenFor(i.patientId);
                   });
                   const pending = pendingItems.reduce((sum, i) => sum + (i.netAmount || 0), 0);
                   const breakdownMap: Record<string, { count: number; amount: number }> = {};
@@ -657,6 +722,11 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                   const breakdown = Object.entries(breakdownMap).map(([type, v]) => ({ type, count: v.count, amount: v.amount }));
                   return (
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+                      {hiddenCount > 0 && (
+                        <p className="md:col-span-4 text-xs text-gray-500">
+                          {hiddenCount} receipt(s) of patients who hide their fees are left out of these totals
+                        </p>
+                      )}
                       <Card className="p-3"><div className="text-xs text-gray-600">Total billed</div><div className="text-lg font-semibold">₹ {billed.toFixed(2)}</div></Card>
                       <Card className="p-3"><div className="text-xs text-gray-600">Total collected</div><div className="text-lg font-semibold">₹ {collected.toFixed(2)}</div></Card>
                       <Card className="p-3"><div className="text-xs text-gray-600">Pending</div><div className="text-lg font-semibold">₹ {pending.toFixed(2)}</div></Card>
@@ -700,6 +770,8 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                   if (billStatus !== "all") {
                     bills = bills.filter((b) => (b.paymentStatus || "pending").toLowerCase() === billStatus);
                   }
+                  const hiddenCount = bills.filter((b) => feesHiddenFor(b.patientId)).length;
+                  bills = bills.filter((b) => !feesHiddenFor(b.patientId));
                   const totalCount = bills.length;
                   const totalAmount = bills.reduce((sum, b) => sum + (b.grandTotal || 0), 0);
                   const collectedAmount = bills.filter((b) => (b.paymentStatus || "").toLowerCase() === "paid")
@@ -707,6 +779,11 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                   const pendingAmount = totalAmount - collectedAmount;
                   return (
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                      {hiddenCount > 0 && (
+                        <p className="md:col-span-3 text-xs text-gray-500">
+                          {hiddenCount} bill(s) of patients who hide their fees are left out of these totals
+                        </p>
+                      )}
                       <Card className="p-3">
                         <div className="text-xs text-gray-600">Number of Billed Prescriptions</div>
                         <div className="text-lg font-semibold">{totalCount}</div>
@@ -766,7 +843,7 @@ import { doctorPrescriptionDb, doctorVisitDb, pharmacyQueueDb } from "@/lib/db/d
                                 <Button size="sm" variant="outline">Visit</Button>
                               </Link>
                             )}
-                            {r.billId && (
+                            {r.billId && !r.feesHidden && (
                               <>
                                 <Button
                                   size="sm"
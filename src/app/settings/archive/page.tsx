@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { useAuth } from "@/lib/auth/auth-context";
+import { archiveDb } from "@/lib/db/database";
+import { getArchiveCutoff, type ArchiveRun, type ArchiveSettings } from "@/lib/db/archive";
+
+const collectionLabels: Record<string, string> = {
+  visits: "Visits",
+  prescriptions: "Prescriptions",
+  pharmacy: "Pharmacy items",
+  billingQueue: "Billing items",
+  billingReceipts: "Receipts",
+  medicineBills: "Medicine bills",
+  queueItems: "Queue entries",
+};
+
+function describeCounts(counts: Record<string, number>): string {
+  const parts = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([collection, count]) => `${count} ${collectionLabels[collection] || collection}`);
+  return parts.length > 0 ? parts.join(", ") : "Nothing";
+}
+
+export default function ArchiveSettingsPage() {
+  const router = useRouter();
+  const { user, hasPermission, logActivity } = useAuth();
+  const canManage = hasPermission("settings");
+  const available = archiveDb.isAvailable();
+
+  const [settings, setSettings] = useState<ArchiveSettings>(() => archiveDb.getSettings());
+  const [runs, setRuns] = useState<ArchiveRun[]>([]);
+  const [preview, setPreview] = useState<Record<string, number> | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  const cutoff = getArchiveCutoff(settings);
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await archiveDb.getRuns());
+    } catch (error) {
+      console.error("Error loading archive runs:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!available) return;
+    loadRuns();
+  }, [available]);
+
+  const handleSaveSettings = () => {
+    archiveDb.saveSettings(settings);
+    logActivity("archive_settings_updated", "settings", { cutoffMonths: settings.cutoffMonths });
+    alert("Archive settings saved successfully!");
+  };
+
+  // Dry run: counts what would move without touching anything
+  const handlePreview = () => {
+    setPreview(archiveDb.preview(cutoff));
+  };
+
+  const handleArchive = async () => {
+    if (!confirm(`Archive closed records from before ${cutoff.toLocaleDateString()}? They stay available in history and reports.`)) return;
+    setIsArchiving(true);
+    try {
+      const run = await archiveDb.run(cutoff, user?.name || "unknown");
+      logActivity("records_archived", "settings", { cutoff: run.cutoff, counts: run.counts });
+      setSettings(archiveDb.getSettings());
+      setPreview(null);
+      await loadRuns();
+    } catch (error) {
+      console.error("Error archiving records:", error);
+      alert(`Archiving failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.back()}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">Archive</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Old closed records are kept in a separate store so the app starts quickly
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-w-4xl space-y-6">
+          {!canManage ? (
+            <Card className="p-6 text-center text-gray-500">
+              You do not have permission to manage the archive.
+            </Card>
+          ) : !available ? (
+            <Card className="p-6 text-center text-gray-500">
+              Archiving needs IndexedDB, which this browser does not provide.
+            </Card>
+          ) : (
+            <>
+              {/* Cutoff */}
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">What Gets Archived</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Completed visits older than the cutoff move to the archive together with their prescriptions,
+                  delivered pharmacy items and paid bills, as do finished queue entries. A visit with anything
+                  still pending stays. Patient history and reports read the archive when they need to.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                  <Input
+                    label="Archive records older than (months)"
+                    type="number"
+                    min="1"
+                    value={settings.cutoffMonths}
+                    onChange={(e) => {
+                      setSettings({ ...settings, cutoffMonths: parseInt(e.target.value) || 1 });
+                      setPreview(null);
+                    }}
+                  />
+                  <p className="text-sm text-gray-500 pb-2">Cutoff: {cutoff.toLocaleDateString()}</p>
+                </div>
+                <div className="mt-4 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    {settings.lastRunAt
+                      ? `Last archived: ${new Date(settings.lastRunAt).toLocaleString()}`
+                      : "Nothing has been archived yet"}
+                  </p>
+                  <Button onClick={handleSaveSettings}>Save Settings</Button>
+                </div>
+              </Card>
+
+              {/* Run */}
+              <Card className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-medium text-gray-900">Archive Now</h2>
+                    <p className="text-sm text-gray-500">
+                      {preview ? `Would archive: ${describeCounts(preview)}` : "Run a dry run to see what would move"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="secondary" onClick={handlePreview}>
+                      Dry Run
+                    </Button>
+                    <Button onClick={handleArchive} loading={isArchiving}>
+                      Archive
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+
+              {/* History */}
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Archive History</h2>
+                {runs.length === 0 ? (
+                  <p className="py-6 text-center text-gray-500">No records have been archived</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b bg-gray-50">
+                        <th className="p-2">Archived</th>
+                        <th className="p-2">By</th>
+                        <th className="p-2">Cutoff</th>
+                        <th className="p-2">Records</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {runs.map((run) => (
+                        <tr key={run.id} className="border-b">
+                          <td className="p-2">{new Date(run.archivedAt).toLocaleString()}</td>
+                          <td className="p-2">{run.archivedBy}</td>
+                          <td className="p-2">{new Date(run.cutoff).toLocaleDateString()}</td>
+                          <td className="p-2">{describeCounts(run.counts)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { Badge } from "@/components/ui/Badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import { db } from "@/lib/db/database";
+import { backupScheduler } from "@/lib/db/backup-scheduler";
+import {
+  countCollections,
+  diffBackupCounts,
+  validateBackupArchive,
+  type BackupArchive,
+  type BackupSettings,
+  type BackupSummary,
+  type BackupValidation,
+} from "@/lib/db/backup";
+
+// Archive picked for restore, waiting for confirmation
+interface RestoreCandidate {
+  source: string;
+  archive: BackupArchive;
+  validation: BackupValidation;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function BackupSettingsPage() {
+  const router = useRouter();
+  const { user, hasPermission, logActivity } = useAuth();
+  const canBackup = hasPermission("backup");
+  const canRestore = hasPermission("restore");
+
+  const [settings, setSettings] = useState<BackupSettings>(() => backupScheduler.getSettings());
+  const [backups, setBackups] = useState<BackupSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [candidate, setCandidate] = useState<RestoreCandidate | null>(null);
+  // Only asked for when the backup was sealed under an earlier passphrase
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+
+  const loadBackups = async () => {
+    try {
+      const response = await fetch("/api/backups");
+      const result = (await response.json()) as { backups?: BackupSummary[] };
+      setBackups(result.backups || []);
+    } catch (error) {
+      console.error("Error loading backups:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  // Backups only leave this computer encrypted, so a schedule without encryption would never run
+  const canScheduleBackups = db.isEncrypted();
+
+  const handleSaveSettings = () => {
+    if (settings.autoBackup && !canScheduleBackups) {
+      alert("Turn on data encryption (Settings > Security) before switching on automatic backups.");
+      return;
+    }
+    backupScheduler.saveSettings(settings);
+    logActivity("backup_settings_updated", "settings", { ...settings });
+    alert("Backup settings saved successfully!");
+  };
+
+  const handleBackupNow = async () => {
+    setIsBackingUp(true);
+    try {
+      const backup = await backupScheduler.runBackup(user?.name || "unknown");
+      logActivity("backup_created", "settings", { fileName: backup.fileName });
+      setSettings(backupScheduler.getSettings());
+      await loadBackups();
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      alert(`Backup failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  // Saves an archive of the current data to this computer
+  const handleDownload = async () => {
+    const archive = await backupScheduler.createArchive(user?.name || "unknown", "manual");
+    const url = URL.createObjectURL(new Blob([JSON.stringify(archive)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `pms-backup-${archive.createdAt.replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    logActivity("backup_downloaded", "settings");
+  };
+
+  const prepareRestore = async (source: string, content: string) => {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(content) as BackupArchive;
+    } catch {
+      alert("This file is not a valid backup.");
+      return;
+    }
+    setRestorePassphrase("");
+    setCandidate({ source, archive, validation: await validateBackupArchive(archive) });
+  };
+
+  const handleSelectServerBackup = async (backup: BackupSummary) => {
+    try {
+      const response = await fetch(`/api/backups?file=${encodeURIComponent(backup.fileName)}`);
+      if (!response.ok) throw new Error(`Download failed (${response.status})`);
+      await prepareRestore(backup.fileName, await response.text());
+    } catch (error) {
+      console.error("Error loading backup:", error);
+      alert("Could not load this backup.");
+    }
+  };
+
+  const handleSelectFile = async (file: File | undefined) => {
+    if (!file) return;
+    await prepareRestore(file.name, await file.text());
+  };
+
+  const handleRestore = async () => {
+    if (!candidate?.validation.valid) return;
+    if (!confirm("Replace ALL current data with this backup? Close the app in other tabs and on other PCs first.")) return;
+    setIsRestoring(true);
+    try {
+      const collections = await backupScheduler.openArchive(candidate.archive, restorePassphrase || undefined);
+      const safetyLabel = await db.restore(collections, candidate.archive.schemaVersion);
+      logActivity("backup_restored", "settings", {
+        source: candidate.source,
+        createdAt: candidate.archive.createdAt,
+        safetyBackup: safetyLabel,
+      });
+      alert("Backup restored. The app will now reload.");
+      window.location.reload();
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      alert(`Restore failed: ${error instanceof Error ? error.message : String(error)}`);
+      setIsRestoring(false);
+    }
+  };
+
+  const diff = candidate
+    ? diffBackupCounts(
+        countCollections(Object.fromEntries(db.getCollectionNames().map((name) => [name, db.getAll(name, { includeDeleted: true })]))),
+        countCollections(candidate.archive.collections || {})
+      )
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.back()}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-2xl font-semibold text-gray-900">Backup &amp; Restore</h1>
+                <p className="text-sm text-gray-500 mt-1">
+                  Scheduled and on-demand backups of all clinic data
+                </p>
+              </div>
+            </div>
+            {canBackup && (
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={handleDownload}>
+                  Download Backup
+                </Button>
+                <Button onClick={handleBackupNow} loading={isBackingUp}>
+                  Back Up Now
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-w-4xl space-y-6">
+          {!canBackup && !canRestore ? (
+            <Card className="p-6 text-center text-gray-500">
+              You do not have permission to manage backups.
+            </Card>
+          ) : (
+            <>
+              {/* Schedule */}
+              {canBackup && (
+                <Card className="p-6">
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">Automatic Backups</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.autoBackup}
+                        disabled={!canScheduleBackups && !settings.autoBackup}
+                        onChange={(e) => setSettings({ ...settings, autoBackup: e.target.checked })}
+                      />
+                      <span className="text-sm font-medium text-gray-700">Back up automatically</span>
+                    </label>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+                      <select
+                        value={settings.backupFrequency}
+                        onChange={(e) => setSettings({ ...settings, backupFrequency: e.target.value as BackupSettings["backupFrequency"] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="daily">Daily</option>
+                        <option value="weekly">Weekly</option>
+                      </select>
+                    </div>
+                    <Input
+                      label="Keep backups for (days)"
+                      type="number"
+                      min="1"
+                      value={settings.retentionDays}
+                      onChange={(e) => setSettings({ ...settings, retentionDays: parseInt(e.target.value) || 30 })}
+                    />
+                  </div>
+                  {!canScheduleBackups && (
+                    <p className="mt-4 text-sm text-amber-700">
+                      Backups are sent to the server only encrypted. Turn on data encryption in Security settings
+                      {settings.autoBackup ? "; until then no automatic backup is made." : " to back up automatically."}
+                    </p>
+                  )}
+                  {settings.lastFailure && (
+                    <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                      Last automatic backup failed on {new Date(settings.lastFailure.at).toLocaleString()}: {settings.lastFailure.message}
+                    </div>
+                  )}
+                  <div className="mt-4 flex items-center justify-between">
+                    <p className="text-sm text-gray-500">
+                      {settings.lastBackupAt
+                        ? `Last backup: ${new Date(settings.lastBackupAt).toLocaleString()}`
+                        : "No backup has been made yet"}
+                    </p>
+                    <Button onClick={handleSaveSettings}>Save Settings</Button>
+                  </div>
+                </Card>
+              )}
+
+              {/* Stored backups */}
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-medium text-gray-900">Stored Backups</h2>
+                  {canRestore && (
+                    <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                      Restore from file...
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => handleSelectFile(e.target.files?.[0])}
+                      />
+                    </label>
+                  )}
+                </div>
+                {isLoading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : backups.length === 0 ? (
+                  <p className="py-6 text-center text-gray-500">No backups stored yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b bg-gray-50">
+                        <th className="p-2">Created</th>
+                        <th className="p-2">By</th>
+                        <th className="p-2">Type</th>
+                        <th className="p-2">Size</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {backups.map((backup) => (
+                        <tr key={backup.fileName} className="border-b">
+                          <td className="p-2">{new Date(backup.createdAt).toLocaleString()}</td>
+                          <td className="p-2">{backup.createdBy}</td>
+                          <td className="p-2">
+                            <Badge variant={backup.reason === "scheduled" ? "info" : "default"}>{backup.reason}</Badge>
+                          </td>
+                          <td className="p-2">{formatSize(backup.size)}</td>
+                          <td className="p-2 text-right">
+                            {canRestore && (
+                              <Button size="sm" variant="secondary" onClick={() => handleSelectServerBackup(backup)}>
+                                Restore...
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+
+              {/* Restore preview */}
+              {candidate && canRestore && (
+                <Card className="p-6 border-amber-300">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h2 className="text-lg font-medium text-gray-900">Restore Preview</h2>
+                      <p className="text-sm text-gray-500">
+                        {candidate.source}
+                        {candidate.archive.createdAt && ` · created ${new Date(candidate.archive.createdAt).toLocaleString()}`}
+                        {candidate.archive.schemaVersion && ` · schema v${candidate.archive.schemaVersion}`}
+                      </p>
+                    </div>
+                    <Badge variant={candidate.validation.valid ? "success" : "danger"}>
+                      {candidate.validation.valid ? "Verified" : "Invalid"}
+                    </Badge>
+                  </div>
+
+                  {candidate.validation.errors.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+                      {candidate.validation.errors.map((error) => <p key={error}>{error}</p>)}
+                    </div>
+                  )}
+                  {candidate.validation.valid && candidate.validation.needsMigration && (
+                    <p className="text-sm text-amber-700 mb-4">
+                      This backup is from an older version and will be upgraded while restoring.
+                    </p>
+                  )}
+
+                  {candidate.validation.valid && candidate.archive.encryption && !db.hasEncryptionKey(candidate.archive.encryption) && (
+                    <div className="mb-4 max-w-sm">
+                      <Input
+                        label="Passphrase"
+                        type="password"
+                        value={restorePassphrase}
+                        onChange={(e) => setRestorePassphrase(e.target.value)}
+                        helperText="This backup is encrypted with a passphrase this computer does not have open"
+                      />
+                    </div>
+                  )}
+
+                  {candidate.validation.valid && (
+                    <table className="w-full text-sm mb-4">
+                      <thead>
+                        <tr className="text-left border-b bg-gray-50">
+                          <th className="p-2">Collection</th>
+                          <th className="p-2 text-right">Now</th>
+                          <th className="p-2 text-right">In backup</th>
+                          <th className="p-2 text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diff.map((row) => (
+                          <tr key={row.collection} className="border-b">
+                            <td className="p-2">{row.collection}</td>
+                            <td className="p-2 text-right">{row.current}</td>
+                            <td className="p-2 text-right">{row.backup}</td>
+                            <td className={`p-2 text-right font-medium ${row.change < 0 ? "text-red-600" : row.change > 0 ? "text-green-600" : "text-gray-400"}`}>
+                              {row.change > 0 ? `+${row.change}` : row.change}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={() => setCandidate(null)} disabled={isRestoring}>
+                      Cancel
+                    </Button>
+                    <Button variant="danger" onClick={handleRestore} loading={isRestoring} disabled={!candidate.validation.valid}>
+                      Restore This Backup
+                    </Button>
+                  </div>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
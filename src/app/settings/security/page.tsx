@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Sidebar } from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { Badge } from "@/components/ui/Badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import { db } from "@/lib/db/database";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function SecuritySettingsPage() {
+  const router = useRouter();
+  const { user, logActivity } = useAuth();
+  const [isEncrypted, setIsEncrypted] = useState(() => db.isEncrypted());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+
+  const resetForm = () => {
+    setCurrentPassphrase("");
+    setNewPassphrase("");
+    setConfirmPassphrase("");
+  };
+
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError("Passphrases do not match");
+      return false;
+    }
+    return true;
+  };
+
+  // Runs one encryption change; the passphrase is never logged
+  const runChange = async (change: () => Promise<void>, action: string, message: string) => {
+    setError("");
+    setSaving(true);
+    try {
+      await change();
+      logActivity(action, "settings");
+      setIsEncrypted(db.isEncrypted());
+      resetForm();
+      alert(message);
+    } catch (e) {
+      console.error("Error updating encryption:", e);
+      setError(e instanceof Error ? e.message : "Failed to update encryption");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!validateNewPassphrase()) return;
+    if (!confirm("Keep this passphrase safe. Patient records cannot be recovered without it. Continue?")) return;
+    runChange(() => db.enableEncryption(newPassphrase), "encryption_enabled", "Patient data is now encrypted on this computer.");
+  };
+
+  const handleChangePassphrase = () => {
+    if (!validateNewPassphrase()) return;
+    runChange(
+      () => db.changeEncryptionPassphrase(currentPassphrase, newPassphrase),
+      "encryption_passphrase_changed",
+      "Passphrase changed and all records re-encrypted."
+    );
+  };
+
+  const handleDisable = () => {
+    if (!confirm("Store patient data unencrypted on this computer?")) return;
+    runChange(() => db.disableEncryption(currentPassphrase), "encryption_disabled", "Encryption turned off.");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+
+      <div className="transition-all duration-300 ml-64">
+        {/* Header */}
+        <div className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.back()}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">Data Encryption</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Encrypt patient records stored in this browser with a passphrase
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-w-2xl">
+          {!user?.isDoctor ? (
+            <Card className="p-6 text-center text-gray-500">
+              Only the doctor can manage data encryption.
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-medium text-gray-900">Status</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {isEncrypted
+                        ? "Records are encrypted with AES-GCM. The passphrase is asked for each time the app is opened."
+                        : "Records are stored unencrypted in this browser."}
+                    </p>
+                  </div>
+                  <Badge variant={isEncrypted ? "success" : "warning"}>
+                    {isEncrypted ? "Encrypted" : "Not encrypted"}
+                  </Badge>
+                </div>
+              </Card>
+
+              <Card className="p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">
+                  {isEncrypted ? "Change Passphrase" : "Turn On Encryption"}
+                </h2>
+                <div className="space-y-4">
+                  {isEncrypted && (
+                    <Input
+                      label="Current Passphrase"
+                      type="password"
+                      value={currentPassphrase}
+                      onChange={(e) => setCurrentPassphrase(e.target.value)}
+                    />
+                  )}
+                  <Input
+                    label="New Passphrase"
+                    type="password"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                  />
+                  <Input
+                    label="Confirm New Passphrase"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  />
+
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <div className="flex justify-between">
+                    {isEncrypted ? (
+                      <>
+                        <Button variant="danger" onClick={handleDisable} disabled={saving || !currentPassphrase}>
+                          Turn Off Encryption
+                        </Button>
+                        <Button onClick={handleChangePassphrase} loading={saving} disabled={!currentPassphrase}>
+                          Change Passphrase
+                        </Button>
+                      </>
+                    ) : (
+                      <Button onClick={handleEnable} loading={saving} className="ml-auto">
+                        Encrypt Patient Data
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { householdDb, patientDb } from "@/lib/db/database";
+import type { FamilyRelationship, Household, Patient } from "@/types";
+
+interface FamilyCardProps {
+  patientId: string;
+  compact?: boolean; // Read-only member list for the doctor panel
+  className?: string;
+}
+
+export const relationshipLabels: Record<FamilyRelationship, string> = {
+  head: "Head",
+  spouse: "Spouse",
+  child: "Child",
+  parent: "Parent",
+  sibling: "Sibling",
+  grandparent: "Grandparent",
+  grandchild: "Grandchild",
+  "in-law": "In-law",
+  other: "Other",
+};
+
+const relationships = Object.keys(relationshipLabels) as FamilyRelationship[];
+
+function RelationshipSelect({ value, onChange }: { value: FamilyRelationship; onChange: (value: FamilyRelationship) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as FamilyRelationship)}
+      className="border border-gray-300 rounded px-2 py-1 text-sm"
+    >
+      {relationships.map((relationship) => (
+        <option key={relationship} value={relationship}>{relationshipLabels[relationship]}</option>
+      ))}
+    </select>
+  );
+}
+
+export function FamilyCard({ patientId, compact = false, className = "" }: FamilyCardProps) {
+  const [household, setHousehold] = useState<Household | undefined>(() => householdDb.getByPatient(patientId));
+  const [suggestions, setSuggestions] = useState<Patient[]>(() => (compact ? [] : householdDb.suggestMembers(patientId)));
+  const [suggestedRelationships, setSuggestedRelationships] = useState<Record<string, FamilyRelationship>>({});
+  const [regNumber, setRegNumber] = useState("");
+
+  const members = household ? householdDb.getMembers(household.id) : [];
+
+  const refresh = () => {
+    setHousehold(householdDb.getByPatient(patientId));
+    setSuggestions(householdDb.suggestMembers(patientId));
+  };
+
+  const handleCreate = () => {
+    const patient = patientDb.getById(patientId) as Patient | undefined;
+    if (!patient) return;
+    const name = prompt("Family name", `${patient.lastName || patient.firstName} Family`);
+    if (!name?.trim()) return;
+    householdDb.create(name.trim(), patientId);
+    refresh();
+  };
+
+  const handleAdd = (memberId: string, relationship: FamilyRelationship) => {
+    if (!household) return;
+    const current = householdDb.getByPatient(memberId);
+    if (current && current.id !== household.id && !confirm(`This patient is in ${current.name}. Move them to ${household.name}?`)) return;
+    householdDb.addMember(household.id, memberId, relationship);
+    refresh();
+  };
+
+  const handleAddByRegNumber = () => {
+    const patient = patientDb.getByRegNumber(regNumber.trim()) as Patient | undefined;
+    if (!patient) {
+      alert("No patient with that registration number");
+      return;
+    }
+    if (members.some((member) => member.patient.id === patient.id)) {
+      alert(`${patient.fullName} is already in this family`);
+      return;
+    }
+    handleAdd(patient.id, "other");
+    setRegNumber("");
+  };
+
+  const handleRemove = (memberId: string, name: string) => {
+    if (!confirm(`Remove ${name} from ${household?.name}?`)) return;
+    householdDb.removeMember(memberId);
+    refresh();
+  };
+
+  if (compact) {
+    if (!household || members.length < 2) return null;
+    return (
+      <div className={className}>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{household.name}</div>
+        {members.filter((member) => member.patient.id !== patientId).map(({ patient, relationship }) => (
+          <Link
+            key={patient.id}
+            href={`/doctor-panel?patientId=${patient.id}`}
+            className="flex justify-between gap-2 text-sm text-blue-600 hover:underline"
+          >
+            <span>{patient.fullName}</span>
+            <span className="text-gray-500">{relationshipLabels[relationship]}</span>
+          </Link>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Card className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">{household ? household.name : "Family"}</h2>
+        {household ? (
+          <Link href={`/families/${household.id}`} className="text-sm text-blue-600 hover:underline">
+            Family billing &amp; statement
+          </Link>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={handleCreate}>Create Family</Button>
+        )}
+      </div>
+
+      {household ? (
+        <div className="space-y-2">
+          {members.map(({ patient, relationship }) => (
+            <div key={patient.id} className="flex items-center justify-between gap-3">
+              <div>
+                <Link href={`/patients/${patient.id}`} className="text-blue-600 hover:underline">
+                  {patient.fullName}
+                </Link>
+                <span className="ml-2 text-xs text-gray-500">
+                  {patient.registrationNumber}{patient.age ? ` · ${patient.age}y` : ""}
+                </span>
+                {patient.id === patientId && <Badge variant="info" size="sm" className="ml-2">This patient</Badge>}
+              </div>
+              <div className="flex items-center gap-2">
+                <RelationshipSelect
+                  value={relationship}
+                  onChange={(value) => {
+                    householdDb.setRelationship(household.id, patient.id, value);
+                    refresh();
+                  }}
+                />
+                <button
+                  onClick={() => handleRemove(patient.id, patient.fullName)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-2 pt-3 border-t">
+            <input
+              value={regNumber}
+              onChange={(e) => setRegNumber(e.target.value)}
+              placeholder="Add member by Regd No"
+              className="flex-1 border border-gray-300 rounded px-3 py-1 text-sm"
+            />
+            <Button variant="secondary" size="sm" onClick={handleAddByRegNumber} disabled={!regNumber.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Not linked to a family.</p>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="mt-4 pt-4 border-t">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Same mobile or address</h3>
+          <div className="space-y-2">
+            {suggestions.map((suggestion) => {
+              const relationship = suggestedRelationships[suggestion.id] || "other";
+              return (
+                <div key={suggestion.id} className="flex items-center justify-between gap-3">
+                  <div>
+                    <Link href={`/patients/${suggestion.id}`} className="text-blue-600 hover:underline">
+                      {suggestion.fullName}
+                    </Link>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {suggestion.registrationNumber} · {suggestion.mobileNumber || "No mobile"}
+                    </span>
+                  </div>
+                  {household && (
+                    <div className="flex items-center gap-2">
+                      <RelationshipSelect
+                        value={relationship}
+                        onChange={(value) => setSuggestedRelationships({ ...suggestedRelationships, [suggestion.id]: value })}
+                      />
+                      <Button variant="secondary" size="sm" onClick={() => handleAdd(suggestion.id, relationship)}>
+                        Add
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { investigationDb } from "@/lib/db/database";
+import { LAB_PARAMETERS, getLabParameter, newLabValue, labValueFlag, type LabCategory } from "@/lib/lab-parameters";
+import type { Investigation, LabValue, Patient, Visit } from "@/types";
+
+interface InvestigationFormProps {
+  patient: Patient;
+  visits: Visit[];
+  investigation?: Investigation; // Edit details and values; the file stays
+  uploadedBy: string;
+  onSaved: (investigation: Investigation) => void;
+  onClose: () => void;
+}
+
+// Inputs are edited as text so a half-typed number is not lost
+interface LabValueRow {
+  parameter: string;
+  name: string;
+  unit: string;
+  value: string;
+  refLow: string;
+  refHigh: string;
+}
+
+interface UploadResult {
+  fileName: string;
+  fileType: Investigation["fileType"];
+  fileSize: number;
+  fileUrl: string;
+  thumbnailUrl?: string;
+}
+
+const CUSTOM = "__custom";
+
+const categories = [...new Set(LAB_PARAMETERS.map((parameter) => parameter.category))] as LabCategory[];
+
+function toRow(value: LabValue): LabValueRow {
+  return {
+    parameter: value.parameter,
+    name: value.name,
+    unit: value.unit,
+    value: Number.isFinite(value.value) ? String(value.value) : "",
+    refLow: value.refLow !== undefined ? String(value.refLow) : "",
+    refHigh: value.refHigh !== undefined ? String(value.refHigh) : "",
+  };
+}
+
+function optionalNumber(text: string): number | undefined {
+  return text.trim() === "" ? undefined : Number(text);
+}
+
+// Rows with a name and a number; custom parameters are keyed by their name
+function toLabValues(rows: LabValueRow[]): LabValue[] {
+  return rows
+    .filter((row) => row.name.trim() && row.value.trim() !== "" && Number.isFinite(Number(row.value)))
+    .map((row) => ({
+      parameter: getLabParameter(row.parameter) ? row.parameter : row.name.trim().toLowerCase(),
+      name: row.name.trim(),
+      value: Number(row.value),
+      unit: row.unit.trim(),
+      refLow: optionalNumber(row.refLow),
+      refHigh: optionalNumber(row.refHigh),
+    }));
+}
+
+function toInputDate(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+}
+
+// Downscaled JPEG of an image file, for the list view
+function imageThumbnail(file: File, maxWidth: number): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxWidth / img.width);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext("2d");
+      URL.revokeObjectURL(url);
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => resolve(blob), "image/jpeg", 0.8);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+}
+
+export function InvestigationForm({ patient, visits, investigation, uploadedBy, onSaved, onClose }: InvestigationFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState(investigation?.title || "");
+  const [investigationDate, setInvestigationDate] = useState(toInputDate(investigation?.investigationDate || new Date()));
+  const [visitId, setVisitId] = useState(investigation?.visitId || "");
+  const [description, setDescription] = useState(investigation?.description || "");
+  const [rows, setRows] = useState<LabValueRow[]>(() => (investigation?.labValues || []).map(toRow));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const addParameter = (key: string) => {
+    if (!key) return;
+    const parameter = getLabParameter(key);
+    const row = parameter
+      ? toRow(newLabValue(parameter, patient.gender))
+      : { parameter: CUSTOM, name: "", unit: "", value: "", refLow: "", refHigh: "" };
+    setRows([...rows, row]);
+  };
+
+  const updateRow = (index: number, updates: Partial<LabValueRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+  };
+
+  const upload = async (selected: File): Promise<UploadResult> => {
+    const formData = new FormData();
+    formData.append("file", selected);
+    formData.append("patientId", patient.id);
+    if (selected.type.startsWith("image/")) {
+      const thumbnail = await imageThumbnail(selected, 240);
+      if (thumbnail) formData.append("thumbnail", thumbnail, "thumbnail.jpg");
+    }
+    const response = await fetch("/api/investigations/upload", { method: "POST", body: formData });
+    const result = await response.json();
+    if (!response.ok || !result.success) throw new Error(result.message || result.error || "Upload failed");
+    return result;
+  };
+
+  const handleSave = async () => {
+    if (!investigation && !file) {
+      setError("Choose a report to upload");
+      return;
+    }
+    if (!title.trim()) {
+      setError("Title is required");
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const details = {
+        title: title.trim(),
+        description: description.trim() || undefined,
+        investigationDate: new Date(`${investigationDate}T00:00:00`),
+        visitId: visitId || undefined,
+        labValues: toLabValues(rows),
+      };
+      if (investigation) {
+        const updated = investigationDb.update(investigation.id, details) as Investigation;
+        onSaved(updated);
+      } else {
+        const uploaded = await upload(file!);
+        const created = investigationDb.create({
+          patientId: patient.id,
+          ...uploaded,
+          ...details,
+          uploadedBy,
+          uploadedAt: new Date(),
+        }) as unknown as Investigation;
+        onSaved(created);
+      }
+    } catch (saveError) {
+      console.error("Error saving investigation:", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Failed to save investigation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">{investigation ? "Edit Investigation" : "Upload Investigation"}</h2>
+            <p className="text-sm text-gray-500">PDF or image of the report, with any values to track over time</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!investigation && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Report File</label>
+              <input
+                type="file"
+                accept="application/pdf,image/jpeg,image/png,image/webp"
+                onChange={(e) => {
+                  const selected = e.target.files?.[0] || null;
+                  setFile(selected);
+                  if (selected && !title) setTitle(selected.name.replace(/\.[^.]+$/, ""));
+                }}
+                className="block w-full text-sm text-gray-700"
+              />
+              <p className="mt-1 text-xs text-gray-500">PDF, JPG, PNG or WebP, up to 20MB</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. CBC, Thyroid Profile" />
+            <Input label="Report Date" type="date" value={investigationDate} onChange={(e) => setInvestigationDate(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Visit</label>
+              <select
+                value={visitId}
+                onChange={(e) => setVisitId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+              >
+                <option value="">Not linked to a visit</option>
+                {visits.map((visit) => (
+                  <option key={visit.id} value={visit.id}>
+                    Visit {visit.visitNumber} · {new Date(visit.visitDate).toLocaleDateString("en-IN")}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Input label="Notes" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Lab name, remarks" />
+          </div>
+
+          {/* Lab values */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">Lab Values</h3>
+              <select
+                value=""
+                onChange={(e) => addParameter(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+              >
+                <option value="">+ Add parameter</option>
+                {categories.map((category) => (
+                  <optgroup key={category} label={category}>
+                    {LAB_PARAMETERS.filter((parameter) => parameter.category === category).map((parameter) => (
+                      <option key={parameter.key} value={parameter.key}>{parameter.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+                <option value={CUSTOM}>Other (custom)...</option>
+              </select>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500">No values entered. Values are optional; add them to see trends.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-2 font-medium">Parameter</th>
+                    <th className="py-1 pr-2 font-medium w-24">Value</th>
+                    <th className="py-1 pr-2 font-medium w-24">Unit</th>
+                    <th className="py-1 pr-2 font-medium w-40">Reference Range</th>
+                    <th className="w-8" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const values = toLabValues([row]);
+                    const flag = values.length > 0 ? labValueFlag(values[0]) : null;
+                    const isCustom = !getLabParameter(row.parameter);
+                    return (
+                      <tr key={index} className="border-t border-gray-100">
+                        <td className="py-1 pr-2">
+                          {isCustom ? (
+                            <input
+                              value={row.name}
+                              onChange={(e) => updateRow(index, { name: e.target.value })}
+                              placeholder="Parameter name"
+                              className="w-full border border-gray-300 rounded px-2 py-1"
+                            />
+                          ) : (
+                            <span className="text-gray-900">{row.name}</span>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            step="any"
+                            value={row.value}
+                            onChange={(e) => updateRow(index, { value: e.target.value })}
+                            className={`w-full border rounded px-2 py-1 ${
+                              flag === "low" || flag === "high" ? "border-red-400 text-red-700" : "border-gray-300"
+                            }`}
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            value={row.unit}
+                            onChange={(e) => updateRow(index, { unit: e.target.value })}
+                            className="w-full border border-gray-300 rounded px-2 py-1"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="number"
+                              step="any"
+                              value={row.refLow}
+                              onChange={(e) => updateRow(index, { refLow: e.target.value })}
+                              placeholder="Low"
+                              className="w-full border border-gray-300 rounded px-2 py-1"
+                            />
+                            <span className="text-gray-400">–</span>
+                            <input
+                              type="number"
+                              step="any"
+                              value={row.refHigh}
+                              onChange={(e) => updateRow(index, { refHigh: e.target.value })}
+                              placeholder="High"
+                              className="w-full border border-gray-300 rounded px-2 py-1"
+                            />
+                          </div>
+                        </td>
+                        <td className="py-1 text-right">
+                          <button onClick={() => removeRow(index)} className="text-gray-400 hover:text-red-600" title="Remove">
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : investigation ? "Save Changes" : "Upload"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { Card } from "@/components/ui/Card";
+import { formatReferenceRange, type LabTrend } from "@/lib/lab-parameters";
+
+interface LabTrendChartProps {
+  trend: LabTrend;
+  visitNumbers?: Map<string, number>; // visitId -> visit number, for point labels
+  className?: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 12, right: 12, bottom: 28, left: 40 };
+
+const flagColors = { low: "#dc2626", high: "#dc2626", normal: "#2563eb" };
+
+function shortDate(date: Date): string {
+  return date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "2-digit" });
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 10 ? 2 : 1).replace(/\.?0+$/, "");
+}
+
+// Line chart of one parameter across reports, with the latest reference range shaded
+export function LabTrendChart({ trend, visitNumbers, className = "" }: LabTrendChartProps) {
+  const { points } = trend;
+  const latest = points[points.length - 1];
+
+  // Y axis covers the values and the reference band
+  const bounds = [
+    ...points.map((point) => point.value),
+    ...[latest.refLow, latest.refHigh].filter((bound): bound is number => bound !== undefined),
+  ];
+  let min = Math.min(...bounds);
+  let max = Math.max(...bounds);
+  if (min === max) {
+    min -= Math.abs(min) * 0.1 || 1;
+    max += Math.abs(max) * 0.1 || 1;
+  }
+  const margin = (max - min) * 0.1;
+  min -= margin;
+  max += margin;
+
+  const first = points[0].date.getTime();
+  const span = latest.date.getTime() - first;
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (date: Date) => PAD.left + (span === 0 ? plotWidth / 2 : ((date.getTime() - first) / span) * plotWidth);
+  const y = (value: number) => PAD.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const bandTop = y(latest.refHigh ?? max);
+  const bandBottom = y(latest.refLow ?? min);
+  const path = points.map((point, index) => `${index === 0 ? "M" : "L"}${x(point.date)},${y(point.value)}`).join(" ");
+  const range = formatReferenceRange(latest);
+
+  return (
+    <Card className={`p-4 ${className}`}>
+      <div className="flex items-baseline justify-between mb-2">
+        <h4 className="font-medium text-gray-900">{trend.name}</h4>
+        <span className={`text-sm font-semibold ${latest.flag === "normal" ? "text-gray-900" : "text-red-600"}`}>
+          {formatValue(latest.value)} {trend.unit}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${trend.name} trend`}>
+        {(latest.refLow !== undefined || latest.refHigh !== undefined) && (
+          <rect x={PAD.left} y={bandTop} width={plotWidth} height={Math.max(0, bandBottom - bandTop)} fill="#dcfce7" />
+        )}
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotHeight} stroke="#e5e7eb" />
+        <line x1={PAD.left} y1={PAD.top + plotHeight} x2={PAD.left + plotWidth} y2={PAD.top + plotHeight} stroke="#e5e7eb" />
+        <text x={PAD.left - 4} y={PAD.top + 4} textAnchor="end" fontSize="9" fill="#6b7280">{formatValue(max)}</text>
+        <text x={PAD.left - 4} y={PAD.top + plotHeight} textAnchor="end" fontSize="9" fill="#6b7280">{formatValue(min)}</text>
+
+        {points.length > 1 && <path d={path} fill="none" stroke="#93c5fd" strokeWidth={2} />}
+        {points.map((point, index) => {
+          const visitNumber = point.visitId ? visitNumbers?.get(point.visitId) : undefined;
+          return (
+            <g key={`${point.investigationId}-${index}`}>
+              <circle cx={x(point.date)} cy={y(point.value)} r={4} fill={flagColors[point.flag]}>
+                <title>
+                  {`${shortDate(point.date)}${visitNumber ? ` (Visit ${visitNumber})` : ""}: ${formatValue(point.value)} ${trend.unit}`}
+                </title>
+              </circle>
+              {/* Label the ends and, on short series, every point */}
+              {(points.length <= 4 || index === 0 || index === points.length - 1) && (
+                <text x={x(point.date)} y={HEIGHT - 10} textAnchor="middle" fontSize="9" fill="#6b7280">
+                  {visitNumber ? `V${visitNumber}` : shortDate(point.date)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-xs text-gray-500">
+        {points.length} {points.length === 1 ? "reading" : "readings"}
+        {range && ` · Reference ${range} ${trend.unit}`}
+      </p>
+    </Card>
+  );
+}
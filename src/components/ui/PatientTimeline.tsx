@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { getPatientTimeline, TIMELINE_EVENT_TYPES, type TimelineEvent, type TimelineEventType } from "@/lib/db/timeline";
+import { OPEN_REDACTOR, type Redactor } from "@/lib/privacy";
+
+interface PatientTimelineProps {
+  patientId: string;
+  redactor?: Redactor; // Keep stable between renders; a new one reloads the timeline
+  className?: string;
+}
+
+interface DateRange {
+  from: Date | null; // null = no bound
+  to: Date | null;
+}
+
+const typeStyles: Record<TimelineEventType, { dot: string; variant: "default" | "success" | "warning" | "danger" | "info" | "purple" }> = {
+  visit: { dot: "bg-blue-500", variant: "info" },
+  prescription: { dot: "bg-indigo-500", variant: "purple" },
+  appointment: { dot: "bg-sky-400", variant: "info" },
+  pharmacy: { dot: "bg-teal-500", variant: "success" },
+  fee: { dot: "bg-amber-500", variant: "warning" },
+  receipt: { dot: "bg-green-500", variant: "success" },
+  bill: { dot: "bg-orange-500", variant: "warning" },
+  investigation: { dot: "bg-pink-500", variant: "danger" },
+  voiceNote: { dot: "bg-gray-500", variant: "default" },
+  message: { dot: "bg-gray-400", variant: "default" },
+};
+
+const typeLabels = Object.fromEntries(TIMELINE_EVENT_TYPES.map(({ type, label }) => [type, label])) as Record<TimelineEventType, string>;
+
+function toInputDate(date: Date | null): string {
+  if (!date) return "";
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function monthsAgo(months: number): DateRange {
+  const from = new Date();
+  from.setMonth(from.getMonth() - months);
+  from.setHours(0, 0, 0, 0);
+  return { from, to: null };
+}
+
+function inRange(date: Date, range: DateRange): boolean {
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+// Bars for the zoom strip: by year over long spans, by month otherwise
+function buckets(events: TimelineEvent[], range: DateRange): { key: string; label: string; range: DateRange; count: number }[] {
+  if (events.length === 0) return [];
+  const dates = events.map((event) => event.date.getTime());
+  const start = range.from || new Date(Math.min(...dates));
+  const end = range.to || new Date(Math.max(...dates, Date.now()));
+  const byYear = end.getFullYear() - start.getFullYear() > 3;
+
+  const result: { key: string; label: string; range: DateRange; count: number }[] = [];
+  const cursor = new Date(start.getFullYear(), byYear ? 0 : start.getMonth(), 1);
+  while (cursor <= end) {
+    const from = new Date(cursor);
+    if (byYear) cursor.setFullYear(cursor.getFullYear() + 1);
+    else cursor.setMonth(cursor.getMonth() + 1);
+    const to = new Date(cursor.getTime() - 1);
+    result.push({
+      key: from.toISOString(),
+      label: byYear
+        ? String(from.getFullYear())
+        : from.toLocaleDateString("en-IN", { month: "short", year: "2-digit" }),
+      range: { from, to },
+      count: events.filter((event) => inRange(event.date, { from, to })).length,
+    });
+  }
+  return result;
+}
+
+function formatDateTime(date: Date): string {
+  const day = date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+  const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+  return hasTime ? `${day}, ${date.toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" })}` : day;
+}
+
+export function PatientTimeline({ patientId, redactor = OPEN_REDACTOR, className = "" }: PatientTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[] | null>(null);
+  const [hiddenTypes, setHiddenTypes] = useState<Set<TimelineEventType>>(new Set());
+  const [range, setRange] = useState<DateRange>({ from: null, to: null });
+  const [zoomHistory, setZoomHistory] = useState<DateRange[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPatientTimeline(patientId, redactor)
+      .then((loaded) => {
+        if (!cancelled) setEvents(loaded);
+      })
+      .catch((error) => {
+        console.error("Error loading timeline:", error);
+        if (!cancelled) setEvents([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, redactor]);
+
+  const toggleType = (type: TimelineEventType) => {
+    const next = new Set(hiddenTypes);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setHiddenTypes(next);
+  };
+
+  const zoomTo = (next: DateRange) => {
+    setZoomHistory([...zoomHistory, range]);
+    setRange(next);
+  };
+
+  const zoomOut = () => {
+    setRange(zoomHistory[zoomHistory.length - 1] || { from: null, to: null });
+    setZoomHistory(zoomHistory.slice(0, -1));
+  };
+
+  const setPreset = (next: DateRange) => {
+    setZoomHistory([]);
+    setRange(next);
+  };
+
+  const setBound = (bound: "from" | "to", value: string) => {
+    const date = value ? new Date(`${value}T${bound === "from" ? "00:00:00" : "23:59:59"}`) : null;
+    setZoomHistory([...zoomHistory, range]);
+    setRange({ ...range, [bound]: date });
+  };
+
+  if (events === null) {
+    return <Card className={`p-6 text-center text-gray-500 ${className}`}>Loading timeline...</Card>;
+  }
+
+  const typed = events.filter((event) => !hiddenTypes.has(event.type));
+  const visible = typed.filter((event) => inRange(event.date, range));
+  const strip = buckets(typed, range);
+  const maxCount = Math.max(1, ...strip.map((bucket) => bucket.count));
+  const counts = events.reduce<Partial<Record<TimelineEventType, number>>>((all, event) => {
+    all[event.type] = (all[event.type] || 0) + 1;
+    return all;
+  }, {});
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Filters */}
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {TIMELINE_EVENT_TYPES.filter(({ type }) => counts[type]).map(({ type, label }) => (
+            <button key={type} onClick={() => toggleType(type)} title={hiddenTypes.has(type) ? "Show" : "Hide"}>
+              <Badge variant={hiddenTypes.has(type) ? "outline" : typeStyles[type].variant}>
+                {label} {counts[type]}
+              </Badge>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <Button size="sm" variant={!range.from && !range.to ? "primary" : "secondary"} onClick={() => setPreset({ from: null, to: null })}>
+            All
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => setPreset(monthsAgo(12))}>1 Year</Button>
+          <Button size="sm" variant="secondary" onClick={() => setPreset(monthsAgo(6))}>6 Months</Button>
+          <Button size="sm" variant="secondary" onClick={() => setPreset(monthsAgo(1))}>1 Month</Button>
+          <label className="text-sm text-gray-600 ml-2">
+            From{" "}
+            <input
+              type="date"
+              value={toInputDate(range.from)}
+              onChange={(e) => setBound("from", e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            To{" "}
+            <input
+              type="date"
+              value={toInputDate(range.to)}
+              onChange={(e) => setBound("to", e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          </label>
+          {zoomHistory.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={zoomOut}>Zoom Out</Button>
+          )}
+        </div>
+
+        {/* Zoom strip: click a bar to zoom into that year or month */}
+        {strip.length > 1 && (
+          <div className="flex items-end gap-1 h-16">
+            {strip.map((bucket) => (
+              <button
+                key={bucket.key}
+                onClick={() => bucket.count > 0 && zoomTo(bucket.range)}
+                className="flex-1 min-w-0 flex flex-col items-center justify-end h-full group"
+                title={`${bucket.label}: ${bucket.count} events`}
+              >
+                <div
+                  className={`w-full rounded-t ${bucket.count > 0 ? "bg-blue-300 group-hover:bg-blue-500" : "bg-gray-100"}`}
+                  style={{ height: `${Math.max(4, (bucket.count / maxCount) * 44)}px` }}
+                />
+                {strip.length <= 24 && <span className="text-[10px] text-gray-500 truncate w-full text-center">{bucket.label}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* Events */}
+      <Card className="p-6">
+        {visible.length === 0 ? (
+          <p className="py-6 text-center text-gray-500">No events in this range</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2">
+            {visible.map((event, index) => {
+              // Month heading above the first event of each month
+              const month = event.date.toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+              const previous = visible[index - 1]?.date.toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+              const heading = month !== previous ? month : null;
+              return (
+                <li key={event.id} className="ml-4 pb-4">
+                  {heading && <h3 className="-ml-4 mb-3 pl-4 text-sm font-semibold text-gray-700">{heading}</h3>}
+                  <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${typeStyles[event.type].dot}`} />
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-gray-500">{formatDateTime(event.date)}</span>
+                        <Badge variant={typeStyles[event.type].variant} size="sm">{typeLabels[event.type]}</Badge>
+                        {event.status && <Badge variant="outline" size="sm">{event.status}</Badge>}
+                      </div>
+                      <p className="font-medium text-gray-900 mt-1">
+                        {event.href ? (
+                          event.external ? (
+                            <a href={event.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                              {event.title}
+                            </a>
+                          ) : (
+                            <Link href={event.href} className="text-blue-600 hover:underline">{event.title}</Link>
+                          )
+                        ) : (
+                          event.title
+                        )}
+                      </p>
+                      {event.detail && <p className="text-sm text-gray-600 truncate">{event.detail}</p>}
+                    </div>
+                    {event.amount !== undefined && (
+                      <span className="text-sm font-medium text-gray-900 whitespace-nowrap">₹{redactor.amount(event.amount)}</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { usePrivacy } from "@/lib/auth/auth-context";
+import { PRIVACY_FLAGS } from "@/lib/privacy";
+import type { Patient } from "@/types";
+
+interface PrivacyNoticeProps {
+  patient: Pick<Patient, "id" | "privacySettings">;
+  className?: string;
+}
+
+// Says which of the patient's details are withheld from this role, with a logged reveal
+export function PrivacyNotice({ patient, className = "" }: PrivacyNoticeProps) {
+  const { redactorFor, breakGlass } = usePrivacy();
+  const { hidden } = redactorFor(patient);
+  if (hidden.length === 0) return null;
+
+  const labels = PRIVACY_FLAGS.filter(({ flag }) => hidden.includes(flag)).map(({ label }) => label.toLowerCase());
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 ${className}`}>
+      <span>🔒 Hidden at the patient&apos;s request: {labels.join(", ")}</span>
+      <button
+        type="button"
+        onClick={() => breakGlass(patient)}
+        className="text-amber-900 font-medium underline hover:no-underline"
+        title="Reveal for this session; the reason is recorded in the activity log"
+      >
+        Reveal
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/Badge";
+import { revisionDb } from "@/lib/db/database";
+import { formatRevisionValue, type RecordRevision, type RevisionAction } from "@/lib/db/revisions";
+import { OPEN_REDACTOR, type Redactor } from "@/lib/privacy";
+
+interface VisitHistoryModalProps {
+  visitId: string;
+  redactor?: Redactor; // Masks the patient's private visit fields
+  onClose: () => void;
+}
+
+const actionLabels: Record<RevisionAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Permanently deleted",
+};
+
+const actionVariants: Record<RevisionAction, "success" | "info" | "danger" | "warning"> = {
+  create: "success",
+  update: "info",
+  delete: "danger",
+  restore: "warning",
+  purge: "danger",
+};
+
+// caseText -> Case Text
+function fieldLabel(field: string): string {
+  const spaced = field.replace(/([A-Z])/g, " $1");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+// Names the prescription row a revision belongs to, even after the row was removed
+function describeTarget(revision: RecordRevision, revisions: RecordRevision[]): string {
+  if (revision.collection === "visits") return "Visit";
+  const medicine = revisions
+    .filter((entry) => entry.recordId === revision.recordId)
+    .flatMap((entry) => entry.changes)
+    .reverse()
+    .find((change) => change.field === "medicine" && (change.after || change.before));
+  const name = medicine ? String(medicine.after || medicine.before) : "";
+  return name ? `Prescription: ${name}` : "Prescription";
+}
+
+export function VisitHistoryModal({ visitId, redactor = OPEN_REDACTOR, onClose }: VisitHistoryModalProps) {
+  const [revisions] = useState<RecordRevision[]>(() => revisionDb.getByVisit(visitId)
+    .filter((revision) => revision.collection === "visits" || revision.collection === "prescriptions"));
+
+  const formatValue = (revision: RecordRevision, field: string, value: unknown) =>
+    formatRevisionValue(revision.collection === "visits" && typeof value === "string" ? redactor.visitField(field, value) : value);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Visit History</h2>
+            <p className="text-sm text-gray-500">Every change to this visit and its prescription, newest first</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Revisions */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {revisions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No changes have been recorded for this visit
+            </div>
+          ) : (
+            [...revisions].reverse().map((revision) => (
+              <div key={revision.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="bg-gray-50 px-4 py-2 flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={actionVariants[revision.action]} size="sm">
+                      {actionLabels[revision.action]}
+                    </Badge>
+                    <span className="text-sm font-medium text-gray-900">{describeTarget(revision, revisions)}</span>
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {revision.changedBy} · {new Date(revision.changedAt).toLocaleString("en-IN")}
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="px-4 py-2 font-medium w-40">Field</th>
+                      <th className="px-4 py-2 font-medium">Before</th>
+                      <th className="px-4 py-2 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {revision.changes.map((change) => (
+                      <tr key={change.field} className="border-t border-gray-100 align-top">
+                        <td className="px-4 py-2 text-gray-700">{fieldLabel(change.field)}</td>
+                        <td className="px-4 py-2 text-red-700 whitespace-pre-wrap break-words">
+                          {formatValue(revision, change.field, change.before)}
+                        </td>
+                        <td className="px-4 py-2 text-green-700 whitespace-pre-wrap break-words">
+                          {formatValue(revision, change.field, change.after)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
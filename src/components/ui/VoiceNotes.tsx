@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { voiceNoteDb } from "@/lib/db/database";
+import { useAuth } from "@/lib/auth/auth-context";
+import { OPEN_REDACTOR, type Redactor } from "@/lib/privacy";
+import { safeHref } from "@/lib/safe-url";
+import type { VoiceNote } from "@/types";
+
+interface VoiceNotesProps {
+  patientId: string;
+  visitId?: string; // Set when recording during a consultation
+  onInsert?: (transcript: string) => void; // Shows "Insert into case" on transcribed notes
+  redactor?: Redactor; // Transcripts are case notes for the patient's privacy settings
+  className?: string;
+}
+
+const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "hi", label: "Hindi" },
+  { code: "auto", label: "Auto-detect" },
+];
+
+// Speech-to-text engines expect 16 kHz mono
+const SPEECH_SAMPLE_RATE = 16000;
+
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM header size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes per second
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+// MediaRecorder output (WebM/Ogg) re-encoded as 16 kHz mono WAV
+async function toSpeechWav(recording: Blob): Promise<{ wav: Blob; duration: number }> {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close();
+  }
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * SPEECH_SAMPLE_RATE), SPEECH_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return { wav: encodeWav(rendered.getChannelData(0), SPEECH_SAMPLE_RATE), duration: decoded.duration };
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>;
+  const parts = text.split(new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi"));
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === query.toLowerCase() ? <mark key={index} className="bg-yellow-200">{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+function loadNotes(patientId: string): VoiceNote[] {
+  return (voiceNoteDb.getByPatient(patientId) as VoiceNote[])
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export function VoiceNotes({ patientId, visitId, onInsert, redactor = OPEN_REDACTOR, className = "" }: VoiceNotesProps) {
+  const { user, logActivity } = useAuth();
+  const [notes, setNotes] = useState<VoiceNote[]>(() => loadNotes(patientId));
+  const [language, setLanguage] = useState("en");
+  const [search, setSearch] = useState("");
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [transcribing, setTranscribing] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState("");
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Release the microphone if the panel goes away mid-recording
+  useEffect(() => () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const transcribe = async (note: VoiceNote) => {
+    setTranscribing((current) => new Set(current).add(note.id));
+    setErrors((current) => ({ ...current, [note.id]: "" }));
+    try {
+      const response = await fetch("/api/voice-notes/transcribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileUrl: note.fileUrl, language: note.language }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message || result.error || "Transcription failed");
+      voiceNoteDb.update(note.id, { transcript: result.transcript });
+      setNotes(loadNotes(patientId));
+    } catch (transcribeError) {
+      console.error("Error transcribing voice note:", transcribeError);
+      setErrors((current) => ({
+        ...current,
+        [note.id]: transcribeError instanceof Error ? transcribeError.message : "Transcription failed",
+      }));
+    } finally {
+      setTranscribing((current) => {
+        const next = new Set(current);
+        next.delete(note.id);
+        return next;
+      });
+    }
+  };
+
+  const save = async (recordingBlob: Blob, measuredSeconds: number) => {
+    setSaving(true);
+    setError("");
+    try {
+      // Fall back to the original recording if the browser cannot decode it
+      let upload: Blob = recordingBlob;
+      let duration = measuredSeconds;
+      try {
+        const converted = await toSpeechWav(recordingBlob);
+        upload = converted.wav;
+        duration = converted.duration;
+      } catch (convertError) {
+        console.error("Error converting recording to WAV:", convertError);
+      }
+
+      const formData = new FormData();
+      formData.append("file", upload, "recording");
+      formData.append("patientId", patientId);
+      const response = await fetch("/api/voice-notes/upload", { method: "POST", body: formData });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message || result.error || "Upload failed");
+
+      const note = voiceNoteDb.create({
+        patientId,
+        visitId,
+        fileName: result.fileName,
+        fileUrl: result.fileUrl,
+        duration,
+        language,
+        recordedBy: user?.name || "unknown",
+      }) as unknown as VoiceNote;
+      setNotes(loadNotes(patientId));
+      logActivity("voice_note_recorded", "patients", { duration: Math.round(duration) }, patientId);
+      transcribe(note);
+    } catch (saveError) {
+      console.error("Error saving voice note:", saveError);
+      setError(saveError instanceof Error ? saveError.message : "Failed to save recording");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startRecording = async () => {
+    setError("");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        save(new Blob(chunks, { type: recorder.mimeType }), (Date.now() - startedAt) / 1000);
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setElapsed(0);
+      setRecording(true);
+      timerRef.current = setInterval(() => setElapsed(Math.round((Date.now() - startedAt) / 1000)), 1000);
+    } catch (micError) {
+      console.error("Error accessing microphone:", micError);
+      setError("Could not access the microphone. Please check permissions.");
+    }
+  };
+
+  const stopRecording = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setRecording(false);
+  };
+
+  const handleDelete = (note: VoiceNote) => {
+    if (!confirm("Delete this voice note?")) return;
+    voiceNoteDb.delete(note.id);
+    setNotes(loadNotes(patientId));
+  };
+
+  const query = search.trim();
+  const transcriptOf = (note: VoiceNote) => redactor.caseText(note.transcript);
+  const visible = query
+    ? notes.filter((note) => transcriptOf(note)?.toLowerCase().includes(query.toLowerCase()))
+    : notes;
+
+  return (
+    <Card className={`p-4 space-y-4 ${className}`}>
+      {/* Recorder */}
+      <div className="flex flex-wrap items-center gap-2">
+        {recording ? (
+          <Button variant="danger" size="sm" onClick={stopRecording}>
+            ■ Stop ({formatDuration(elapsed)})
+          </Button>
+        ) : (
+          <Button size="sm" onClick={startRecording} disabled={saving}>
+            {saving ? "Saving..." : "● Record Voice Note"}
+          </Button>
+        )}
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          disabled={recording}
+          className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+          title="Spoken language, for transcription"
+        >
+          {LANGUAGES.map((entry) => (
+            <option key={entry.code} value={entry.code}>{entry.label}</option>
+          ))}
+        </select>
+        {notes.length > 0 && (
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search transcripts..."
+            className="ml-auto px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Playback list */}
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-500">No voice notes yet</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No transcripts mention &quot;{query}&quot;</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {visible.map((note) => (
+            <li key={note.id} className="py-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs text-gray-500">
+                  {new Date(note.createdAt).toLocaleString("en-IN")} · {formatDuration(note.duration)} · {note.recordedBy}
+                  {note.visitId && note.visitId === visitId && " · this visit"}
+                </span>
+                <div className="flex gap-2">
+                  {onInsert && note.transcript && (
+                    <Button size="sm" variant="secondary" onClick={() => onInsert(note.transcript!)}>
+                      Insert into case
+                    </Button>
+                  )}
+                  {!note.transcript && (
+                    <Button size="sm" variant="ghost" onClick={() => transcribe(note)} disabled={transcribing.has(note.id)}>
+                      {transcribing.has(note.id) ? "Transcribing..." : "Transcribe"}
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(note)}>Delete</Button>
+                </div>
+              </div>
+              <audio controls preload="none" src={safeHref(note.fileUrl)} className="w-full h-8" />
+              {note.transcript ? (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                  <Highlighted text={transcriptOf(note) || ""} query={query} />
+                </p>
+              ) : errors[note.id] ? (
+                <p className="text-xs text-red-600">{errors[note.id]}</p>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
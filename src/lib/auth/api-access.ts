@@ -0,0 +1,64 @@
+// ============================================
+// API Access (server only)
+// Routes that hand out or accept patient data answer only to
+// PCs paired with the clinic access key (PMS_API_KEY). Browsers
+// pair once through /api/access and carry an httpOnly cookie,
+// or, syncing with a server at another address, the same
+// derived token as a bearer; other machines send the key itself
+// ============================================
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const ACCESS_COOKIE = 'pms_access';
+
+function configuredKey(): string | undefined {
+  return process.env.PMS_API_KEY || undefined;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Cookie value and browser bearer token; derived from the key so the key itself never sits in the browser
+export function browserAccessToken(key: string): string {
+  return createHmac('sha256', key).update('pms-browser-access').digest('hex');
+}
+
+export function isAccessConfigured(): boolean {
+  return !!configuredKey();
+}
+
+export function isAccessKey(candidate: unknown): candidate is string {
+  const key = configuredKey();
+  return !!key && typeof candidate === 'string' && safeEqual(candidate, key);
+}
+
+export function hasAccess(request: NextRequest): boolean {
+  const key = configuredKey();
+  if (!key) return false;
+  const bearer = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (bearer && (safeEqual(bearer, key) || safeEqual(bearer, browserAccessToken(key)))) return true;
+  const cookie = request.cookies.get(ACCESS_COOKIE)?.value;
+  return !!cookie && safeEqual(cookie, browserAccessToken(key));
+}
+
+// Call first in a protected handler: null when the request may go ahead,
+// otherwise the response to return
+export function requireAccess(request: NextRequest): NextResponse | null {
+  if (!isAccessConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Server access is not set up. Set PMS_API_KEY on the server.' },
+      { status: 503 }
+    );
+  }
+  if (!hasAccess(request)) {
+    return NextResponse.json(
+      { success: false, error: 'This PC is not paired with the server' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
@@ -5,8 +5,9 @@
 'use client';
 
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
-import type { User, Role, AuthState, LoginMode, ActivityLog, EmergencyMode, FrontdeskOverride } from '@/types';
-import { userDb, roleDb, activityLogDb, sessionDb, ensureModule2DataSeeded } from '@/lib/db/database';
+import type { User, Role, AuthState, LoginMode, ActivityLog, EmergencyMode, FrontdeskOverride, Patient } from '@/types';
+import { db, userDb, roleDb, activityLogDb, sessionDb, ensureModule2DataSeeded } from '@/lib/db/database';
+import { createRedactor, privacyViewer, hiddenFlags, type Redactor, type PrivacyFlag } from '@/lib/privacy';
 
 // Default login mode (Module 2.4)
 const DEFAULT_LOGIN_MODE: LoginMode = 'none';
@@ -32,6 +33,10 @@ interface AuthContextType extends AuthState {
   
   // Activity logging (Module 2.10)
   logActivity: (action: string, module: string, details?: Record<string, unknown>, patientId?: string) => void;
+
+  // Break-glass reveal of a patient's private fields, for this session
+  revealedPatientIds: string[];
+  revealPatient: (patientId: string, reason: string, flags: PrivacyFlag[]) => void;
   
   // Session management
   updateLastActivity: () => void;
@@ -89,6 +94,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     restrictionsDisabled: false,
   });
 
+  const [revealedPatientIds, setRevealedPatientIds] = useState<string[]>([]);
+
   const [frontdeskOverride, setFrontdeskOverride] = useState<FrontdeskOverride>({
     enabled: false,
     enabledBy: '',
@@ -96,7 +103,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   });
 
   // Use ref for logActivity to avoid circular dependencies
-  const logActivityRef = useRef<(action: string, module: string, details?: Record<string, unknown>, patientId?: string) => void>((action: string, module: string, details?: Record<string, unknown>) => {
+  const logActivityRef = useRef<(action: string, module: string, details?: Record<string, unknown>, patientId?: string) => void>((action: string, module: string, details?: Record<string, unknown>, patientId?: string) => {
     if (authState.user) {
       activityLogDb.create({
         userId: authState.user.id,
@@ -104,16 +111,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         action,
         module,
         details: details || {},
-        patientId: undefined,
+        patientId,
         ipAddress: '127.0.0.1',
         timestamp: new Date(),
       });
     }
   });
 
+  // Deleted records are stamped with the logged-in user
+  useEffect(() => {
+    db.setActor(authState.user?.name);
+  }, [authState.user]);
+
   // Update ref when user changes
   useEffect(() => {
-    logActivityRef.current = (action: string, module: string, details?: Record<string, unknown>) => {
+    logActivityRef.current = (action: string, module: string, details?: Record<string, unknown>, patientId?: string) => {
       if (authState.user) {
         activityLogDb.create({
           userId: authState.user.id,
@@ -121,7 +133,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           action,
           module,
           details: details || {},
-          patientId: undefined,
+          patientId,
           ipAddress: '127.0.0.1',
           timestamp: new Date(),
         });
@@ -180,6 +192,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       frontdeskOverride: false,
     });
 
+    setRevealedPatientIds([]);
+
     // Log activity using ref
     logActivityRef.current('login', 'auth', { loginMode: authState.loginMode });
 
@@ -194,6 +208,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     // Log activity using ref
     logActivityRef.current('logout', 'auth');
+    setRevealedPatientIds([]);
 
     setAuthState({
       isAuthenticated: false,
@@ -235,6 +250,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return keys.every((key) => hasPermission(key));
   }, [hasPermission]);
 
+  // Restore and purge are checked again in the data layer, not only by the pages
+  useEffect(() => {
+    db.setAccess(authState.user ? { isDoctor: !!authState.user.isDoctor, hasPermission } : null);
+  }, [authState.user, hasPermission]);
+
   // Emergency mode (Module 2.13)
   const enableEmergencyMode = useCallback((reason?: string) => {
     if (authState.user) {
@@ -316,6 +336,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     logActivityRef.current(action, module, details, patientId);
   }, []);
 
+  // Break-glass: the reason and the fields revealed go to the activity log
+  const revealPatient = useCallback((patientId: string, reason: string, flags: PrivacyFlag[]) => {
+    logActivityRef.current('privacy_break_glass', 'patients', { reason, flags }, patientId);
+    setRevealedPatientIds((current) => (current.includes(patientId) ? current : [...current, patientId]));
+  }, []);
+
   // Update last activity (Module 2.12)
   const updateLastActivity = useCallback(() => {
     if (authState.user) {
@@ -350,6 +376,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     enableFrontdeskOverride,
     disableFrontdeskOverride,
     logActivity,
+    revealedPatientIds,
+    revealPatient,
     updateLastActivity,
   };
 
@@ -380,3 +408,28 @@ export function useRequirePermission(permissionKey: string): void {
     }
   }, [isAuthenticated, hasPermission, permissionKey]);
 }
+
+// Hook for patient privacySettings: the redactor for the current
+// viewer, and a break-glass reveal that asks for a reason
+export function usePrivacy() {
+  const { role, user, emergencyMode, hasPermission, revealedPatientIds, revealPatient } = useAuth();
+
+  const redactorFor = useCallback((patient: Pick<Patient, 'id'> & Partial<Pick<Patient, 'privacySettings'>> | null | undefined): Redactor => {
+    return createRedactor(patient?.privacySettings, privacyViewer(role, {
+      isDoctor: user?.isDoctor,
+      emergencyMode,
+      revealed: !!patient && revealedPatientIds.includes(patient.id),
+      canViewFees: hasPermission('view_fees'),
+    }));
+  }, [role, user, emergencyMode, hasPermission, revealedPatientIds]);
+
+  const breakGlass = useCallback((patient: Pick<Patient, 'id' | 'privacySettings'>): boolean => {
+    const flags = hiddenFlags(patient.privacySettings, privacyViewer(role, { isDoctor: user?.isDoctor, canViewFees: hasPermission('view_fees') }));
+    const reason = prompt('Reason for viewing hidden details (recorded in the activity log):');
+    if (!reason?.trim()) return false;
+    revealPatient(patient.id, reason.trim(), flags);
+    return true;
+  }, [role, user, hasPermission, revealPatient]);
+
+  return { redactorFor, breakGlass };
+}
@@ -0,0 +1,19 @@
+// ============================================
+// Data Access Checks
+// The signed-in user's role as far as the data layer needs it.
+// Installed by the AuthProvider, so operations that cannot be
+// undone (restore, purge) are refused here and not only hidden
+// by the page
+// ============================================
+
+export interface DataAccess {
+  isDoctor: boolean;
+  hasPermission(key: string): boolean;
+}
+
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
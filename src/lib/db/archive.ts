@@ -0,0 +1,190 @@
+// ============================================
+// Archive
+// Closed visits (with their prescriptions, pharmacy and billing
+// rows) and finished queue entries older than a cutoff move out
+// of the in-memory store into a separate IndexedDB database that
+// is only read when a history view or report reaches back that far
+// ============================================
+
+import type { IndexedDBBackend } from './indexeddb';
+import type { Collections } from './migrations';
+import type { RecordWrite } from './storage';
+
+export const ARCHIVE_SETTINGS_ID = 'archive';
+export const ARCHIVE_RUNS_COLLECTION = 'archiveRuns';
+// Archived collections travel in backups under this prefix, e.g. archive:visits
+export const ARCHIVE_BACKUP_PREFIX = 'archive:';
+// Tells other tabs that records were archived, so they drop what they had read
+const CHANNEL_NAME = 'pms_archive';
+
+export interface ArchiveSettings {
+  cutoffMonths: number; // Records older than this many months are archived
+  lastRunAt?: string;
+}
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = {
+  cutoffMonths: 24,
+};
+
+// One archiving pass, kept in the archive itself
+export interface ArchiveRun {
+  id: string;
+  cutoff: string; // ISO date; everything archived so far is older than the latest cutoff
+  archivedAt: string;
+  archivedBy: string;
+  counts: Record<string, number>;
+}
+
+// Ids to move, per collection
+export type ArchivePlan = Record<string, string[]>;
+
+type StoredRecord = Record<string, unknown> & { id: string };
+
+const CLOSED_VISIT_STATUSES = ['locked', 'completed', 'cancelled', 'no-show'];
+
+// Rows that belong to a visit and move with it. A visit stays until all of them are closed
+const VISIT_DEPENDENTS: { collection: string; isClosed: (record: StoredRecord) => boolean }[] = [
+  { collection: 'prescriptions', isClosed: () => true },
+  { collection: 'pharmacy', isClosed: (item) => item.status === 'delivered' || item.status === 'stopped' },
+  { collection: 'billingQueue', isClosed: (item) => item.status === 'paid' || item.status === 'completed' },
+  { collection: 'billingReceipts', isClosed: () => true },
+  { collection: 'medicineBills', isClosed: (bill) => bill.status === 'paid' || bill.paymentStatus === 'paid' },
+];
+
+const FINISHED_QUEUE_STATUSES = ['completed', 'skipped', 'no-show'];
+
+export const ARCHIVED_COLLECTIONS = ['visits', ...VISIT_DEPENDENTS.map((dependent) => dependent.collection), 'queueItems'];
+
+export function getArchiveCutoff(settings: ArchiveSettings, now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - settings.cutoffMonths);
+  cutoff.setHours(0, 0, 0, 0);
+  return cutoff;
+}
+
+function isBefore(value: unknown, cutoff: Date): boolean {
+  if (!value) return false;
+  const time = new Date(value as string).getTime();
+  return !isNaN(time) && time < cutoff.getTime();
+}
+
+// Works out what can move: visits older than the cutoff whose rows are all closed, with those
+// rows, plus finished queue entries. read returns a collection's records, deleted ones included
+export function planArchive(read: (collection: string) => StoredRecord[], cutoff: Date): ArchivePlan {
+  const plan: ArchivePlan = Object.fromEntries(ARCHIVED_COLLECTIONS.map((collection) => [collection, []]));
+
+  const dependents = VISIT_DEPENDENTS.map((dependent) => {
+    const byVisit = new Map<string, StoredRecord[]>();
+    read(dependent.collection).forEach((record) => {
+      if (typeof record.visitId !== 'string' || !record.visitId) return;
+      byVisit.set(record.visitId, [...(byVisit.get(record.visitId) || []), record]);
+    });
+    return { ...dependent, byVisit };
+  });
+
+  read('visits').forEach((visit) => {
+    if (!isBefore(visit.visitDate, cutoff)) return;
+    if (!CLOSED_VISIT_STATUSES.includes(visit.status as string)) return;
+    const rows = dependents.map((dependent) => ({ dependent, records: dependent.byVisit.get(visit.id) || [] }));
+    if (rows.some(({ dependent, records }) => !records.every(dependent.isClosed))) return;
+
+    plan.visits.push(visit.id);
+    rows.forEach(({ dependent, records }) => {
+      plan[dependent.collection].push(...records.map((record) => record.id));
+    });
+  });
+
+  plan.queueItems = read('queueItems')
+    .filter((item) => isBefore(item.checkInTime || item.createdAt, cutoff) && FINISHED_QUEUE_STATUSES.includes(item.status as string))
+    .map((item) => item.id);
+
+  return plan;
+}
+
+// Records present in both places are the hot copy, which wins
+export function mergeArchived<T extends { id: string }>(hot: T[], archived: T[] | undefined): T[] {
+  if (!archived || archived.length === 0) return hot;
+  const hotIds = new Set(hot.map((record) => record.id));
+  return [...hot, ...archived.filter((record) => !hotIds.has(record.id))];
+}
+
+// Encrypts archived records with the main database key (see EncryptedBackend)
+export interface RecordSealer {
+  sealRecords(records: Record<string, unknown>[]): Promise<Record<string, unknown>[]>;
+  openRecords(collection: string, records: unknown[]): Promise<unknown[]>;
+}
+
+// ============================================
+// Archive Store
+// Collections are read whole on first use and kept until
+// this or another tab archives more
+// ============================================
+
+export class ArchiveStore {
+  private cache = new Map<string, Promise<StoredRecord[]>>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(
+    private backend: IndexedDBBackend,
+    private getSealer: () => RecordSealer | null
+  ) {
+    if (typeof BroadcastChannel === 'undefined') return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = () => this.cache.clear();
+  }
+
+  read<T = StoredRecord>(collection: string): Promise<T[]> {
+    let records = this.cache.get(collection);
+    if (!records) {
+      records = this.backend.loadCollections([collection])
+        .then((stored) => this.open(collection, stored[collection]));
+      // A failed read is retried next time
+      records.catch(() => this.cache.delete(collection));
+      this.cache.set(collection, records);
+    }
+    return records as Promise<T[]>;
+  }
+
+  // Adds (or replaces) records; nothing is written unless all of them are
+  async add(collections: Collections): Promise<void> {
+    const sealer = this.getSealer();
+    const writes: RecordWrite[] = [];
+    for (const [collection, records] of Object.entries(collections)) {
+      const sealed = sealer ? await sealer.sealRecords(records as Record<string, unknown>[]) : records;
+      sealed.forEach((record) => writes.push({ type: 'put', collection, record: record as Record<string, unknown> }));
+    }
+    await this.backend.writeBatch(writes);
+    this.invalidate();
+  }
+
+  // Every archived collection, e.g. for a backup or before re-encrypting
+  async readAll(): Promise<Collections> {
+    const saved = await this.backend.load();
+    const collections: Collections = {};
+    for (const [collection, records] of Object.entries(saved?.collections || {})) {
+      collections[collection] = await this.open(collection, records);
+    }
+    return collections;
+  }
+
+  // Replaces the whole archive, sealed with the current key
+  async replaceAll(collections: Collections, schemaVersion: string | null): Promise<void> {
+    const sealer = this.getSealer();
+    const sealed: Collections = {};
+    for (const [collection, records] of Object.entries(collections)) {
+      sealed[collection] = sealer ? await sealer.sealRecords(records as Record<string, unknown>[]) : records;
+    }
+    await this.backend.saveAll({ schemaVersion, collections: sealed });
+    this.invalidate();
+  }
+
+  private async open(collection: string, records: unknown[]): Promise<StoredRecord[]> {
+    const sealer = this.getSealer();
+    return (sealer ? await sealer.openRecords(collection, records) : records) as StoredRecord[];
+  }
+
+  private invalidate(): void {
+    this.cache.clear();
+    this.channel?.postMessage({ changed: true });
+  }
+}
@@ -0,0 +1,111 @@
+// ============================================
+// Backup Scheduler
+// Creates backup archives from the browser database,
+// on demand or when backupSettings says one is due,
+// and sends them to the backups route for safekeeping.
+// Only archives sealed under the database key are sent
+// ============================================
+
+import { db, settingsDb } from './database';
+import { ARCHIVE_BACKUP_PREFIX } from './archive';
+import type { Collections } from './migrations';
+import {
+  BACKUP_SETTINGS_ID,
+  DEFAULT_BACKUP_SETTINGS,
+  createBackupArchive,
+  isBackupDue,
+  type BackupArchive,
+  type BackupSettings,
+  type BackupSummary,
+} from './backup';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const LOCK_NAME = 'pms_backup';
+
+class BackupScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  getSettings(): BackupSettings {
+    const saved = settingsDb.getById(BACKUP_SETTINGS_ID) as Partial<BackupSettings> | undefined;
+    return { ...DEFAULT_BACKUP_SETTINGS, ...saved };
+  }
+
+  saveSettings(settings: BackupSettings): void {
+    settingsDb.upsert(BACKUP_SETTINGS_ID, { ...settings });
+  }
+
+  // Builds an archive of every collection without storing it anywhere,
+  // including the records moved to the archive store. Sealed while encryption is on
+  async createArchive(createdBy: string, reason: BackupArchive['reason']): Promise<BackupArchive> {
+    const collections: Record<string, unknown[]> = {};
+    db.getCollectionNames().forEach((collection) => {
+      collections[collection] = db.getAll(collection, { includeDeleted: true });
+    });
+    const archived = await db.getArchive()?.readAll();
+    Object.entries(archived || {}).forEach(([collection, records]) => {
+      collections[`${ARCHIVE_BACKUP_PREFIX}${collection}`] = records;
+    });
+    const sealed = await db.sealForExport(collections);
+    return createBackupArchive(sealed?.collections ?? collections, { createdBy, reason, encryption: sealed?.keyRecord });
+  }
+
+  // The archive's records, opened with the database key or the passphrase it was made under
+  openArchive(archive: BackupArchive, passphrase?: string): Promise<Collections> {
+    if (!archive.encryption) return Promise.resolve(archive.collections);
+    return db.openSealed(archive.collections, archive.encryption, passphrase);
+  }
+
+  // Stores a new archive on the server and prunes the ones past retention
+  async runBackup(createdBy: string, reason: BackupArchive['reason'] = 'manual'): Promise<BackupSummary> {
+    if (!db.isEncrypted()) {
+      throw new Error('Turn on data encryption before backing up to the server');
+    }
+    const settings = this.getSettings();
+    const archive = await this.createArchive(createdBy, reason);
+    const response = await fetch('/api/backups', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ archive, retentionDays: settings.retentionDays }),
+    });
+    if (!response.ok) {
+      throw new Error(response.status === 401 ? 'This PC is not paired with the server' : `Backup failed (${response.status})`);
+    }
+    const result = (await response.json()) as { backup: BackupSummary; pruned: string[] };
+    this.saveSettings({ ...this.getSettings(), lastBackupAt: archive.createdAt, lastFailure: undefined });
+    return result.backup;
+  }
+
+  start(): void {
+    if (this.timer || typeof window === 'undefined') return;
+    this.timer = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+    this.runIfDue();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Only one tab runs the scheduled backup; the others find it already done
+  private async runIfDue(): Promise<void> {
+    const run = async () => {
+      if (!isBackupDue(this.getSettings())) return;
+      try {
+        await this.runBackup('system', 'scheduled');
+      } catch (e) {
+        console.error('Scheduled backup failed:', e);
+        // Shown on the backup settings page, since nobody is watching when it runs
+        this.saveSettings({
+          ...this.getSettings(),
+          lastFailure: { at: new Date().toISOString(), message: e instanceof Error ? e.message : String(e) },
+        });
+      }
+    };
+
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) return run();
+    await locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => (lock ? run() : undefined));
+  }
+}
+
+export const backupScheduler = new BackupScheduler();
@@ -0,0 +1,73 @@
+// ============================================
+// Backup Store (server only)
+// Archive files on disk next to the SQLite database,
+// each with a small summary file so listing stays cheap
+// ============================================
+
+import { mkdir, readFile, readdir, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { toBackupSummary, type BackupArchive, type BackupSummary } from './backup';
+
+export const backupDir = process.env.PMS_BACKUP_DIR || join(process.cwd(), 'data', 'backups');
+
+const ARCHIVE_PATTERN = /^pms-backup-[0-9TZ-]+(-\d+)?\.json$/;
+const SUMMARY_SUFFIX = '.summary';
+
+export function isArchiveFileName(fileName: string): boolean {
+  return ARCHIVE_PATTERN.test(fileName);
+}
+
+export async function saveArchive(archive: BackupArchive): Promise<BackupSummary> {
+  await mkdir(backupDir, { recursive: true });
+  const stamp = archive.createdAt.replace(/[:.]/g, '-');
+  let fileName = `pms-backup-${stamp}.json`;
+  const existing = new Set(await readdir(backupDir));
+  for (let n = 1; existing.has(fileName); n++) {
+    fileName = `pms-backup-${stamp}-${n}.json`;
+  }
+
+  const content = JSON.stringify(archive);
+  await writeFile(join(backupDir, fileName), content);
+  const summary = toBackupSummary(fileName, Buffer.byteLength(content), archive);
+  await writeFile(join(backupDir, fileName + SUMMARY_SUFFIX), JSON.stringify(summary));
+  return summary;
+}
+
+// Newest first
+export async function listArchives(): Promise<BackupSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(backupDir);
+  } catch {
+    return [];
+  }
+
+  const summaries = await Promise.all(files.filter(isArchiveFileName).map(async (fileName) => {
+    try {
+      return JSON.parse(await readFile(join(backupDir, fileName + SUMMARY_SUFFIX), 'utf-8')) as BackupSummary;
+    } catch {
+      // Summary missing (e.g. copied in by hand): read the archive itself
+      const content = await readFile(join(backupDir, fileName), 'utf-8');
+      return toBackupSummary(fileName, (await stat(join(backupDir, fileName))).size, JSON.parse(content) as BackupArchive);
+    }
+  }));
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function readArchive(fileName: string): Promise<string> {
+  if (!isArchiveFileName(fileName)) throw new Error(`Invalid backup file name: ${fileName}`);
+  return readFile(join(backupDir, fileName), 'utf-8');
+}
+
+// Deletes archives older than the retention period; the newest one is always kept
+export async function pruneArchives(retentionDays: number, now: Date = new Date()): Promise<string[]> {
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  const [, ...older] = await listArchives();
+  const expired = older.filter((summary) => new Date(summary.createdAt).getTime() < cutoff);
+
+  await Promise.all(expired.map(async ({ fileName }) => {
+    await unlink(join(backupDir, fileName));
+    await unlink(join(backupDir, fileName + SUMMARY_SUFFIX)).catch(() => undefined);
+  }));
+  return expired.map((summary) => summary.fileName);
+}
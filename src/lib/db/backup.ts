@@ -0,0 +1,167 @@
+// ============================================
+// Backup Archives
+// Versioned, checksummed snapshot of every collection,
+// created in the browser and kept by the /api/backups route.
+// Records are sealed under the database key before they leave
+// the browser; the checksum covers the sealed form
+// ============================================
+
+import type { AppSettings } from '@/types';
+import { CURRENT_SCHEMA_VERSION, type Collections } from './migrations';
+import type { EncryptionKeyRecord } from './encryption';
+
+export const BACKUP_FORMAT = 'pms-backup';
+// Bump when the archive layout itself changes (not the data schema)
+// 2: records may be sealed, with the key record in `encryption`
+export const BACKUP_FORMAT_VERSION = 2;
+
+// Kept in settingsDb under this id
+export const BACKUP_SETTINGS_ID = 'backup';
+
+export type BackupSettings = AppSettings['backupSettings'] & {
+  lastBackupAt?: string;
+  // Why the last scheduled backup did not happen; cleared by the next one that does
+  lastFailure?: { at: string; message: string };
+};
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  autoBackup: false,
+  backupFrequency: 'daily',
+  retentionDays: 30,
+};
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  createdBy: string;
+  reason: 'scheduled' | 'manual';
+  counts: Record<string, number>;
+  checksum: string; // SHA-256 (hex) of JSON.stringify(collections)
+  collections: Collections;
+  // Present when the records are sealed; opens with the passphrase it was made under
+  encryption?: EncryptionKeyRecord;
+}
+
+// Listing entry returned by the backups route, without the data
+export interface BackupSummary {
+  fileName: string;
+  size: number;
+  createdAt: string;
+  createdBy: string;
+  reason: BackupArchive['reason'];
+  schemaVersion: number;
+  counts: Record<string, number>;
+}
+
+export interface BackupValidation {
+  valid: boolean;
+  errors: string[];
+  // Older archives are brought up to date by the schema migrations on restore
+  needsMigration: boolean;
+}
+
+export interface BackupCountDiff {
+  collection: string;
+  current: number;
+  backup: number;
+  change: number;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function countCollections(collections: Collections): Record<string, number> {
+  const counts: Record<string, number> = {};
+  Object.entries(collections).forEach(([collection, records]) => {
+    counts[collection] = Array.isArray(records) ? records.length : 0;
+  });
+  return counts;
+}
+
+export async function createBackupArchive(
+  collections: Collections,
+  options: { createdBy: string; reason: BackupArchive['reason']; encryption?: EncryptionKeyRecord }
+): Promise<BackupArchive> {
+  const serialized = JSON.stringify(collections);
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: options.createdBy,
+    reason: options.reason,
+    counts: countCollections(collections),
+    checksum: await sha256(serialized),
+    // Round-trip so the archive holds exactly what the checksum covers (e.g. Dates as strings)
+    collections: JSON.parse(serialized) as Collections,
+    ...(options.encryption ? { encryption: options.encryption } : {}),
+  };
+}
+
+// Checks the layout, checksum and schema version before anything is restored
+export async function validateBackupArchive(archive: unknown): Promise<BackupValidation> {
+  const errors: string[] = [];
+  const candidate = archive as Partial<BackupArchive> | null;
+
+  if (!candidate || typeof candidate !== 'object' || candidate.format !== BACKUP_FORMAT) {
+    return { valid: false, errors: ['Not a clinic backup file'], needsMigration: false };
+  }
+  if (typeof candidate.formatVersion !== 'number' || candidate.formatVersion > BACKUP_FORMAT_VERSION) {
+    errors.push(`Backup format ${candidate.formatVersion} is not supported by this version of the app`);
+  }
+  if (typeof candidate.schemaVersion !== 'number' || candidate.schemaVersion < 1) {
+    errors.push('Backup has no schema version');
+  } else if (candidate.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    errors.push(`Backup is from a newer app (schema ${candidate.schemaVersion}, this app supports ${CURRENT_SCHEMA_VERSION})`);
+  }
+  if (!candidate.collections || typeof candidate.collections !== 'object'
+    || Object.values(candidate.collections).some((records) => !Array.isArray(records))) {
+    errors.push('Backup has no collections');
+  } else if (candidate.checksum !== await sha256(JSON.stringify(candidate.collections))) {
+    errors.push('Checksum does not match: the file is damaged or was edited');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    needsMigration: typeof candidate.schemaVersion === 'number' && candidate.schemaVersion < CURRENT_SCHEMA_VERSION,
+  };
+}
+
+// Per-collection record counts now versus in the backup, largest changes first
+export function diffBackupCounts(current: Record<string, number>, backup: Record<string, number>): BackupCountDiff[] {
+  const collections = new Set([...Object.keys(current), ...Object.keys(backup)]);
+  return [...collections]
+    .map((collection) => ({
+      collection,
+      current: current[collection] || 0,
+      backup: backup[collection] || 0,
+      change: (backup[collection] || 0) - (current[collection] || 0),
+    }))
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.collection.localeCompare(b.collection));
+}
+
+export function isBackupDue(settings: BackupSettings, now: Date = new Date()): boolean {
+  if (!settings.autoBackup) return false;
+  if (!settings.lastBackupAt) return true;
+  const intervalDays = settings.backupFrequency === 'weekly' ? 7 : 1;
+  return now.getTime() - new Date(settings.lastBackupAt).getTime() >= intervalDays * 24 * 60 * 60 * 1000;
+}
+
+export function toBackupSummary(fileName: string, size: number, archive: BackupArchive): BackupSummary {
+  return {
+    fileName,
+    size,
+    createdAt: archive.createdAt,
+    createdBy: archive.createdBy,
+    reason: archive.reason,
+    schemaVersion: archive.schemaVersion,
+    counts: archive.counts,
+  };
+}
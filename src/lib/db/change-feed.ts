@@ -0,0 +1,60 @@
+// ============================================
+// Change Feed
+// Record changes broadcast between tabs and windows of the
+// same browser, so every open screen sees writes immediately
+// ============================================
+
+export type ChangeType = 'create' | 'update' | 'delete';
+
+export interface ChangeEvent<T = unknown> {
+  collection: string;
+  type: ChangeType;
+  id: string;
+  record?: T; // After the change; absent for deletes
+  previous?: T; // Before the change; absent for creates
+  // 'remote' when written by another tab, 'sync' when pulled from the sync server,
+  // 'archive' for a delete that moved the record into the archive store
+  origin: 'local' | 'remote' | 'sync' | 'archive';
+}
+
+// Decides which records a subscriber cares about
+export type ChangeFilter<T> = (record: T) => boolean;
+
+// Receives every matching change since the last call, in write order
+export type ChangeCallback<T> = (changes: ChangeEvent<T>[]) => void;
+
+interface FeedMessage {
+  source: string;
+  changes: ChangeEvent[];
+}
+
+const CHANNEL_NAME = 'pms_changes';
+
+export class ChangeFeed {
+  private channel: BroadcastChannel | null = null;
+  private source = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  constructor(onRemote: (changes: ChangeEvent[]) => void) {
+    if (typeof BroadcastChannel === 'undefined') return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<FeedMessage>) => {
+      const message = event.data;
+      if (!message || message.source === this.source || !Array.isArray(message.changes)) return;
+      onRemote(message.changes.map((change) => ({ ...change, origin: 'remote' as const })));
+    };
+  }
+
+  publish(changes: ChangeEvent[]): void {
+    if (!this.channel || changes.length === 0) return;
+    try {
+      this.channel.postMessage({ source: this.source, changes } satisfies FeedMessage);
+    } catch (e) {
+      console.error('Failed to broadcast changes to other tabs:', e);
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+}
@@ -0,0 +1,935 @@
+// ============================================
+// Collection Schemas
+// Declared per collection against the types in @/types and
+// ./schema; LocalDatabase validates every local write with them
+// and refuses writes to a collection that has none
+// ============================================
+
+import type {
+  ActivityLog,
+  Appointment,
+  Case,
+  Diagnosis,
+  DoctorNote,
+  FeeExemption,
+  FeeHistoryEntry,
+  FeeStructure,
+  FeeType,
+  Household,
+  Investigation,
+  MateriaMedica,
+  Patient,
+  PatientTag,
+  Permission,
+  PrescriptionHistory,
+  QueueConfig,
+  QueueEvent,
+  QueueItem,
+  Receipt,
+  Refund,
+  RepertoryEntry,
+  Role,
+  RoleTemplate,
+  Slot,
+  StaffAction,
+  StaffMessage,
+  Symptom,
+  TokenSettings,
+  User,
+  UserSession,
+  Visit,
+  VoiceNote,
+} from '@/types';
+import type { HistoryImport, ImportTemplate } from './history-import';
+import type { PatientMerge } from './merge';
+import type { AppliedMigration } from './migrations';
+import type { PatientImport } from './patient-import';
+import type { RecordRevision } from './revisions';
+import type {
+  BillingQueueItem,
+  BillingReceipt,
+  CombinationMedicine,
+  DoctorFee,
+  DoctorPrescription,
+  DoctorSetting,
+  MateriaMedicaAISearchCache,
+  MateriaMedicaBook,
+  MateriaMedicaBookmark,
+  MateriaMedicaBookPage,
+  MateriaMedicaReadingHistory,
+  MateriaMedicaSearchIndex,
+  MedicineAmountMemory,
+  MedicineBill,
+  MedicineUsageMemory,
+  PharmacyQueueItem,
+  SmartParsingRule,
+  SmartParsingTemplate,
+} from './schema';
+import type { SyncConflict } from './sync';
+import { field, type CollectionSchema, type FieldSchema } from './validation';
+
+const GENDERS: readonly Patient['gender'][] = ['male', 'female', 'other'];
+const BLOOD_GROUPS: readonly NonNullable<Patient['bloodGroup']>[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-', 'unknown'];
+const MARITAL_STATUSES: readonly NonNullable<Patient['maritalStatus']>[] = ['single', 'married', 'divorced', 'widowed'];
+const VISIT_MODES: readonly Visit['mode'][] = ['in-person', 'tele', 'video', 'self-repeat'];
+const VISIT_STATUSES: readonly Visit['status'][] = ['active', 'locked', 'completed', 'cancelled', 'no-show'];
+const APPOINTMENT_TYPES: readonly Appointment['type'][] = ['new', 'follow-up', 'consultation', 'emergency'];
+const APPOINTMENT_STATUSES: readonly Appointment['status'][] = [
+  'scheduled', 'confirmed', 'checked-in', 'in-progress', 'completed',
+  'sent-to-pharmacy', 'medicines-prepared', 'billed', 'cancelled', 'no-show',
+];
+const PRIORITIES: readonly Appointment['priority'][] = ['normal', 'vip', 'emergency', 'doctor-priority'];
+const APPOINTMENT_FEE_STATUSES: readonly Appointment['feeStatus'][] = ['pending', 'paid', 'partial', 'exempt'];
+const FEE_TYPES: readonly FeeHistoryEntry['feeType'][] = ['first-visit', 'follow-up', 'free-follow-up', 'exempt', 'consultation', 'medicine'];
+const PAYMENT_METHODS: readonly FeeHistoryEntry['paymentMethod'][] = ['cash', 'card', 'upi', 'cheque', 'insurance', 'exempt'];
+const FEE_PAYMENT_STATUSES: readonly FeeHistoryEntry['paymentStatus'][] = ['paid', 'pending', 'partial', 'refunded', 'exempt'];
+const BILLING_STATUSES: readonly BillingQueueItem['status'][] = ['pending', 'paid', 'completed'];
+const BILLING_PAYMENT_STATUSES: readonly BillingQueueItem['paymentStatus'][] = ['pending', 'paid', 'partial', 'refunded', 'exempt'];
+const INVESTIGATION_FILE_TYPES: readonly Investigation['fileType'][] = ['pdf', 'jpg', 'jpeg', 'png', 'webp'];
+const FAMILY_RELATIONSHIPS: readonly Household['members'][number]['relationship'][] = [
+  'head', 'spouse', 'child', 'parent', 'sibling', 'grandparent', 'grandchild', 'in-law', 'other',
+];
+const CASE_STATUSES: readonly Case['status'][] = ['active', 'closed', 'follow-up'];
+const SYMPTOM_INTENSITIES: readonly Symptom['intensity'][] = ['mild', 'moderate', 'severe'];
+const DIAGNOSIS_TYPES: readonly Diagnosis['type'][] = ['primary', 'secondary'];
+const TOKEN_MODES: readonly TokenSettings['mode'][] = ['at-booking', 'at-checkin', 'hybrid'];
+const QUEUE_STATUSES: readonly QueueConfig['status'][] = ['open', 'closed', 'paused'];
+const QUEUE_ITEM_STATUSES: readonly QueueItem['status'][] = ['waiting', 'in-consultation', 'completed', 'skipped', 'no-show'];
+const QUEUE_EVENT_TYPES: readonly QueueEvent['eventType'][] = [
+  'check-in', 'call', 'start-consultation', 'complete', 'skip', 'no-show', 'reorder',
+  'priority-change', 'queue-open', 'queue-close', 'queue-pause', 'queue-resume',
+];
+const FEE_STRUCTURE_TYPES: readonly FeeStructure['type'][] = ['consultation', 'medicine', 'procedure', 'lab', 'other'];
+const RECEIPT_PAYMENT_METHODS: readonly Receipt['paymentMethod'][] = ['cash', 'card', 'upi', 'cheque', 'insurance'];
+const RECEIPT_PAYMENT_STATUSES: readonly Receipt['paymentStatus'][] = ['paid', 'pending', 'partial', 'refunded'];
+const REFUND_STATUSES: readonly Refund['status'][] = ['pending', 'approved', 'rejected'];
+const PERMISSION_CATEGORIES: readonly Permission['category'][] = ['clinical', 'operational', 'financial', 'pharmacy', 'system'];
+const USER_IDENTIFIER_TYPES: readonly User['identifierType'][] = ['email', 'mobile', 'username'];
+const MESSAGE_PRIORITIES: readonly StaffMessage['priority'][] = ['normal', 'urgent', 'critical'];
+const SMART_PARSING_TYPES: readonly SmartParsingRule['type'][] = ['quantity', 'doseForm', 'dosePattern', 'duration'];
+const MEDICINE_BILL_PAYMENT_STATUSES: readonly NonNullable<MedicineBill['paymentStatus']>[] = ['paid', 'partial', 'pending'];
+const MEDICINE_BILL_STATUSES: readonly MedicineBill['status'][] = ['draft', 'saved', 'paid'];
+const BOOK_CATEGORIES: readonly MateriaMedicaBook['category'][] = ['materia-medica', 'repertory', 'philosophy', 'other'];
+const BOOK_PROCESSING_STATUSES: readonly MateriaMedicaBook['processingStatus'][] = ['pending', 'processing', 'completed', 'failed'];
+const BOOK_INDEX_STATUSES: readonly MateriaMedicaBook['indexStatus'][] = ['pending', 'indexing', 'indexed', 'failed'];
+const SYNC_CONFLICT_STATUSES: readonly SyncConflict['status'][] = ['open', 'accepted', 'overridden'];
+const REVISION_ACTIONS: readonly RecordRevision['action'][] = ['create', 'update', 'delete', 'restore', 'purge'];
+
+const patientSchema: CollectionSchema<Patient> = {
+  registrationNumber: field.string({ required: true }),
+  salutation: field.string(),
+  firstName: field.string({ required: true }),
+  lastName: field.string(),
+  fullName: field.string(),
+  dateOfBirth: field.string(),
+  age: field.number(),
+  gender: field.enum(GENDERS),
+  mobileNumber: field.string(),
+  alternateMobile: field.string(),
+  email: field.string(),
+  address: field.object({
+    street: field.string(),
+    city: field.string(),
+    state: field.string(),
+    pincode: field.string(),
+    country: field.string(),
+  }),
+  bloodGroup: field.enum(BLOOD_GROUPS),
+  occupation: field.string(),
+  maritalStatus: field.enum(MARITAL_STATUSES),
+  religion: field.string(),
+  referredBy: field.string(),
+  photoUrl: field.string(),
+  photoThumbnail: field.string(),
+  tags: field.array(field.string(), { default: () => [] }),
+  feeExempt: field.boolean({ default: () => false }),
+  feeExemptionReason: field.string(),
+  privacySettings: field.object({
+    hideMentalSymptoms: field.boolean(),
+    hideDiagnosis: field.boolean(),
+    hidePrognosis: field.boolean(),
+    hideFees: field.boolean(),
+    hideCaseNotes: field.boolean(),
+  }, {
+    default: () => ({
+      hideMentalSymptoms: false,
+      hideDiagnosis: false,
+      hidePrognosis: false,
+      hideFees: false,
+      hideCaseNotes: false,
+    }),
+  }),
+  medicalHistory: field.array(field.string()),
+  allergies: field.array(field.string()),
+  createdBy: field.string(),
+  totalVisits: field.number(),
+  lastVisitDate: field.date(),
+  lastFeeAmount: field.number(),
+  lastFeeDate: field.date(),
+};
+
+const visitSchema: CollectionSchema<Visit> = {
+  patientId: field.string({ required: true }),
+  registrationNumber: field.string(),
+  caseId: field.string(),
+  visitNumber: field.number(),
+  visitDate: field.date({ required: true }),
+  visitTime: field.string(),
+  tokenNumber: field.number(),
+  doctorId: field.string(),
+  doctorName: field.string(),
+  mode: field.enum(VISIT_MODES),
+  status: field.enum(VISIT_STATUSES),
+  chiefComplaint: field.string(),
+  caseText: field.string(),
+  diagnosis: field.string(),
+  advice: field.string(),
+  testsRequired: field.string(),
+  prognosis: field.string(),
+  nextVisit: field.date(),
+  remarksToFrontdesk: field.string(),
+  notes: field.string(),
+  bp: field.string(),
+  pulse: field.string(),
+  tempF: field.string(),
+  weightKg: field.string(),
+  isSelfRepeat: field.boolean(),
+  selfRepeatDate: field.date(),
+  prescriptionId: field.string(),
+  feeId: field.string(),
+  historyImportId: field.string(),
+  legacyVisitRef: field.string(),
+};
+
+const prescriptionSchema: CollectionSchema<DoctorPrescription> = {
+  visitId: field.string({ required: true }),
+  patientId: field.string({ required: true }),
+  medicine: field.string({ required: true }),
+  potency: field.string(),
+  quantity: field.string(),
+  doseForm: field.string(),
+  dosePattern: field.string(),
+  frequency: field.string(),
+  duration: field.string(),
+  durationDays: field.number(),
+  bottles: field.number(),
+  instructions: field.string(),
+  rowOrder: field.number(),
+  isCombination: field.boolean(),
+  combinationName: field.string(),
+  combinationContent: field.string(),
+};
+
+const appointmentSchema: CollectionSchema<Appointment> = {
+  patientId: field.string({ required: true }),
+  patientName: field.string(),
+  doctorId: field.string(),
+  appointmentDate: field.date({ required: true }),
+  appointmentTime: field.string(),
+  visitMode: field.enum(VISIT_MODES),
+  slotId: field.string(),
+  slotName: field.string(),
+  tokenNumber: field.number(),
+  tokenAssignedAt: field.date(),
+  duration: field.number(),
+  type: field.enum(APPOINTMENT_TYPES),
+  status: field.enum(APPOINTMENT_STATUSES),
+  priority: field.enum(PRIORITIES),
+  feeStatus: field.enum(APPOINTMENT_FEE_STATUSES),
+  feeType: field.string(),
+  feeAmount: field.number(),
+  feeId: field.string(),
+  isFreeFollowUp: field.boolean(),
+  advancePaid: field.number(),
+  paymentMode: field.string(),
+  feeExempt: field.boolean(),
+  feeExemptionReason: field.string(),
+  notes: field.string(),
+  isWalkIn: field.boolean(),
+  checkedInAt: field.date(),
+  consultationStartedAt: field.date(),
+  consultationEndedAt: field.date(),
+  cancelledAt: field.date(),
+  cancellationReason: field.string(),
+  reminderSent: field.boolean(),
+};
+
+const feeHistorySchema: CollectionSchema<FeeHistoryEntry> = {
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  receiptId: field.string(),
+  feeType: field.enum(FEE_TYPES),
+  amount: field.number({ required: true }),
+  paymentMethod: field.enum(PAYMENT_METHODS),
+  paymentStatus: field.enum(FEE_PAYMENT_STATUSES),
+  paidDate: field.date(),
+  daysSinceLastFee: field.number(),
+};
+
+const billingQueueSchema: CollectionSchema<BillingQueueItem> = {
+  visitId: field.string(),
+  patientId: field.string({ required: true }),
+  appointmentId: field.string(),
+  prescriptionIds: field.array(field.string(), { default: () => [] }),
+  status: field.enum(BILLING_STATUSES),
+  feeAmount: field.number(),
+  feeType: field.string(),
+  discountPercent: field.number(),
+  discountAmount: field.number(),
+  taxAmount: field.number(),
+  netAmount: field.number(),
+  paymentMethod: field.enum(PAYMENT_METHODS),
+  paymentStatus: field.enum(BILLING_PAYMENT_STATUSES),
+  receiptNumber: field.string(),
+  receiptGeneratedAt: field.date(),
+  notes: field.string(),
+  createdBy: field.string(),
+};
+
+const labValueSchema = field.object({
+  parameter: field.string({ required: true }),
+  name: field.string(),
+  value: field.number({ required: true }),
+  unit: field.string(),
+  refLow: field.number(),
+  refHigh: field.number(),
+});
+
+const investigationSchema: CollectionSchema<Investigation> = {
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  fileName: field.string({ required: true }),
+  fileType: field.enum(INVESTIGATION_FILE_TYPES),
+  fileSize: field.number(),
+  fileUrl: field.string({ required: true }),
+  thumbnailUrl: field.string(),
+  title: field.string({ required: true }),
+  description: field.string(),
+  labValues: field.array(labValueSchema),
+  investigationDate: field.date(),
+  uploadedBy: field.string(),
+  uploadedAt: field.date(),
+};
+
+const voiceNoteSchema: CollectionSchema<VoiceNote> = {
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  fileName: field.string(),
+  fileUrl: field.string({ required: true }),
+  duration: field.number(),
+  transcript: field.string(),
+  language: field.string(),
+  recordedBy: field.string(),
+};
+
+const patientTagSchema: CollectionSchema<PatientTag> = {
+  name: field.string({ required: true }),
+  color: field.string(),
+  description: field.string(),
+  isSystem: field.boolean({ default: () => false }),
+};
+
+const householdSchema: CollectionSchema<Household> = {
+  name: field.string({ required: true }),
+  members: field.array(field.object({
+    patientId: field.string({ required: true }),
+    relationship: field.enum(FAMILY_RELATIONSHIPS, { required: true }),
+  }), { default: () => [] }),
+  notes: field.string(),
+};
+
+const feeExemptionSchema: CollectionSchema<FeeExemption> = {
+  patientId: field.string({ required: true }),
+  reason: field.string(),
+  exemptedBy: field.string(),
+  exemptedAt: field.date(),
+  isActive: field.boolean(),
+};
+
+const prescriptionHistorySchema: CollectionSchema<PrescriptionHistory> = {
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  prescriptionId: field.string(),
+  prescriptionDate: field.date(),
+  doctorId: field.string(),
+  doctorName: field.string(),
+  medicines: field.array(field.string()),
+  diagnosis: field.string(),
+  notes: field.string(),
+};
+
+const symptomSchema: CollectionSchema<Symptom> = {
+  name: field.string({ required: true }),
+  location: field.string(),
+  sensation: field.string(),
+  modality: field.string(),
+  intensity: field.enum(SYMPTOM_INTENSITIES),
+  duration: field.string(),
+  notes: field.string(),
+};
+
+const diagnosisSchema: CollectionSchema<Diagnosis> = {
+  name: field.string({ required: true }),
+  code: field.string(),
+  description: field.string(),
+  type: field.enum(DIAGNOSIS_TYPES),
+};
+
+const caseSchema: CollectionSchema<Case> = {
+  patientId: field.string({ required: true }),
+  caseNumber: field.string(),
+  chiefComplaints: field.array(field.object({ id: field.string(), ...symptomSchema })),
+  history: field.string(),
+  symptoms: field.array(field.object({ id: field.string(), ...symptomSchema })),
+  diagnosis: field.object({ id: field.string(), ...diagnosisSchema }),
+  prognosis: field.string(),
+  prescriptionId: field.string(),
+  status: field.enum(CASE_STATUSES),
+};
+
+const slotSchema: CollectionSchema<Slot> = {
+  name: field.string({ required: true }),
+  startTime: field.string(),
+  endTime: field.string(),
+  duration: field.number(),
+  tokenReset: field.boolean(),
+  maxTokens: field.number(),
+  isActive: field.boolean(),
+  displayOrder: field.number(),
+};
+
+const tokenSettingsSchema: CollectionSchema<TokenSettings> = {
+  mode: field.enum(TOKEN_MODES, { required: true }),
+  defaultTokenPrefix: field.string(),
+  autoGenerate: field.boolean(),
+};
+
+const queueConfigSchema: CollectionSchema<QueueConfig> = {
+  date: field.date({ required: true }),
+  slotId: field.string(),
+  status: field.enum(QUEUE_STATUSES),
+  currentToken: field.number(),
+  openedAt: field.date(),
+  closedAt: field.date(),
+  pausedAt: field.date(),
+  resumedAt: field.date(),
+  totalPatients: field.number(),
+  completedPatients: field.number(),
+  skippedPatients: field.number(),
+};
+
+const queueItemSchema: CollectionSchema<QueueItem> = {
+  queueConfigId: field.string({ required: true }),
+  patientId: field.string({ required: true }),
+  patientName: field.string(),
+  appointmentId: field.string(),
+  slotId: field.string(),
+  slotName: field.string(),
+  tokenNumber: field.number(),
+  status: field.enum(QUEUE_ITEM_STATUSES),
+  priority: field.enum(PRIORITIES),
+  checkInTime: field.date(),
+  consultationStartTime: field.date(),
+  consultationEndTime: field.date(),
+  estimatedWaitTime: field.number(),
+  actualWaitTime: field.number(),
+  notes: field.string(),
+};
+
+const queueEventSchema: CollectionSchema<QueueEvent> = {
+  queueId: field.string({ required: true }),
+  queueItemId: field.string(),
+  eventType: field.enum(QUEUE_EVENT_TYPES, { required: true }),
+  eventData: field.object({}),
+  timestamp: field.date(),
+};
+
+const pharmacyQueueSchema: CollectionSchema<PharmacyQueueItem> = {
+  visitId: field.string(),
+  patientId: field.string({ required: true }),
+  appointmentId: field.string(),
+  prescriptionIds: field.array(field.string(), { default: () => [] }),
+  preparedPrescriptionIds: field.array(field.string()),
+  priority: field.boolean(),
+  courier: field.boolean(),
+  status: field.string(),
+  stopReason: field.string(),
+  preparedBy: field.string(),
+  preparedAt: field.date(),
+  deliveredAt: field.date(),
+  source: field.string(),
+};
+
+const staffActionSchema: CollectionSchema<StaffAction> = {
+  staffId: field.string({ required: true }),
+  action: field.string({ required: true }),
+  module: field.string(),
+  details: field.object({}),
+  timestamp: field.date(),
+};
+
+// The fees collection holds the doctor panel's per-visit fees and the seeded fee structure
+const feeSchema: CollectionSchema<DoctorFee & Pick<FeeStructure, 'name' | 'type'>> = {
+  patientId: field.string(),
+  visitId: field.string(),
+  amount: field.number({ required: true }),
+  feeType: field.string(),
+  paymentStatus: field.string(),
+  discountPercent: field.number(),
+  discountReason: field.string(),
+  paymentMethod: field.string(),
+  notes: field.string(),
+  name: field.string(),
+  type: field.enum(FEE_STRUCTURE_TYPES),
+};
+
+const receiptItemSchema = field.object({
+  description: field.string(),
+  quantity: field.number(),
+  unitPrice: field.number(),
+  total: field.number(),
+});
+
+const receiptSchema: CollectionSchema<Receipt> = {
+  receiptNumber: field.string({ required: true }),
+  patientId: field.string({ required: true }),
+  patientName: field.string(),
+  items: field.array(receiptItemSchema, { default: () => [] }),
+  totalAmount: field.number(),
+  discountAmount: field.number(),
+  netAmount: field.number(),
+  paymentMethod: field.enum(RECEIPT_PAYMENT_METHODS),
+  paymentStatus: field.enum(RECEIPT_PAYMENT_STATUSES),
+  notes: field.string(),
+};
+
+const refundSchema: CollectionSchema<Refund> = {
+  receiptId: field.string({ required: true }),
+  amount: field.number({ required: true }),
+  reason: field.string(),
+  approvedBy: field.string(),
+  status: field.enum(REFUND_STATUSES),
+};
+
+const materiaMedicaSchema: CollectionSchema<MateriaMedica> = {
+  name: field.string({ required: true }),
+  scientificName: field.string(),
+  family: field.string(),
+  description: field.string(),
+  symptoms: field.array(field.string()),
+  modalities: field.array(field.string()),
+  relationships: field.array(field.string()),
+  source: field.string(),
+};
+
+const bookSchema: CollectionSchema<MateriaMedicaBook> = {
+  title: field.string({ required: true }),
+  author: field.string(),
+  publisher: field.string(),
+  edition: field.string(),
+  year: field.number(),
+  language: field.string(),
+  category: field.enum(BOOK_CATEGORIES),
+  tags: field.array(field.string(), { default: () => [] }),
+  filePath: field.string(),
+  fileName: field.string(),
+  fileSize: field.number(),
+  totalPages: field.number(),
+  uploadedBy: field.string(),
+  uploadedAt: field.date(),
+  lastAccessedAt: field.date(),
+  accessCount: field.number(),
+  processingStatus: field.enum(BOOK_PROCESSING_STATUSES),
+  processingError: field.string(),
+  indexStatus: field.enum(BOOK_INDEX_STATUSES),
+  indexError: field.string(),
+};
+
+const bookPageSchema: CollectionSchema<MateriaMedicaBookPage> = {
+  bookId: field.string({ required: true }),
+  pageNumber: field.number({ required: true }),
+  text: field.string(),
+  wordCount: field.number(),
+  hasImages: field.boolean(),
+  extractedAt: field.date(),
+};
+
+const searchIndexSchema: CollectionSchema<MateriaMedicaSearchIndex> = {
+  bookId: field.string({ required: true }),
+  pageNumber: field.number({ required: true }),
+  word: field.string({ required: true }),
+  positions: field.array(field.number()),
+  frequency: field.number(),
+};
+
+const bookmarkSchema: CollectionSchema<MateriaMedicaBookmark> = {
+  bookId: field.string({ required: true }),
+  userId: field.string(),
+  pageNumber: field.number(),
+  note: field.string(),
+  color: field.string(),
+};
+
+const readingHistorySchema: CollectionSchema<MateriaMedicaReadingHistory> = {
+  bookId: field.string({ required: true }),
+  userId: field.string({ required: true }),
+  lastPageRead: field.number(),
+  totalTimeSpent: field.number(),
+  sessionCount: field.number(),
+  lastReadAt: field.date(),
+};
+
+const aiSearchCacheSchema: CollectionSchema<MateriaMedicaAISearchCache> = {
+  query: field.string(),
+  queryHash: field.string({ required: true }),
+  results: field.array(field.string()),
+  hitCount: field.number(),
+  lastAccessedAt: field.date(),
+  expiresAt: field.date(),
+};
+
+const repertorySchema: CollectionSchema<RepertoryEntry> = {
+  remedy: field.string({ required: true }),
+  symptom: field.string({ required: true }),
+  grade: field.number(),
+  page: field.string(),
+  source: field.string(),
+};
+
+const doctorNoteSchema: CollectionSchema<DoctorNote> = {
+  caseId: field.string({ required: true }),
+  content: field.string(),
+  isPrivate: field.boolean(),
+};
+
+const userSchema: CollectionSchema<User> = {
+  username: field.string({ required: true }),
+  identifierType: field.enum(USER_IDENTIFIER_TYPES),
+  identifier: field.string({ required: true }),
+  password: field.string(),
+  pin: field.string(),
+  roleId: field.string({ required: true }),
+  isActive: field.boolean(),
+  isDoctor: field.boolean(),
+  name: field.string(),
+  phone: field.string(),
+  email: field.string(),
+  profileImage: field.string(),
+  lastLogin: field.date(),
+  lastActivity: field.date(),
+  deviceTokens: field.array(field.string()),
+};
+
+const roleSchema: CollectionSchema<Role> = {
+  name: field.string({ required: true }),
+  description: field.string(),
+  isSystem: field.boolean(),
+  permissions: field.object({}),
+};
+
+const permissionSchema: CollectionSchema<Permission> = {
+  category: field.enum(PERMISSION_CATEGORIES),
+  name: field.string(),
+  key: field.string({ required: true }),
+  description: field.string(),
+  enabled: field.boolean(),
+};
+
+const sessionSchema: CollectionSchema<UserSession> = {
+  userId: field.string({ required: true }),
+  deviceId: field.string(),
+  deviceName: field.string(),
+  ipAddress: field.string(),
+  isActive: field.boolean(),
+  lastActivity: field.date(),
+};
+
+const activityLogSchema: CollectionSchema<ActivityLog> = {
+  userId: field.string(),
+  userName: field.string(),
+  action: field.string({ required: true }),
+  module: field.string(),
+  details: field.object({}),
+  patientId: field.string(),
+  ipAddress: field.string(),
+  timestamp: field.date(),
+};
+
+const staffMessageSchema: CollectionSchema<StaffMessage> = {
+  senderId: field.string({ required: true }),
+  senderName: field.string(),
+  recipientId: field.string({ required: true }),
+  recipientName: field.string(),
+  subject: field.string(),
+  content: field.string({ required: true }),
+  priority: field.enum(MESSAGE_PRIORITIES),
+  patientId: field.string(),
+  patientName: field.string(),
+  readAt: field.date(),
+};
+
+const roleTemplateSchema: CollectionSchema<RoleTemplate> = {
+  name: field.string({ required: true }),
+  description: field.string(),
+  roleIds: field.array(field.string(), { default: () => [] }),
+};
+
+// Also holds whole settings documents under fixed ids (registration, backup,
+// archive); their fields are not declared and pass through as they are
+const settingSchema: CollectionSchema<DoctorSetting> = {
+  key: field.string(),
+  value: field.string(),
+  category: field.string(),
+};
+
+const migrationSchema: CollectionSchema<AppliedMigration> = {
+  version: field.number({ required: true }),
+  name: field.string({ required: true }),
+  appliedAt: field.date(),
+  backupLabel: field.string(),
+};
+
+const conflictVersionSchema = field.object({
+  node: field.string(),
+  updatedAt: field.string(),
+  deleted: field.boolean(),
+  data: field.object({}),
+});
+
+const syncConflictSchema: CollectionSchema<SyncConflict> = {
+  collection: field.string({ required: true }),
+  recordId: field.string({ required: true }),
+  detectedAt: field.date(),
+  winner: conflictVersionSchema,
+  loser: conflictVersionSchema,
+  status: field.enum(SYNC_CONFLICT_STATUSES),
+  reason: field.string(),
+  reviewedBy: field.string(),
+  reviewedAt: field.date(),
+};
+
+const revisionSchema: CollectionSchema<RecordRevision> = {
+  collection: field.string({ required: true }),
+  recordId: field.string({ required: true }),
+  patientId: field.string(),
+  visitId: field.string(),
+  action: field.enum(REVISION_ACTIONS, { required: true }),
+  changes: field.array(field.object({ field: field.string() }), { default: () => [] }),
+  changedAt: field.date(),
+  changedBy: field.string(),
+};
+
+const householdMembersSchema = field.array(field.object({
+  patientId: field.string(),
+  relationship: field.enum(FAMILY_RELATIONSHIPS),
+}));
+
+const patientMergeSchema: CollectionSchema<PatientMerge> = {
+  survivorId: field.string({ required: true }),
+  mergedId: field.string({ required: true }),
+  survivorRegistrationNumber: field.string(),
+  mergedRegistrationNumber: field.string(),
+  mergedName: field.string(),
+  mergedAt: field.string(),
+  mergedBy: field.string(),
+  undoUntil: field.string(),
+  survivorBefore: field.object({}),
+  survivorAfter: field.object({}),
+  moved: field.object({}),
+  archived: field.object({}),
+  households: field.array(field.object({
+    id: field.string(),
+    name: field.string(),
+    before: householdMembersSchema,
+    after: householdMembersSchema,
+  })),
+  undoneAt: field.string(),
+  undoneBy: field.string(),
+};
+
+const patientImportSchema: CollectionSchema<PatientImport> = {
+  fileName: field.string({ required: true }),
+  importedAt: field.string(),
+  importedBy: field.string(),
+  rowCount: field.number(),
+  patientIds: field.array(field.string(), { default: () => [] }),
+  tagIds: field.array(field.string(), { default: () => [] }),
+  skippedRows: field.number(),
+  rolledBackAt: field.string(),
+  rolledBackBy: field.string(),
+  keptPatientIds: field.array(field.string()),
+};
+
+const historyImportSchema: CollectionSchema<HistoryImport> = {
+  fileName: field.string({ required: true }),
+  importedAt: field.string(),
+  importedBy: field.string(),
+  rowCount: field.number(),
+  visitIds: field.array(field.string(), { default: () => [] }),
+  prescriptionIds: field.array(field.string(), { default: () => [] }),
+};
+
+const importTemplateSchema: CollectionSchema<ImportTemplate> = {
+  name: field.string({ required: true }),
+  kind: field.enum(['history'], { required: true }),
+  columns: field.object({}),
+};
+
+const smartParsingRuleSchema: CollectionSchema<SmartParsingRule> = {
+  name: field.string({ required: true }),
+  type: field.enum(SMART_PARSING_TYPES, { required: true }),
+  pattern: field.string({ required: true }),
+  replacement: field.string(),
+  isRegex: field.boolean({ default: () => false }),
+  priority: field.number(),
+  isActive: field.boolean({ default: () => true }),
+};
+
+const smartParsingTemplateSchema: CollectionSchema<SmartParsingTemplate> = {
+  name: field.string({ required: true }),
+  description: field.string(),
+  rules: field.array(field.object({ id: field.string(), ...smartParsingRuleSchema })),
+  isDefault: field.boolean(),
+};
+
+const combinationSchema: CollectionSchema<CombinationMedicine> = {
+  name: field.string({ required: true }),
+  content: field.string({ required: true }),
+  showComposition: field.boolean(),
+};
+
+const medicineUsageSchema: CollectionSchema<MedicineUsageMemory> = {
+  medicine: field.string({ required: true }),
+  potency: field.string(),
+  quantity: field.string(),
+  doseForm: field.string(),
+  dosePattern: field.string(),
+  frequency: field.string(),
+  duration: field.string(),
+  useCount: field.number(),
+  lastUsedAt: field.date(),
+};
+
+const billingReceiptSchema: CollectionSchema<BillingReceipt> = {
+  receiptNumber: field.string({ required: true }),
+  billingQueueId: field.string(),
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  items: field.array(receiptItemSchema, { default: () => [] }),
+  subtotal: field.number(),
+  discountPercent: field.number(),
+  discountAmount: field.number(),
+  taxAmount: field.number(),
+  netAmount: field.number(),
+  paymentMethod: field.enum(PAYMENT_METHODS),
+  paymentStatus: field.enum(BILLING_PAYMENT_STATUSES),
+  printedAt: field.date(),
+  whatsappSentAt: field.date(),
+};
+
+const medicineBillSchema: CollectionSchema<MedicineBill> = {
+  billingQueueId: field.string(),
+  patientId: field.string({ required: true }),
+  visitId: field.string(),
+  items: field.array(field.object({
+    prescriptionId: field.string(),
+    medicine: field.string(),
+    potency: field.string(),
+    quantityDisplay: field.string(),
+    quantity: field.number(),
+    doseForm: field.string(),
+    dosePattern: field.string(),
+    frequency: field.string(),
+    duration: field.string(),
+    isCombination: field.boolean(),
+    combinationContent: field.string(),
+    amount: field.number(),
+  }), { default: () => [] }),
+  subtotal: field.number(),
+  discountPercent: field.number(),
+  discountAmount: field.number(),
+  taxPercent: field.number(),
+  taxAmount: field.number(),
+  grandTotal: field.number(),
+  amountPaid: field.number(),
+  pendingAmount: field.number(),
+  paymentStatus: field.enum(MEDICINE_BILL_PAYMENT_STATUSES),
+  notes: field.string(),
+  status: field.enum(MEDICINE_BILL_STATUSES),
+};
+
+const medicineAmountSchema: CollectionSchema<MedicineAmountMemory> = {
+  medicine: field.string({ required: true }),
+  potency: field.string(),
+  amount: field.number({ required: true }),
+  lastUsedAt: field.date(),
+};
+
+const feeTypeSchema: CollectionSchema<FeeType> = {
+  name: field.string({ required: true }),
+  amount: field.number({ required: true }),
+  description: field.string(),
+  isActive: field.boolean({ default: () => true }),
+  displayOrder: field.number(),
+};
+
+// Collections missing here cannot be written: LocalDatabase throws rather than store unchecked records
+export const collectionSchemas: Record<string, Record<string, FieldSchema>> = {
+  patients: patientSchema,
+  visits: visitSchema,
+  investigations: investigationSchema,
+  voiceNotes: voiceNoteSchema,
+  patientTags: patientTagSchema,
+  households: householdSchema,
+  feeExemptions: feeExemptionSchema,
+  prescriptionHistory: prescriptionHistorySchema,
+  feeHistory: feeHistorySchema,
+  cases: caseSchema,
+  symptoms: symptomSchema,
+  diagnoses: diagnosisSchema,
+  appointments: appointmentSchema,
+  pharmacy: pharmacyQueueSchema,
+  staffActions: staffActionSchema,
+  slots: slotSchema,
+  tokenSettings: tokenSettingsSchema,
+  queueConfigs: queueConfigSchema,
+  queueItems: queueItemSchema,
+  queueEvents: queueEventSchema,
+  feeTypes: feeTypeSchema,
+  fees: feeSchema,
+  receipts: receiptSchema,
+  refunds: refundSchema,
+  materiaMedica: materiaMedicaSchema,
+  materiaMedicaBooks: bookSchema,
+  materiaMedicaBookPages: bookPageSchema,
+  materiaMedicaSearchIndex: searchIndexSchema,
+  materiaMedicaBookmarks: bookmarkSchema,
+  materiaMedicaReadingHistory: readingHistorySchema,
+  materiaMedicaAISearchCache: aiSearchCacheSchema,
+  repertory: repertorySchema,
+  doctorNotes: doctorNoteSchema,
+  users: userSchema,
+  roles: roleSchema,
+  permissions: permissionSchema,
+  sessions: sessionSchema,
+  activityLogs: activityLogSchema,
+  staffMessages: staffMessageSchema,
+  roleTemplates: roleTemplateSchema,
+  settings: settingSchema,
+  schemaMigrations: migrationSchema,
+  syncConflicts: syncConflictSchema,
+  revisions: revisionSchema,
+  patientMerges: patientMergeSchema,
+  patientImports: patientImportSchema,
+  historyImports: historyImportSchema,
+  importTemplates: importTemplateSchema,
+  smartParsingRules: smartParsingRuleSchema,
+  smartParsingTemplates: smartParsingTemplateSchema,
+  prescriptions: prescriptionSchema,
+  combinations: combinationSchema,
+  medicineUsageMemory: medicineUsageSchema,
+  billingQueue: billingQueueSchema,
+  billingReceipts: billingReceiptSchema,
+  medicineBills: medicineBillSchema,
+  medicineAmountMemory: medicineAmountSchema,
+};
@@ -0,0 +1,130 @@
+// ============================================
+// Database Provider
+// Holds rendering until LocalDatabase has loaded
+// persisted data from its storage backend, asking
+// for the passphrase first when the data is encrypted
+// ============================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { db } from './database';
+import { syncReplicator } from './replicator';
+import { backupScheduler } from './backup-scheduler';
+import type { MigrationStatus } from './migrations';
+import { Card } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+
+function UnlockScreen() {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsUnlocking(true);
+    const unlocked = await db.unlock(passphrase);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setError('Incorrect passphrase');
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Clinic data is locked</h1>
+          <p className="text-sm text-gray-500 mt-2">Enter the doctor&apos;s passphrase to decrypt patient records</p>
+        </div>
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <Input
+            type="password"
+            label="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            required
+            autoFocus
+          />
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
+
+export function DatabaseProvider({ children }: { children: React.ReactNode }) {
+  const [isReady, setIsReady] = useState(false);
+  const [isLocked, setIsLocked] = useState(() => db.isLocked());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [migrationStatus, setMigrationStatus] = useState<MigrationStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = db.onLockChange((locked) => {
+      if (!cancelled) setIsLocked(locked);
+    });
+    db.ready.then(() => {
+      if (cancelled) return;
+      syncReplicator.init();
+      backupScheduler.start();
+      setMigrationStatus(db.getMigrationStatus());
+      setIsReady(true);
+    }).catch((e) => {
+      console.error('Failed to load database:', e);
+      if (!cancelled) setLoadError(e instanceof Error ? e.message : String(e));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          Clinic data could not be loaded: {loadError}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return <UnlockScreen />;
+  }
+
+  if (!isReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (migrationStatus?.state === 'failed') {
+    return (
+      <>
+        <div className="bg-red-50 border-b border-red-200 px-4 py-2 text-sm text-red-700">
+          Data upgrade to version {migrationStatus.toVersion} failed
+          {migrationStatus.failedMigration ? ` at "${migrationStatus.failedMigration}"` : ''}: {migrationStatus.error}.
+          Your records were not changed
+          {migrationStatus.backupLabel ? ` and a backup was saved as "${migrationStatus.backupLabel}"` : ''}.
+        </div>
+        {children}
+      </>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -5,31 +5,169 @@
 // Includes Module 3: Patient Master Database & Profile System
 // ============================================
 
-import type { DatabaseConfig, RegNumberSettings } from '@/types';
+import type { DatabaseConfig, FamilyRelationship, Household, Patient, RegNumberSettings, SoftDeleteFields, Visit, VoiceNote } from '@/types';
+import { LocalStorageBackend, getRecordKey, type RecordWrite, type StorageBackend, type StoredDatabase } from './storage';
+import { IndexedDBBackend, isIndexedDBAvailable } from './indexeddb';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationError,
+  getPendingMigrations,
+  parseSchemaVersion,
+  runMigrations,
+  type AppliedMigration,
+  type Collections,
+  type MigrationStatus,
+} from './migrations';
+import { CollectionIndex, collectionIndexes, toIndexKey } from './indexes';
+import { applyQuery, matchesCondition, type QueryOptions, type QueryResult } from './query';
+import { ChangeFeed, type ChangeCallback, type ChangeEvent, type ChangeFilter } from './change-feed';
+import { getStamp, isSyncedCollection, toRecordVersion, type SyncConflict } from './sync';
+import type { DoctorPrescription } from './schema';
+import {
+  REVISIONS_COLLECTION,
+  diffRecords,
+  isRevisionedCollection,
+  revisionAction,
+  type RecordRevision,
+  type RevisionAction,
+} from './revisions';
+import { ValidationError, validateRecord, type ValidationResult } from './validation';
+import { collectionSchemas } from './collection-schemas';
+import { EncryptedBackend, EncryptionError, isEncryptionSupported, type EncryptionKeyRecord } from './encryption';
+import { PermissionError, type DataAccess } from './access';
+import {
+  ARCHIVE_BACKUP_PREFIX,
+  ARCHIVE_RUNS_COLLECTION,
+  ARCHIVE_SETTINGS_ID,
+  ArchiveStore,
+  DEFAULT_ARCHIVE_SETTINGS,
+  planArchive,
+  type ArchivePlan,
+  type ArchiveRun,
+  type ArchiveSettings,
+} from './archive';
+import {
+  findDuplicatePatients,
+  findPossibleDuplicates,
+  normaliseMobile,
+  type DuplicateCandidate,
+  type DuplicateOptions,
+} from './duplicates';
 
 // Database configuration
 const dbConfig: DatabaseConfig = {
-  type: 'sqlite',
+  type: 'indexeddb',
   name: 'pms_database',
   version: 4,
 };
 
-// Database schema version - increment to reset data after schema changes
-// NOTE: Set to empty string to preserve data between sessions
-const SCHEMA_VERSION = '1.0';
+// Database schema version - add a migration in migrations.ts to change it
+const SCHEMA_VERSION = String(CURRENT_SCHEMA_VERSION);
 
-// LocalStorage-persisted database for offline-first functionality
+// Writes collected while a transaction is open
+interface TransactionState {
+  // Each touched collection's live array and a copy taken before the first write to it
+  originals: Map<string, { items: unknown[] | undefined; copy: unknown[] }>;
+  writes: RecordWrite[];
+  changes: ChangeEvent[];
+}
+
+// Adds bookkeeping fields (e.g. sync version stamps) to a record before a local write
+export type WriteStamper = (
+  collection: string,
+  record: Record<string, unknown>,
+  previous?: Record<string, unknown>
+) => void;
+
+// Clinical and financial records are kept for years: deleting one only stamps
+// deletedAt/deletedBy, and reads skip it until it is restored or purged
+export const SOFT_DELETE_COLLECTIONS = [
+  'patients',
+  'visits',
+  'prescriptions',
+  'investigations',
+  'voiceNotes',
+  'feeExemptions',
+  'prescriptionHistory',
+  'cases',
+  'symptoms',
+  'diagnoses',
+  'doctorNotes',
+  'fees',
+  'feeHistory',
+  'receipts',
+  'refunds',
+  'billingReceipts',
+  'medicineBills',
+  'materiaMedicaBooks',
+  'materiaMedicaBookPages',
+  'materiaMedicaSearchIndex',
+];
+
+// Pages and search index rows go into and come out of the bin with their book,
+// so the bin lists only the book
+const BOOK_DERIVED_COLLECTIONS = ['materiaMedicaBookPages', 'materiaMedicaSearchIndex'];
+
+export function isSoftDeleteCollection(collection: string): boolean {
+  return SOFT_DELETE_COLLECTIONS.includes(collection);
+}
+
+function isDeleted(item: unknown): boolean {
+  return !!item && typeof item === 'object' && !!(item as SoftDeleteFields).deletedAt;
+}
+
+export interface ReadOptions {
+  includeDeleted?: boolean; // Also return soft-deleted records
+}
+
+interface Subscription {
+  filter: ChangeFilter<unknown> | null;
+  callback: ChangeCallback<unknown>;
+}
+
+// Offline-first database: collections live in memory, every write is
+// persisted per record through the storage backend (IndexedDB in the browser)
 class LocalDatabase {
   private static instance: LocalDatabase;
   private store: Map<string, unknown[]>;
   private isInitialized: boolean = false;
+  private backend: StorageBackend | null = null;
+  private hydratedCallbacks: Array<() => void> = [];
+  private migrationStatus: MigrationStatus | null = null;
+  // Version stamped on saved snapshots; stays at the old version while migrations are pending
+  private storedSchemaVersion: string | null = SCHEMA_VERSION;
+  // Secondary indexes, built on first use per collection and kept current on every write
+  private indexes: Map<string, CollectionIndex> = new Map();
+  private activeTransaction: TransactionState | null = null;
+  private subscriptions: Map<string, Set<Subscription>> = new Map();
+  // Changes waiting to be delivered to subscribers (and other tabs) on the next microtask
+  private pendingChanges: ChangeEvent[] = [];
+  private changeFeed: ChangeFeed | null = null;
+  private writeStamper: WriteStamper | null = null;
+  // Set in the browser; encrypts records on their way to storage once a passphrase is set
+  private encryption: EncryptedBackend | null = null;
+  private lockListeners: Set<(locked: boolean) => void> = new Set();
+  // Old closed records moved out of memory; only with IndexedDB
+  private archive: ArchiveStore | null = null;
+  // Name stamped on revisions, and as deletedBy when a caller does not pass one
+  private actor: string | undefined;
+  // The signed-in user's role, for operations checked here rather than only in the page
+  private access: DataAccess | null = null;
+  // Resolves once persisted data has been loaded into memory
+  public ready: Promise<void>;
 
   private constructor() {
     this.store = new Map();
-    this.loadFromLocalStorage();
-    // Initialize stores if not loaded from localStorage
-    if (!this.isInitialized) {
+    if (typeof window === 'undefined') {
+      // No browser storage on the server; API routes attach SQLite via attachBackend
       this.initializeStores();
+      this.isInitialized = true;
+      this.ready = Promise.resolve();
+    } else {
+      this.ready = this.hydrate(this.createBackend());
+      this.changeFeed = new ChangeFeed((changes) => {
+        this.ready.then(() => this.applyRemoteChanges(changes));
+      });
     }
   }
 
@@ -41,39 +179,624 @@ class LocalDatabase {
     return LocalDatabase.instance;
   }
 
-  private loadFromLocalStorage(): void {
-    if (typeof window === 'undefined') return;
-    
+  private createBackend(): StorageBackend {
+    if (dbConfig.type === 'indexeddb' && isIndexedDBAvailable()) {
+      const backend = this.withEncryption(new IndexedDBBackend(dbConfig.name));
+      this.archive = new ArchiveStore(new IndexedDBBackend(`${dbConfig.name}_archive`), () => this.encryption);
+      return backend;
+    }
+    return this.withEncryption(new LocalStorageBackend(() => this.snapshot()));
+  }
+
+  private withEncryption(backend: StorageBackend): StorageBackend {
+    if (!isEncryptionSupported()) return backend;
+    const encryption = new EncryptedBackend(backend, () => this.snapshot());
+    encryption.onLockChange((locked) => this.lockListeners.forEach((listener) => listener(locked)));
+    this.encryption = encryption;
+    return encryption;
+  }
+
+  // Switch persistence to another backend and reload from it
+  public attachBackend(backend: StorageBackend): Promise<void> {
+    this.ready = this.ready
+      .then(() => this.hydrate(backend))
+      .then(() => this.hydratedCallbacks.forEach((callback) => callback()));
+    return this.ready;
+  }
+
+  // Run a callback after every load from a backend (e.g. default seed data)
+  public onHydrated(callback: () => void): void {
+    this.hydratedCallbacks.push(callback);
+    this.ready.then(callback);
+  }
+
+  private async hydrate(preferred: StorageBackend): Promise<void> {
+    let backend = preferred;
+    let saved: StoredDatabase | null = null;
+
     try {
-      const savedData = localStorage.getItem('pms_database');
-      if (savedData) {
-        const parsed = JSON.parse(savedData);
-        // Check schema version
-        const savedVersion = localStorage.getItem('pms_schema_version');
-        if (savedVersion === SCHEMA_VERSION) {
-          Object.keys(parsed).forEach(key => {
-            this.store.set(key, parsed[key]);
-          });
-          this.isInitialized = true;
-        }
+      saved = await backend.load();
+      if (!saved && backend.type === 'indexeddb') {
+        saved = await this.migrateFromLocalStorage(backend);
       }
     } catch (e) {
-      console.error('Failed to load from localStorage:', e);
+      // Falling back would hide encrypted data behind an empty database
+      if (typeof window === 'undefined' || e instanceof EncryptionError) throw e;
+      console.error(`Failed to load from ${backend.type}, falling back to localStorage:`, e);
+      backend = this.withEncryption(new LocalStorageBackend(() => this.snapshot()));
+      try {
+        saved = await backend.load();
+      } catch (fallbackError) {
+        console.error('Failed to load from localStorage:', fallbackError);
+      }
+    }
+
+    this.backend = backend;
+
+    if (saved) {
+      const current = await this.applyMigrations(backend, saved);
+      this.storedSchemaVersion = current.schemaVersion;
+      this.store.clear();
+      this.indexes.clear();
+      Object.keys(current.collections).forEach(key => {
+        this.store.set(key, current.collections[key]);
+      });
+      this.isInitialized = true;
+    } else {
+      // Initialize stores if nothing was loaded, then persist them
+      if (!this.isInitialized) {
+        this.initializeStores();
+        this.isInitialized = true;
+      }
+      this.storedSchemaVersion = SCHEMA_VERSION;
+      this.migrationStatus = {
+        state: 'current',
+        fromVersion: CURRENT_SCHEMA_VERSION,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        applied: [],
+      };
+      this.persist((b) => b.saveAll(this.snapshot()));
     }
   }
 
-  private saveToLocalStorage(): void {
-    if (typeof window === 'undefined') return;
-    
+  // Brings saved data up to the current schema. The original data is backed up
+  // first; if any migration fails it is loaded unchanged and the failure reported.
+  private async applyMigrations(backend: StorageBackend, saved: StoredDatabase): Promise<StoredDatabase> {
+    const fromVersion = parseSchemaVersion(saved.schemaVersion);
+    const status: MigrationStatus = {
+      state: 'current',
+      fromVersion,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      applied: [],
+    };
+    this.migrationStatus = status;
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      status.state = 'newer';
+      console.warn(`Stored data is schema version ${fromVersion}, newer than this app (${CURRENT_SCHEMA_VERSION})`);
+      return saved;
+    }
+    if (getPendingMigrations(fromVersion).length === 0) {
+      return saved;
+    }
+
+    const backupLabel = `schema-v${fromVersion}-${new Date().toISOString()}`;
+    status.backupLabel = backupLabel;
+    try {
+      await backend.saveBackup(backupLabel, saved);
+    } catch (e) {
+      status.state = 'failed';
+      status.error = `Backup before migration failed: ${e instanceof Error ? e.message : String(e)}`;
+      console.error(status.error);
+      return saved;
+    }
+
     try {
-      const data: Record<string, unknown[]> = {};
-      this.store.forEach((value, key) => {
-        data[key] = value;
+      const result = runMigrations(saved.collections, fromVersion);
+      const appliedAt = new Date();
+      const records: AppliedMigration[] = result.applied.map((migration) => ({
+        id: `migration-${migration.version}`,
+        version: migration.version,
+        name: migration.name,
+        appliedAt,
+        backupLabel,
+      }));
+      result.collections.schemaMigrations = [
+        ...(result.collections.schemaMigrations || []),
+        ...records,
+      ];
+
+      const migrated: StoredDatabase = { schemaVersion: SCHEMA_VERSION, collections: result.collections };
+      await backend.saveAll(migrated);
+      status.state = 'migrated';
+      status.applied = result.applied.map((migration) => migration.name);
+      await this.migrateArchive(fromVersion);
+      return migrated;
+    } catch (e) {
+      status.state = 'failed';
+      if (e instanceof MigrationError) status.failedMigration = e.migration.name;
+      status.error = e instanceof Error ? e.message : String(e);
+      console.error('Schema migration failed, loading data unchanged:', e);
+      return saved;
+    }
+  }
+
+  // Archived records go through the same migrations as the rest of the data
+  private async migrateArchive(fromVersion: number): Promise<void> {
+    if (!this.archive) return;
+    try {
+      const archived = await this.archive.readAll();
+      if (Object.keys(archived).length === 0) return;
+      const { collections } = runMigrations(archived, fromVersion);
+      await this.archive.replaceAll(collections, SCHEMA_VERSION);
+    } catch (e) {
+      console.error('Migrating the archive failed:', e);
+    }
+  }
+
+  public getMigrationStatus(): MigrationStatus | null {
+    return this.migrationStatus;
+  }
+
+  // Replaces every collection with restored data, e.g. from a backup archive.
+  // The current data is kept as a backend backup first and older data is
+  // brought up to date by the schema migrations. Returns the backup label.
+  public async restore(collections: Collections, schemaVersion: number): Promise<string> {
+    await this.ready;
+    this.requirePermission('restore', 'restore a backup');
+    if (this.activeTransaction) throw new Error('Cannot restore inside a transaction');
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error(`Data is schema version ${schemaVersion}, newer than this app (${CURRENT_SCHEMA_VERSION})`);
+    }
+
+    // Archived collections come back into the archive store, not into memory
+    const hot: Collections = {};
+    const archived: Collections = {};
+    Object.entries(collections).forEach(([name, records]) => {
+      if (name.startsWith(ARCHIVE_BACKUP_PREFIX)) {
+        archived[name.slice(ARCHIVE_BACKUP_PREFIX.length)] = records;
+      } else {
+        hot[name] = records;
+      }
+    });
+
+    const { collections: restored } = runMigrations(hot, schemaVersion);
+    const backupLabel = `pre-restore-${new Date().toISOString()}`;
+    if (this.backend) {
+      await this.backend.saveBackup(backupLabel, this.snapshot());
+    }
+    if (this.archive) {
+      await this.archive.replaceAll(runMigrations(archived, schemaVersion).collections, SCHEMA_VERSION);
+    }
+
+    const previous = new Map(this.store);
+    this.store.clear();
+    this.indexes.clear();
+    this.initializeStores();
+    Object.keys(restored).forEach((key) => {
+      this.store.set(key, restored[key]);
+    });
+    this.storedSchemaVersion = SCHEMA_VERSION;
+    this.announceRestore(previous);
+    if (this.backend) {
+      await this.backend.saveAll(this.snapshot());
+    }
+    return backupLabel;
+  }
+
+  // Restored data reaches other tabs and the sync server like any local edit:
+  // records that differ get a fresh stamp, records the backup lacks are deletes
+  private announceRestore(previous: Map<string, unknown[]>): void {
+    const collections = new Set([...previous.keys(), ...this.store.keys()]);
+    collections.forEach((collection) => {
+      const before = new Map<string, Record<string, unknown>>();
+      (previous.get(collection) || []).forEach((record) => {
+        const id = getRecordKey(record);
+        if (id !== null) before.set(id, record as Record<string, unknown>);
+      });
+
+      this.items<Record<string, unknown>>(collection).forEach((record) => {
+        const id = getRecordKey(record);
+        if (id === null) return;
+        const old = before.get(id);
+        before.delete(id);
+        if (old && JSON.stringify(old) === JSON.stringify(record)) return;
+        // Stamped from the current version, so the restored one supersedes it
+        this.writeStamper?.(collection, record, old ?? { ...record });
+        this.emit({ collection, type: old ? 'update' : 'create', id, record, previous: old });
+      });
+      before.forEach((old, id) => this.emit({ collection, type: 'delete', id, previous: old }));
+    });
+  }
+
+  // ============================================
+  // At-Rest Encryption
+  // ============================================
+
+  // Backup archives leave the browser sealed under the database key; null while encryption is off
+  public sealForExport(collections: Collections): Promise<{ collections: Collections; keyRecord: EncryptionKeyRecord } | null> {
+    return this.encryption ? this.encryption.sealCollections(collections) : Promise.resolve(null);
+  }
+
+  // True when sealed data opens with the key in use, without asking for a passphrase
+  public hasEncryptionKey(keyRecord: EncryptionKeyRecord): boolean {
+    return this.encryption?.hasKey(keyRecord) ?? false;
+  }
+
+  public async openSealed(collections: Collections, keyRecord: EncryptionKeyRecord, passphrase?: string): Promise<Collections> {
+    if (!this.encryption) throw new EncryptionError('Encryption is not available in this browser');
+    return this.encryption.openCollections(collections, keyRecord, passphrase);
+  }
+
+  public isEncrypted(): boolean {
+    return this.encryption?.isEnabled() ?? false;
+  }
+
+  // True while stored data is encrypted and no passphrase has been entered
+  public isLocked(): boolean {
+    return this.encryption?.isLocked() ?? false;
+  }
+
+  public onLockChange(listener: (locked: boolean) => void): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  // Resolves false for a wrong passphrase; `ready` resolves once the data is decrypted
+  public unlock(passphrase: string): Promise<boolean> {
+    return this.encryption ? this.encryption.unlock(passphrase) : Promise.resolve(true);
+  }
+
+  public async enableEncryption(passphrase: string): Promise<void> {
+    await this.ready;
+    if (!this.encryption || this.backend !== this.encryption) {
+      throw new EncryptionError('Encryption is not available in this browser');
+    }
+    const archived = await this.archive?.readAll();
+    await this.encryption.enable(passphrase, this.snapshot());
+    await this.rewriteArchive(archived);
+    await this.sealBackups();
+  }
+
+  // Re-encrypts every record under the new passphrase
+  public async changeEncryptionPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.ready;
+    if (!this.encryption) throw new EncryptionError('Encryption is not enabled');
+    const archived = await this.archive?.readAll();
+    await this.encryption.rekey(currentPassphrase, newPassphrase, this.snapshot());
+    await this.rewriteArchive(archived);
+  }
+
+  public async disableEncryption(passphrase: string): Promise<void> {
+    await this.ready;
+    if (!this.encryption) throw new EncryptionError('Encryption is not enabled');
+    const archived = await this.archive?.readAll();
+    await this.encryption.disable(passphrase, this.snapshot());
+    await this.rewriteArchive(archived);
+  }
+
+  // Copies saved before migrations and restores were kept in plaintext, and so
+  // were any left in localStorage from before the move to IndexedDB
+  private async sealBackups(): Promise<void> {
+    if (!this.encryption) return;
+    await this.encryption.sealBackups();
+    if (this.encryption.type !== 'localstorage') {
+      await this.encryption.sealBackups(new LocalStorageBackend(() => this.snapshot()));
+    }
+  }
+
+  // The archive is read before the key changes and written back under the new one
+  private async rewriteArchive(archived: Collections | undefined): Promise<void> {
+    if (!this.archive || !archived || Object.keys(archived).length === 0) return;
+    await this.archive.replaceAll(archived, SCHEMA_VERSION);
+  }
+
+  // ============================================
+  // Archive
+  // ============================================
+
+  // Null on the server and when IndexedDB is unavailable
+  public getArchive(): ArchiveStore | null {
+    return this.archive;
+  }
+
+  // Moves the planned records into the archive store. They are written there
+  // first, so a failure leaves them in both places rather than in neither.
+  // Leaving memory is not a delete: no revision, no sync tombstone.
+  public async moveToArchive(plan: ArchivePlan, run: Omit<ArchiveRun, 'counts'>): Promise<ArchiveRun> {
+    await this.ready;
+    if (!this.archive) throw new Error('Archiving needs IndexedDB storage');
+    if (this.activeTransaction) throw new Error('Cannot archive inside a transaction');
+
+    const archived: Record<string, Record<string, unknown>[]> = {};
+    Object.entries(plan).forEach(([collection, ids]) => {
+      const wanted = new Set(ids);
+      archived[collection] = this.items<Record<string, unknown>>(collection).filter((item) => wanted.has(item.id as string));
+    });
+    const counts = Object.fromEntries(Object.entries(archived).map(([collection, records]) => [collection, records.length]));
+    const result: ArchiveRun = { ...run, counts };
+    await this.archive.add({ ...archived, [ARCHIVE_RUNS_COLLECTION]: [result] });
+
+    const writes: RecordWrite[] = [];
+    const changes: ChangeEvent[] = [];
+    Object.entries(archived).forEach(([collection, records]) => {
+      records.forEach((record) => {
+        const id = record.id as string;
+        // Edited while the archive was being written: keep the newer copy here
+        if (this.getById(collection, id, { includeDeleted: true }) !== record) return;
+        this.replaceInMemory(collection, id, undefined);
+        writes.push({ type: 'delete', collection, id });
+        changes.push({ collection, type: 'delete', id, previous: record, origin: 'archive' });
+      });
+    });
+    this.persist((b) => b.writeBatch(writes));
+    this.queueChanges(changes);
+    return result;
+  }
+
+  // One-time copy of the old single-key localStorage blob into IndexedDB
+  private async migrateFromLocalStorage(backend: StorageBackend): Promise<StoredDatabase | null> {
+    const legacy = new LocalStorageBackend(() => this.snapshot());
+    const saved = await legacy.load();
+    if (!saved) return null;
+
+    await backend.saveAll(saved);
+    legacy.clear();
+    console.info(`Migrated ${Object.keys(saved.collections).length} collections from localStorage to ${backend.type}`);
+    return saved;
+  }
+
+  private snapshot(): StoredDatabase {
+    const collections: Record<string, unknown[]> = {};
+    this.store.forEach((value, key) => {
+      collections[key] = value;
+    });
+    return { schemaVersion: this.storedSchemaVersion, collections };
+  }
+
+  private persist(operation: (backend: StorageBackend) => Promise<void>): void {
+    if (!this.backend) return;
+    operation(this.backend).catch((e) => {
+      console.error(`Failed to save to ${this.backend?.type}:`, e);
+    });
+  }
+
+  // Persists one record change, or holds it until the open transaction commits
+  private write(write: RecordWrite): void {
+    if (this.activeTransaction) {
+      this.activeTransaction.writes.push(write);
+      return;
+    }
+    this.persist((b) => write.type === 'put'
+      ? b.putRecord(write.collection, write.record)
+      : b.deleteRecord(write.collection, write.id));
+  }
+
+  // ============================================
+  // Change Subscriptions
+  // ============================================
+
+  // Calls back with every create/update/delete in a collection ('*' for all of
+  // them), from this tab or any other. With a filter, only changes where the record
+  // matched before or after the write are delivered. Returns an unsubscribe function.
+  public subscribe<T>(collection: string, filter: ChangeFilter<T> | null, callback: ChangeCallback<T>): () => void {
+    const subscription: Subscription = {
+      filter: filter as ChangeFilter<unknown> | null,
+      callback: callback as ChangeCallback<unknown>,
+    };
+    let subscribers = this.subscriptions.get(collection);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(collection, subscribers);
+    }
+    subscribers.add(subscription);
+    return () => {
+      subscribers.delete(subscription);
+    };
+  }
+
+  private emit(change: Omit<ChangeEvent, 'origin'>): void {
+    const event: ChangeEvent = { ...change, origin: 'local' };
+    if (this.activeTransaction) {
+      this.activeTransaction.changes.push(event);
+      return;
+    }
+    this.queueChanges([event]);
+  }
+
+  // Delivery is deferred so subscribers never run in the middle of a write
+  private queueChanges(changes: ChangeEvent[]): void {
+    if (changes.length === 0) return;
+    const shouldSchedule = this.pendingChanges.length === 0;
+    this.pendingChanges.push(...changes);
+    if (shouldSchedule) {
+      queueMicrotask(() => this.flushChanges());
+    }
+  }
+
+  private flushChanges(): void {
+    const changes = this.pendingChanges;
+    this.pendingChanges = [];
+    // Other tabs already received what they broadcast themselves
+    this.changeFeed?.publish(changes.filter((change) => change.origin !== 'remote'));
+
+    this.subscriptions.forEach((subscribers, collection) => {
+      const collectionChanges = collection === '*'
+        ? changes
+        : changes.filter((change) => change.collection === collection);
+      if (collectionChanges.length === 0) return;
+      subscribers.forEach(({ filter, callback }) => {
+        const matching = filter
+          ? collectionChanges.filter((change) =>
+              (change.record !== undefined && filter(change.record)) ||
+              (change.previous !== undefined && filter(change.previous)))
+          : collectionChanges;
+        if (matching.length === 0) return;
+        try {
+          callback(matching);
+        } catch (e) {
+          console.error(`Change subscriber for ${collection} failed:`, e);
+        }
       });
-      localStorage.setItem('pms_database', JSON.stringify(data));
-      localStorage.setItem('pms_schema_version', SCHEMA_VERSION);
+    });
+  }
+
+  // Puts or removes (record undefined) one record in memory only; returns the replaced record
+  private replaceInMemory(collection: string, id: string, record: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+    const items = this.items<Record<string, unknown>>(collection);
+    const index = items.findIndex((item) => item && item.id === id);
+    const collectionIndex = this.indexes.get(collection);
+    const previous = index === -1 ? undefined : items[index];
+
+    if (!record) {
+      if (index !== -1) {
+        items.splice(index, 1);
+        collectionIndex?.remove(id, previous!);
+      }
+      return previous;
+    }
+
+    if (index === -1) {
+      items.push(record);
+      collectionIndex?.add(id, record);
+    } else {
+      collectionIndex?.update(id, previous!, record);
+      items[index] = record;
+    }
+    this.store.set(collection, items);
+    return previous;
+  }
+
+  // Another tab already persisted these writes; only the in-memory copy needs them
+  private applyRemoteChanges(changes: ChangeEvent[]): void {
+    changes.forEach((change) => {
+      this.replaceInMemory(
+        change.collection,
+        change.id,
+        change.type === 'delete' ? undefined : change.record as Record<string, unknown>
+      );
+    });
+    this.queueChanges(changes);
+  }
+
+  // Stores records exactly as received from the sync server: no stamping and
+  // no new ids or timestamps. Subscribers see the changes with origin 'sync'.
+  // Each record is checked like a local write; one that fails its schema or
+  // changes a permanent collection is not stored, nor is its bookkeeping (the
+  // tombstone keyed `${collection}:${id}`), but logged in syncConflicts for
+  // review. Returns the writes that were refused.
+  public applySyncedChanges(writes: RecordWrite[]): RecordWrite[] {
+    if (writes.length === 0) return [];
+    const refused = new Map<string, { write: RecordWrite; reason: string }>();
+    const checked: RecordWrite[] = [];
+    writes.forEach((write) => {
+      const id = write.type === 'delete' ? write.id : String(write.record.id);
+      if (!isSyncedCollection(write.collection)) {
+        checked.push(write);
+        return;
+      }
+      try {
+        if (write.type === 'delete' || this.getById(write.collection, id, { includeDeleted: true })) {
+          this.assertMutable(write.collection);
+        }
+        checked.push(write.type === 'delete'
+          ? write
+          : { ...write, record: this.validated(write.collection, write.record, false) });
+      } catch (e) {
+        refused.set(`${write.collection}:${id}`, { write, reason: e instanceof Error ? e.message : String(e) });
+      }
+    });
+    const accepted = checked.filter((write) =>
+      isSyncedCollection(write.collection) || !refused.has(write.type === 'delete' ? write.id : String(write.record.id)));
+
+    const changes: ChangeEvent[] = accepted.map((write) => {
+      const id = write.type === 'delete' ? write.id : String(write.record.id);
+      const previous = this.replaceInMemory(write.collection, id, write.type === 'put' ? write.record : undefined);
+      return {
+        collection: write.collection,
+        type: write.type === 'delete' ? 'delete' : previous ? 'update' : 'create',
+        id,
+        record: write.type === 'put' ? write.record : undefined,
+        previous,
+        origin: 'sync',
+      };
+    });
+    if (accepted.length > 0) {
+      this.persist((b) => b.writeBatch(accepted));
+      this.queueChanges(changes);
+    }
+
+    refused.forEach(({ write, reason }, key) => {
+      const id = write.type === 'delete' ? write.id : String(write.record.id);
+      // A refused delete carries its stamp on the tombstone that came with it
+      const tombstone = writes.find((other) =>
+        other.type === 'put' && !isSyncedCollection(other.collection) && other.record.id === key);
+      this.create('syncConflicts', {
+        collection: write.collection,
+        recordId: id,
+        detectedAt: new Date(),
+        winner: toRecordVersion(this.getById<Record<string, unknown>>(write.collection, id, { includeDeleted: true })),
+        loser: write.type === 'put'
+          ? toRecordVersion(write.record)
+          : toRecordVersion(undefined, tombstone?.type === 'put' ? getStamp(tombstone.record) : undefined),
+        status: 'open',
+        reason,
+      });
+    });
+    return [...refused.values()].map(({ write }) => write);
+  }
+
+  // Installed by the sync layer; runs on every local create and update
+  public setWriteStamper(stamper: WriteStamper | null): void {
+    this.writeStamper = stamper;
+  }
+
+  // Remembers a collection's contents before a transaction first changes it
+  private trackForRollback(collection: string): void {
+    const transaction = this.activeTransaction;
+    if (!transaction || transaction.originals.has(collection)) return;
+    const items = this.store.get(collection);
+    transaction.originals.set(collection, { items, copy: items ? [...items] : [] });
+  }
+
+  // Runs fn so that all of its writes commit together or not at all. If fn throws,
+  // every collection it touched is restored and nothing reaches storage; otherwise
+  // the writes are persisted as one batch. fn must be synchronous. A transaction
+  // opened inside another joins the outer one.
+  public transaction<T>(fn: () => T): T {
+    if (this.activeTransaction) return fn();
+
+    const transaction: TransactionState = { originals: new Map(), writes: [], changes: [] };
+    this.activeTransaction = transaction;
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        throw new Error('db.transaction() callbacks must be synchronous');
+      }
+      this.activeTransaction = null;
+      if (transaction.writes.length > 0) {
+        this.persist((b) => b.writeBatch(transaction.writes));
+      }
+      this.queueChanges(transaction.changes);
+      return result;
     } catch (e) {
-      console.error('Failed to save to localStorage:', e);
+      this.activeTransaction = null;
+      transaction.originals.forEach(({ items, copy }, collection) => {
+        if (items) {
+          // Restored in place: pending saves may hold a reference to the live array
+          items.length = copy.length;
+          copy.forEach((item, index) => {
+            items[index] = item;
+          });
+          this.store.set(collection, items);
+        } else {
+          this.store.delete(collection);
+        }
+        this.indexes.delete(collection); // Rebuilt on next lookup
+      });
+      throw e;
     }
   }
 
@@ -84,6 +807,7 @@ class LocalDatabase {
     this.store.set('investigations', []);
     this.store.set('voiceNotes', []);
     this.store.set('patientTags', []);
+    this.store.set('households', []);
     this.store.set('feeExemptions', []);
     this.store.set('prescriptionHistory', []);
     this.store.set('feeHistory', []);
@@ -128,6 +852,13 @@ class LocalDatabase {
     // System
     this.store.set('settings', []);
     this.store.set('auditLog', []);
+    this.store.set('schemaMigrations', []);
+    this.store.set('syncConflicts', []);
+    this.store.set(REVISIONS_COLLECTION, []);
+    this.store.set('patientMerges', []);
+    this.store.set('patientImports', []);
+    this.store.set('historyImports', []);
+    this.store.set('importTemplates', []);
     
     // Smart Parsing
     this.store.set('smartParsingRules', []);
@@ -214,39 +945,54 @@ class LocalDatabase {
     this.store.set('combinations', defaultCombinations);
   }
 
-  // Generic CRUD operations
-  public getAll<T>(collection: string): T[] {
+  // Every record in a collection, soft-deleted ones included
+  private items<T>(collection: string): T[] {
     return (this.store.get(collection) as T[]) || [];
   }
 
-  public getById<T>(collection: string, id: string): T | undefined {
-    const items = this.getAll<T>(collection);
-    return items.find((item: unknown) => {
+  // Generic CRUD operations
+  public getAll<T>(collection: string, options: ReadOptions = {}): T[] {
+    const items = this.items<T>(collection);
+    if (options.includeDeleted || !isSoftDeleteCollection(collection)) return items;
+    return items.filter((item) => !isDeleted(item));
+  }
+
+  public getById<T>(collection: string, id: string, options: ReadOptions = {}): T | undefined {
+    const items = this.items<T>(collection);
+    const found = items.find((item: unknown) => {
       if (item && typeof item === 'object' && 'id' in item) {
         return (item as { id: string }).id === id;
       }
       return false;
     });
+    return found && !options.includeDeleted && isDeleted(found) ? undefined : found;
   }
 
   public create<T extends Record<string, unknown>>(collection: string, item: T): T & { id: string; createdAt: Date; updatedAt: Date } {
-    const items = this.getAll<T>(collection);
+    item = this.validated(collection, item, false);
+    this.trackForRollback(collection);
+    const items = this.items<T>(collection);
     // Preserve existing ID if present, otherwise generate new one
     const existingId = item.id;
+    const now = new Date();
     const newItem = {
       ...item,
       id: existingId || this.generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
     } as T & { id: string; createdAt: Date; updatedAt: Date };
+    this.writeStamper?.(collection, newItem);
     items.push(newItem);
     this.store.set(collection, items);
-    this.saveToLocalStorage();
+    this.indexes.get(collection)?.add(newItem.id, newItem);
+    this.write({ type: 'put', collection, record: newItem });
+    this.emit({ collection, type: 'create', id: newItem.id, record: newItem });
+    this.recordRevision(collection, 'create', undefined, newItem);
     return newItem;
   }
 
   public update<T extends { id: string }>(collection: string, id: string, updates: Record<string, unknown>): T | undefined {
-    const items = this.getAll<T>(collection);
+    const items = this.items<T>(collection);
     const index = items.findIndex((item: unknown) => {
       if (item && typeof item === 'object' && 'id' in item) {
         return (item as { id: string }).id === id;
@@ -255,6 +1001,9 @@ class LocalDatabase {
     });
 
     if (index !== -1) {
+      this.assertMutable(collection);
+      updates = this.validated(collection, updates, true);
+      this.trackForRollback(collection);
       const existing = items[index];
       const updated = {
         ...existing,
@@ -262,16 +1011,89 @@ class LocalDatabase {
         id: existing.id,
         updatedAt: new Date(),
       } as T;
+      this.writeStamper?.(
+        collection,
+        updated as unknown as Record<string, unknown>,
+        existing as unknown as Record<string, unknown>
+      );
       items[index] = updated;
       this.store.set(collection, items);
-      this.saveToLocalStorage();
+      this.indexes.get(collection)?.update(
+        id,
+        existing as unknown as Record<string, unknown>,
+        updated as unknown as Record<string, unknown>
+      );
+      this.write({ type: 'put', collection, record: updated as unknown as Record<string, unknown> });
+      this.emit({ collection, type: 'update', id, record: updated, previous: existing });
+      this.recordRevision(
+        collection,
+        undefined,
+        existing as unknown as Record<string, unknown>,
+        updated as unknown as Record<string, unknown>
+      );
       return updated;
     }
     return undefined;
   }
 
-  public delete(collection: string, id: string): boolean {
-    const items = this.getAll(collection);
+  // Soft-deletes in SOFT_DELETE_COLLECTIONS, removes the record everywhere else
+  public delete(collection: string, id: string, deletedBy?: string): boolean {
+    if (!isSoftDeleteCollection(collection)) {
+      return this.remove(collection, id);
+    }
+    const existing = this.getById(collection, id);
+    if (!existing) return false;
+    this.update(collection, id, { deletedAt: new Date(), deletedBy: deletedBy ?? this.actor });
+    return true;
+  }
+
+  // Brings a soft-deleted record back
+  public restoreDeleted(collection: string, id: string): boolean {
+    const existing = this.getById(collection, id, { includeDeleted: true });
+    if (!existing || !isDeleted(existing)) return false;
+    this.update(collection, id, { deletedAt: undefined, deletedBy: undefined });
+    return true;
+  }
+
+  // Soft-deleted records of a collection, most recently deleted first
+  public getDeleted<T>(collection: string): T[] {
+    return this.items<T>(collection)
+      .filter(isDeleted)
+      .sort((a, b) =>
+        new Date((b as SoftDeleteFields).deletedAt!).getTime() - new Date((a as SoftDeleteFields).deletedAt!).getTime());
+  }
+
+  // Sets who later deletes are attributed to (the logged-in user)
+  public setActor(name: string | undefined): void {
+    this.actor = name;
+  }
+
+  // Installed by the AuthProvider; null when no one is signed in
+  public setAccess(access: DataAccess | null): void {
+    this.access = access;
+  }
+
+  public requirePermission(permission: string, action: string): void {
+    if (!this.access?.hasPermission(permission)) {
+      throw new PermissionError(`You do not have permission to ${action}`);
+    }
+  }
+
+  public requireDoctor(action: string): void {
+    if (!this.access?.isDoctor) {
+      throw new PermissionError(`Only the doctor can ${action}`);
+    }
+  }
+
+  // Removes a record for good, soft-deleted or not; only the doctor may
+  public purge(collection: string, id: string): boolean {
+    this.requireDoctor('purge records');
+    return this.remove(collection, id);
+  }
+
+  // Hard delete; reached directly only for collections that are not soft-deleted
+  private remove(collection: string, id: string): boolean {
+    const items = this.items(collection);
     const index = items.findIndex((item: unknown) => {
       if (item && typeof item === 'object' && 'id' in item) {
         return (item as { id: string }).id === id;
@@ -280,14 +1102,75 @@ class LocalDatabase {
     });
 
     if (index !== -1) {
-      items.splice(index, 1);
+      this.assertMutable(collection);
+      this.trackForRollback(collection);
+      const [removed] = items.splice(index, 1);
       this.store.set(collection, items);
-      this.saveToLocalStorage();
+      this.indexes.get(collection)?.remove(id, removed as Record<string, unknown>);
+      this.write({ type: 'delete', collection, id });
+      this.emit({ collection, type: 'delete', id, previous: removed });
+      this.recordRevision(collection, 'purge', removed as Record<string, unknown>, undefined);
       return true;
     }
     return false;
   }
 
+  // Checks a record (or, when partial, just the given fields) against the collection schema
+  // without writing anything; value holds the coerced record. Throws for a collection
+  // without a schema, so nothing is ever stored unchecked
+  public validate<T extends Record<string, unknown>>(
+    collection: string,
+    record: T,
+    options: { partial?: boolean } = {}
+  ): ValidationResult<T> {
+    const schema = collectionSchemas[collection];
+    if (!schema) {
+      throw new Error(`No schema is declared for the ${collection} collection; add one to collection-schemas.ts`);
+    }
+    return validateRecord(schema, record, options);
+  }
+
+  // Coerces a local write to its schema; bad data throws instead of being stored
+  private validated<T extends Record<string, unknown>>(collection: string, record: T, partial: boolean): T {
+    const result = this.validate(collection, record, { partial });
+    if (!result.valid) {
+      throw new ValidationError(collection, result.issues);
+    }
+    return result.value;
+  }
+
+  private assertMutable(collection: string): void {
+    if (collection === REVISIONS_COLLECTION) {
+      throw new Error('Revisions are permanent and cannot be changed or deleted');
+    }
+  }
+
+  // Appends a revision for a write to a tracked collection; writes that change nothing leave no revision
+  private recordRevision(
+    collection: string,
+    action: RevisionAction | undefined,
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined
+  ): void {
+    if (!isRevisionedCollection(collection)) return;
+    const changes = diffRecords(before, after);
+    if (changes.length === 0) return;
+    const record = (after || before)!;
+    const revision: Omit<RecordRevision, 'id' | 'createdAt' | 'updatedAt'> = {
+      collection,
+      recordId: record.id as string,
+      action: action ?? revisionAction(changes),
+      changes,
+      changedAt: new Date(),
+      changedBy: this.actor || 'Unknown',
+    };
+    const patientId = collection === 'patients' ? record.id : record.patientId;
+    const visitId = collection === 'visits' ? record.id : record.visitId;
+    if (typeof patientId === 'string') revision.patientId = patientId;
+    if (typeof visitId === 'string') revision.visitId = visitId;
+    this.create(REVISIONS_COLLECTION, revision as unknown as Record<string, unknown>);
+  }
+
   public search<T>(collection: string, query: string, fields: string[]): T[] {
     const items = this.getAll<T>(collection);
     const lowerQuery = query.toLowerCase();
@@ -305,14 +1188,95 @@ class LocalDatabase {
     });
   }
 
+  public getCollectionNames(): string[] {
+    return Array.from(this.store.keys());
+  }
+
   public count(collection: string): number {
     return this.getAll(collection).length;
   }
 
+  // ============================================
+  // Indexed Lookups & Queries
+  // ============================================
+
+  private getIndex(collection: string): CollectionIndex | undefined {
+    const definitions = collectionIndexes[collection];
+    if (!definitions) return undefined;
+
+    let index = this.indexes.get(collection);
+    if (!index) {
+      index = new CollectionIndex(definitions);
+      const built = index;
+      this.items<Record<string, unknown>>(collection).forEach((item) => {
+        if (item && typeof item.id === 'string') built.add(item.id, item);
+      });
+      this.indexes.set(collection, index);
+    }
+    return index;
+  }
+
+  // Ids the index holds for a field, or null when the field is not indexed
+  private lookupIds(collection: string, field: string, condition: unknown): Set<string> | null {
+    const index = this.getIndex(collection);
+    if (!index || !index.hasField(field)) return null;
+    if (Array.isArray(condition)) {
+      const ids = new Set<string>();
+      condition.forEach((value) => index.lookup(field, value).forEach((id) => ids.add(id)));
+      return ids;
+    }
+    if (condition === undefined || condition === null || (typeof condition === 'object' && !(condition instanceof Date))) {
+      return null; // Range conditions fall back to a scan
+    }
+    return index.lookup(field, condition);
+  }
+
+  // Records in collection order whose id is in the set, read from the index rather than
+  // the collection; indexes also hold soft-deleted records
+  private pickByIds<T>(collection: string, ids: Set<string>): T[] {
+    if (ids.size === 0) return [];
+    const records = this.getIndex(collection)?.pick(ids) ?? [];
+    if (!isSoftDeleteCollection(collection)) return records as T[];
+    return records.filter((record) => !isDeleted(record)) as T[];
+  }
+
+  // Equality lookup; uses a secondary index when the field has one.
+  // Date-indexed fields match on the calendar day rather than the exact time.
+  public findBy<T>(collection: string, field: string, value: unknown): T[] {
+    const ids = this.lookupIds(collection, field, value);
+    const candidates = ids ? this.pickByIds<T>(collection, ids) : this.getAll<T>(collection);
+    const type = this.getIndex(collection)?.getDefinition(field)?.type;
+    return candidates.filter((item) => {
+      const itemValue = (item as Record<string, unknown>)[field];
+      if (type === 'date') {
+        const day = toIndexKey(itemValue, 'date');
+        const options = Array.isArray(value) ? value : [value];
+        return day !== undefined && options.some((option) => toIndexKey(option, 'date') === day);
+      }
+      return matchesCondition(itemValue, value);
+    });
+  }
+
+  public findOneBy<T>(collection: string, field: string, value: unknown): T | undefined {
+    return this.findBy<T>(collection, field, value)[0];
+  }
+
+  // Where / sort / pagination; indexed where fields narrow the scan first
+  public query<T>(collection: string, options: QueryOptions<T> = {}): QueryResult<T> {
+    let ids: Set<string> | null = null;
+    Object.entries(options.where || {}).forEach(([field, condition]) => {
+      const matched = this.lookupIds(collection, field, condition);
+      if (!matched) return;
+      ids = ids ? new Set([...ids].filter((id) => matched.has(id))) : matched;
+    });
+    const candidates = ids ? this.pickByIds<T>(collection, ids) : this.getAll<T>(collection);
+    return applyQuery(candidates, options);
+  }
+
   // Module 3: Registration Number Generation
   // Formula: nextRegNumber = max(settings.startingNumber, highest existing number + 1)
   public getRegNumberSettings(): RegNumberSettings {
-    // Get settings from localStorage via settingsDb
+    // Get settings from the settings collection
     let settings = {
       prefix: '',
       startingNumber: 1001,
@@ -321,27 +1285,19 @@ class LocalDatabase {
     };
     
     // Try to load settings from database if available
-    if (typeof window !== 'undefined') {
-      try {
-        const savedData = localStorage.getItem('pms_database');
-        if (savedData) {
-          const parsed = JSON.parse(savedData);
-          const settingsData = parsed['settings'];
-          if (settingsData && Array.isArray(settingsData)) {
-            const regSettings = settingsData.find((s: { id: string }) => s.id === 'registration');
-            if (regSettings) {
-              settings = {
-                prefix: regSettings.prefix !== undefined ? regSettings.prefix : '',
-                startingNumber: regSettings.startingNumber || 1001,
-                padding: regSettings.padding || 4,
-                separator: regSettings.separator || '-',
-              };
-            }
-          }
-        }
-      } catch (e) {
-        // Use default settings
-      }
+    const regSettings = this.getById<{
+      prefix?: string;
+      startingNumber?: number;
+      padding?: number;
+      separator?: string;
+    }>('settings', 'registration');
+    if (regSettings) {
+      settings = {
+        prefix: regSettings.prefix !== undefined ? regSettings.prefix : '',
+        startingNumber: regSettings.startingNumber || 1001,
+        padding: regSettings.padding || 4,
+        separator: regSettings.separator || '-',
+      };
     }
     
     return settings;
@@ -364,8 +1320,9 @@ class LocalDatabase {
   public generateRegNumber(): string {
     const settings = this.getRegNumberSettings();
     
-    // Get all existing patients and find the highest registration number
-    const patients = this.getAll('patients');
+    // Get all existing patients and find the highest registration number;
+    // deleted patients count too, so their numbers are never reused
+    const patients = this.items('patients');
     let highestNumber = 0;
     
     patients.forEach((patient: unknown) => {
@@ -382,34 +1339,6 @@ class LocalDatabase {
     return `${settings.prefix}${paddedNumber}`;
   }
 
-  // Module 3: Duplicate Detection
-  public findDuplicates(collection: string, query: string, mobile?: string): string[] {
-    const items = this.getAll(collection);
-    const duplicates: string[] = [];
-    const lowerQuery = query.toLowerCase();
-
-    items.forEach((item: unknown) => {
-      if (typeof item !== 'object' || item === null) return;
-      const p = item as Record<string, unknown>;
-      
-      const fullName = `${p.firstName} ${p.lastName}`.toLowerCase();
-      const firstName = (p.firstName as string)?.toLowerCase() || '';
-      const lastName = (p.lastName as string)?.toLowerCase() || '';
-      
-      const nameMatch = fullName.includes(lowerQuery) || 
-                        firstName.includes(lowerQuery) || 
-                        lastName.includes(lowerQuery);
-      
-      const mobileMatch = mobile ? p.mobileNumber === mobile : false;
-      
-      if (nameMatch || mobileMatch) {
-        duplicates.push(p.id as string);
-      }
-    });
-
-    return duplicates;
-  }
-
   private generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -613,10 +1542,7 @@ export function seedInitialData(): void {
       family: 'Asteraceae',
       description: 'First remedy for trauma, bruises, and muscular soreness.',
       symptoms: ['Soreness', 'Bruising', 'Trauma', 'Muscle pain', 'Overexertion'],
-      modalities: {
-        worse: ['Touch', 'Movement', 'Heat'],
-        better: ['Rest', 'Lying down'],
-      },
+      modalities: ['Worse: touch, movement, heat', 'Better: rest, lying down'],
       relationships: ['Rhus toxicodendron', 'Bryonia'],
       source: 'Classical Materia Medica',
     },
@@ -626,10 +1552,7 @@ export function seedInitialData(): void {
       family: 'Loganiaceae',
       description: 'Remedy for impatient, irritable, and chilly patients.',
       symptoms: ['Irritability', 'Digestive disturbances', 'Headache', 'Sensitivity to noise', 'Overeating'],
-      modalities: {
-        worse: ['Noise', 'Odors', 'Touch', 'Morning'],
-        better: ['Evening', 'Rest', 'Warm applications'],
-      },
+      modalities: ['Worse: noise, odors, touch, morning', 'Better: evening, rest, warm applications'],
       relationships: ['Ignatia', 'Lycopodium'],
       source: 'Classical Materia Medica',
     },
@@ -690,20 +1613,8 @@ export function seedInitialData(): void {
 export const patientDb = {
   getAll: () => db.getAll('patients'),
   getById: (id: string) => db.getById('patients', id),
-  getByMobile: (mobile: string) => {
-    const patients = db.getAll('patients');
-    return patients.filter((p: unknown) => {
-      const patient = p as { mobileNumber: string };
-      return patient.mobileNumber === mobile;
-    });
-  },
-  getByRegNumber: (regNumber: string) => {
-    const patients = db.getAll('patients');
-    return patients.find((p: unknown) => {
-      const patient = p as { registrationNumber: string };
-      return patient.registrationNumber === regNumber;
-    });
-  },
+  getByMobile: (mobile: string) => db.findBy('patients', 'mobileNumber', mobile),
+  getByRegNumber: (regNumber: string) => db.findOneBy('patients', 'registrationNumber', regNumber),
   generateRegNumber: () => db.generateRegNumber(),
   create: (patient: Parameters<typeof db.create>[1]) => {
     // Use existing registration number if provided, otherwise generate new one
@@ -732,7 +1643,12 @@ export const patientDb = {
       );
     });
   },
-  findDuplicates: (name: string, mobile?: string) => db.findDuplicates('patients', name, mobile),
+  query: <T = unknown>(options: QueryOptions<T> = {}) => db.query<T>('patients', options),
+  // Ranked matches for a new or edited patient; see duplicates.ts for the scoring
+  findDuplicates: (candidate: DuplicateCandidate, options?: DuplicateOptions) =>
+    findDuplicatePatients(candidate, db.getAll<Patient>('patients'), options),
+  findPossibleDuplicates: (options?: Parameters<typeof findPossibleDuplicates>[1]) =>
+    findPossibleDuplicates(db.getAll<Patient>('patients'), options),
   deleteByRegNumber: (regNumber: string) => {
     const patients = db.getAll('patients');
     const patient = patients.find((p: unknown) => {
@@ -755,22 +1671,33 @@ export const patientDb = {
 };
 
 // Visit operations
+function byVisitDateDesc(a: Visit, b: Visit): number {
+  return new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime();
+}
+
+// Mode and the self-repeat flag are derived from each other when a caller sets only one
+export type NewVisit = Omit<Visit, 'id' | 'createdAt' | 'updatedAt' | 'mode' | 'isSelfRepeat'>
+  & Partial<Pick<Visit, 'mode' | 'isSelfRepeat'>>;
+
+// The only repository for the visits collection: the doctor panel, patient profile,
+// reports, pharmacy and billing all read and write visits through it
 export const visitDb = {
-  getAll: () => db.getAll('visits'),
-  getById: (id: string) => db.getById('visits', id),
-  getByPatient: (patientId: string) => {
-    const visits = db.getAll('visits');
-    return visits.filter((v: unknown) => {
-      const visit = v as { patientId: string };
-      return visit.patientId === patientId;
-    }).sort((a, b) => {
-      const visitA = a as { visitDate: Date };
-      const visitB = b as { visitDate: Date };
-      return new Date(visitB.visitDate).getTime() - new Date(visitA.visitDate).getTime();
-    });
-  },
-  create: (visit: Parameters<typeof db.create>[1]) => db.create('visits', visit),
-  update: (id: string, updates: Parameters<typeof db.update>[2]) => db.update('visits', id, updates),
+  getAll: () => db.getAll<Visit>('visits'),
+  getById: (id: string) => db.getById<Visit>('visits', id),
+  getByPatient: (patientId: string) => db.findBy<Visit>('visits', 'patientId', patientId).sort(byVisitDateDesc),
+  getActiveByPatient: (patientId: string) => db.findBy<Visit>('visits', 'patientId', patientId)
+    .find((visit) => visit.status === 'active'),
+  query: <T = Visit>(options: QueryOptions<T> = {}) => db.query<T>('visits', options),
+  create: (visit: NewVisit) => {
+    const isSelfRepeat = visit.isSelfRepeat ?? visit.mode === 'self-repeat';
+    return db.create('visits', {
+      ...visit,
+      mode: visit.mode ?? (isSelfRepeat ? 'self-repeat' : 'in-person'),
+      isSelfRepeat,
+    } as unknown as Record<string, unknown>) as unknown as Visit;
+  },
+  update: (id: string, updates: Partial<Omit<Visit, 'id' | 'createdAt'>>) =>
+    db.update<Visit>('visits', id, updates as Record<string, unknown>),
   delete: (id: string) => db.delete('visits', id),
 };
 
@@ -778,14 +1705,9 @@ export const visitDb = {
 export const investigationDb = {
   getAll: () => db.getAll('investigations'),
   getById: (id: string) => db.getById('investigations', id),
-  getByPatient: (patientId: string) => {
-    const investigations = db.getAll('investigations');
-    return investigations.filter((i: unknown) => {
-      const inv = i as { patientId: string };
-      return inv.patientId === patientId;
-    });
-  },
+  getByPatient: (patientId: string) => db.findBy('investigations', 'patientId', patientId),
   create: (inv: Parameters<typeof db.create>[1]) => db.create('investigations', inv),
+  update: (id: string, updates: Parameters<typeof db.update>[2]) => db.update('investigations', id, updates),
   delete: (id: string) => db.delete('investigations', id),
 };
 
@@ -793,15 +1715,16 @@ export const investigationDb = {
 export const voiceNoteDb = {
   getAll: () => db.getAll('voiceNotes'),
   getById: (id: string) => db.getById('voiceNotes', id),
-  getByPatient: (patientId: string) => {
-    const notes = db.getAll('voiceNotes');
-    return notes.filter((n: unknown) => {
-      const note = n as { patientId: string };
-      return note.patientId === patientId;
-    });
-  },
+  getByPatient: (patientId: string) => db.findBy('voiceNotes', 'patientId', patientId),
   create: (note: Parameters<typeof db.create>[1]) => db.create('voiceNotes', note),
+  update: (id: string, updates: Parameters<typeof db.update>[2]) => db.update('voiceNotes', id, updates),
   delete: (id: string) => db.delete('voiceNotes', id),
+  // Notes whose transcript contains the text, case-insensitive
+  search: (text: string) => {
+    const query = text.trim().toLowerCase();
+    if (!query) return [];
+    return db.getAll<VoiceNote>('voiceNotes').filter((note) => note.transcript?.toLowerCase().includes(query));
+  },
 };
 
 // Patient Tag operations
@@ -813,6 +1736,79 @@ export const patientTagDb = {
   delete: (id: string) => db.delete('patientTags', id),
 };
 
+// Household operations
+// Members live on the household record; a patient is in at most one
+export const householdDb = {
+  getAll: () => db.getAll<Household>('households'),
+  getById: (id: string) => db.getById<Household>('households', id),
+  getByPatient: (patientId: string) => db.getAll<Household>('households')
+    .find((household) => household.members.some((member) => member.patientId === patientId)),
+  // Members with their patient records, head first; deleted patients are left out
+  getMembers: (householdId: string): { patient: Patient; relationship: FamilyRelationship }[] => {
+    const household = db.getById<Household>('households', householdId);
+    if (!household) return [];
+    return household.members
+      .map((member) => ({ patient: db.getById<Patient>('patients', member.patientId), relationship: member.relationship }))
+      .filter((member): member is { patient: Patient; relationship: FamilyRelationship } => !!member.patient)
+      .sort((a, b) => Number(b.relationship === 'head') - Number(a.relationship === 'head'));
+  },
+  create: (name: string, headPatientId: string) => db.transaction(() => {
+    householdDb.removeMember(headPatientId);
+    return db.create('households', { name, members: [{ patientId: headPatientId, relationship: 'head' }] }) as unknown as Household;
+  }),
+  rename: (id: string, name: string) => db.update<Household>('households', id, { name }),
+  // Moves the patient here from any other household
+  addMember: (householdId: string, patientId: string, relationship: FamilyRelationship) => db.transaction(() => {
+    householdDb.removeMember(patientId);
+    const household = db.getById<Household>('households', householdId);
+    if (!household) return undefined;
+    return db.update<Household>('households', householdId, {
+      members: [...household.members, { patientId, relationship }],
+    });
+  }),
+  setRelationship: (householdId: string, patientId: string, relationship: FamilyRelationship) => {
+    const household = db.getById<Household>('households', householdId);
+    if (!household) return undefined;
+    return db.update<Household>('households', householdId, {
+      members: household.members.map((member) => (member.patientId === patientId ? { ...member, relationship } : member)),
+    });
+  },
+  // A household left without members is removed; one that loses its head
+  // promotes the spouse, or failing that the longest-standing member
+  removeMember: (patientId: string) => {
+    const household = householdDb.getByPatient(patientId);
+    if (!household) return;
+    const members = household.members.filter((member) => member.patientId !== patientId);
+    if (members.length === 0) {
+      db.delete('households', household.id);
+      return;
+    }
+    const successor = members.some((member) => member.relationship === 'head')
+      ? undefined
+      : members.find((member) => member.relationship === 'spouse') || members[0];
+    db.update('households', household.id, {
+      members: members.map((member) => (member === successor ? { ...member, relationship: 'head' as const } : member)),
+    });
+  },
+  // Patients outside the household who share a mobile number or address with one of its members
+  suggestMembers: (patientId: string): Patient[] => {
+    const household = householdDb.getByPatient(patientId);
+    const memberIds = new Set(household ? household.members.map((member) => member.patientId) : [patientId]);
+    const members = [...memberIds].map((id) => db.getById<Patient>('patients', id)).filter((member): member is Patient => !!member);
+    const mobiles = new Set(members.flatMap((member) => [normaliseMobile(member.mobileNumber), normaliseMobile(member.alternateMobile)]).filter(Boolean));
+    const addressKey = (patient: Patient) => patient.address?.street?.trim() && patient.address?.pincode?.trim()
+      ? `${patient.address.street.trim().toLowerCase()}|${patient.address.pincode.trim()}`
+      : '';
+    const addresses = new Set(members.map(addressKey).filter(Boolean));
+    return db.getAll<Patient>('patients').filter((patient) => {
+      if (memberIds.has(patient.id)) return false;
+      const sharesMobile = [normaliseMobile(patient.mobileNumber), normaliseMobile(patient.alternateMobile)]
+        .some((mobile) => mobile && mobiles.has(mobile));
+      return sharesMobile || addresses.has(addressKey(patient));
+    });
+  },
+};
+
 // Fee Exemption operations
 export const feeExemptionDb = {
   getAll: () => db.getAll('feeExemptions'),
@@ -831,11 +1827,7 @@ export const feeExemptionDb = {
 export const feeHistoryDb = {
   getAll: () => db.getAll('feeHistory'),
   getByPatient: (patientId: string) => {
-    const history = db.getAll('feeHistory');
-    return history.filter((h: unknown) => {
-      const entry = h as { patientId: string };
-      return entry.patientId === patientId;
-    }).sort((a, b) => {
+    return db.findBy('feeHistory', 'patientId', patientId).sort((a, b) => {
       const entryA = a as { paidDate: Date };
       const entryB = b as { paidDate: Date };
       return new Date(entryB.paidDate).getTime() - new Date(entryA.paidDate).getTime();
@@ -894,7 +1886,15 @@ export const materiaMedicaBookDb = {
   },
   create: (book: Parameters<typeof db.create>[1]) => db.create('materiaMedicaBooks', book),
   update: (id: string, updates: Record<string, unknown>) => db.update('materiaMedicaBooks', id, updates),
-  delete: (id: string) => db.delete('materiaMedicaBooks', id),
+  // The book first, so its pages and index rows are stamped no earlier than it
+  delete: (id: string) => db.transaction(() => {
+    const deleted = db.delete('materiaMedicaBooks', id);
+    if (deleted) {
+      materiaMedicaBookPageDb.deleteByBook(id);
+      materiaMedicaSearchIndexDb.deleteByBook(id);
+    }
+    return deleted;
+  }),
   updateAccessTime: (id: string) => {
     const book: any = db.getById('materiaMedicaBooks', id);
     if (book) {
@@ -910,13 +1910,10 @@ export const materiaMedicaBookDb = {
 export const materiaMedicaBookPageDb = {
   getAll: () => db.getAll('materiaMedicaBookPages'),
   getById: (id: string) => db.getById('materiaMedicaBookPages', id),
-  getByBook: (bookId: string) => {
-    const pages = db.getAll('materiaMedicaBookPages');
-    return pages.filter((page: any) => page.bookId === bookId);
-  },
+  getByBook: (bookId: string) => db.findBy('materiaMedicaBookPages', 'bookId', bookId),
   getByBookAndPage: (bookId: string, pageNumber: number) => {
-    const pages = db.getAll('materiaMedicaBookPages');
-    return pages.find((page: any) => page.bookId === bookId && page.pageNumber === pageNumber);
+    const pages = db.findBy('materiaMedicaBookPages', 'bookId', bookId);
+    return pages.find((page: any) => page.pageNumber === pageNumber);
   },
   create: (page: Parameters<typeof db.create>[1]) => db.create('materiaMedicaBookPages', page),
   createBatch: (pages: any[]) => {
@@ -924,8 +1921,7 @@ export const materiaMedicaBookPageDb = {
   },
   delete: (id: string) => db.delete('materiaMedicaBookPages', id),
   deleteByBook: (bookId: string) => {
-    const pages = db.getAll('materiaMedicaBookPages');
-    const bookPages = pages.filter((page: any) => page.bookId === bookId);
+    const bookPages = db.findBy('materiaMedicaBookPages', 'bookId', bookId);
     bookPages.forEach((page: any) => db.delete('materiaMedicaBookPages', page.id));
     return bookPages.length;
   }
@@ -935,13 +1931,9 @@ export const materiaMedicaSearchIndexDb = {
   getAll: () => db.getAll('materiaMedicaSearchIndex'),
   getById: (id: string) => db.getById('materiaMedicaSearchIndex', id),
   searchWord: (word: string, bookIds?: string[]) => {
-    const indices = db.getAll('materiaMedicaSearchIndex');
     const normalizedWord = word.toLowerCase().trim();
-    return indices.filter((index: any) => {
-      const matchesWord = index.word === normalizedWord;
-      const matchesBook = !bookIds || bookIds.includes(index.bookId);
-      return matchesWord && matchesBook;
-    });
+    const indices = db.findBy('materiaMedicaSearchIndex', 'word', normalizedWord);
+    return indices.filter((index: any) => !bookIds || bookIds.includes(index.bookId));
   },
   create: (index: Parameters<typeof db.create>[1]) => db.create('materiaMedicaSearchIndex', index),
   createBatch: (indices: any[]) => {
@@ -949,8 +1941,7 @@ export const materiaMedicaSearchIndexDb = {
   },
   delete: (id: string) => db.delete('materiaMedicaSearchIndex', id),
   deleteByBook: (bookId: string) => {
-    const indices = db.getAll('materiaMedicaSearchIndex');
-    const bookIndices = indices.filter((index: any) => index.bookId === bookId);
+    const bookIndices = db.findBy('materiaMedicaSearchIndex', 'bookId', bookId);
     bookIndices.forEach((index: any) => db.delete('materiaMedicaSearchIndex', index.id));
     return bookIndices.length;
   }
@@ -1283,11 +2274,7 @@ export const appointmentDb = {
   getAll: () => db.getAll('appointments'),
   getById: (id: string) => db.getById('appointments', id),
   getByPatient: (patientId: string) => {
-    const appointments = db.getAll('appointments');
-    return appointments.filter((a: unknown) => {
-      const apt = a as { patientId: string };
-      return apt.patientId === patientId;
-    }).sort((a, b) => {
+    return db.findBy('appointments', 'patientId', patientId).sort((a, b) => {
       const aptA = a as { appointmentDate: Date; appointmentTime: string };
       const aptB = b as { appointmentDate: Date; appointmentTime: string };
       const dateA = new Date(`${aptA.appointmentDate}T${aptA.appointmentTime}`);
@@ -1296,23 +2283,17 @@ export const appointmentDb = {
     });
   },
   getByDate: (date: Date) => {
-    const appointments = db.getAll('appointments');
-    const targetDate = date.toISOString().split('T')[0];
-    return appointments.filter((a: unknown) => {
-      const apt = a as { appointmentDate: Date };
-      return new Date(apt.appointmentDate).toISOString().split('T')[0] === targetDate;
-    }).sort((a, b) => {
+    return db.findBy('appointments', 'appointmentDate', date).sort((a, b) => {
       const aptA = a as { appointmentTime: string };
       const aptB = b as { appointmentTime: string };
       return aptA.appointmentTime.localeCompare(aptB.appointmentTime);
     });
   },
   getBySlot: (date: Date, slotId: string) => {
-    const appointments = db.getAll('appointments');
-    const targetDate = date.toISOString().split('T')[0];
+    const appointments = db.findBy('appointments', 'appointmentDate', date);
     return appointments.filter((a: unknown) => {
-      const apt = a as { appointmentDate: Date; slotId: string };
-      return new Date(apt.appointmentDate).toISOString().split('T')[0] === targetDate && apt.slotId === slotId;
+      const apt = a as { slotId: string };
+      return apt.slotId === slotId;
     }).sort((a, b) => {
       const aptA = a as { tokenNumber: number };
       const aptB = b as { tokenNumber: number };
@@ -1343,7 +2324,8 @@ export const appointmentDb = {
     cancelledAt: new Date(),
     cancellationReason: reason 
   }),
-  checkIn: (id: string) => {
+  // Appointment status, queue config, queue item and patient count commit together
+  checkIn: (id: string) => db.transaction(() => {
     db.update('appointments', id, {
       status: 'checked-in',
       checkedInAt: new Date()
@@ -1404,7 +2386,7 @@ export const appointmentDb = {
         db.update('queueConfigs', qConfig.id, { totalPatients: que.totalPatients + 1 });
       }
     }
-  },
+  }),
   startConsultation: (id: string) => db.update('appointments', id, { 
     status: 'in-progress',
     consultationStartedAt: new Date() 
@@ -1546,11 +2528,7 @@ export const queueItemDb = {
   getAll: () => db.getAll('queueItems'),
   getById: (id: string) => db.getById('queueItems', id),
   getByQueueConfig: (queueConfigId: string) => {
-    const items = db.getAll('queueItems');
-    return items.filter((i: unknown) => {
-      const item = i as { queueConfigId: string };
-      return item.queueConfigId === queueConfigId;
-    }).sort((a, b) => {
+    return db.findBy('queueItems', 'queueConfigId', queueConfigId).sort((a, b) => {
       const itemA = a as { priority: string; tokenNumber: number };
       const itemB = b as { priority: string; tokenNumber: number };
       // Priority patients first
@@ -1675,8 +2653,8 @@ export function ensureModule2DataSeeded(): void {
   }
 }
 
-// Call ensureDefaultFeeTypes when module loads
-ensureDefaultFeeTypes();
+// Call ensureDefaultFeeTypes once persisted data has loaded
+db.onHydrated(ensureDefaultFeeTypes);
 
 // ============================================
 // Billing Queue Operations
@@ -1686,22 +2664,14 @@ export const billingQueueDb = {
   getAll: () => db.getAll('billingQueue'),
   getById: (id: string) => db.getById('billingQueue', id),
   getByPatient: (patientId: string) => {
-    const items = db.getAll('billingQueue');
-    return items.filter((item: unknown) => {
-      const billing = item as { patientId: string };
-      return billing.patientId === patientId;
-    }).sort((a, b) => {
+    return db.findBy('billingQueue', 'patientId', patientId).sort((a, b) => {
       const billingA = a as { createdAt: Date };
       const billingB = b as { createdAt: Date };
       return new Date(billingB.createdAt).getTime() - new Date(billingA.createdAt).getTime();
     });
   },
   getByStatus: (status: string) => {
-    const items = db.getAll('billingQueue');
-    return items.filter((item: unknown) => {
-      const billing = item as { status: string };
-      return billing.status === status;
-    }).sort((a, b) => {
+    return db.findBy('billingQueue', 'status', status).sort((a, b) => {
       const billingA = a as { createdAt: Date };
       const billingB = b as { createdAt: Date };
       return new Date(billingA.createdAt).getTime() - new Date(billingB.createdAt).getTime();
@@ -1749,30 +2719,14 @@ export const billingReceiptDb = {
   getAll: () => db.getAll('billingReceipts'),
   getById: (id: string) => db.getById('billingReceipts', id),
   getByPatient: (patientId: string) => {
-    const receipts = db.getAll('billingReceipts');
-    return receipts.filter((r: unknown) => {
-      const receipt = r as { patientId: string };
-      return receipt.patientId === patientId;
-    }).sort((a, b) => {
+    return db.findBy('billingReceipts', 'patientId', patientId).sort((a, b) => {
       const receiptA = a as { createdAt: Date };
       const receiptB = b as { createdAt: Date };
       return new Date(receiptB.createdAt).getTime() - new Date(receiptA.createdAt).getTime();
     });
   },
-  getByReceiptNumber: (receiptNumber: string) => {
-    const receipts = db.getAll('billingReceipts');
-    return receipts.find((r: unknown) => {
-      const receipt = r as { receiptNumber: string };
-      return receipt.receiptNumber === receiptNumber;
-    });
-  },
-  getByBillingQueueId: (billingQueueId: string) => {
-    const receipts = db.getAll('billingReceipts');
-    return receipts.find((r: unknown) => {
-      const receipt = r as { billingQueueId: string };
-      return receipt.billingQueueId === billingQueueId;
-    });
-  },
+  getByReceiptNumber: (receiptNumber: string) => db.findOneBy('billingReceipts', 'receiptNumber', receiptNumber),
+  getByBillingQueueId: (billingQueueId: string) => db.findOneBy('billingReceipts', 'billingQueueId', billingQueueId),
   create: (receipt: Parameters<typeof db.create>[1]) => db.create('billingReceipts', receipt),
   update: (id: string, updates: Parameters<typeof db.update>[2]) => db.update('billingReceipts', id, updates),
   markPrinted: (id: string) => db.update('billingReceipts', id, { printedAt: new Date() }),
@@ -1796,22 +2750,14 @@ export const medicineBillDb = {
     return filtered.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
   },
   getByVisitId: (visitId: string) => {
-    const bills = db.getAll('medicineBills');
-    return bills.filter((b: unknown) => {
-      const bill = b as { visitId: string };
-      return bill.visitId === visitId;
-    }).sort((a, b) => {
+    return db.findBy('medicineBills', 'visitId', visitId).sort((a, b) => {
       const billA = a as { createdAt: Date };
       const billB = b as { createdAt: Date };
       return new Date(billB.createdAt).getTime() - new Date(billA.createdAt).getTime();
     });
   },
   getByPatientId: (patientId: string) => {
-    const bills = db.getAll('medicineBills');
-    return bills.filter((b: unknown) => {
-      const bill = b as { patientId: string };
-      return bill.patientId === patientId;
-    }).sort((a, b) => {
+    return db.findBy('medicineBills', 'patientId', patientId).sort((a, b) => {
       const billA = a as { createdAt: Date };
       const billB = b as { createdAt: Date };
       return new Date(billB.createdAt).getTime() - new Date(billA.createdAt).getTime();
@@ -1856,3 +2802,173 @@ export const medicineAmountMemoryDb = {
     }
   }
 };
+
+// ============================================
+// LAN Sync Conflict Operations
+// Written by the sync server when two PCs edit the same record
+// ============================================
+
+export const syncConflictDb = {
+  getAll: () => db.getAll<SyncConflict>('syncConflicts'),
+  getById: (id: string) => db.getById<SyncConflict>('syncConflicts', id),
+  getOpen: () => db.getAll<SyncConflict>('syncConflicts')
+    .filter((conflict) => conflict.status === 'open')
+    .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime()),
+  // Keeps the version chosen by the sync server
+  accept: (id: string, reviewedBy: string) => db.update<SyncConflict>('syncConflicts', id, {
+    status: 'accepted',
+    reviewedBy,
+    reviewedAt: new Date(),
+  }),
+  // Writes the losing version back as a new edit, which then syncs to every PC
+  override: (id: string, reviewedBy: string) => db.transaction(() => {
+    const conflict = db.getById<SyncConflict>('syncConflicts', id);
+    if (!conflict) return undefined;
+    const { collection, recordId, loser } = conflict;
+    if (loser.deleted) {
+      if (isSoftDeleteCollection(collection)) {
+        db.purge(collection, recordId);
+      } else {
+        db.delete(collection, recordId);
+      }
+    } else if (db.getById(collection, recordId, { includeDeleted: true })) {
+      db.update(collection, recordId, loser.data || {});
+    } else {
+      db.create(collection, { ...loser.data, id: recordId });
+    }
+    return db.update<SyncConflict>('syncConflicts', id, {
+      status: 'overridden',
+      reviewedBy,
+      reviewedAt: new Date(),
+    });
+  }),
+};
+
+// ============================================
+// Record Revisions
+// Read-only: revisions are written by LocalDatabase itself
+// ============================================
+
+function byChangedAt(a: RecordRevision, b: RecordRevision): number {
+  return new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime();
+}
+
+export const revisionDb = {
+  // Oldest first
+  getByRecord: (collection: string, recordId: string) => db.findBy<RecordRevision>(REVISIONS_COLLECTION, 'recordId', recordId)
+    .filter((revision) => revision.collection === collection)
+    .sort(byChangedAt),
+  // The visit and every prescription row written for it, oldest first
+  getByVisit: (visitId: string) => db.findBy<RecordRevision>(REVISIONS_COLLECTION, 'visitId', visitId).sort(byChangedAt),
+  getByPatient: (patientId: string) => db.findBy<RecordRevision>(REVISIONS_COLLECTION, 'patientId', patientId).sort(byChangedAt),
+};
+
+// ============================================
+// Recycle Bin
+// Soft-deleted clinical and financial records
+// ============================================
+
+export interface DeletedRecord {
+  collection: string;
+  record: Record<string, unknown> & Required<Pick<SoftDeleteFields, 'deletedAt'>> & SoftDeleteFields;
+}
+
+// Binned pages and index rows of a book; with since, only those deleted together with it or later
+function deletedBookRows(bookId: string, since?: Date): { collection: string; id: string }[] {
+  return BOOK_DERIVED_COLLECTIONS.flatMap((collection) => db.getDeleted<{ id: string; bookId?: string } & SoftDeleteFields>(collection)
+    .filter((row) => row.bookId === bookId && (!since || new Date(row.deletedAt!).getTime() >= since.getTime()))
+    .map((row) => ({ collection, id: row.id })));
+}
+
+export const recycleBinDb = {
+  // Across every soft-delete collection, most recently deleted first
+  getAll: (): DeletedRecord[] => SOFT_DELETE_COLLECTIONS
+    .filter((collection) => !BOOK_DERIVED_COLLECTIONS.includes(collection))
+    .flatMap((collection) => db.getDeleted<DeletedRecord['record']>(collection).map((record) => ({ collection, record })))
+    .sort((a, b) => new Date(b.record.deletedAt).getTime() - new Date(a.record.deletedAt).getTime()),
+  restore: (collection: string, id: string) => db.transaction(() => {
+    if (collection === 'materiaMedicaBooks') {
+      const book = db.getById<SoftDeleteFields>(collection, id, { includeDeleted: true });
+      if (book?.deletedAt) {
+        deletedBookRows(id, new Date(book.deletedAt)).forEach((row) => db.restoreDeleted(row.collection, row.id));
+      }
+    }
+    return db.restoreDeleted(collection, id);
+  }),
+  // Only records already in the bin can be purged from here, and only by the doctor
+  purge: (collection: string, id: string) => db.transaction(() => {
+    db.requireDoctor('purge records');
+    const record = db.getById<SoftDeleteFields>(collection, id, { includeDeleted: true });
+    if (!record?.deletedAt) return false;
+    if (collection === 'materiaMedicaBooks') {
+      deletedBookRows(id).forEach((row) => db.purge(row.collection, row.id));
+    }
+    return db.purge(collection, id);
+  }),
+};
+
+// ============================================
+// Archive Operations
+// Old closed records live in the archive store; these read
+// it only when the requested history reaches back that far
+// ============================================
+
+async function readArchive<T>(collection: string): Promise<T[]> {
+  const archive = db.getArchive();
+  return archive ? archive.read<T>(collection) : [];
+}
+
+export const archiveDb = {
+  isAvailable: () => db.getArchive() !== null,
+  getSettings: (): ArchiveSettings => ({
+    ...DEFAULT_ARCHIVE_SETTINGS,
+    ...(settingsDb.getById(ARCHIVE_SETTINGS_ID) as Partial<ArchiveSettings> | undefined),
+  }),
+  saveSettings: (settings: ArchiveSettings) => settingsDb.upsert(ARCHIVE_SETTINGS_ID, { ...settings }),
+  // Newest first
+  getRuns: async () => (await readArchive<ArchiveRun>(ARCHIVE_RUNS_COLLECTION))
+    .sort((a, b) => b.archivedAt.localeCompare(a.archivedAt)),
+  // Records dated before this may be in the archive; null while nothing was archived
+  getBoundary: async (): Promise<Date | null> => {
+    const [latest] = [...await readArchive<ArchiveRun>(ARCHIVE_RUNS_COLLECTION)]
+      .sort((a, b) => b.cutoff.localeCompare(a.cutoff));
+    return latest ? new Date(latest.cutoff) : null;
+  },
+  // Dry run: how many records each collection would move
+  preview: (cutoff: Date): Record<string, number> => {
+    const plan = planArchive((collection) => db.getAll(collection, { includeDeleted: true }), cutoff);
+    return Object.fromEntries(Object.entries(plan).map(([collection, ids]) => [collection, ids.length]));
+  },
+  run: async (cutoff: Date, archivedBy: string): Promise<ArchiveRun> => {
+    await db.ready;
+    const plan = planArchive((collection) => db.getAll(collection, { includeDeleted: true }), cutoff);
+    const run = await db.moveToArchive(plan, {
+      id: `archive-${Date.now()}`,
+      cutoff: cutoff.toISOString(),
+      archivedAt: new Date().toISOString(),
+      archivedBy,
+    });
+    archiveDb.saveSettings({ ...archiveDb.getSettings(), lastRunAt: run.archivedAt });
+    return run;
+  },
+  // Archived collections, or null when nothing from `from` onwards was archived
+  readFrom: async (from: Date, collections: string[]): Promise<Record<string, unknown[]> | null> => {
+    const boundary = await archiveDb.getBoundary();
+    if (!boundary || from >= boundary) return null;
+    const entries = await Promise.all(collections.map(async (collection) =>
+      [collection, await readArchive(collection)] as const));
+    return Object.fromEntries(entries);
+  },
+  // A patient's archived visits (newest first) and their prescriptions
+  getPatientHistory: async (patientId: string): Promise<{ visits: Visit[]; prescriptions: DoctorPrescription[] }> => {
+    const visits = (await readArchive<Visit>('visits'))
+      .filter((visit) => visit.patientId === patientId && !visit.deletedAt)
+      .sort(byVisitDateDesc);
+    if (visits.length === 0) return { visits, prescriptions: [] };
+    const visitIds = new Set(visits.map((visit) => visit.id));
+    const prescriptions = (await readArchive<DoctorPrescription>('prescriptions'))
+      .filter((prescription) => visitIds.has(prescription.visitId) && !prescription.deletedAt)
+      .sort((a, b) => a.rowOrder - b.rowOrder);
+    return { visits, prescriptions };
+  },
+};
@@ -5,7 +5,6 @@
 
 import { db } from './database';
 import type {
-  DoctorVisit,
   DoctorPrescription,
   CombinationMedicine,
   PharmacyQueueItem,
@@ -17,60 +16,6 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// ============================================
-// Visit Operations
-// ============================================
-
-export const doctorVisitDb = {
-  getAll: () => db.getAll<DoctorVisit>('visits'),
-  
-  getById: (id: string) => db.getById<DoctorVisit>('visits', id),
-  
-  getByPatient: (patientId: string) => {
-    const visits = db.getAll<DoctorVisit>('visits');
-    return visits
-      .filter((v) => v.patientId === patientId)
-      .sort((a, b) => {
-        const dateA = a.visitDate instanceof Date ? a.visitDate.getTime() : new Date(a.visitDate).getTime();
-        const dateB = b.visitDate instanceof Date ? b.visitDate.getTime() : new Date(b.visitDate).getTime();
-        return dateB - dateA;
-      });
-  },
-  
-  getActiveByPatient: (patientId: string) => {
-    const visits = db.getAll<DoctorVisit>('visits');
-    return visits.find(
-      (v) => v.patientId === patientId && v.status === 'active'
-    );
-  },
-  
-  create: (visit: Omit<DoctorVisit, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const newVisit: DoctorVisit = {
-      ...visit,
-      id: generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    db.create('visits', newVisit as unknown as Record<string, unknown>);
-    return newVisit;
-  },
-  
-  update: (id: string, updates: Partial<Omit<DoctorVisit, 'id' | 'createdAt'>>) => {
-    const result = db.update<DoctorVisit>('visits', id, updates as Record<string, unknown>);
-    return result;
-  },
-  
-  complete: (id: string) => {
-    const result = db.update<DoctorVisit>('visits', id, {
-      status: 'completed',
-      updatedAt: new Date(),
-    } as Record<string, unknown>);
-    return result;
-  },
-  
-  delete: (id: string) => db.delete('visits', id),
-};
-
 // ============================================
 // Prescription Operations
 // ============================================
@@ -81,16 +26,11 @@ export const doctorPrescriptionDb = {
   getById: (id: string) => db.getById<DoctorPrescription>('prescriptions', id),
   
   getByVisit: (visitId: string) => {
-    const prescriptions = db.getAll<DoctorPrescription>('prescriptions');
-    return prescriptions
-      .filter((p) => p.visitId === visitId)
+    return db.findBy<DoctorPrescription>('prescriptions', 'visitId', visitId)
       .sort((a, b) => (a.rowOrder || 0) - (b.rowOrder || 0));
   },
   
-  getByPatient: (patientId: string) => {
-    const prescriptions = db.getAll<DoctorPrescription>('prescriptions');
-    return prescriptions.filter((p) => p.patientId === patientId);
-  },
+  getByPatient: (patientId: string) => db.findBy<DoctorPrescription>('prescriptions', 'patientId', patientId),
   
   create: (prescription: Omit<DoctorPrescription, 'id'>) => {
     const newPrescription: DoctorPrescription = {
@@ -99,8 +39,7 @@ export const doctorPrescriptionDb = {
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    db.create('prescriptions', newPrescription as unknown as Record<string, unknown>);
-    return newPrescription;
+    return db.create('prescriptions', newPrescription as unknown as Record<string, unknown>) as unknown as DoctorPrescription;
   },
   
   update: (id: string, updates: Partial<DoctorPrescription>) => {
@@ -111,12 +50,8 @@ export const doctorPrescriptionDb = {
   delete: (id: string) => db.delete('prescriptions', id),
   
   deleteByVisit: (visitId: string) => {
-    const prescriptions = db.getAll<DoctorPrescription>('prescriptions');
-    prescriptions.forEach((p) => {
-      if (p.visitId === visitId) {
-        db.delete('prescriptions', p.id);
-      }
-    });
+    const prescriptions = db.findBy<DoctorPrescription>('prescriptions', 'visitId', visitId);
+    prescriptions.forEach((p) => db.delete('prescriptions', p.id));
   },
 };
 
@@ -169,10 +104,7 @@ export const pharmacyQueueDb = {
   
   getById: (id: string) => db.getById<PharmacyQueueItem>('pharmacy', id),
   
-  getByVisit: (visitId: string) => {
-    const queue = db.getAll<PharmacyQueueItem>('pharmacy');
-    return queue.find((q) => q.visitId === visitId);
-  },
+  getByVisit: (visitId: string) => db.findOneBy<PharmacyQueueItem>('pharmacy', 'visitId', visitId),
   
   getPending: () => {
     const queue = db.getAll<PharmacyQueueItem>('pharmacy');
@@ -188,10 +120,7 @@ export const pharmacyQueueDb = {
       });
   },
   
-  getByPatient: (patientId: string) => {
-    const queue = db.getAll<PharmacyQueueItem>('pharmacy');
-    return queue.filter((q) => q.patientId === patientId);
-  },
+  getByPatient: (patientId: string) => db.findBy<PharmacyQueueItem>('pharmacy', 'patientId', patientId),
   
   create: (item: Omit<PharmacyQueueItem, 'id' | 'createdAt' | 'updatedAt'>) => {
     const newItem: PharmacyQueueItem = {
@@ -216,7 +145,7 @@ export const pharmacyQueueDb = {
     const existing = db.getById<PharmacyQueueItem>('pharmacy', id);
     let preparedIds: string[] = [];
     if (existing) {
-      const rx = db.getAll<DoctorPrescription>('prescriptions').filter((p) => p.visitId === existing.visitId);
+      const rx = db.findBy<DoctorPrescription>('prescriptions', 'visitId', existing.visitId);
       preparedIds = rx.map((p) => p.id);
     }
     const result = db.update<PharmacyQueueItem>('pharmacy', id, {
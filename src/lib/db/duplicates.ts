@@ -0,0 +1,370 @@
+// ============================================
+// Duplicate Patient Detection
+// Scores how likely two patient records are the same person
+// from name similarity (allowing for the many spellings of
+// transliterated names), mobile numbers, date of birth or age
+// and address, and ranks the matches as DuplicateWarnings
+// ============================================
+
+import type { DuplicateWarning, Patient } from '@/types';
+
+// Matches scoring below this are not reported
+export const DUPLICATE_THRESHOLD = 55;
+
+// The fields scoring looks at. Only the names are required, so a half
+// filled registration form or an import row can be checked too
+export type DuplicateCandidate = Pick<Patient, 'firstName' | 'lastName'> &
+  Partial<Pick<Patient, 'id' | 'mobileNumber' | 'alternateMobile' | 'dateOfBirth' | 'age' | 'gender' | 'address'>>;
+
+export interface DuplicateOptions {
+  threshold?: number;
+  limit?: number;
+}
+
+type ScoredPatient = DuplicateCandidate & Pick<Patient, 'id'> & Partial<Pick<Patient, 'fullName'>>;
+
+// ============================================
+// Name Normalisation
+// ============================================
+
+const SALUTATIONS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'shri', 'sri', 'shree', 'smt', 'kumari', 'km', 'master', 'baby', 'late']);
+
+// Spellings of the same name collapse to one form before comparing
+const NAME_VARIANTS: Record<string, string[]> = {
+  muhammad: ['mohd', 'md', 'mohammad', 'mohammed', 'mohamed', 'mohamad', 'muhammed', 'mohmed', 'mohmad', 'mahmad'],
+  abdul: ['abd', 'abdal', 'abdool'],
+  syed: ['sayed', 'sayyed', 'saiyed', 'sayyad', 'syd'],
+  shaikh: ['sheikh', 'shaik', 'shekh', 'sk'],
+  chaudhary: ['ch', 'chaudhari', 'choudhary', 'choudhari', 'chaudhry', 'chowdhury', 'chowdhary'],
+  kumar: ['kr'],
+  lakshmi: ['laxmi', 'lakshmy', 'laxmy'],
+  srinivas: ['shrinivas', 'sreenivas', 'shreenivas'],
+  fatima: ['fathima', 'fatma'],
+  husain: ['hussain', 'hussein', 'husein', 'hosain'],
+};
+
+const CANONICAL_NAMES = new Map<string, string>(
+  Object.entries(NAME_VARIANTS).flatMap(([canonical, variants]) =>
+    [canonical, ...variants].map((variant) => [variant, canonical] as [string, string]))
+);
+
+// Folds the spelling differences common when Indian names are written in
+// English: aspirated consonants, long vowels, doubled letters, a trailing a
+function foldSpelling(token: string): string {
+  return token
+    .replace(/ph/g, 'f')
+    .replace(/([kgcjtdbs])h/g, '$1')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    .replace(/y/g, 'i')
+    .replace(/ee/g, 'i')
+    .replace(/oo|ou/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(.{3,})a$/, '$1');
+}
+
+function nameTokens(...parts: (string | undefined)[]): string[] {
+  return parts
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !SALUTATIONS.has(token))
+    .map((token) => foldSpelling(CANONICAL_NAMES.get(token) || token));
+}
+
+// Jaro-Winkler similarity, 0-1; rewards a shared start, which suits names
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  // An initial stands in for any name starting with it
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.8 : 0;
+  return jaroWinkler(a, b);
+}
+
+// Pairs every token of the shorter name with its best match in the longer one,
+// so "Kumar Ravi" matches "Ravi Kumar" and a missing middle name costs little
+function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const remaining = [...longer];
+  let total = 0;
+  shorter.forEach((token) => {
+    let best = 0;
+    let bestIndex = -1;
+    remaining.forEach((other, index) => {
+      const similarity = tokenSimilarity(token, other);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) remaining.splice(bestIndex, 1);
+    total += best;
+  });
+  const tokenScore = total / shorter.length;
+  // Extra tokens on one side weigh a little against the match
+  const coverage = shorter.length / longer.length;
+  return tokenScore * (0.85 + 0.15 * coverage);
+}
+
+// ============================================
+// Other Signals
+// ============================================
+
+// Last ten digits, so +91 and spacing variants compare equal
+export function normaliseMobile(mobile: string | undefined): string {
+  const digits = (mobile || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : '';
+}
+
+function ageOf(patient: DuplicateCandidate, now: Date): number | null {
+  if (patient.dateOfBirth) {
+    const dob = new Date(patient.dateOfBirth);
+    if (!isNaN(dob.getTime())) return (now.getTime() - dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+  }
+  return patient.age ? patient.age : null;
+}
+
+function addressTokens(patient: DuplicateCandidate): Set<string> {
+  return new Set(
+    `${patient.address?.street || ''} ${patient.address?.city || ''}`
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 2)
+  );
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+// Scores one pair, 0-100, with the reasons behind the score
+export function scoreDuplicate(
+  candidate: DuplicateCandidate,
+  existing: DuplicateCandidate,
+  now: Date = new Date()
+): { matchScore: number; matchReasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const similarity = nameSimilarity(
+    nameTokens(candidate.firstName, candidate.lastName),
+    nameTokens(existing.firstName, existing.lastName)
+  );
+  if (similarity >= 0.75) {
+    score += Math.round(50 * similarity);
+    reasons.push(similarity >= 0.99 ? 'Name matches' : `Name similarity: ${Math.round(similarity * 100)}%`);
+  }
+
+  const mobiles = [normaliseMobile(candidate.mobileNumber), normaliseMobile(candidate.alternateMobile)];
+  const existingMobiles = [normaliseMobile(existing.mobileNumber), normaliseMobile(existing.alternateMobile)];
+  if (mobiles[0] && mobiles[0] === existingMobiles[0]) {
+    score += 30;
+    reasons.push('Mobile number matches');
+  } else if (mobiles.some((mobile) => mobile && existingMobiles.includes(mobile))) {
+    score += 22;
+    reasons.push('Alternate mobile matches');
+  }
+
+  const dob = candidate.dateOfBirth?.slice(0, 10);
+  const existingDob = existing.dateOfBirth?.slice(0, 10);
+  const age = ageOf(candidate, now);
+  const existingAge = ageOf(existing, now);
+  if (dob && dob === existingDob) {
+    score += 15;
+    reasons.push('Same date of birth');
+  } else if (age !== null && existingAge !== null) {
+    const gap = Math.abs(age - existingAge);
+    if (gap <= 1.5) {
+      score += 8;
+      reasons.push('Age within a year');
+    } else if (gap > 5) {
+      // Same name and mobile but decades apart is usually a parent and child
+      score -= 20;
+      reasons.push(`Age differs by ${Math.round(gap)} years`);
+    }
+  }
+
+  const pincode = candidate.address?.pincode?.trim();
+  if (pincode && pincode === existing.address?.pincode?.trim()) {
+    score += 5;
+    reasons.push('Same pincode');
+  }
+  const street = addressTokens(candidate);
+  const existingStreet = addressTokens(existing);
+  const shared = [...street].filter((token) => existingStreet.has(token)).length;
+  if (shared > 0 && shared / Math.min(street.size, existingStreet.size) >= 0.5) {
+    score += 5;
+    reasons.push('Similar address');
+  }
+
+  // Imports and quick registrations leave gender as "other", which says nothing
+  const gender = candidate.gender !== 'other' ? candidate.gender : undefined;
+  const existingGender = existing.gender !== 'other' ? existing.gender : undefined;
+  if (gender && existingGender && gender !== existingGender) {
+    score -= 20;
+    reasons.push('Different gender');
+  }
+
+  return { matchScore: Math.max(0, Math.min(100, score)), matchReasons: reasons };
+}
+
+function toWarning(candidate: DuplicateCandidate, existing: ScoredPatient, match: ReturnType<typeof scoreDuplicate>): DuplicateWarning {
+  return {
+    patientId: candidate.id || '',
+    matchedPatientId: existing.id,
+    matchedPatientName: existing.fullName || `${existing.firstName} ${existing.lastName || ''}`.trim(),
+    matchedMobile: existing.mobileNumber || '',
+    ...match,
+  };
+}
+
+function byScore(a: DuplicateWarning, b: DuplicateWarning): number {
+  return b.matchScore - a.matchScore;
+}
+
+// Existing patients that may be the candidate, best match first
+export function findDuplicatePatients(
+  candidate: DuplicateCandidate,
+  patients: ScoredPatient[],
+  { threshold = DUPLICATE_THRESHOLD, limit = 10 }: DuplicateOptions = {}
+): DuplicateWarning[] {
+  if (!candidate.firstName?.trim()) return [];
+  const now = new Date();
+  return patients
+    .filter((patient) => patient.id !== candidate.id)
+    .map((patient) => toWarning(candidate, patient, scoreDuplicate(candidate, patient, now)))
+    .filter((warning) => warning.matchScore >= threshold)
+    .sort(byScore)
+    .slice(0, limit);
+}
+
+// ============================================
+// Possible Duplicates Report
+// Only patients sharing a mobile number or a name token are
+// compared, and the work yields to the page every so often
+// ============================================
+
+// A key shared by this many patients (a common surname) is skipped;
+// the other keys still bring real duplicates together
+const MAX_GROUP_SIZE = 300;
+const PAIRS_PER_SLICE = 2000;
+
+function groupingKeys(patient: ScoredPatient): string[] {
+  const keys = [normaliseMobile(patient.mobileNumber), normaliseMobile(patient.alternateMobile)]
+    .filter(Boolean)
+    .map((mobile) => `m:${mobile}`);
+  nameTokens(patient.firstName, patient.lastName)
+    .filter((token) => token.length > 2)
+    .forEach((token) => keys.push(`n:${token.slice(0, 4)}`));
+  return keys;
+}
+
+// Every pair of patients that may be the same person, best match first.
+// onProgress gets the fraction of groups compared so far
+export async function findPossibleDuplicates(
+  patients: ScoredPatient[],
+  { threshold = DUPLICATE_THRESHOLD, onProgress }: { threshold?: number; onProgress?: (done: number) => void } = {}
+): Promise<DuplicateWarning[]> {
+  const groups = new Map<string, ScoredPatient[]>();
+  patients.forEach((patient) => {
+    new Set(groupingKeys(patient)).forEach((key) => groups.set(key, [...(groups.get(key) || []), patient]));
+  });
+
+  const now = new Date();
+  const compared = new Set<string>();
+  const warnings: DuplicateWarning[] = [];
+  const comparable = [...groups.values()].filter((group) => group.length > 1 && group.length <= MAX_GROUP_SIZE);
+  let pairs = 0;
+
+  for (let index = 0; index < comparable.length; index++) {
+    const group = comparable[index];
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = group[i].id < group[j].id ? [group[i], group[j]] : [group[j], group[i]];
+        const pairKey = `${a.id}|${b.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+        const match = scoreDuplicate(a, b, now);
+        if (match.matchScore >= threshold) warnings.push(toWarning(a, b, match));
+        if (++pairs % PAIRS_PER_SLICE === 0) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      }
+    }
+    onProgress?.((index + 1) / comparable.length);
+  }
+
+  return warnings.sort(byScore);
+}
+
+// ============================================
+// Batch Matching
+// For checking many new patients (an import file) against
+// the same list: each is scored only against patients sharing
+// a grouping key, and added ones are matched by later rows
+// ============================================
+
+export interface DuplicateMatcher {
+  find: (candidate: DuplicateCandidate) => DuplicateWarning[];
+  add: (patient: ScoredPatient) => void;
+}
+
+export function createDuplicateMatcher(
+  patients: ScoredPatient[],
+  { threshold = DUPLICATE_THRESHOLD, limit = 10 }: DuplicateOptions = {}
+): DuplicateMatcher {
+  const groups = new Map<string, ScoredPatient[]>();
+  const add = (patient: ScoredPatient) => {
+    new Set(groupingKeys(patient)).forEach((key) => groups.set(key, [...(groups.get(key) || []), patient]));
+  };
+  patients.forEach(add);
+  const now = new Date();
+
+  const find = (candidate: DuplicateCandidate) => {
+    if (!candidate.firstName?.trim()) return [];
+    const nearby = new Map<string, ScoredPatient>();
+    groupingKeys({ ...candidate, id: candidate.id || '' }).forEach((key) => {
+      (groups.get(key) || []).forEach((patient) => nearby.set(patient.id, patient));
+    });
+    return [...nearby.values()]
+      .filter((patient) => patient.id !== candidate.id)
+      .map((patient) => toWarning(candidate, patient, scoreDuplicate(candidate, patient, now)))
+      .filter((warning) => warning.matchScore >= threshold)
+      .sort(byScore)
+      .slice(0, limit);
+  };
+
+  return { find, add };
+}
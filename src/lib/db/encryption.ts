@@ -0,0 +1,425 @@
+// ============================================
+// At-Rest Encryption
+// Optional AES-GCM encryption of every stored record, with
+// the key derived from the doctor's passphrase (PBKDF2).
+// Wraps any StorageBackend, so LocalDatabase keeps working
+// on plain records in memory.
+// ============================================
+
+import { getRecordKey, type RecordWrite, type StorageBackend, type StoredDatabase } from './storage';
+
+// Stored (unencrypted) next to the data it protects, so a re-key
+// replaces the key and every record in a single saveAll
+export const ENCRYPTION_COLLECTION = 'encryptionKeys';
+export const ENCRYPTED_FIELD = '_enc';
+
+const ACTIVE_KEY_ID = 'active';
+const PBKDF2_ITERATIONS = 310000;
+// Known plaintext used to check a passphrase before any record is touched
+const VERIFIER_TEXT = 'pms-encryption-check';
+// Tells other tabs that the key was added, changed or removed
+const CHANNEL_NAME = 'pms_encryption';
+
+export interface EncryptedPayload {
+  kid: string; // Key the payload was encrypted with
+  iv: string; // base64
+  data: string; // base64 ciphertext of the JSON record
+}
+
+export interface EncryptionKeyRecord {
+  id: typeof ACTIVE_KEY_ID;
+  kid: string;
+  salt: string; // base64
+  iterations: number;
+  verifier: EncryptedPayload;
+  createdAt: string;
+}
+
+// Shape of an encrypted record in storage: only the id stays readable
+interface EncryptedRecord {
+  id: string;
+  [ENCRYPTED_FIELD]: EncryptedPayload;
+}
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptText(key: CryptoKey, kid: string, text: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { kid, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decryptText(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return new TextDecoder().decode(data);
+}
+
+async function createKey(passphrase: string): Promise<{ key: CryptoKey; record: EncryptionKeyRecord }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const kid = `key-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    record: {
+      id: ACTIVE_KEY_ID,
+      kid,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptText(key, kid, VERIFIER_TEXT),
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+// Returns the key when the passphrase is right, null otherwise
+async function openKey(record: EncryptionKeyRecord, passphrase: string): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+  try {
+    return (await decryptText(key, record.verifier)) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+function isEncryptedRecord(record: unknown): record is EncryptedRecord {
+  return !!record && typeof record === 'object' && ENCRYPTED_FIELD in record;
+}
+
+async function encryptRecord(record: Record<string, unknown>, key: CryptoKey, kid: string): Promise<Record<string, unknown>> {
+  const id = getRecordKey(record);
+  if (id === null) return record;
+  const encrypted: EncryptedRecord = { id, [ENCRYPTED_FIELD]: await encryptText(key, kid, JSON.stringify(record)) };
+  return encrypted as unknown as Record<string, unknown>;
+}
+
+async function encryptCollections(
+  collections: Record<string, unknown[]>,
+  key: CryptoKey,
+  kid: string
+): Promise<Record<string, unknown[]>> {
+  const encrypted: Record<string, unknown[]> = {};
+  await Promise.all(Object.entries(collections).map(async ([collection, records]) => {
+    if (collection === ENCRYPTION_COLLECTION) return;
+    encrypted[collection] = await Promise.all((records || []).map((record) =>
+      encryptRecord(record as Record<string, unknown>, key, kid)));
+  }));
+  return encrypted;
+}
+
+// Records written before encryption was enabled are read as they are
+async function decryptCollections(
+  collections: Record<string, unknown[]>,
+  key: CryptoKey
+): Promise<Record<string, unknown[]>> {
+  const decrypted: Record<string, unknown[]> = {};
+  await Promise.all(Object.entries(collections).map(async ([collection, records]) => {
+    decrypted[collection] = await Promise.all((records || []).map(async (record) => {
+      if (!isEncryptedRecord(record)) return record;
+      try {
+        return JSON.parse(await decryptText(key, record[ENCRYPTED_FIELD]));
+      } catch {
+        throw new EncryptionError(`Could not decrypt ${collection} record ${record.id}`);
+      }
+    }));
+  }));
+  return decrypted;
+}
+
+// ============================================
+// Encrypted Backend
+// ============================================
+
+export class EncryptedBackend implements StorageBackend {
+  readonly type: StorageBackend['type'];
+  private keyRecord: EncryptionKeyRecord | null = null;
+  private key: CryptoKey | null = null;
+  private unlockWaiter: (() => void) | null = null;
+  private lockListeners = new Set<(locked: boolean) => void>();
+  // Encryption is async; queuing keeps writes reaching the inner backend in call order
+  private queue: Promise<unknown> = Promise.resolve();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(
+    private inner: StorageBackend,
+    // The localStorage backend re-serializes the whole snapshot on every write
+    private getSnapshot: () => StoredDatabase
+  ) {
+    this.type = inner.type;
+    if (typeof BroadcastChannel === 'undefined') return;
+    // A key changed in another tab locks this one until the new passphrase is entered,
+    // so it never writes records under the old key (or in plaintext)
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<{ keyRecord: EncryptionKeyRecord | null }>) => {
+      const keyRecord = event.data?.keyRecord ?? null;
+      if (keyRecord?.kid === this.keyRecord?.kid) return;
+      this.keyRecord = keyRecord;
+      this.key = null;
+      this.notifyLock();
+    };
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  isEnabled(): boolean {
+    return this.keyRecord !== null;
+  }
+
+  isLocked(): boolean {
+    return this.keyRecord !== null && this.key === null;
+  }
+
+  onLockChange(listener: (locked: boolean) => void): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  private notifyLock(): void {
+    const locked = this.isLocked();
+    this.lockListeners.forEach((listener) => listener(locked));
+  }
+
+  // Waits for unlock() when the stored data is encrypted
+  async load(): Promise<StoredDatabase | null> {
+    const saved = await this.inner.load();
+    if (!saved) return null;
+
+    const { [ENCRYPTION_COLLECTION]: keyRecords, ...collections } = saved.collections;
+    this.keyRecord = (keyRecords?.[0] as EncryptionKeyRecord | undefined) || null;
+    if (!this.keyRecord) {
+      return { schemaVersion: saved.schemaVersion, collections };
+    }
+
+    if (!this.key) {
+      this.notifyLock();
+      await new Promise<void>((resolve) => {
+        this.unlockWaiter = resolve;
+      });
+    }
+    return { schemaVersion: saved.schemaVersion, collections: await this.decryptCollections(collections) };
+  }
+
+  // Returns false for a wrong passphrase
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.keyRecord) return true;
+    const key = await openKey(this.keyRecord, passphrase);
+    if (!key) return false;
+    this.key = key;
+    this.unlockWaiter?.();
+    this.unlockWaiter = null;
+    this.notifyLock();
+    return true;
+  }
+
+  // Encrypts everything under a new passphrase
+  enable(passphrase: string, data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.keyRecord) throw new EncryptionError('Encryption is already enabled');
+      await this.replaceKey(passphrase, data);
+    });
+  }
+
+  // Re-encrypts every record under a key derived from the new passphrase
+  rekey(currentPassphrase: string, newPassphrase: string, data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      await this.checkPassphrase(currentPassphrase);
+      await this.replaceKey(newPassphrase, data);
+    });
+  }
+
+  disable(passphrase: string, data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      await this.checkPassphrase(passphrase);
+      await this.inner.saveAll(data);
+      this.keyRecord = null;
+      this.key = null;
+      this.channel?.postMessage({ keyRecord: null });
+    });
+  }
+
+  private async checkPassphrase(passphrase: string): Promise<void> {
+    if (!this.keyRecord) throw new EncryptionError('Encryption is not enabled');
+    if (!(await openKey(this.keyRecord, passphrase))) {
+      throw new EncryptionError('Incorrect passphrase');
+    }
+  }
+
+  // The new key record is saved in the same saveAll as the re-encrypted records,
+  // so storage never holds records the stored key cannot open
+  private async replaceKey(passphrase: string, data: StoredDatabase): Promise<void> {
+    const { key, record } = await createKey(passphrase);
+    const collections = await encryptCollections(data.collections, key, record.kid);
+    await this.inner.saveAll({
+      schemaVersion: data.schemaVersion,
+      collections: { ...collections, [ENCRYPTION_COLLECTION]: [record] },
+    });
+    this.keyRecord = record;
+    this.key = key;
+    this.channel?.postMessage({ keyRecord: record });
+  }
+
+  saveAll(data: StoredDatabase): Promise<void> {
+    return this.enqueue(() => this.saveAllNow(data));
+  }
+
+  private async saveAllNow(data: StoredDatabase): Promise<void> {
+    const active = this.activeKey();
+    if (!active || !this.keyRecord) {
+      await this.inner.saveAll(data);
+      return;
+    }
+    const collections = await encryptCollections(data.collections, active.key, active.kid);
+    await this.inner.saveAll({
+      schemaVersion: data.schemaVersion,
+      collections: { ...collections, [ENCRYPTION_COLLECTION]: [this.keyRecord] },
+    });
+  }
+
+  putRecord(collection: string, record: Record<string, unknown>): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.inner.type === 'localstorage') return this.saveAllNow(this.getSnapshot());
+      const active = this.activeKey();
+      await this.inner.putRecord(collection, active ? await encryptRecord(record, active.key, active.kid) : record);
+    });
+  }
+
+  deleteRecord(collection: string, id: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.inner.type === 'localstorage') return this.saveAllNow(this.getSnapshot());
+      await this.inner.deleteRecord(collection, id);
+    });
+  }
+
+  writeBatch(writes: RecordWrite[]): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.inner.type === 'localstorage') return this.saveAllNow(this.getSnapshot());
+      const active = this.activeKey();
+      const encrypted = await Promise.all(writes.map(async (write): Promise<RecordWrite> =>
+        write.type === 'put' && active
+          ? { ...write, record: await encryptRecord(write.record, active.key, active.kid) }
+          : write));
+      await this.inner.writeBatch(encrypted);
+    });
+  }
+
+  saveBackup(label: string, data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      await this.inner.saveBackup(label, await this.sealBackup(data));
+    });
+  }
+
+  rewriteBackups(transform: (data: StoredDatabase) => Promise<StoredDatabase>): Promise<void> {
+    return this.enqueue(() => this.inner.rewriteBackups(transform));
+  }
+
+  // Encrypts copies that `target` (by default the wrapped backend) kept while
+  // encryption was off. Copies already encrypted keep the key they were made with
+  sealBackups(target: StorageBackend = this.inner): Promise<void> {
+    return this.enqueue(() => target.rewriteBackups((data) => this.sealBackup(data)));
+  }
+
+  private async sealBackup(data: StoredDatabase): Promise<StoredDatabase> {
+    const active = this.activeKey();
+    if (!active || !this.keyRecord || data.collections[ENCRYPTION_COLLECTION]) return data;
+    const collections = await encryptCollections(data.collections, active.key, active.kid);
+    return {
+      schemaVersion: data.schemaVersion,
+      collections: { ...collections, [ENCRYPTION_COLLECTION]: [this.keyRecord] },
+    };
+  }
+
+  // For records kept outside this backend (the archive), under the same key
+  async sealRecords(records: Record<string, unknown>[]): Promise<Record<string, unknown>[]> {
+    const active = this.activeKey();
+    if (!active) return records;
+    return Promise.all(records.map((record) => encryptRecord(record, active.key, active.kid)));
+  }
+
+  async openRecords(collection: string, records: unknown[]): Promise<unknown[]> {
+    if (!records.some(isEncryptedRecord)) return records;
+    return (await this.decryptCollections({ [collection]: records }))[collection];
+  }
+
+  // Copies collections for use away from this browser (backup archives), sealed
+  // under the current key with the key record that opens them. Null while encryption is off
+  async sealCollections(
+    collections: Record<string, unknown[]>
+  ): Promise<{ collections: Record<string, unknown[]>; keyRecord: EncryptionKeyRecord } | null> {
+    const active = this.activeKey();
+    if (!active || !this.keyRecord) return null;
+    return { collections: await encryptCollections(collections, active.key, active.kid), keyRecord: this.keyRecord };
+  }
+
+  // True when collections sealed under this key record open without a passphrase
+  hasKey(keyRecord: EncryptionKeyRecord): boolean {
+    return !!this.key && keyRecord.kid === this.keyRecord?.kid;
+  }
+
+  // Opens sealCollections output with the current key, or with the passphrase
+  // in use when it was sealed
+  async openCollections(
+    collections: Record<string, unknown[]>,
+    keyRecord: EncryptionKeyRecord,
+    passphrase?: string
+  ): Promise<Record<string, unknown[]>> {
+    const key = this.hasKey(keyRecord) ? this.key : passphrase ? await openKey(keyRecord, passphrase) : null;
+    if (!key) {
+      throw new EncryptionError(passphrase ? 'Incorrect passphrase' : 'The passphrase this was encrypted with is needed');
+    }
+    return decryptCollections(collections, key);
+  }
+
+  // Null while encryption is off; throws if it is on but not unlocked yet
+  private activeKey(): { key: CryptoKey; kid: string } | null {
+    if (!this.keyRecord) return null;
+    if (!this.key) throw new EncryptionError('Database is locked');
+    return { key: this.key, kid: this.keyRecord.kid };
+  }
+
+  private async decryptCollections(collections: Record<string, unknown[]>): Promise<Record<string, unknown[]>> {
+    if (!this.key) throw new EncryptionError('Database is locked');
+    return decryptCollections(collections, this.key);
+  }
+}
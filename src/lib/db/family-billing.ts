@@ -0,0 +1,172 @@
+// ============================================
+// Family Billing
+// Outstanding fees and medicine bills of every member
+// of a household, collected in one payment, and a
+// consolidated statement for a date range
+// ============================================
+
+import { appointmentDb, billingQueueDb, billingReceiptDb, db, householdDb, medicineBillDb } from './database';
+import type { BillingQueueItem, BillingReceipt, MedicineBill } from './schema';
+import type { Patient } from '@/types';
+
+export type FamilyPaymentMethod = 'cash' | 'card' | 'upi' | 'cheque';
+
+export interface FamilyOutstanding {
+  feeItems: BillingQueueItem[];
+  medicineBills: MedicineBill[];
+  total: number;
+}
+
+export interface FamilyPayment {
+  familyPaymentId: string;
+  receipts: BillingReceipt[];
+  medicineBills: MedicineBill[];
+  total: number;
+}
+
+export interface FamilyStatementEntry {
+  id: string;
+  date: Date;
+  patientId: string;
+  patientName: string;
+  kind: 'fee' | 'medicine';
+  reference: string; // Receipt number, or the bill id for medicine bills
+  description: string;
+  amount: number;
+  paid: number;
+}
+
+export interface FamilyStatement {
+  from: Date;
+  to: Date;
+  entries: FamilyStatementEntry[];
+  totalBilled: number;
+  totalPaid: number;
+  outstanding: number; // As of now, across all dates
+}
+
+function memberIds(householdId: string): string[] {
+  return householdDb.getMembers(householdId).map((member) => member.patient.id);
+}
+
+export function medicineBillPending(bill: MedicineBill): number {
+  return Math.max(0, bill.grandTotal - (bill.amountPaid || 0));
+}
+
+// Same rules as the billing screen's pending lists
+function isFeeOutstanding(item: BillingQueueItem): boolean {
+  return (item.status === 'pending' || item.paymentStatus === 'pending' || item.paymentStatus === 'partial') &&
+    item.paymentStatus !== 'exempt' &&
+    item.netAmount > 0;
+}
+
+function isBillOutstanding(bill: MedicineBill): boolean {
+  return (bill.paymentStatus === 'pending' || bill.paymentStatus === 'partial') && medicineBillPending(bill) > 0;
+}
+
+export function getFamilyOutstanding(householdId: string): FamilyOutstanding {
+  const ids = memberIds(householdId);
+  const feeItems = ids.flatMap((id) => billingQueueDb.getByPatient(id) as BillingQueueItem[]).filter(isFeeOutstanding);
+  const medicineBills = ids.flatMap((id) => medicineBillDb.getByPatientId(id) as MedicineBill[]).filter(isBillOutstanding);
+  const total = feeItems.reduce((sum, item) => sum + item.netAmount, 0) +
+    medicineBills.reduce((sum, bill) => sum + medicineBillPending(bill), 0);
+  return { feeItems, medicineBills, total };
+}
+
+// Settles everything outstanding for the family. Each fee still gets its own receipt,
+// so per-patient history and reports are unchanged; familyPaymentId ties them together
+export function collectFamilyPayment(householdId: string, paymentMethod: FamilyPaymentMethod): FamilyPayment {
+  const { feeItems, medicineBills, total } = getFamilyOutstanding(householdId);
+  const familyPaymentId = `family-${Date.now()}`;
+  const paidAt = new Date();
+
+  return db.transaction(() => {
+    const receipts = feeItems.map((item) => {
+      const receiptNumber = billingQueueDb.generateReceiptNumber();
+      const receipt = billingReceiptDb.create({
+        receiptNumber,
+        billingQueueId: item.id,
+        patientId: item.patientId,
+        visitId: item.visitId,
+        items: [{ description: item.feeType, quantity: 1, unitPrice: item.feeAmount, total: item.feeAmount }],
+        subtotal: item.feeAmount,
+        discountPercent: item.discountPercent,
+        discountAmount: item.discountAmount,
+        netAmount: item.netAmount,
+        paymentMethod,
+        paymentStatus: 'paid',
+        householdId,
+        familyPaymentId,
+      }) as unknown as BillingReceipt;
+      billingQueueDb.update(item.id, {
+        status: 'paid',
+        paymentStatus: 'paid',
+        paymentMethod,
+        receiptNumber,
+        paidAt,
+      });
+      if (item.appointmentId) {
+        appointmentDb.update(item.appointmentId, { feeStatus: 'paid', feeAmount: item.feeAmount, feeType: item.feeType });
+      }
+      return receipt;
+    });
+
+    const bills = medicineBills.map((bill) => medicineBillDb.update(bill.id, {
+      amountPaid: bill.grandTotal,
+      pendingAmount: 0,
+      paymentStatus: 'paid',
+      familyPaymentId,
+    }) as unknown as MedicineBill);
+
+    return { familyPaymentId, receipts, medicineBills: bills, total };
+  });
+}
+
+export function getFamilyStatement(householdId: string, from: Date, to: Date): FamilyStatement {
+  const members = householdDb.getMembers(householdId).map((member) => member.patient);
+  const names = new Map(members.map((patient: Patient) => [patient.id, patient.fullName]));
+  const inRange = (date: Date | string) => {
+    const time = new Date(date).getTime();
+    return time >= from.getTime() && time <= to.getTime();
+  };
+
+  const entries: FamilyStatementEntry[] = [];
+  members.forEach((patient) => {
+    (billingReceiptDb.getByPatient(patient.id) as BillingReceipt[])
+      .filter((receipt) => inRange(receipt.createdAt))
+      .forEach((receipt) => entries.push({
+        id: receipt.id,
+        date: new Date(receipt.createdAt),
+        patientId: patient.id,
+        patientName: names.get(patient.id) || '',
+        kind: 'fee',
+        reference: receipt.receiptNumber,
+        description: receipt.items.map((item) => item.description).join(', ') || 'Consultation',
+        amount: receipt.netAmount,
+        paid: receipt.paymentStatus === 'paid' ? receipt.netAmount : 0,
+      }));
+    (medicineBillDb.getByPatientId(patient.id) as MedicineBill[])
+      .filter((bill) => inRange(bill.createdAt))
+      .forEach((bill) => entries.push({
+        id: bill.id,
+        date: new Date(bill.createdAt),
+        patientId: patient.id,
+        patientName: names.get(patient.id) || '',
+        kind: 'medicine',
+        reference: bill.id.slice(-6).toUpperCase(),
+        description: `Medicines (${bill.items.length})`,
+        amount: bill.grandTotal,
+        paid: bill.paymentStatus === 'paid' ? bill.grandTotal : bill.amountPaid || 0,
+      }));
+  });
+  entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return {
+    from,
+    to,
+    entries,
+    totalBilled: entries.reduce((sum, entry) => sum + entry.amount, 0),
+    totalPaid: entries.reduce((sum, entry) => sum + entry.paid, 0),
+    outstanding: getFamilyOutstanding(householdId).total,
+  };
+}
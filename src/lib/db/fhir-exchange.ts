@@ -0,0 +1,419 @@
+// ============================================
+// FHIR Exchange
+// A patient's whole record exported as a FHIR R4 Bundle
+// (Patient/$everything), and Bundles from other systems
+// imported. An import is all or nothing: the Bundle is
+// validated and every reference resolved before anything is
+// written. Patients are matched by registration number and
+// other resources by id, so importing the same Bundle twice
+// adds nothing the second time
+// ============================================
+
+import { archiveDb, db } from './database';
+import { mergeArchived } from './archive';
+import { renumberVisits } from './history-import';
+import { ageFromDate } from './patient-import';
+import {
+  FHIR_SYSTEMS,
+  fileTypeFromContentType,
+  fromFhirEncounterMode,
+  fromFhirEncounterStatus,
+  fromFhirGender,
+  fromFhirMaritalStatus,
+  fromFhirVitalObservation,
+  readExtension,
+  toFhirDocumentReference,
+  toFhirEncounter,
+  toFhirMedicationRequest,
+  toFhirPatient,
+  toFhirVitalObservations,
+  validateBundle,
+  type FhirBundle,
+  type FhirBundleEntry,
+  type FhirDocumentReference,
+  type FhirEncounter,
+  type FhirMedicationRequest,
+  type FhirObservation,
+  type FhirPatient,
+  type FhirReference,
+  type FhirResource,
+  type FhirValidationIssue,
+} from '@/lib/fhir';
+import type { Investigation, Patient, Visit } from '@/types';
+import type { DoctorPrescription } from './schema';
+
+const BLOOD_GROUPS: NonNullable<Patient['bloodGroup']>[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+export class FhirImportError extends Error {
+  constructor(message: string, public issues: FhirValidationIssue[]) {
+    super(message);
+    this.name = 'FhirImportError';
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+// Archived visits and prescriptions are included; baseUrl makes fullUrls and file links absolute
+export async function exportPatientEverything(patientId: string, { baseUrl = '' }: { baseUrl?: string } = {}): Promise<FhirBundle | undefined> {
+  const patient = db.getById<Patient>('patients', patientId);
+  if (!patient) return undefined;
+
+  const archived = await archiveDb.getPatientHistory(patientId);
+  const visits = mergeArchived(db.findBy<Visit>('visits', 'patientId', patientId), archived.visits)
+    .sort((a, b) => new Date(a.visitDate).getTime() - new Date(b.visitDate).getTime());
+  const visitsById = new Map(visits.map((visit) => [visit.id, visit]));
+  const prescriptions = mergeArchived(db.findBy<DoctorPrescription>('prescriptions', 'patientId', patientId), archived.prescriptions)
+    .filter((prescription) => visitsById.has(prescription.visitId))
+    .sort((a, b) => a.rowOrder - b.rowOrder);
+  const investigations = db.findBy<Investigation>('investigations', 'patientId', patientId);
+
+  const resources: FhirResource[] = [
+    toFhirPatient(patient),
+    ...visits.flatMap((visit) => [toFhirEncounter(visit), ...toFhirVitalObservations(visit)]),
+    ...prescriptions.map((prescription) => toFhirMedicationRequest(prescription, visitsById.get(prescription.visitId)!)),
+    ...investigations.map((investigation) => toFhirDocumentReference(investigation, baseUrl || undefined)),
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    id: `everything-${patient.id}-${Date.now()}`,
+    type: 'searchset',
+    timestamp: new Date().toISOString(),
+    total: resources.length,
+    entry: resources.map((resource) => ({
+      fullUrl: `${baseUrl}/api/fhir/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: resource.resourceType === 'Patient' ? 'match' : 'include' },
+    })),
+  };
+}
+
+// ============================================
+// Import
+// ============================================
+
+export interface FhirImportCounts {
+  patients: number;
+  visits: number;
+  prescriptions: number;
+  vitals: number;
+  investigations: number;
+}
+
+export interface FhirImportResult {
+  dryRun: boolean;
+  created: FhirImportCounts;
+  existing: FhirImportCounts; // Already here, left as they are
+  warnings: FhirValidationIssue[];
+  patientIds: string[]; // Every patient the Bundle touched
+}
+
+function emptyCounts(): FhirImportCounts {
+  return { patients: 0, visits: 0, prescriptions: 0, vitals: 0, investigations: 0 };
+}
+
+interface EntryRef {
+  entry: FhirBundleEntry;
+  index: number;
+}
+
+// "Patient/123", an absolute URL ending in it, or a urn:uuid fullUrl
+function referenceKeys(entry: FhirBundleEntry): string[] {
+  const resource = entry.resource as FhirResource;
+  return [entry.fullUrl, resource.id ? `${resource.resourceType}/${resource.id}` : undefined].filter(Boolean) as string[];
+}
+
+function referenceTarget(ref: FhirReference | undefined, type: string): string[] {
+  const value = ref?.reference;
+  if (!value) return [];
+  const relative = value.match(new RegExp(`(?:^|/)(${type}/[^/]+)$`));
+  return relative ? [value, relative[1]] : [value];
+}
+
+export async function importFhirBundle(
+  input: unknown,
+  { importedBy, dryRun = false }: { importedBy: string; dryRun?: boolean }
+): Promise<FhirImportResult> {
+  const issues = validateBundle(input);
+  const fail = () => {
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) throw new FhirImportError(`The Bundle has ${errors.length} error(s)`, issues);
+  };
+  fail();
+
+  const bundle = input as FhirBundle;
+  const entries: EntryRef[] = bundle.entry!.map((entry, index) => ({ entry, index }));
+  const ofType = <T extends FhirResource>(type: T['resourceType']) =>
+    entries.filter(({ entry }) => entry.resource?.resourceType === type) as (EntryRef & { entry: { resource: T } })[];
+  const byKey = new Map<string, EntryRef>();
+  entries.forEach((ref) => {
+    if ((ref.entry.resource as FhirResource | undefined)?.resourceType) referenceKeys(ref.entry).forEach((key) => byKey.set(key, ref));
+  });
+  const error = (index: number, field: string, message: string) =>
+    issues.push({ severity: 'error', path: `Bundle.entry[${index}].resource.${field}`, message });
+
+  const created = emptyCounts();
+  const existing = emptyCounts();
+
+  // Patients: an existing patient with the same registration number (or id) is used as is
+  const patientIds = new Map<number, string>(); // Entry index -> patient id
+  const newPatients = new Map<string, Record<string, unknown>>(); // Placeholder (or kept) id -> patient
+  const allPatients = db.getAll<Patient>('patients', { includeDeleted: true });
+  const takenNumbers = new Set(allPatients.map((patient) => patient.registrationNumber.toLowerCase()));
+  ofType<FhirPatient>('Patient').forEach(({ entry, index }) => {
+    const resource = entry.resource;
+    const regNumber = resource.identifier?.find((identifier) => identifier.system === FHIR_SYSTEMS.registrationNumber)?.value;
+    const match = allPatients.find((patient) => !patient.deletedAt && regNumber && patient.registrationNumber === regNumber) ||
+      (!regNumber ? allPatients.find((patient) => !patient.deletedAt && patient.id === resource.id) : undefined);
+    if (match) {
+      patientIds.set(index, match.id);
+      existing.patients++;
+      return;
+    }
+
+    const name = resource.name![0];
+    const firstName = name.given?.join(' ') || name.family || name.text || '';
+    const lastName = name.given?.length ? name.family || '' : '';
+    const phones = (resource.telecom || []).filter((telecom) => telecom.system === 'phone' && telecom.value)
+      .sort((a, b) => (a.rank ?? 99) - (b.rank ?? 99));
+    const address = resource.address?.[0];
+    const list = (name: string) => (resource.extension || [])
+      .filter((ext) => ext.url === `${FHIR_SYSTEMS.extension}/${name}` && ext.valueString)
+      .map((ext) => ext.valueString!);
+    const id = resource.id && !allPatients.some((patient) => patient.id === resource.id) ? resource.id : undefined;
+    const keepNumber = regNumber && !takenNumbers.has(regNumber.toLowerCase());
+    if (keepNumber) takenNumbers.add(regNumber.toLowerCase());
+
+    const patient: Record<string, unknown> = {
+      ...(id ? { id } : {}),
+      registrationNumber: keepNumber ? regNumber : undefined,
+      salutation: name.prefix?.[0],
+      firstName,
+      lastName,
+      fullName: name.text || `${firstName} ${lastName}`.trim(),
+      dateOfBirth: resource.birthDate?.length === 10 ? resource.birthDate : '',
+      age: resource.birthDate ? ageFromDate(resource.birthDate) : 0,
+      gender: fromFhirGender(resource.gender),
+      mobileNumber: phones[0]?.value || '',
+      alternateMobile: phones[1]?.value,
+      email: resource.telecom?.find((telecom) => telecom.system === 'email')?.value,
+      address: address
+        ? { street: address.line?.join(', ') || '', city: address.city || '', state: address.state || '', pincode: address.postalCode || '', country: address.country || '' }
+        : undefined,
+      bloodGroup: BLOOD_GROUPS.find((group) => group === readExtension(resource, 'blood-group')),
+      occupation: readExtension(resource, 'occupation'),
+      maritalStatus: fromFhirMaritalStatus(resource.maritalStatus),
+      tags: [],
+      feeExempt: false,
+      privacySettings: {
+        hideMentalSymptoms: false,
+        hideDiagnosis: false,
+        hidePrognosis: false,
+        hideFees: false,
+        hideCaseNotes: false,
+      },
+      medicalHistory: list('medical-history'),
+      allergies: list('allergy'),
+      createdBy: importedBy,
+    };
+    if (regNumber && !keepNumber) {
+      issues.push({ severity: 'warning', path: `Bundle.entry[${index}].resource.identifier`, message: `Registration number ${regNumber} is taken; a new one is assigned` });
+    }
+    const placeholder = id || `new-patient-${index}`;
+    newPatients.set(placeholder, patient);
+    patientIds.set(index, placeholder);
+    created.patients++;
+  });
+
+  const resolvePatient = (ref: FhirReference | undefined, index: number, field: string): string | undefined => {
+    for (const key of referenceTarget(ref, 'Patient')) {
+      const target = byKey.get(key);
+      if (target && patientIds.has(target.index)) return patientIds.get(target.index);
+      const id = key.startsWith('Patient/') ? key.slice('Patient/'.length) : undefined;
+      if (id && db.getById<Patient>('patients', id)) return id;
+    }
+    error(index, field, `Patient ${ref?.reference} is neither in the Bundle nor in this clinic`);
+    return undefined;
+  };
+
+  // Visits: an existing visit with the same id for the same patient is left alone
+  const visitIds = new Map<number, string>();
+  const newVisits = new Map<string, Record<string, unknown>>();
+  const existingVisitUpdates = new Map<string, Record<string, unknown>>();
+  ofType<FhirEncounter>('Encounter').forEach(({ entry, index }) => {
+    const resource = entry.resource;
+    const patientId = resolvePatient(resource.subject, index, 'subject');
+    if (!patientId) return;
+    const current = resource.id ? db.getById<Visit>('visits', resource.id) : undefined;
+    if (current && current.patientId === patientId) {
+      visitIds.set(index, current.id);
+      existing.visits++;
+      return;
+    }
+
+    const id = resource.id && !current ? resource.id : `new-visit-${index}`;
+    const nextVisit = readExtension(resource, 'next-visit');
+    newVisits.set(id, {
+      patientId,
+      visitNumber: 0, // Set by renumberVisits
+      visitDate: new Date(resource.period!.start!),
+      doctorName: resource.participant?.[0]?.individual?.display,
+      mode: fromFhirEncounterMode(resource),
+      status: fromFhirEncounterStatus(resource),
+      chiefComplaint: resource.reasonCode?.map((reason) => reason.text || reason.coding?.[0]?.display).filter(Boolean).join('; ') || undefined,
+      diagnosis: readExtension(resource, 'diagnosis'),
+      caseText: readExtension(resource, 'case-notes'),
+      advice: readExtension(resource, 'advice'),
+      prognosis: readExtension(resource, 'prognosis'),
+      testsRequired: readExtension(resource, 'tests-required'),
+      notes: readExtension(resource, 'notes'),
+      nextVisit: nextVisit ? new Date(nextVisit) : undefined,
+      isSelfRepeat: fromFhirEncounterMode(resource) === 'self-repeat',
+    });
+    visitIds.set(index, id);
+    created.visits++;
+  });
+
+  const resolveVisit = (ref: FhirReference | undefined, patientId: string, index: number, field: string): string | undefined => {
+    for (const key of referenceTarget(ref, 'Encounter')) {
+      const target = byKey.get(key);
+      if (target && visitIds.has(target.index)) return visitIds.get(target.index);
+      const id = key.startsWith('Encounter/') ? key.slice('Encounter/'.length) : undefined;
+      const visit = id ? db.getById<Visit>('visits', id) : undefined;
+      if (visit && visit.patientId === patientId) return visit.id;
+    }
+    error(index, field, `Encounter ${ref?.reference} is neither in the Bundle nor a visit of this patient`);
+    return undefined;
+  };
+
+  // Vitals land on their visit; a visit already here only has empty vitals filled
+  ofType<FhirObservation>('Observation').forEach(({ entry, index }) => {
+    const vital = fromFhirVitalObservation(entry.resource);
+    if (!vital) return;
+    const patientId = resolvePatient(entry.resource.subject, index, 'subject');
+    const visitId = patientId && resolveVisit(entry.resource.encounter, patientId, index, 'encounter');
+    if (!visitId) return;
+    const draft = newVisits.get(visitId);
+    if (draft) {
+      draft[vital.field] = vital.value;
+      created.vitals++;
+    } else if (!db.getById<Visit>('visits', visitId)![vital.field]) {
+      existingVisitUpdates.set(visitId, { ...existingVisitUpdates.get(visitId), [vital.field]: vital.value });
+      created.vitals++;
+    } else {
+      existing.vitals++;
+    }
+  });
+
+  const newPrescriptions: Record<string, unknown>[] = [];
+  ofType<FhirMedicationRequest>('MedicationRequest').forEach(({ entry, index }) => {
+    const resource = entry.resource;
+    const patientId = resolvePatient(resource.subject, index, 'subject');
+    const visitId = patientId && resolveVisit(resource.encounter, patientId, index, 'encounter');
+    if (!patientId || !visitId) return;
+    const current = resource.id ? db.getById<DoctorPrescription>('prescriptions', resource.id) : undefined;
+    if (current && current.patientId === patientId) {
+      existing.prescriptions++;
+      return;
+    }
+    const dosage = resource.dosageInstruction?.[0];
+    const durationDays = resource.dispenseRequest?.expectedSupplyDuration?.value;
+    const combination = readExtension(resource, 'combination');
+    newPrescriptions.push({
+      ...(resource.id && !current ? { id: resource.id } : {}),
+      visitId,
+      patientId,
+      medicine: resource.medicationCodeableConcept!.text || resource.medicationCodeableConcept!.coding!.find((coding) => coding.display)!.display,
+      potency: readExtension(resource, 'potency'),
+      quantity: readExtension(resource, 'quantity') || '',
+      doseForm: readExtension(resource, 'dose-form'),
+      dosePattern: dosage?.text,
+      frequency: dosage?.timing?.code?.text,
+      duration: readExtension(resource, 'duration') || (durationDays ? `${durationDays} days` : undefined),
+      durationDays,
+      bottles: readExtension(resource, 'bottles') ? Number(readExtension(resource, 'bottles')) : undefined,
+      instructions: dosage?.patientInstruction,
+      rowOrder: dosage?.sequence ? dosage.sequence - 1 : newPrescriptions.filter((rx) => rx.visitId === visitId).length,
+      isCombination: combination ? true : undefined,
+      combinationName: combination,
+      combinationContent: readExtension(resource, 'combination-content'),
+    });
+    created.prescriptions++;
+  });
+
+  const newInvestigations: Record<string, unknown>[] = [];
+  ofType<FhirDocumentReference>('DocumentReference').forEach(({ entry, index }) => {
+    const resource = entry.resource;
+    const patientId = resolvePatient(resource.subject, index, 'subject');
+    if (!patientId) return;
+    const encounter = resource.context?.encounter?.[0];
+    const visitId = encounter ? resolveVisit(encounter, patientId, index, 'context.encounter') : undefined;
+    const current = resource.id ? db.getById<Investigation>('investigations', resource.id) : undefined;
+    if (current && current.patientId === patientId) {
+      existing.investigations++;
+      return;
+    }
+    const attachment = resource.content[0].attachment;
+    const fileName = attachment.title || attachment.url!.split('/').pop() || 'document';
+    newInvestigations.push({
+      ...(resource.id && !current ? { id: resource.id } : {}),
+      patientId,
+      visitId,
+      fileName,
+      fileType: fileTypeFromContentType(attachment.contentType, fileName),
+      fileSize: attachment.size || 0,
+      fileUrl: attachment.url,
+      title: resource.type?.text || resource.description || fileName,
+      description: resource.description,
+      investigationDate: new Date(resource.context?.period?.start || attachment.creation || resource.date || Date.now()),
+      uploadedBy: resource.author?.[0]?.display || importedBy,
+      uploadedAt: new Date(resource.date || Date.now()),
+    });
+    created.investigations++;
+  });
+
+  fail();
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+  const touchedPatients = new Set(patientIds.values());
+  if (dryRun) return { dryRun, created, existing, warnings, patientIds: [...touchedPatients] };
+
+  // Placeholder ids of new patients and visits become real ids as they are created
+  const realIds = new Map<string, string>();
+  const real = (id: unknown) => realIds.get(id as string) || (id as string);
+  db.transaction(() => {
+    newPatients.forEach((patient, placeholder) => {
+      const saved = db.create('patients', {
+        ...patient,
+        registrationNumber: (patient.registrationNumber as string | undefined) || db.generateRegNumber(),
+      });
+      realIds.set(placeholder, saved.id);
+    });
+    newVisits.forEach((visit, placeholder) => {
+      const patient = db.getById<Patient>('patients', real(visit.patientId))!;
+      const saved = db.create('visits', {
+        ...visit,
+        ...(placeholder.startsWith('new-visit-') ? {} : { id: placeholder }),
+        patientId: patient.id,
+        registrationNumber: patient.registrationNumber,
+      });
+      realIds.set(placeholder, saved.id);
+    });
+    existingVisitUpdates.forEach((updates, visitId) => db.update('visits', visitId, updates));
+    newPrescriptions.forEach((prescription) => db.create('prescriptions', {
+      ...prescription,
+      visitId: real(prescription.visitId),
+      patientId: real(prescription.patientId),
+    }));
+    newInvestigations.forEach((investigation) => db.create('investigations', {
+      ...investigation,
+      visitId: investigation.visitId ? real(investigation.visitId) : undefined,
+      patientId: real(investigation.patientId),
+    }));
+  });
+
+  const ids = [...touchedPatients].map(real);
+  if (created.visits > 0) await renumberVisits(ids);
+  return { dryRun, created, existing, warnings, patientIds: ids };
+}
@@ -0,0 +1,470 @@
+// ============================================
+// Visit History Import
+// Visits and prescription lines exported from another
+// homeopathy package, one spreadsheet row per prescription
+// line (or per visit). Rows are linked to patients by
+// registration number and grouped into visits by date (and
+// the old system's visit id, when exported). Visits already
+// brought in by an earlier import are topped up rather than
+// repeated, so a visits file and a prescriptions file can be
+// imported one after the other. Afterwards each patient's
+// visits are renumbered in date order
+// ============================================
+
+import { db } from './database';
+import { mergeArchived } from './archive';
+import { parseImportDate } from './patient-import';
+import { headerKey, suggestColumnMapping, type ImportFieldDefinition, type Spreadsheet } from '@/lib/spreadsheet';
+import type { Patient, Visit } from '@/types';
+import type { DoctorPrescription } from './schema';
+
+export const HISTORY_IMPORTS_COLLECTION = 'historyImports';
+export const IMPORT_TEMPLATES_COLLECTION = 'importTemplates';
+
+type VisitField =
+  | 'chiefComplaint'
+  | 'caseText'
+  | 'diagnosis'
+  | 'advice'
+  | 'prognosis'
+  | 'notes'
+  | 'doctorName'
+  | 'bp'
+  | 'pulse'
+  | 'tempF'
+  | 'weightKg';
+
+type PrescriptionField =
+  | 'medicine'
+  | 'potency'
+  | 'quantity'
+  | 'doseForm'
+  | 'dosePattern'
+  | 'frequency'
+  | 'duration'
+  | 'instructions';
+
+export type HistoryImportField =
+  | 'registrationNumber'
+  | 'visitDate'
+  | 'visitTime'
+  | 'visitRef'
+  | 'nextVisit'
+  | VisitField
+  | PrescriptionField;
+
+export const HISTORY_IMPORT_FIELDS: ImportFieldDefinition<HistoryImportField>[] = [
+  { field: 'registrationNumber', label: 'Registration Number', aliases: ['regd no', 'reg no', 'registration number', 'registration no', 'patient id', 'uhid'] },
+  { field: 'visitDate', label: 'Visit Date', aliases: ['visit date', 'date', 'consultation date', 'date of visit'] },
+  { field: 'visitTime', label: 'Visit Time', aliases: ['visit time', 'time'] },
+  { field: 'visitRef', label: 'Old Visit ID', aliases: ['visit id', 'visit no', 'visit number', 'case id', 'consultation id'] },
+  { field: 'chiefComplaint', label: 'Complaint', aliases: ['complaint', 'chief complaint', 'complaints', 'presenting complaint', 'symptoms'] },
+  { field: 'caseText', label: 'Case Notes', aliases: ['case', 'case notes', 'case text', 'case taking', 'history'] },
+  { field: 'diagnosis', label: 'Diagnosis', aliases: ['diagnosis', 'disease', 'dx'] },
+  { field: 'advice', label: 'Advice', aliases: ['advice', 'advise', 'diet'] },
+  { field: 'prognosis', label: 'Prognosis', aliases: ['prognosis', 'progress', 'response'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+  { field: 'doctorName', label: 'Doctor', aliases: ['doctor', 'doctor name', 'consultant', 'physician'] },
+  { field: 'bp', label: 'BP', aliases: ['bp', 'blood pressure'] },
+  { field: 'pulse', label: 'Pulse', aliases: ['pulse', 'pulse rate', 'heart rate'] },
+  { field: 'tempF', label: 'Temperature (F)', aliases: ['temp', 'temperature'] },
+  { field: 'weightKg', label: 'Weight (kg)', aliases: ['weight', 'wt', 'weight kg'] },
+  { field: 'nextVisit', label: 'Next Visit', aliases: ['next visit', 'follow up', 'followup date', 'review date'] },
+  { field: 'medicine', label: 'Medicine', aliases: ['medicine', 'remedy', 'drug', 'medicine name', 'remedy name'] },
+  { field: 'potency', label: 'Potency', aliases: ['potency', 'power', 'strength'] },
+  { field: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty'] },
+  { field: 'doseForm', label: 'Dose Form', aliases: ['dose form', 'form'] },
+  { field: 'dosePattern', label: 'Dose', aliases: ['dose', 'dosage', 'dose pattern'] },
+  { field: 'frequency', label: 'Frequency', aliases: ['frequency', 'repetition', 'times'] },
+  { field: 'duration', label: 'Duration', aliases: ['duration', 'days', 'period'] },
+  { field: 'instructions', label: 'Instructions', aliases: ['instructions', 'directions', 'rx notes'] },
+];
+
+const VISIT_FIELDS: VisitField[] = ['chiefComplaint', 'caseText', 'diagnosis', 'advice', 'prognosis', 'notes', 'doctorName', 'bp', 'pulse', 'tempF', 'weightKg'];
+const PRESCRIPTION_FIELDS: PrescriptionField[] = ['potency', 'quantity', 'doseForm', 'dosePattern', 'frequency', 'duration', 'instructions'];
+
+export type HistoryColumnMapping = (HistoryImportField | '')[];
+
+export type HistoryPrescriptionDraft = Pick<DoctorPrescription, 'medicine' | 'quantity'> &
+  Partial<Pick<DoctorPrescription, PrescriptionField | 'durationDays'>>;
+
+export interface HistoryVisitDraft {
+  patient: Patient;
+  visitDate: string; // YYYY-MM-DD
+  visitTime?: string;
+  visitRef?: string;
+  nextVisit?: string;
+  fields: Partial<Pick<Visit, VisitField>>;
+  prescriptions: HistoryPrescriptionDraft[];
+  rowNumbers: number[];
+  existingVisitId?: string; // Visit of an earlier history import this tops up
+}
+
+export interface HistoryRowIssue {
+  rowNumber: number;
+  errors: string[]; // The row is left out
+  warnings: string[];
+}
+
+export interface HistoryPreview {
+  rowCount: number;
+  errorRows: number;
+  issues: HistoryRowIssue[]; // Only rows with errors or warnings
+  visits: HistoryVisitDraft[];
+  prescriptionCount: number;
+  patientCount: number;
+}
+
+export interface HistoryImportResult {
+  dryRun: boolean;
+  importId?: string;
+  visitsCreated: number;
+  visitsUpdated: number;
+  prescriptionsCreated: number;
+  prescriptionsSkipped: number; // Already on the visit from an earlier import
+  patientsRenumbered: number;
+}
+
+export interface HistoryImport {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  importedBy: string;
+  rowCount: number;
+  visitIds: string[]; // Created by this import
+  prescriptionIds: string[];
+}
+
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  kind: 'history';
+  columns: Record<string, string>; // Header (as headerKey) -> field
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
+
+// ============================================
+// Mapping & Templates
+// ============================================
+
+export function suggestHistoryMapping(headers: string[]): HistoryColumnMapping {
+  return suggestColumnMapping(headers, HISTORY_IMPORT_FIELDS);
+}
+
+export function getImportTemplates(): ImportTemplate[] {
+  return db.getAll<ImportTemplate>(IMPORT_TEMPLATES_COLLECTION)
+    .filter((template) => template.kind === 'history')
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Saving under an existing name replaces that template
+export function saveImportTemplate(name: string, headers: string[], mapping: HistoryColumnMapping): ImportTemplate {
+  const columns = Object.fromEntries(
+    headers.map((header, index) => [headerKey(header), mapping[index]]).filter(([, field]) => field)
+  );
+  const existing = getImportTemplates().find((template) => template.name.toLowerCase() === name.toLowerCase());
+  if (existing) {
+    return db.update<ImportTemplate>(IMPORT_TEMPLATES_COLLECTION, existing.id, { columns })!;
+  }
+  return db.create(IMPORT_TEMPLATES_COLLECTION, { name, kind: 'history', columns }) as unknown as ImportTemplate;
+}
+
+export function deleteImportTemplate(id: string): boolean {
+  return db.delete(IMPORT_TEMPLATES_COLLECTION, id);
+}
+
+// Columns the template does not know are left unmapped
+export function applyImportTemplate(template: ImportTemplate, headers: string[]): HistoryColumnMapping {
+  const known = new Set<string>(HISTORY_IMPORT_FIELDS.map(({ field }) => field));
+  return headers.map((header) => {
+    const field = template.columns[headerKey(header)];
+    return field && known.has(field) ? (field as HistoryImportField) : '';
+  });
+}
+
+// ============================================
+// Preview
+// ============================================
+
+// "7 days", "2 weeks", "1 month"; a bare number is days
+function durationInDays(duration: string): number | undefined {
+  const match = duration.trim().match(/^(\d+)\s*([a-z]*)/i);
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase();
+  const count = Number(match[1]);
+  if (unit.startsWith('w')) return count * 7;
+  if (unit.startsWith('m')) return count * 30;
+  return count;
+}
+
+function dayOf(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+}
+
+function sameMedicine(a: HistoryPrescriptionDraft, b: HistoryPrescriptionDraft): boolean {
+  const key = (rx: HistoryPrescriptionDraft) =>
+    [rx.medicine, rx.potency, rx.dosePattern, rx.duration].map((part) => (part || '').trim().toLowerCase()).join('|');
+  return key(a) === key(b);
+}
+
+// Archived records of a collection that are not soft-deleted; empty without an archive
+async function readArchived<T extends { deletedAt?: Date }>(collection: string): Promise<T[]> {
+  const archive = db.getArchive();
+  return archive ? (await archive.read<T>(collection)).filter((record) => !record.deletedAt) : [];
+}
+
+export async function previewHistoryImport(sheet: Spreadsheet, mapping: HistoryColumnMapping): Promise<HistoryPreview> {
+  if (!mapping.includes('registrationNumber')) throw new HistoryImportError('Map a column to Registration Number');
+  if (!mapping.includes('visitDate')) throw new HistoryImportError('Map a column to Visit Date');
+
+  const patients = new Map(
+    db.getAll<Patient>('patients').map((patient) => [patient.registrationNumber.trim().toLowerCase(), patient])
+  );
+  // Visits of an earlier import may have been archived since
+  const visitsByPatient = new Map<string, Visit[]>();
+  mergeArchived(db.getAll<Visit>('visits'), await readArchived<Visit>('visits')).forEach((visit) => {
+    visitsByPatient.set(visit.patientId, [...(visitsByPatient.get(visit.patientId) || []), visit]);
+  });
+
+  const issues: HistoryRowIssue[] = [];
+  const visits = new Map<string, HistoryVisitDraft>();
+
+  sheet.rows.forEach((cells, index) => {
+    const rowNumber = sheet.rowNumbers[index] ?? index + 2;
+    const issue: HistoryRowIssue = { rowNumber, errors: [], warnings: [] };
+    const value = (field: HistoryImportField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? (cells[column] || '').trim() : '';
+    };
+
+    const regNumber = value('registrationNumber');
+    const patient = regNumber ? patients.get(regNumber.toLowerCase()) : undefined;
+    if (!regNumber) issue.errors.push('Registration number is missing');
+    else if (!patient) issue.errors.push(`No patient with registration number ${regNumber}`);
+
+    let visitDate: string | undefined;
+    try {
+      visitDate = value('visitDate') ? parseImportDate(value('visitDate')) : undefined;
+      if (!visitDate) issue.errors.push('Visit date is missing');
+    } catch (error) {
+      issue.errors.push(error instanceof Error ? error.message : String(error));
+    }
+    let nextVisit: string | undefined;
+    try {
+      nextVisit = value('nextVisit') ? parseImportDate(value('nextVisit'), { allowFuture: true }) : undefined;
+    } catch (error) {
+      issue.warnings.push(`${error instanceof Error ? error.message : String(error)}; next visit left empty`);
+    }
+    const visitTime = value('visitTime');
+    if (visitTime && !/^\d{1,2}:\d{2}/.test(visitTime)) issue.warnings.push(`Visit time "${visitTime}" is not HH:MM; left empty`);
+
+    if (!patient || !visitDate) {
+      issues.push(issue);
+      return;
+    }
+
+    const visitRef = value('visitRef') || undefined;
+    const key = `${patient.id}|${visitDate}|${visitRef || ''}`;
+    let draft = visits.get(key);
+    if (!draft) {
+      const sameDay = (visitsByPatient.get(patient.id) || []).filter((visit) => dayOf(visit.visitDate) === visitDate);
+      const earlierImport = sameDay.find((visit) => visit.historyImportId && (visit.legacyVisitRef || undefined) === visitRef);
+      if (!earlierImport && sameDay.length > 0) {
+        issue.warnings.push(`${patient.fullName} already has a visit on ${visitDate}; this is added as another visit`);
+      }
+      draft = {
+        patient,
+        visitDate,
+        visitTime: /^\d{1,2}:\d{2}/.test(visitTime) ? visitTime.slice(0, 5).padStart(5, '0') : undefined,
+        visitRef,
+        nextVisit,
+        fields: {},
+        prescriptions: [],
+        rowNumbers: [],
+        existingVisitId: earlierImport?.id,
+      };
+      visits.set(key, draft);
+    }
+    draft.rowNumbers.push(rowNumber);
+
+    // Flat exports repeat the visit's details on every prescription line; the first value is kept
+    VISIT_FIELDS.forEach((field) => {
+      if (!draft!.fields[field] && value(field)) draft!.fields[field] = value(field);
+    });
+
+    const medicine = value('medicine');
+    if (medicine) {
+      const prescription: HistoryPrescriptionDraft = { medicine, quantity: value('quantity') };
+      PRESCRIPTION_FIELDS.forEach((field) => {
+        if (field !== 'quantity' && value(field)) prescription[field] = value(field);
+      });
+      if (prescription.duration) prescription.durationDays = durationInDays(prescription.duration);
+      draft.prescriptions.push(prescription);
+    } else if (PRESCRIPTION_FIELDS.some((field) => value(field))) {
+      issue.warnings.push('Prescription details without a medicine name are left out');
+    }
+
+    if (issue.warnings.length > 0) issues.push(issue);
+  });
+
+  const drafts = [...visits.values()].sort((a, b) => a.visitDate.localeCompare(b.visitDate));
+  return {
+    rowCount: sheet.rows.length,
+    errorRows: issues.filter((issue) => issue.errors.length > 0).length,
+    issues,
+    visits: drafts,
+    prescriptionCount: drafts.reduce((sum, draft) => sum + draft.prescriptions.length, 0),
+    patientCount: new Set(drafts.map((draft) => draft.patient.id)).size,
+  };
+}
+
+// ============================================
+// Import
+// ============================================
+
+// Numbers every patient's visits 1, 2, 3... by date, archived visits included.
+// Returns how many patients had a visit renumbered
+export async function renumberVisits(patientIds: string[]): Promise<number> {
+  const ids = new Set(patientIds);
+  const archive = db.getArchive();
+  const archived = archive ? (await archive.read<Visit>('visits')).filter((visit) => ids.has(visit.patientId)) : [];
+  const hot = db.getAll<Visit>('visits').filter((visit) => ids.has(visit.patientId));
+  const hotIds = new Set(hot.map((visit) => visit.id));
+
+  const byPatient = new Map<string, { visit: Visit; archived: boolean }[]>();
+  [...hot.map((visit) => ({ visit, archived: false })), ...archived.filter((visit) => !hotIds.has(visit.id)).map((visit) => ({ visit, archived: true }))]
+    .forEach((entry) => byPatient.set(entry.visit.patientId, [...(byPatient.get(entry.visit.patientId) || []), entry]));
+
+  const archiveUpdates: Visit[] = [];
+  const renumbered = new Set<string>();
+  db.transaction(() => {
+    byPatient.forEach((entries, patientId) => {
+      entries
+        .sort((a, b) =>
+          new Date(a.visit.visitDate).getTime() - new Date(b.visit.visitDate).getTime() ||
+          new Date(a.visit.createdAt).getTime() - new Date(b.visit.createdAt).getTime())
+        .forEach(({ visit, archived: isArchived }, index) => {
+          if (visit.visitNumber === index + 1) return;
+          renumbered.add(patientId);
+          if (isArchived) archiveUpdates.push({ ...visit, visitNumber: index + 1 });
+          else db.update('visits', visit.id, { visitNumber: index + 1 });
+        });
+    });
+  });
+  if (archive && archiveUpdates.length > 0) await archive.add({ visits: archiveUpdates });
+  return renumbered.size;
+}
+
+export async function runHistoryImport(
+  preview: HistoryPreview,
+  { fileName, importedBy, dryRun = false }: { fileName: string; importedBy: string; dryRun?: boolean }
+): Promise<HistoryImportResult> {
+  const result: HistoryImportResult = {
+    dryRun,
+    visitsCreated: 0,
+    visitsUpdated: 0,
+    prescriptionsCreated: 0,
+    prescriptionsSkipped: 0,
+    patientsRenumbered: 0,
+  };
+  // Visits being topped up may have been archived, or deleted, since the preview
+  const archived = preview.visits.some((draft) => draft.existingVisitId && !db.getById('visits', draft.existingVisitId))
+    ? { visits: await readArchived<Visit>('visits'), prescriptions: await readArchived<DoctorPrescription>('prescriptions') }
+    : { visits: [], prescriptions: [] };
+  const archivedVisits = new Map(archived.visits.map((visit) => [visit.id, visit]));
+  const existingPrescriptions = (visitId: string) => mergeArchived(
+    db.findBy<DoctorPrescription>('prescriptions', 'visitId', visitId),
+    archived.prescriptions.filter((prescription) => prescription.visitId === visitId)
+  ) as HistoryPrescriptionDraft[];
+
+  // Prescriptions an earlier import already put on the visit are not added twice
+  const plan = preview.visits.map((draft) => {
+    const hot = draft.existingVisitId ? db.getById<Visit>('visits', draft.existingVisitId) : undefined;
+    const cold = draft.existingVisitId ? archivedVisits.get(draft.existingVisitId) : undefined;
+    // Gone from both since the preview: imported as a new visit
+    const existing = hot ? { visit: hot, archived: false } : cold ? { visit: cold, archived: true } : undefined;
+    const already = existing ? existingPrescriptions(existing.visit.id) : [];
+    const fresh = draft.prescriptions.filter((rx) => !already.some((prior) => sameMedicine(prior, rx)));
+    result.prescriptionsSkipped += draft.prescriptions.length - fresh.length;
+    return { draft, existing, prescriptions: fresh, rowOffset: already.length };
+  });
+  result.visitsCreated = plan.filter(({ existing }) => !existing).length;
+  result.visitsUpdated = plan.length - result.visitsCreated;
+  result.prescriptionsCreated = plan.reduce((sum, { prescriptions }) => sum + prescriptions.length, 0);
+  if (dryRun) return result;
+
+  const importId = `history-${Date.now()}`;
+  const record: HistoryImport = {
+    id: importId,
+    fileName,
+    importedAt: new Date().toISOString(),
+    importedBy,
+    rowCount: preview.rowCount,
+    visitIds: [],
+    prescriptionIds: [],
+  };
+
+  const archiveUpdates: Visit[] = [];
+  db.transaction(() => {
+    plan.forEach(({ draft, existing, prescriptions, rowOffset }) => {
+      let visitId = existing?.visit.id;
+      if (existing) {
+        // Only fills what the earlier import left empty
+        const missing = Object.fromEntries(
+          Object.entries(draft.fields).filter(([field]) => !existing.visit[field as VisitField])
+        );
+        if (Object.keys(missing).length > 0) {
+          if (existing.archived) archiveUpdates.push({ ...existing.visit, ...missing, updatedAt: new Date() });
+          else db.update('visits', existing.visit.id, missing);
+        }
+      } else {
+        const visit = db.create('visits', {
+          ...draft.fields,
+          patientId: draft.patient.id,
+          registrationNumber: draft.patient.registrationNumber,
+          visitNumber: 0, // Set by renumberVisits below
+          visitDate: new Date(`${draft.visitDate}T${draft.visitTime || '00:00'}`),
+          visitTime: draft.visitTime,
+          nextVisit: draft.nextVisit ? new Date(draft.nextVisit) : undefined,
+          mode: 'in-person',
+          status: 'completed',
+          isSelfRepeat: false,
+          historyImportId: importId,
+          legacyVisitRef: draft.visitRef,
+        }) as unknown as Visit;
+        visitId = visit.id;
+        record.visitIds.push(visit.id);
+      }
+
+      prescriptions.forEach((prescription, index) => {
+        const created = db.create('prescriptions', {
+          ...prescription,
+          visitId,
+          patientId: draft.patient.id,
+          rowOrder: rowOffset + index,
+        });
+        record.prescriptionIds.push(created.id as string);
+      });
+    });
+    db.create(HISTORY_IMPORTS_COLLECTION, record as unknown as Record<string, unknown>);
+  });
+  if (archiveUpdates.length > 0) await db.getArchive()?.add({ visits: archiveUpdates });
+
+  result.importId = importId;
+  result.patientsRenumbered = await renumberVisits([...new Set(preview.visits.map((draft) => draft.patient.id))]);
+  return result;
+}
+
+export function getHistoryImports(): HistoryImport[] {
+  return db.getAll<HistoryImport>(HISTORY_IMPORTS_COLLECTION)
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
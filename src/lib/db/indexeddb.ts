@@ -0,0 +1,240 @@
+// ============================================
+// IndexedDB Storage Backend
+// One object store per collection, keyed by record id,
+// so each create/update/delete writes a single record
+// ============================================
+
+import { getRecordKey, type RecordWrite, type StorageBackend, type StoredDatabase } from './storage';
+
+const META_STORE = '_meta';
+const BACKUP_STORE = '_backups';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly type = 'indexeddb' as const;
+  private connection: Promise<IDBDatabase> | null = null;
+  // Every operation runs in order; object stores can only be added by
+  // reopening at a higher version, which must not race other writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private name: string) {}
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private open(version?: number, newStores: string[] = []): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = version ? indexedDB.open(this.name, version) : indexedDB.open(this.name);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        [META_STORE, BACKUP_STORE, ...newStores].forEach((storeName) => {
+          if (!database.objectStoreNames.contains(storeName)) {
+            database.createObjectStore(storeName);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        // Another tab needs a newer version: let go so its upgrade can proceed
+        database.onversionchange = () => {
+          database.close();
+          this.connection = null;
+        };
+        resolve(database);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+    });
+  }
+
+  private async getConnection(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = this.open();
+    }
+    const database = await this.connection;
+    if (!database.objectStoreNames.contains(META_STORE) || !database.objectStoreNames.contains(BACKUP_STORE)) {
+      return this.ensureStores([META_STORE, BACKUP_STORE]);
+    }
+    return database;
+  }
+
+  private async ensureStores(collections: string[]): Promise<IDBDatabase> {
+    const database = await (this.connection || (this.connection = this.open()));
+    const missing = collections.filter((name) => !database.objectStoreNames.contains(name));
+    if (missing.length === 0) return database;
+
+    database.close();
+    this.connection = this.open(database.version + 1, missing);
+    return this.connection;
+  }
+
+  load(): Promise<StoredDatabase | null> {
+    return this.enqueue(async () => {
+      const database = await this.getConnection();
+      const storeNames = Array.from(database.objectStoreNames).filter((name) => name !== BACKUP_STORE);
+      const tx = database.transaction(storeNames, 'readonly');
+
+      const collections: Record<string, unknown[]> = {};
+      let schemaVersion: string | null = null;
+      let hasData = false;
+
+      await Promise.all(storeNames.map(async (storeName) => {
+        const store = tx.objectStore(storeName);
+        if (storeName === META_STORE) {
+          const version = await requestToPromise(store.get(SCHEMA_VERSION_KEY));
+          schemaVersion = typeof version === 'string' ? version : null;
+          return;
+        }
+        collections[storeName] = await requestToPromise(store.getAll());
+        hasData = true;
+      }));
+      await transactionDone(tx);
+
+      if (!hasData && schemaVersion === null) return null;
+      return { schemaVersion, collections };
+    });
+  }
+
+  // Reads only the named collections; ones never written come back empty
+  loadCollections(collections: string[]): Promise<Record<string, unknown[]>> {
+    return this.enqueue(async () => {
+      const database = await this.getConnection();
+      const result: Record<string, unknown[]> = {};
+      collections.forEach((collection) => {
+        result[collection] = [];
+      });
+      const existing = collections.filter((collection) => database.objectStoreNames.contains(collection));
+      if (existing.length === 0) return result;
+
+      const tx = database.transaction(existing, 'readonly');
+      await Promise.all(existing.map(async (collection) => {
+        result[collection] = await requestToPromise(tx.objectStore(collection).getAll());
+      }));
+      await transactionDone(tx);
+      return result;
+    });
+  }
+
+  saveAll(data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      const collectionNames = Object.keys(data.collections);
+      const database = await this.ensureStores([META_STORE, ...collectionNames]);
+      const storeNames = Array.from(database.objectStoreNames).filter((name) => name !== BACKUP_STORE);
+      const tx = database.transaction(storeNames, 'readwrite');
+
+      storeNames.forEach((storeName) => {
+        if (storeName === META_STORE) return;
+        const store = tx.objectStore(storeName);
+        store.clear();
+        (data.collections[storeName] || []).forEach((record) => {
+          const key = getRecordKey(record);
+          if (key === null) {
+            console.warn(`Skipping ${storeName} record without id`, record);
+            return;
+          }
+          store.put(record, key);
+        });
+      });
+      tx.objectStore(META_STORE).put(data.schemaVersion, SCHEMA_VERSION_KEY);
+
+      await transactionDone(tx);
+    });
+  }
+
+  putRecord(collection: string, record: Record<string, unknown>): Promise<void> {
+    return this.enqueue(async () => {
+      const key = getRecordKey(record);
+      if (key === null) throw new Error(`Cannot store ${collection} record without id`);
+      const database = await this.ensureStores([collection]);
+      const tx = database.transaction(collection, 'readwrite');
+      tx.objectStore(collection).put(record, key);
+      await transactionDone(tx);
+    });
+  }
+
+  deleteRecord(collection: string, id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const database = await this.getConnection();
+      if (!database.objectStoreNames.contains(collection)) return;
+      const tx = database.transaction(collection, 'readwrite');
+      tx.objectStore(collection).delete(id);
+      await transactionDone(tx);
+    });
+  }
+
+  // All writes share one IndexedDB transaction, so an error aborts every one of them
+  writeBatch(writes: RecordWrite[]): Promise<void> {
+    return this.enqueue(async () => {
+      if (writes.length === 0) return;
+      const collections = Array.from(new Set(writes.map((write) => write.collection)));
+      const database = await this.ensureStores(collections);
+      const tx = database.transaction(collections, 'readwrite');
+
+      writes.forEach((write) => {
+        const store = tx.objectStore(write.collection);
+        if (write.type === 'delete') {
+          store.delete(write.id);
+          return;
+        }
+        const key = getRecordKey(write.record);
+        if (key === null) {
+          tx.abort();
+          throw new Error(`Cannot store ${write.collection} record without id`);
+        }
+        store.put(write.record, key);
+      });
+
+      await transactionDone(tx);
+    });
+  }
+
+  saveBackup(label: string, data: StoredDatabase): Promise<void> {
+    return this.enqueue(async () => {
+      const database = await this.getConnection();
+      const tx = database.transaction(BACKUP_STORE, 'readwrite');
+      tx.objectStore(BACKUP_STORE).put({ label, createdAt: new Date(), data }, label);
+      await transactionDone(tx);
+    });
+  }
+
+  // A transaction cannot stay open across the transform, so copies are read and written in two
+  rewriteBackups(transform: (data: StoredDatabase) => Promise<StoredDatabase>): Promise<void> {
+    return this.enqueue(async () => {
+      const database = await this.getConnection();
+      const readTx = database.transaction(BACKUP_STORE, 'readonly');
+      const store = readTx.objectStore(BACKUP_STORE);
+      const [keys, entries] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()) as Promise<Array<{ label: string; createdAt: Date; data: StoredDatabase }>>,
+      ]);
+      await transactionDone(readTx);
+
+      const rewritten = await Promise.all(entries.map(async (entry) => ({ ...entry, data: await transform(entry.data) })));
+      const tx = database.transaction(BACKUP_STORE, 'readwrite');
+      rewritten.forEach((entry, i) => tx.objectStore(BACKUP_STORE).put(entry, keys[i]));
+      await transactionDone(tx);
+    });
+  }
+}
@@ -0,0 +1,129 @@
+// ============================================
+// Secondary Indexes
+// Declared per collection and maintained by LocalDatabase
+// on every write, so lookups by foreign key avoid full scans
+// ============================================
+
+export interface IndexDefinition {
+  field: string;
+  // 'date' indexes key by calendar day (YYYY-MM-DD, UTC) like the date filters in database.ts
+  type?: 'value' | 'date';
+}
+
+export const collectionIndexes: Record<string, IndexDefinition[]> = {
+  patients: [{ field: 'registrationNumber' }, { field: 'mobileNumber' }],
+  visits: [{ field: 'patientId' }],
+  prescriptions: [{ field: 'visitId' }, { field: 'patientId' }],
+  investigations: [{ field: 'patientId' }],
+  voiceNotes: [{ field: 'patientId' }],
+  feeHistory: [{ field: 'patientId' }],
+  appointments: [{ field: 'patientId' }, { field: 'appointmentDate', type: 'date' }],
+  queueItems: [{ field: 'queueConfigId' }, { field: 'appointmentId' }],
+  pharmacy: [{ field: 'visitId' }, { field: 'patientId' }],
+  billingQueue: [{ field: 'patientId' }, { field: 'visitId' }, { field: 'status' }],
+  billingReceipts: [{ field: 'patientId' }, { field: 'receiptNumber' }, { field: 'billingQueueId' }],
+  medicineBills: [{ field: 'patientId' }, { field: 'visitId' }, { field: 'billingQueueId' }],
+  materiaMedicaBookPages: [{ field: 'bookId' }],
+  materiaMedicaSearchIndex: [{ field: 'word' }, { field: 'bookId' }],
+  revisions: [{ field: 'recordId' }, { field: 'visitId' }, { field: 'patientId' }],
+};
+
+export function toIndexKey(value: unknown, type: IndexDefinition['type'] = 'value'): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (type === 'date') {
+    const date = value instanceof Date ? value : new Date(value as string);
+    if (isNaN(date.getTime())) return undefined;
+    return date.toISOString().split('T')[0];
+  }
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// Field -> key -> ids for one collection
+export class CollectionIndex {
+  private maps = new Map<string, Map<string, Set<string>>>();
+  // Every record by id with its position in the collection, so matches are read without a scan
+  private records = new Map<string, { record: Record<string, unknown>; position: number }>();
+  private nextPosition = 0;
+
+  constructor(private definitions: IndexDefinition[]) {
+    definitions.forEach((definition) => this.maps.set(definition.field, new Map()));
+  }
+
+  hasField(field: string): boolean {
+    return this.maps.has(field);
+  }
+
+  getDefinition(field: string): IndexDefinition | undefined {
+    return this.definitions.find((definition) => definition.field === field);
+  }
+
+  private addKey(field: string, key: string | undefined, id: string): void {
+    if (key === undefined) return;
+    const map = this.maps.get(field)!;
+    let ids = map.get(key);
+    if (!ids) {
+      ids = new Set();
+      map.set(key, ids);
+    }
+    ids.add(id);
+  }
+
+  private removeKey(field: string, key: string | undefined, id: string): void {
+    if (key === undefined) return;
+    const map = this.maps.get(field)!;
+    const ids = map.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) map.delete(key);
+  }
+
+  add(id: string, record: Record<string, unknown>): void {
+    this.records.set(id, { record, position: this.nextPosition++ });
+    this.definitions.forEach(({ field, type }) => {
+      this.addKey(field, toIndexKey(record[field], type), id);
+    });
+  }
+
+  remove(id: string, record: Record<string, unknown>): void {
+    this.records.delete(id);
+    this.definitions.forEach(({ field, type }) => {
+      this.removeKey(field, toIndexKey(record[field], type), id);
+    });
+  }
+
+  // Only fields whose key changed are touched, so lookups keep insertion order
+  update(id: string, before: Record<string, unknown>, after: Record<string, unknown>): void {
+    const entry = this.records.get(id);
+    this.records.set(id, { record: after, position: entry ? entry.position : this.nextPosition++ });
+    this.definitions.forEach(({ field, type }) => {
+      const oldKey = toIndexKey(before[field], type);
+      const newKey = toIndexKey(after[field], type);
+      if (oldKey === newKey) return;
+      this.removeKey(field, oldKey, id);
+      this.addKey(field, newKey, id);
+    });
+  }
+
+  lookup(field: string, value: unknown): Set<string> {
+    const definition = this.getDefinition(field);
+    const key = toIndexKey(value, definition?.type);
+    if (key === undefined) return new Set();
+    return this.maps.get(field)?.get(key) || new Set();
+  }
+
+  // The records with these ids, in collection order
+  pick(ids: Set<string>): Record<string, unknown>[] {
+    const entries: { record: Record<string, unknown>; position: number }[] = [];
+    ids.forEach((id) => {
+      const entry = this.records.get(id);
+      if (entry) entries.push(entry);
+    });
+    return entries.sort((a, b) => a.position - b.position).map((entry) => entry.record);
+  }
+
+  clear(): void {
+    this.maps.forEach((map) => map.clear());
+    this.records.clear();
+  }
+}
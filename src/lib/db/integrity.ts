@@ -0,0 +1,327 @@
+// ============================================
+// Data Integrity Checker
+// Walks the references between collections and the
+// registration/receipt number uniqueness rules, and
+// repairs what can be repaired without losing data
+// ============================================
+
+import { db } from './database';
+import type { Appointment, Patient, QueueItem, SoftDeleteFields, Visit } from '@/types';
+import type { BillingQueueItem, BillingReceipt, DoctorPrescription, PharmacyQueueItem } from './schema';
+
+export type IntegrityRule =
+  | 'visit-patient'
+  | 'prescription-visit'
+  | 'prescription-patient'
+  | 'billing-visit'
+  | 'billing-prescriptions'
+  | 'queue-appointment'
+  | 'pharmacy-visit'
+  | 'pharmacy-prescriptions'
+  | 'duplicate-registration'
+  | 'duplicate-receipt';
+
+export const INTEGRITY_RULE_LABELS: Record<IntegrityRule, string> = {
+  'visit-patient': 'Visits without a patient',
+  'prescription-visit': 'Prescriptions for deleted visits',
+  'prescription-patient': 'Prescriptions without a patient',
+  'billing-visit': 'Billing items for deleted visits',
+  'billing-prescriptions': 'Billing items with stale prescriptions',
+  'queue-appointment': 'Queue entries for cancelled appointments',
+  'pharmacy-visit': 'Pharmacy items for deleted visits',
+  'pharmacy-prescriptions': 'Pharmacy items with stale prescriptions',
+  'duplicate-registration': 'Duplicate registration numbers',
+  'duplicate-receipt': 'Duplicate receipt numbers',
+};
+
+// A single write that resolves an issue. Deletes go through db.delete, so
+// clinical and financial records land in the recycle bin rather than vanishing
+export interface IntegrityFix {
+  type: 'delete' | 'update';
+  collection: string;
+  recordId: string;
+  updates?: Record<string, unknown>;
+  description: string;
+  recordUpdatedAt?: string; // The record's updatedAt when scanned, to spot later edits
+}
+
+export interface IntegrityIssue {
+  id: string; // Stable across scans: rule + collection + record
+  rule: IntegrityRule;
+  severity: 'error' | 'warning';
+  collection: string;
+  recordId: string;
+  message: string;
+  // Missing when the issue needs a person to decide (e.g. which patient keeps a number)
+  fix?: IntegrityFix;
+}
+
+export interface IntegrityReport {
+  scannedAt: Date;
+  recordCounts: Record<string, number>;
+  issues: IntegrityIssue[];
+}
+
+export interface RepairResult {
+  dryRun: boolean;
+  applied: IntegrityFix[];
+  // Fixes whose record changed or disappeared since the scan
+  skipped: IntegrityFix[];
+}
+
+const ACTIVE_QUEUE_STATUSES: QueueItem['status'][] = ['waiting', 'in-consultation'];
+const CLOSED_APPOINTMENT_STATUSES: Appointment['status'][] = ['cancelled', 'no-show'];
+const CLOSED_PHARMACY_STATUSES = ['delivered', 'stopped'];
+
+// Every record of a collection, soft-deleted ones included, keyed by id
+function indexById<T extends { id: string }>(collection: string): Map<string, T> {
+  return new Map(db.getAll<T>(collection, { includeDeleted: true }).map((record) => [record.id, record]));
+}
+
+function isLive(record: SoftDeleteFields | undefined): boolean {
+  return !!record && !record.deletedAt;
+}
+
+function updatedAtOf(collection: string, recordId: string): string | undefined {
+  const record = db.getById<{ updatedAt?: Date | string }>(collection, recordId);
+  return record?.updatedAt ? new Date(record.updatedAt).toISOString() : undefined;
+}
+
+function issue(
+  rule: IntegrityRule,
+  severity: IntegrityIssue['severity'],
+  collection: string,
+  recordId: string,
+  message: string,
+  fix?: Omit<IntegrityFix, 'collection' | 'recordId'>
+): IntegrityIssue {
+  return {
+    id: `${rule}:${collection}:${recordId}`,
+    rule,
+    severity,
+    collection,
+    recordId,
+    message,
+    fix: fix && { ...fix, collection, recordId, recordUpdatedAt: updatedAtOf(collection, recordId) },
+  };
+}
+
+// Records sharing a value of key (trimmed, case-insensitive), grouped by that value
+function findDuplicates<T extends { id: string }>(records: T[], key: (record: T) => string | undefined): T[][] {
+  const groups = new Map<string, T[]>();
+  records.forEach((record) => {
+    const value = key(record)?.trim().toUpperCase();
+    if (!value) return;
+    groups.set(value, [...(groups.get(value) || []), record]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+function checkVisits(patients: Map<string, Patient>, visits: Visit[]): IntegrityIssue[] {
+  return visits
+    .filter((visit) => !patients.has(visit.patientId))
+    .map((visit) => issue('visit-patient', 'error', 'visits', visit.id,
+      `Visit #${visit.visitNumber} on ${new Date(visit.visitDate).toLocaleDateString()} belongs to patient ${visit.patientId}, who no longer exists`));
+}
+
+function checkPrescriptions(
+  patients: Map<string, Patient>,
+  visits: Map<string, Visit>,
+  prescriptions: DoctorPrescription[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  prescriptions.forEach((prescription) => {
+    const visit = visits.get(prescription.visitId);
+    if (!isLive(visit)) {
+      issues.push(issue('prescription-visit', 'error', 'prescriptions', prescription.id,
+        `${prescription.medicine} points at visit ${prescription.visitId}, which ${visit ? 'was deleted' : 'does not exist'}`,
+        { type: 'delete', description: 'Move the prescription to the recycle bin' }));
+    }
+    if (!patients.has(prescription.patientId)) {
+      issues.push(issue('prescription-patient', 'error', 'prescriptions', prescription.id,
+        `${prescription.medicine} belongs to patient ${prescription.patientId}, who no longer exists`));
+    }
+  });
+  return issues;
+}
+
+// Ids in the list that do not point at a live prescription
+function staleIds(ids: string[] | undefined, prescriptions: Map<string, DoctorPrescription>): string[] {
+  return (ids || []).filter((id) => !isLive(prescriptions.get(id)));
+}
+
+function checkBillingQueue(
+  visits: Map<string, Visit>,
+  prescriptions: Map<string, DoctorPrescription>,
+  items: BillingQueueItem[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  items.forEach((item) => {
+    if (item.visitId && !isLive(visits.get(item.visitId))) {
+      // Paid items are financial history and stay, even without their visit
+      const unpaid = item.status === 'pending' && item.paymentStatus === 'pending';
+      issues.push(issue('billing-visit', unpaid ? 'error' : 'warning', 'billingQueue', item.id,
+        `Billing item (₹${item.netAmount}, ${item.status}) points at visit ${item.visitId}, which ${visits.has(item.visitId) ? 'was deleted' : 'does not exist'}`,
+        unpaid ? { type: 'delete', description: 'Remove the unpaid billing item' } : undefined));
+    }
+    const stale = staleIds(item.prescriptionIds, prescriptions);
+    if (stale.length > 0) {
+      issues.push(issue('billing-prescriptions', 'warning', 'billingQueue', item.id,
+        `${stale.length} of ${item.prescriptionIds.length} prescriptions on this billing item no longer exist`,
+        {
+          type: 'update',
+          updates: { prescriptionIds: item.prescriptionIds.filter((id) => !stale.includes(id)) },
+          description: `Drop ${stale.length} stale prescription reference(s)`,
+        }));
+    }
+  });
+  return issues;
+}
+
+function checkQueueItems(appointments: Map<string, Appointment>, items: QueueItem[]): IntegrityIssue[] {
+  return items
+    .filter((item) => item.appointmentId && ACTIVE_QUEUE_STATUSES.includes(item.status))
+    .flatMap((item) => {
+      const appointment = appointments.get(item.appointmentId!);
+      if (appointment && !CLOSED_APPOINTMENT_STATUSES.includes(appointment.status)) return [];
+      const status: QueueItem['status'] = appointment?.status === 'no-show' ? 'no-show' : 'skipped';
+      return [issue('queue-appointment', 'warning', 'queueItems', item.id,
+        `Token ${item.tokenNumber} for ${item.patientName} is still ${item.status}, but its appointment ${appointment ? `was marked ${appointment.status}` : 'does not exist'}`,
+        { type: 'update', updates: { status }, description: `Mark the queue entry as ${status}` })];
+    });
+}
+
+function checkPharmacy(
+  visits: Map<string, Visit>,
+  prescriptions: Map<string, DoctorPrescription>,
+  items: PharmacyQueueItem[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  items.forEach((item) => {
+    const open = !CLOSED_PHARMACY_STATUSES.includes(item.status);
+    if (!isLive(visits.get(item.visitId))) {
+      issues.push(issue('pharmacy-visit', open ? 'error' : 'warning', 'pharmacy', item.id,
+        `Pharmacy item (${item.status}) points at visit ${item.visitId}, which ${visits.has(item.visitId) ? 'was deleted' : 'does not exist'}`,
+        open ? {
+          type: 'update',
+          updates: { status: 'stopped', stopReason: 'Visit no longer exists', updatedAt: new Date() },
+          description: 'Stop the pharmacy item',
+        } : undefined));
+    }
+    const stale = staleIds(item.prescriptionIds, prescriptions);
+    const stalePrepared = staleIds(item.preparedPrescriptionIds, prescriptions);
+    if (stale.length > 0 || stalePrepared.length > 0) {
+      const updates: Record<string, unknown> = { updatedAt: new Date() };
+      if (stale.length > 0) updates.prescriptionIds = item.prescriptionIds.filter((id) => !stale.includes(id));
+      if (stalePrepared.length > 0) {
+        updates.preparedPrescriptionIds = item.preparedPrescriptionIds!.filter((id) => !stalePrepared.includes(id));
+      }
+      const count = new Set([...stale, ...stalePrepared]).size;
+      issues.push(issue('pharmacy-prescriptions', 'warning', 'pharmacy', item.id,
+        `${count} prescription(s) on this pharmacy item no longer exist`,
+        { type: 'update', updates, description: `Drop ${count} stale prescription reference(s)` }));
+    }
+  });
+  return issues;
+}
+
+// Deleted patients keep their number, so they count here too
+function checkRegistrationNumbers(patients: Patient[]): IntegrityIssue[] {
+  return findDuplicates(patients, (patient) => patient.registrationNumber).flatMap((group) => {
+    const names = group.map((patient) => `${patient.firstName} ${patient.lastName || ''}`.trim()).join(', ');
+    return group.slice(1).map((patient) => issue('duplicate-registration', 'error', 'patients', patient.id,
+      `Registration number ${patient.registrationNumber} is shared by ${group.length} patients: ${names}`));
+  });
+}
+
+// A billing item and the receipt printed from it share a number, so each collection is checked on its own
+function checkReceiptNumbers(
+  billingItems: BillingQueueItem[],
+  receipts: BillingReceipt[]
+): IntegrityIssue[] {
+  const describe = (collection: string, group: { id: string; receiptNumber?: string }[]) =>
+    group.slice(1).map((record) => issue('duplicate-receipt', 'error', collection, record.id,
+      `Receipt number ${record.receiptNumber} is used by ${group.length} ${collection === 'billingQueue' ? 'billing items' : 'receipts'}`));
+  return [
+    ...findDuplicates(billingItems, (item) => item.receiptNumber).flatMap((group) => describe('billingQueue', group)),
+    ...findDuplicates(receipts, (receipt) => receipt.receiptNumber).flatMap((group) => describe('billingReceipts', group)),
+  ];
+}
+
+// Read-only: scanning never writes
+export function scanIntegrity(): IntegrityReport {
+  const patients = indexById<Patient>('patients');
+  const visits = indexById<Visit>('visits');
+  const prescriptions = indexById<DoctorPrescription>('prescriptions');
+  const appointments = indexById<Appointment>('appointments');
+  const billingItems = db.getAll<BillingQueueItem>('billingQueue');
+  const receipts = db.getAll<BillingReceipt>('billingReceipts', { includeDeleted: true });
+  const queueItems = db.getAll<QueueItem>('queueItems');
+  const pharmacyItems = db.getAll<PharmacyQueueItem>('pharmacy');
+
+  // Deleted records are checked only where they still matter (numbers stay taken)
+  const liveVisits = [...visits.values()].filter(isLive);
+  const livePrescriptions = [...prescriptions.values()].filter(isLive);
+
+  const issues = [
+    ...checkVisits(patients, liveVisits),
+    ...checkPrescriptions(patients, visits, livePrescriptions),
+    ...checkBillingQueue(visits, prescriptions, billingItems),
+    ...checkQueueItems(appointments, queueItems),
+    ...checkPharmacy(visits, prescriptions, pharmacyItems),
+    ...checkRegistrationNumbers([...patients.values()]),
+    ...checkReceiptNumbers(billingItems, receipts),
+  ];
+
+  return {
+    scannedAt: new Date(),
+    recordCounts: {
+      patients: patients.size,
+      visits: visits.size,
+      prescriptions: prescriptions.size,
+      appointments: appointments.size,
+      billingQueue: billingItems.length,
+      billingReceipts: receipts.length,
+      queueItems: queueItems.length,
+      pharmacy: pharmacyItems.length,
+    },
+    issues,
+  };
+}
+
+// Applies the fixes of the given issues in one transaction. With dryRun
+// nothing is written and the result lists what would have been done
+export function repairIntegrity(issues: IntegrityIssue[], options: { dryRun?: boolean } = {}): RepairResult {
+  const result: RepairResult = { dryRun: !!options.dryRun, applied: [], skipped: [] };
+  const fixes = issues.map((entry) => entry.fix).filter((fix): fix is IntegrityFix => !!fix);
+
+  // Records this repair already wrote; their updatedAt moved because of us
+  const touched = new Set<string>();
+
+  const run = () => {
+    fixes.forEach((fix) => {
+      const key = `${fix.collection}:${fix.recordId}`;
+      const edited = !touched.has(key) && updatedAtOf(fix.collection, fix.recordId) !== fix.recordUpdatedAt;
+      if (!db.getById(fix.collection, fix.recordId) || edited) {
+        result.skipped.push(fix);
+        return;
+      }
+      touched.add(key);
+      if (!options.dryRun) {
+        if (fix.type === 'delete') {
+          db.delete(fix.collection, fix.recordId);
+        } else {
+          db.update(fix.collection, fix.recordId, fix.updates || {});
+        }
+      }
+      result.applied.push(fix);
+    });
+  };
+
+  if (options.dryRun) {
+    run();
+  } else {
+    db.transaction(run);
+  }
+  return result;
+}
@@ -0,0 +1,330 @@
+// ============================================
+// Patient Merge
+// Folds a duplicate patient into the one that keeps its
+// registration number: every linked record moves over, the
+// profile takes the fields chosen side by side, and the
+// duplicate goes to the recycle bin. Each merge is kept as
+// an audit entry holding what it changed, so it can be
+// undone until the grace period runs out
+// ============================================
+
+import { db, householdDb } from './database';
+import { ARCHIVED_COLLECTIONS } from './archive';
+import type { HouseholdMember, Patient } from '@/types';
+
+export const PATIENT_MERGES_COLLECTION = 'patientMerges';
+export const MERGE_UNDO_DAYS = 7;
+
+// Every collection whose records point at a patient through patientId
+export const PATIENT_LINKED_COLLECTIONS = [
+  'visits',
+  'prescriptions',
+  'appointments',
+  'queueItems',
+  'feeHistory',
+  'feeExemptions',
+  'prescriptionHistory',
+  'billingQueue',
+  'billingReceipts',
+  'medicineBills',
+  'pharmacy',
+  'investigations',
+  'voiceNotes',
+];
+
+// Profile fields reconciled side by side; the survivor's value is the default
+export const MERGE_FIELDS: { field: keyof Patient; label: string }[] = [
+  { field: 'salutation', label: 'Salutation' },
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'dateOfBirth', label: 'Date of Birth' },
+  { field: 'age', label: 'Age' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'mobileNumber', label: 'Mobile' },
+  { field: 'alternateMobile', label: 'Alternate Mobile' },
+  { field: 'email', label: 'Email' },
+  { field: 'address', label: 'Address' },
+  { field: 'bloodGroup', label: 'Blood Group' },
+  { field: 'occupation', label: 'Occupation' },
+  { field: 'maritalStatus', label: 'Marital Status' },
+  { field: 'religion', label: 'Religion' },
+  { field: 'referredBy', label: 'Referred By' },
+  { field: 'photoUrl', label: 'Photo' },
+  { field: 'feeExempt', label: 'Fee Exempt' },
+  { field: 'feeExemptionReason', label: 'Exemption Reason' },
+];
+
+// Lists that are combined rather than chosen
+const UNION_FIELDS: (keyof Patient)[] = ['tags', 'medicalHistory', 'allergies'];
+
+export type MergeFieldChoices = Partial<Record<keyof Patient, 'survivor' | 'merged'>>;
+
+// A record that moved, with the values it had before
+export interface MovedRecord {
+  id: string;
+  previous: Record<string, unknown>;
+}
+
+// A household whose member list the merge changed; households list their
+// members rather than pointing at a patient, so they are not moved by patientId
+export interface HouseholdChange {
+  id: string;
+  name: string;
+  before: HouseholdMember[];
+  after: HouseholdMember[] | null; // null when the merge emptied and removed it
+}
+
+export interface PatientMerge {
+  id: string;
+  survivorId: string;
+  mergedId: string;
+  survivorRegistrationNumber: string;
+  mergedRegistrationNumber: string;
+  mergedName: string;
+  mergedAt: string;
+  mergedBy: string;
+  undoUntil: string;
+  survivorBefore: Record<string, unknown>; // Survivor profile fields the merge changed...
+  survivorAfter: Record<string, unknown>; // ...and what it changed them to
+  moved: Record<string, MovedRecord[]>;
+  archived: Record<string, MovedRecord[]>; // Records moved inside the archive store
+  households?: HouseholdChange[];
+  undoneAt?: string;
+  undoneBy?: string;
+}
+
+export class MergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+type LinkedRecord = Record<string, unknown> & { id: string; patientId?: string };
+
+function fullNameOf(patient: Pick<Patient, 'firstName' | 'lastName'>): string {
+  return `${patient.firstName} ${patient.lastName || ''}`.trim();
+}
+
+function getPatient(id: string): Patient {
+  const patient = db.getById<Patient>('patients', id, { includeDeleted: true });
+  if (!patient) throw new MergeError('Patient not found');
+  return patient;
+}
+
+// The fields a moved record gets: its patientId and any copies of the patient's name or number
+function retarget(record: LinkedRecord, survivor: Patient): Record<string, unknown> {
+  const updates: Record<string, unknown> = { patientId: survivor.id };
+  if ('patientName' in record) updates.patientName = survivor.fullName;
+  if ('registrationNumber' in record) updates.registrationNumber = survivor.registrationNumber;
+  return updates;
+}
+
+function pick(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, record[field]]));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Linked records of a patient, deleted ones included so the recycle bin stays consistent
+function linkedRecords(collection: string, patientId: string): LinkedRecord[] {
+  return db.getAll<LinkedRecord>(collection, { includeDeleted: true }).filter((record) => record.patientId === patientId);
+}
+
+// ============================================
+// Preview & Merge
+// ============================================
+
+// How many records of each collection would move to the survivor
+export function previewMerge(mergedId: string): Record<string, number> {
+  return Object.fromEntries(
+    PATIENT_LINKED_COLLECTIONS
+      .map((collection) => [collection, linkedRecords(collection, mergedId).length] as const)
+      .concat([['households', householdDb.getByPatient(mergedId) ? 1 : 0]])
+      .filter(([, count]) => count > 0)
+  );
+}
+
+// The survivor takes the duplicate's place in its household, unless the
+// survivor already has one; then the duplicate just leaves
+function moveHouseholdMembership(mergedId: string, survivorId: string): HouseholdChange[] {
+  const household = householdDb.getByPatient(mergedId);
+  if (!household) return [];
+  const survivorHousehold = householdDb.getByPatient(survivorId);
+  if (!survivorHousehold) {
+    db.update('households', household.id, {
+      members: household.members.map((member) => (member.patientId === mergedId ? { ...member, patientId: survivorId } : member)),
+    });
+  } else if (survivorHousehold.id === household.id) {
+    // One entry for the person remains, still the head if either was
+    const wasHead = household.members.some((member) => member.patientId === mergedId && member.relationship === 'head');
+    db.update('households', household.id, {
+      members: household.members
+        .filter((member) => member.patientId !== mergedId)
+        .map((member) => (wasHead && member.patientId === survivorId ? { ...member, relationship: 'head' as const } : member)),
+    });
+  } else {
+    householdDb.removeMember(mergedId);
+  }
+  const after = householdDb.getById(household.id);
+  return [{ id: household.id, name: household.name, before: household.members, after: after ? after.members : null }];
+}
+
+// Households go back only where nobody has changed the members since the merge
+function restoreHouseholds(changes: HouseholdChange[], mergedId: string): void {
+  changes.forEach(({ id, name, before, after }) => {
+    const current = householdDb.getById(id);
+    if (after === null) {
+      if (!current && !householdDb.getByPatient(mergedId)) db.create('households', { id, name, members: before });
+    } else if (current && sameValue(current.members, after)) {
+      db.update('households', id, { members: before });
+    }
+  });
+}
+
+// The survivor's profile after the merge
+export function mergedProfile(survivor: Patient, merged: Patient, choices: MergeFieldChoices): Partial<Patient> {
+  const profile: Record<string, unknown> = {};
+  MERGE_FIELDS.forEach(({ field }) => {
+    if (choices[field] === 'merged') profile[field] = merged[field];
+  });
+  UNION_FIELDS.forEach((field) => {
+    const combined = [...new Set([...((survivor[field] as string[]) || []), ...((merged[field] as string[]) || [])])];
+    if (combined.length !== ((survivor[field] as string[]) || []).length) profile[field] = combined;
+  });
+  const names = { firstName: survivor.firstName, lastName: survivor.lastName, ...profile } as Pick<Patient, 'firstName' | 'lastName'>;
+  if (fullNameOf(names) !== survivor.fullName) profile.fullName = fullNameOf(names);
+  return profile as Partial<Patient>;
+}
+
+export async function mergePatients(
+  survivorId: string,
+  mergedId: string,
+  choices: MergeFieldChoices,
+  mergedBy: string
+): Promise<PatientMerge> {
+  if (survivorId === mergedId) throw new MergeError('Choose two different patients');
+  let survivor = getPatient(survivorId);
+  const merged = getPatient(mergedId);
+  if (survivor.deletedAt || merged.deletedAt) throw new MergeError('Deleted patients cannot be merged');
+
+  const now = new Date();
+  const profile = mergedProfile(survivor, merged, choices);
+  const record: PatientMerge = {
+    id: `merge-${Date.now()}`,
+    survivorId,
+    mergedId,
+    survivorRegistrationNumber: survivor.registrationNumber,
+    mergedRegistrationNumber: merged.registrationNumber,
+    mergedName: merged.fullName,
+    mergedAt: now.toISOString(),
+    mergedBy,
+    undoUntil: new Date(now.getTime() + MERGE_UNDO_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    survivorBefore: pick(survivor as unknown as Record<string, unknown>, Object.keys(profile)),
+    survivorAfter: profile as Record<string, unknown>,
+    moved: {},
+    archived: {},
+  };
+
+  db.transaction(() => {
+    if (Object.keys(profile).length > 0) {
+      survivor = db.update<Patient>('patients', survivorId, profile) || survivor;
+    }
+    PATIENT_LINKED_COLLECTIONS.forEach((collection) => {
+      const records = linkedRecords(collection, mergedId);
+      if (records.length === 0) return;
+      record.moved[collection] = records.map((linked) => {
+        const updates = retarget(linked, survivor);
+        db.update(collection, linked.id, updates);
+        return { id: linked.id, previous: pick(linked, Object.keys(updates)) };
+      });
+    });
+    record.households = moveHouseholdMembership(mergedId, survivorId);
+    db.update('patients', mergedId, { mergedInto: survivorId });
+    db.delete('patients', mergedId, mergedBy);
+    db.create(PATIENT_MERGES_COLLECTION, record as unknown as Record<string, unknown>);
+  });
+
+  // Archived history follows the patient too
+  const archive = db.getArchive();
+  if (archive) {
+    const updates: Record<string, unknown[]> = {};
+    for (const collection of ARCHIVED_COLLECTIONS) {
+      const records = (await archive.read<LinkedRecord>(collection)).filter((linked) => linked.patientId === mergedId);
+      if (records.length === 0) continue;
+      record.archived[collection] = records.map((linked) => ({
+        id: linked.id,
+        previous: pick(linked, Object.keys(retarget(linked, survivor))),
+      }));
+      updates[collection] = records.map((linked) => ({ ...linked, ...retarget(linked, survivor) }));
+    }
+    if (Object.keys(updates).length > 0) {
+      await archive.add(updates);
+      db.update(PATIENT_MERGES_COLLECTION, record.id, { archived: record.archived });
+    }
+  }
+
+  return record;
+}
+
+// ============================================
+// Undo
+// ============================================
+
+export function getPatientMerges(): PatientMerge[] {
+  return db.getAll<PatientMerge>(PATIENT_MERGES_COLLECTION)
+    .sort((a, b) => b.mergedAt.localeCompare(a.mergedAt));
+}
+
+export function canUndoMerge(merge: PatientMerge, now: Date = new Date()): boolean {
+  return !merge.undoneAt && now.getTime() <= new Date(merge.undoUntil).getTime();
+}
+
+// Puts both patients back as they were. Anything changed since the merge
+// (a field edited on the survivor, a record moved again) is left alone;
+// records added to the survivor after the merge stay with the survivor
+export async function undoMerge(mergeId: string, undoneBy: string): Promise<PatientMerge> {
+  const merge = db.getById<PatientMerge>(PATIENT_MERGES_COLLECTION, mergeId);
+  if (!merge) throw new MergeError('Merge not found');
+  if (merge.undoneAt) throw new MergeError('This merge was already undone');
+  if (!canUndoMerge(merge)) throw new MergeError(`Merges can only be undone within ${MERGE_UNDO_DAYS} days`);
+  if (!db.getById('patients', merge.mergedId, { includeDeleted: true })) throw new MergeError('The merged patient was purged from the recycle bin and cannot be brought back');
+
+  const survivor = getPatient(merge.survivorId) as unknown as Record<string, unknown>;
+  const undone = { undoneAt: new Date().toISOString(), undoneBy };
+
+  db.transaction(() => {
+    // Fields edited since the merge keep their new value
+    const revert = Object.fromEntries(
+      Object.entries(merge.survivorBefore).filter(([field]) => sameValue(survivor[field], merge.survivorAfter[field]))
+    );
+    if (Object.keys(revert).length > 0) db.update('patients', merge.survivorId, revert);
+
+    Object.entries(merge.moved).forEach(([collection, records]) => {
+      records.forEach(({ id, previous }) => {
+        const current = db.getById<LinkedRecord>(collection, id, { includeDeleted: true });
+        if (current?.patientId === merge.survivorId) db.update(collection, id, previous);
+      });
+    });
+    restoreHouseholds(merge.households || [], merge.mergedId);
+    db.update('patients', merge.mergedId, { mergedInto: undefined });
+    db.restoreDeleted('patients', merge.mergedId);
+    db.update(PATIENT_MERGES_COLLECTION, mergeId, undone);
+  });
+
+  const archive = db.getArchive();
+  if (archive && Object.keys(merge.archived || {}).length > 0) {
+    const updates: Record<string, unknown[]> = {};
+    for (const [collection, records] of Object.entries(merge.archived)) {
+      const byId = new Map(records.map((moved) => [moved.id, moved.previous]));
+      updates[collection] = (await archive.read<LinkedRecord>(collection))
+        .filter((linked) => byId.has(linked.id) && linked.patientId === merge.survivorId)
+        .map((linked) => ({ ...linked, ...byId.get(linked.id) }));
+    }
+    await archive.add(updates);
+  }
+
+  return { ...merge, ...undone };
+}
@@ -0,0 +1,135 @@
+// ============================================
+// Schema Migrations
+// Ordered, named transforms applied to stored collections
+// when the saved schema version is older than the code
+// ============================================
+
+export type Collections = Record<string, unknown[]>;
+
+export interface Migration {
+  version: number; // Schema version this migration produces
+  name: string;
+  up: (collections: Collections) => void; // Mutates the collections in place
+}
+
+// Record kept in the schemaMigrations collection for every applied migration
+export interface AppliedMigration {
+  id: string;
+  version: number;
+  name: string;
+  appliedAt: Date;
+  backupLabel: string;
+}
+
+export interface MigrationStatus {
+  state: 'current' | 'migrated' | 'failed' | 'newer';
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  failedMigration?: string;
+  error?: string;
+  backupLabel?: string;
+}
+
+type StoredRecord = Record<string, unknown>;
+
+// Visits used to be written in two shapes: by the patient profile (mode, visitTime,
+// doctorName) and by the doctor panel (caseText, vitals, status 'active'/'locked',
+// no mode). Fills in what each shape lacked so every row is a complete Visit.
+function unifyVisits(collections: Collections): void {
+  const visits = (collections.visits || []) as StoredRecord[];
+  const patients = new Map(((collections.patients || []) as StoredRecord[]).map((patient) => [patient.id, patient]));
+
+  visits.forEach((visit) => {
+    visit.isSelfRepeat = visit.isSelfRepeat === true || visit.mode === 'self-repeat';
+    if (!visit.mode) {
+      visit.mode = visit.isSelfRepeat ? 'self-repeat' : 'in-person';
+    }
+    if (!visit.status) {
+      visit.status = 'completed';
+    }
+    if (!visit.registrationNumber) {
+      const patient = patients.get(visit.patientId);
+      if (patient?.registrationNumber) visit.registrationNumber = patient.registrationNumber;
+    }
+    // The doctor panel takes the first line of the case as the complaint
+    if (!visit.chiefComplaint && typeof visit.caseText === 'string' && visit.caseText.trim()) {
+      visit.chiefComplaint = visit.caseText.split('\n')[0];
+    }
+  });
+
+  // Rows without a visit number are numbered by date within each patient
+  const byPatient = new Map<unknown, StoredRecord[]>();
+  visits.forEach((visit) => {
+    byPatient.set(visit.patientId, [...(byPatient.get(visit.patientId) || []), visit]);
+  });
+  byPatient.forEach((patientVisits) => {
+    patientVisits
+      .sort((a, b) => new Date(a.visitDate as string).getTime() - new Date(b.visitDate as string).getTime())
+      .forEach((visit, index) => {
+        if (typeof visit.visitNumber !== 'number' || visit.visitNumber < 1) {
+          visit.visitNumber = index + 1;
+        }
+      });
+  });
+}
+
+// Reports and recordings moved out of public/ behind /api/files (the files themselves
+// are moved by the server when first requested)
+function moveUploadUrls(collections: Collections): void {
+  const moved = (url: unknown) => (typeof url === 'string' && /^\/(investigations|voice-notes)\//.test(url) ? `/api/files${url}` : url);
+  [...(collections.investigations || []), ...(collections.voiceNotes || [])].forEach((record) => {
+    const row = record as StoredRecord;
+    if (row.fileUrl) row.fileUrl = moved(row.fileUrl);
+    if (row.thumbnailUrl) row.thumbnailUrl = moved(row.thumbnailUrl);
+  });
+}
+
+// Version 1 is the original '1.0' layout. Append new migrations at the end
+// with the next version number; never edit or reorder a released one.
+export const migrations: Migration[] = [
+  { version: 2, name: 'unify-visit-model', up: unifyVisits },
+  { version: 3, name: 'move-upload-urls', up: moveUploadUrls },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  1
+);
+
+// Saved versions were strings like '1.0'; data saved without a version is the original layout
+export function parseSchemaVersion(version: string | null): number {
+  if (version === null) return 1;
+  const parsed = Math.floor(parseFloat(version));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+export function getPendingMigrations(fromVersion: number): Migration[] {
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+export class MigrationError extends Error {
+  constructor(public migration: Migration, public cause: unknown) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+// Applies pending migrations to a copy of the data; the input is never modified
+export function runMigrations(collections: Collections, fromVersion: number): { collections: Collections; applied: Migration[] } {
+  const working = structuredClone(collections);
+  const applied: Migration[] = [];
+
+  for (const migration of getPendingMigrations(fromVersion)) {
+    try {
+      migration.up(working);
+    } catch (e) {
+      throw new MigrationError(migration, e);
+    }
+    applied.push(migration);
+  }
+
+  return { collections: working, applied };
+}
@@ -0,0 +1,549 @@
+// ============================================
+// Patient Import
+// Rows of a spreadsheet mapped column by column onto patient
+// fields, checked row by row (with duplicate matching against
+// existing patients and earlier rows), then imported in one
+// transaction. Each import is recorded so the last one can be
+// rolled back while its patients are still untouched
+// ============================================
+
+import { db, householdDb, patientTagDb, revisionDb } from './database';
+import { createDuplicateMatcher } from './duplicates';
+import { PATIENT_LINKED_COLLECTIONS } from './merge';
+import { headerKey, suggestColumnMapping, type ImportFieldDefinition, type Spreadsheet } from '@/lib/spreadsheet';
+import type { DuplicateWarning, Patient, PatientTag } from '@/types';
+
+export const PATIENT_IMPORTS_COLLECTION = 'patientImports';
+
+// Rows matching an existing patient this closely can be left out of the import
+export const LIKELY_DUPLICATE_SCORE = 80;
+
+export type PatientImportField =
+  | 'registrationNumber'
+  | 'salutation'
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'dateOfBirth'
+  | 'age'
+  | 'gender'
+  | 'mobileNumber'
+  | 'alternateMobile'
+  | 'email'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'pincode'
+  | 'country'
+  | 'bloodGroup'
+  | 'occupation'
+  | 'maritalStatus'
+  | 'religion'
+  | 'referredBy'
+  | 'tags'
+  | 'medicalHistory'
+  | 'allergies'
+  | 'feeExempt'
+  | 'feeExemptionReason';
+
+export const PATIENT_IMPORT_FIELDS: ImportFieldDefinition<PatientImportField>[] = [
+  { field: 'registrationNumber', label: 'Registration Number', aliases: ['regd no', 'reg no', 'registration number', 'registration no', 'reg number', 'uhid', 'patient id'] },
+  { field: 'salutation', label: 'Salutation', aliases: ['salutation', 'title', 'prefix'] },
+  { field: 'fullName', label: 'Full Name', aliases: ['name', 'full name', 'patient name'] },
+  { field: 'firstName', label: 'First Name', aliases: ['first name', 'given name', 'fname'] },
+  { field: 'lastName', label: 'Last Name', aliases: ['last name', 'surname', 'family name', 'lname'] },
+  { field: 'dateOfBirth', label: 'Date of Birth', aliases: ['dob', 'date of birth', 'birth date', 'born'] },
+  { field: 'age', label: 'Age', aliases: ['age', 'age years', 'age yrs'] },
+  { field: 'gender', label: 'Gender', aliases: ['gender', 'sex', 'm f'] },
+  { field: 'mobileNumber', label: 'Mobile', aliases: ['mobile', 'mobile number', 'mobile no', 'phone', 'phone number', 'contact', 'contact number', 'cell'] },
+  { field: 'alternateMobile', label: 'Alternate Mobile', aliases: ['alternate mobile', 'alternate number', 'alt mobile', 'alt phone', 'mobile 2', 'phone 2', 'landline'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'e mail', 'email address', 'email id', 'mail'] },
+  { field: 'street', label: 'Address', aliases: ['address', 'street', 'address line', 'address 1', 'locality'] },
+  { field: 'city', label: 'City', aliases: ['city', 'town', 'village', 'district'] },
+  { field: 'state', label: 'State', aliases: ['state', 'province'] },
+  { field: 'pincode', label: 'Pincode', aliases: ['pincode', 'pin', 'pin code', 'zip', 'zip code', 'postal code'] },
+  { field: 'country', label: 'Country', aliases: ['country'] },
+  { field: 'bloodGroup', label: 'Blood Group', aliases: ['blood group', 'blood', 'blood type'] },
+  { field: 'occupation', label: 'Occupation', aliases: ['occupation', 'profession', 'job'] },
+  { field: 'maritalStatus', label: 'Marital Status', aliases: ['marital status', 'marital', 'married'] },
+  { field: 'religion', label: 'Religion', aliases: ['religion'] },
+  { field: 'referredBy', label: 'Referred By', aliases: ['referred by', 'ref by', 'referral', 'reference'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'category'] },
+  { field: 'medicalHistory', label: 'Medical History', aliases: ['medical history', 'history', 'past history', 'conditions'] },
+  { field: 'allergies', label: 'Allergies', aliases: ['allergies', 'allergy', 'allergic to'] },
+  { field: 'feeExempt', label: 'Fee Exempt', aliases: ['fee exempt', 'exempt'] },
+  { field: 'feeExemptionReason', label: 'Exemption Reason', aliases: ['exemption reason', 'fee exemption reason'] },
+];
+
+// One entry per spreadsheet column; '' leaves the column out
+export type ColumnMapping = (PatientImportField | '')[];
+
+export interface PreviewOptions {
+  defaultGender?: Patient['gender']; // For rows without a gender column value; required otherwise
+}
+
+export type PatientDraft = Omit<Patient, 'id' | 'registrationNumber' | 'createdAt' | 'updatedAt'> & {
+  registrationNumber?: string;
+};
+
+export interface ImportRow {
+  rowNumber: number;
+  patient?: PatientDraft; // Missing when the row has errors
+  tagNames: string[];
+  errors: string[];
+  warnings: string[];
+  duplicates: DuplicateWarning[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  valid: number;
+  invalid: number;
+  duplicates: number; // Valid rows with a likely duplicate
+}
+
+export interface ImportOptions {
+  fileName: string;
+  importedBy: string;
+  skipDuplicates?: boolean; // Leave out rows with a likely duplicate
+  dryRun?: boolean; // Work out the result without saving anything
+}
+
+export interface ImportedPatient {
+  rowNumber: number;
+  registrationNumber: string;
+  fullName: string;
+  patientId?: string; // Missing in a dry run
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  importId?: string;
+  created: ImportedPatient[];
+  skipped: { rowNumber: number; reason: string }[];
+  newTags: string[];
+}
+
+export interface PatientImport {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  importedBy: string;
+  rowCount: number;
+  patientIds: string[];
+  tagIds: string[]; // Tags the import created
+  skippedRows: number;
+  rolledBackAt?: string;
+  rolledBackBy?: string;
+  keptPatientIds?: string[]; // Patients the rollback left because they were used since
+}
+
+export class PatientImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatientImportError';
+  }
+}
+
+// ============================================
+// Column Mapping
+// ============================================
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  return suggestColumnMapping(headers, PATIENT_IMPORT_FIELDS);
+}
+
+// ============================================
+// Value Parsing
+// Each returns the value, or throws a message for the row
+// ============================================
+
+const SALUTATION_GENDERS: Record<string, Patient['gender'] | undefined> = {
+  mr: 'male', master: 'male', shri: 'male', sri: 'male',
+  mrs: 'female', ms: 'female', miss: 'female', smt: 'female', kumari: 'female', km: 'female',
+  dr: undefined, baby: undefined,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+// Two-digit years fall in the last hundred years
+function fullYear(year: number): number {
+  if (year >= 100) return year;
+  const century = Math.floor(new Date().getFullYear() / 100) * 100;
+  return century + year > new Date().getFullYear() ? century - 100 + year : century + year;
+}
+
+// YYYY-MM-DD, or day first (DD/MM/YYYY, DD-MM-YY, 12 Mar 1980), as written in Indian records
+export function parseImportDate(value: string, { allowFuture = false } = {}): string {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  let date: string | undefined;
+  if (match) {
+    date = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  } else if ((match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/))) {
+    date = isoDate(fullYear(Number(match[3])), Number(match[2]), Number(match[1]));
+  } else if ((match = text.match(/^(\d{1,2})[\s-]+([a-z]{3})[a-z]*[\s-,]+(\d{2}|\d{4})$/i))) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    if (month > 0) date = isoDate(fullYear(Number(match[3])), month, Number(match[1]));
+  }
+  if (!date) throw new PatientImportError(`Date "${value}" is not a valid date`);
+  if (!allowFuture && date > new Date().toISOString().split('T')[0]) throw new PatientImportError(`Date "${value}" is in the future`);
+  return date;
+}
+
+export function ageFromDate(dateOfBirth: string): number {
+  const today = new Date();
+  const birth = new Date(dateOfBirth);
+  let age = today.getFullYear() - birth.getFullYear();
+  const monthDiff = today.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) age--;
+  return Math.max(0, age);
+}
+
+// "35", "35 yrs"; infants given in months or days count as 0
+function parseAge(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)/i);
+  if (!match) throw new PatientImportError(`Age "${value}" is not a number`);
+  const unit = match[2].toLowerCase();
+  const age = unit.startsWith('m') || unit.startsWith('d') || unit.startsWith('w') ? 0 : Math.floor(Number(match[1]));
+  if (age > 130) throw new PatientImportError(`Age "${value}" is too high`);
+  return age;
+}
+
+function parseGender(value: string): Patient['gender'] {
+  const key = headerKey(value);
+  if (['m', 'male', 'man', 'boy'].includes(key)) return 'male';
+  if (['f', 'female', 'woman', 'girl'].includes(key)) return 'female';
+  if (['o', 'other', 'others', 't', 'transgender'].includes(key)) return 'other';
+  throw new PatientImportError(`Gender "${value}" is not male, female or other`);
+}
+
+// Indian numbers are kept as 10 digits; the country code and trunk 0 are dropped
+function parseMobile(value: string): string {
+  let digits = value.replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length !== 10) throw new PatientImportError(`Mobile "${value}" is not a 10 digit number`);
+  return digits;
+}
+
+function parseBloodGroup(value: string): NonNullable<Patient['bloodGroup']> {
+  const text = value.toUpperCase().replace(/\s+/g, '');
+  const match = text.match(/^(AB|A|B|O)(\+|-|\+VE|-VE|POS|NEG|POSITIVE|NEGATIVE)$/);
+  if (!match) throw new PatientImportError(`Blood group "${value}" is not recognised`);
+  const sign = match[2].startsWith('+') || match[2].startsWith('P') ? '+' : '-';
+  return `${match[1]}${sign}` as NonNullable<Patient['bloodGroup']>;
+}
+
+function parseMaritalStatus(value: string): NonNullable<Patient['maritalStatus']> {
+  const key = headerKey(value);
+  if (['single', 'unmarried', 'u', 's'].includes(key)) return 'single';
+  if (['married', 'm', 'yes'].includes(key)) return 'married';
+  if (['divorced', 'separated', 'd'].includes(key)) return 'divorced';
+  if (['widowed', 'widow', 'widower', 'w'].includes(key)) return 'widowed';
+  throw new PatientImportError(`Marital status "${value}" is not recognised`);
+}
+
+function parseYesNo(value: string): boolean {
+  const key = headerKey(value);
+  if (['yes', 'y', 'true', '1', 'exempt'].includes(key)) return true;
+  if (['no', 'n', 'false', '0', ''].includes(key)) return false;
+  throw new PatientImportError(`"${value}" is not yes or no`);
+}
+
+function parseList(value: string): string[] {
+  return value.split(/[;,|\n]/).map((item) => item.trim()).filter(Boolean);
+}
+
+function parseEmail(value: string): string {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) throw new PatientImportError(`Email "${value}" is not valid`);
+  return value;
+}
+
+// "Mr. Ramesh Kumar Sharma" -> Mr / Ramesh / Kumar Sharma
+function splitName(value: string): { salutation?: string; firstName: string; lastName: string } {
+  const parts = value.trim().split(/\s+/);
+  const salutation = parts.length > 1 && headerKey(parts[0]) in SALUTATION_GENDERS ? parts.shift() : undefined;
+  return { salutation, firstName: parts[0] || '', lastName: parts.slice(1).join(' ') };
+}
+
+// ============================================
+// Preview
+// ============================================
+
+function readRow(cells: string[], mapping: ColumnMapping, options: PreviewOptions, row: ImportRow): PatientDraft | undefined {
+  const value = (field: PatientImportField) => {
+    const index = mapping.indexOf(field);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+  const parse = <T>(field: PatientImportField, parser: (text: string) => T): T | undefined => {
+    const text = value(field);
+    if (!text) return undefined;
+    try {
+      return parser(text);
+    } catch (error) {
+      row.errors.push(error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  };
+
+  const name = splitName(value('fullName'));
+  const salutation = value('salutation') || name.salutation;
+  const firstName = value('firstName') || name.firstName;
+  const lastName = value('lastName') || (value('firstName') ? '' : name.lastName);
+  if (!firstName) row.errors.push('Name is missing');
+
+  const dateOfBirth = parse('dateOfBirth', (text) => parseImportDate(text));
+  const age = parse('age', parseAge);
+  if (dateOfBirth && age !== undefined && Math.abs(ageFromDate(dateOfBirth) - age) > 1) {
+    row.warnings.push(`Age ${age} does not match date of birth ${dateOfBirth}; the date of birth is used`);
+  }
+  if (!dateOfBirth && age === undefined) row.warnings.push('No age or date of birth');
+
+  const gender = parse('gender', parseGender) ||
+    (salutation ? SALUTATION_GENDERS[headerKey(salutation)] : undefined) ||
+    options.defaultGender;
+  if (!gender && !row.errors.some((error) => error.startsWith('Gender'))) row.errors.push('Gender is missing');
+
+  const mobileNumber = parse('mobileNumber', parseMobile);
+  if (!value('mobileNumber')) row.warnings.push('No mobile number');
+  const alternateMobile = parse('alternateMobile', parseMobile);
+  const email = parse('email', parseEmail);
+  const bloodGroup = parse('bloodGroup', parseBloodGroup);
+  const maritalStatus = parse('maritalStatus', parseMaritalStatus);
+  const feeExempt = parse('feeExempt', parseYesNo) ?? false;
+  row.tagNames = parseList(value('tags'));
+
+  if (row.errors.length > 0 || !gender) return undefined;
+
+  const address = ['street', 'city', 'state', 'pincode', 'country'].some((field) => value(field as PatientImportField))
+    ? { street: value('street'), city: value('city'), state: value('state'), pincode: value('pincode'), country: value('country') || 'India' }
+    : undefined;
+
+  return {
+    registrationNumber: value('registrationNumber') || undefined,
+    salutation,
+    firstName,
+    lastName,
+    fullName: `${firstName} ${lastName}`.trim(),
+    dateOfBirth: dateOfBirth || '',
+    age: dateOfBirth ? ageFromDate(dateOfBirth) : age ?? 0,
+    gender,
+    mobileNumber: mobileNumber || '',
+    alternateMobile,
+    email,
+    address,
+    bloodGroup,
+    occupation: value('occupation') || undefined,
+    maritalStatus,
+    religion: value('religion') || undefined,
+    referredBy: value('referredBy') || undefined,
+    tags: [],
+    feeExempt,
+    feeExemptionReason: value('feeExemptionReason') || undefined,
+    privacySettings: {
+      hideMentalSymptoms: false,
+      hideDiagnosis: false,
+      hidePrognosis: false,
+      hideFees: false,
+      hideCaseNotes: false,
+    },
+    medicalHistory: parseList(value('medicalHistory')),
+    allergies: parseList(value('allergies')),
+    createdBy: 'import',
+  };
+}
+
+// Checks every row without saving anything
+export function previewImport(sheet: Spreadsheet, mapping: ColumnMapping, options: PreviewOptions = {}): ImportPreview {
+  if (!mapping.includes('fullName') && !mapping.includes('firstName')) {
+    throw new PatientImportError('Map a column to Full Name or First Name');
+  }
+
+  const existing = db.getAll<Patient>('patients', { includeDeleted: true });
+  const takenNumbers = new Set(existing.map((patient) => patient.registrationNumber.toLowerCase()));
+  const fileNumbers = new Map<string, number>();
+  const matcher = createDuplicateMatcher(existing.filter((patient) => !patient.deletedAt));
+
+  const rows = sheet.rows.map((cells, index) => {
+    const row: ImportRow = { rowNumber: sheet.rowNumbers[index] ?? index + 2, tagNames: [], errors: [], warnings: [], duplicates: [] };
+    const patient = readRow(cells, mapping, options, row);
+
+    const regIndex = mapping.indexOf('registrationNumber');
+    const given = regIndex >= 0 ? (cells[regIndex] || '').trim() : '';
+    if (given && takenNumbers.has(given.toLowerCase())) {
+      row.errors.push(`Registration number ${given} already exists`);
+    } else if (given && fileNumbers.has(given.toLowerCase())) {
+      row.errors.push(`Registration number ${given} is also on row ${fileNumbers.get(given.toLowerCase())}`);
+    }
+    if (given && !fileNumbers.has(given.toLowerCase())) fileNumbers.set(given.toLowerCase(), row.rowNumber);
+
+    if (patient && row.errors.length === 0) {
+      row.patient = patient;
+      row.duplicates = matcher.find(patient).slice(0, 3);
+      matcher.add({ ...patient, id: `row-${row.rowNumber}`, fullName: `${patient.fullName} (row ${row.rowNumber} of this file)` });
+    }
+    return row;
+  });
+
+  const valid = rows.filter((row) => row.patient);
+  return {
+    rows,
+    valid: valid.length,
+    invalid: rows.length - valid.length,
+    duplicates: valid.filter((row) => isLikelyDuplicate(row)).length,
+  };
+}
+
+export function isLikelyDuplicate(row: ImportRow): boolean {
+  return (row.duplicates[0]?.matchScore ?? 0) >= LIKELY_DUPLICATE_SCORE;
+}
+
+// ============================================
+// Import & Rollback
+// ============================================
+
+// Numbers for rows without one, the way db.generateRegNumber picks them:
+// one past the highest number in use, numbers given in the file included
+function registrationNumbers(rows: ImportRow[]): string[] {
+  const settings = db.getRegNumberSettings();
+  const numberOf = (regNumber: string) => Number(regNumber.match(/(\d+)$/)?.[1] || 0);
+  let highest = db.getAll<Patient>('patients', { includeDeleted: true })
+    .reduce((max, patient) => Math.max(max, numberOf(patient.registrationNumber)), 0);
+
+  return rows.map((row) => {
+    const given = row.patient!.registrationNumber;
+    if (given) {
+      highest = Math.max(highest, numberOf(given));
+      return given;
+    }
+    highest = Math.max(settings.startingNumber, highest + 1);
+    return `${settings.prefix}${highest.toString().padStart(settings.padding, '0')}`;
+  });
+}
+
+export function runImport(preview: ImportPreview, { fileName, importedBy, skipDuplicates = false, dryRun = false }: ImportOptions): ImportResult {
+  const skipped: ImportResult['skipped'] = [];
+  const toImport = preview.rows.filter((row) => {
+    if (!row.patient) {
+      skipped.push({ rowNumber: row.rowNumber, reason: row.errors.join('; ') });
+      return false;
+    }
+    if (skipDuplicates && isLikelyDuplicate(row)) {
+      skipped.push({ rowNumber: row.rowNumber, reason: `Likely duplicate of ${row.duplicates[0].matchedPatientName}` });
+      return false;
+    }
+    return true;
+  });
+
+  const regNumbers = registrationNumbers(toImport);
+  const tags = db.getAll<PatientTag>('patientTags');
+  const tagIdsByName = new Map(tags.map((tag) => [tag.name.toLowerCase(), tag.id]));
+  const newTags = [...new Set(toImport.flatMap((row) => row.tagNames))]
+    .filter((name, index, names) => !tagIdsByName.has(name.toLowerCase()) &&
+      names.findIndex((other) => other.toLowerCase() === name.toLowerCase()) === index);
+
+  const created: ImportedPatient[] = toImport.map((row, index) => ({
+    rowNumber: row.rowNumber,
+    registrationNumber: regNumbers[index],
+    fullName: row.patient!.fullName,
+  }));
+  if (dryRun) return { dryRun, created, skipped, newTags };
+
+  const importId = `import-${Date.now()}`;
+  db.transaction(() => {
+    const tagIds = newTags.map((name) => {
+      const tag = patientTagDb.create({ name, color: '#6b7280', description: `Added by import of ${fileName}`, isSystem: false }) as unknown as PatientTag;
+      tagIdsByName.set(name.toLowerCase(), tag.id);
+      return tag.id;
+    });
+
+    toImport.forEach((row, index) => {
+      const patient = db.create('patients', {
+        ...row.patient,
+        registrationNumber: regNumbers[index],
+        tags: [...new Set(row.tagNames.map((name) => tagIdsByName.get(name.toLowerCase())!))],
+        importId,
+      } as unknown as Record<string, unknown>);
+      created[index].patientId = patient.id as string;
+    });
+
+    const record: PatientImport = {
+      id: importId,
+      fileName,
+      importedAt: new Date().toISOString(),
+      importedBy,
+      rowCount: preview.rows.length,
+      patientIds: created.map((patient) => patient.patientId!),
+      tagIds,
+      skippedRows: skipped.length,
+    };
+    db.create(PATIENT_IMPORTS_COLLECTION, record as unknown as Record<string, unknown>);
+  });
+
+  return { dryRun, importId, created, skipped, newTags };
+}
+
+export function getPatientImports(): PatientImport[] {
+  return db.getAll<PatientImport>(PATIENT_IMPORTS_COLLECTION)
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+// Only the most recent import that is still in place can be rolled back
+export function getLastImport(): PatientImport | undefined {
+  return getPatientImports().find((entry) => !entry.rolledBackAt);
+}
+
+// Patients with a visit, bill or other linked record, deleted ones included
+function patientsWithLinkedRecords(): Set<string> {
+  const ids = new Set<string>();
+  PATIENT_LINKED_COLLECTIONS.forEach((collection) =>
+    db.getAll<{ patientId?: string }>(collection, { includeDeleted: true })
+      .forEach((record) => record.patientId && ids.add(record.patientId)));
+  return ids;
+}
+
+// Imported patients nobody has touched since: no edits, visits, bills or family links.
+// An edit shows as a revision after the one the import's create wrote
+function isUntouched(patient: Patient, linked: Set<string>): boolean {
+  if (revisionDb.getByRecord('patients', patient.id).some((revision) => revision.action !== 'create')) return false;
+  if (householdDb.getByPatient(patient.id)) return false;
+  return !linked.has(patient.id);
+}
+
+// Removes the patients of the last import for good, so the file can be fixed and imported
+// again with the same registration numbers. Patients used since the import are kept
+export function rollbackImport(importId: string, rolledBackBy: string): { removed: number; kept: Patient[] } {
+  const record = db.getById<PatientImport>(PATIENT_IMPORTS_COLLECTION, importId);
+  if (!record) throw new PatientImportError('Import not found');
+  if (record.rolledBackAt) throw new PatientImportError('This import was already rolled back');
+  if (getLastImport()?.id !== importId) throw new PatientImportError('Only the most recent import can be rolled back');
+
+  const patients = record.patientIds
+    .map((id) => db.getById<Patient>('patients', id, { includeDeleted: true }))
+    .filter((patient): patient is Patient => !!patient);
+  const linked = patientsWithLinkedRecords();
+  const kept = patients.filter((patient) => !isUntouched(patient, linked));
+  const removed = patients.filter((patient) => isUntouched(patient, linked));
+
+  db.transaction(() => {
+    removed.forEach((patient) => db.purge('patients', patient.id));
+    const patientsLeft = db.getAll<Patient>('patients', { includeDeleted: true });
+    record.tagIds
+      .filter((tagId) => !patientsLeft.some((patient) => patient.tags?.includes(tagId)))
+      .forEach((tagId) => db.delete('patientTags', tagId));
+    db.update(PATIENT_IMPORTS_COLLECTION, importId, {
+      rolledBackAt: new Date().toISOString(),
+      rolledBackBy,
+      keptPatientIds: kept.map((patient) => patient.id),
+    });
+  });
+
+  return { removed: removed.length, kept };
+}
@@ -0,0 +1,131 @@
+// ============================================
+// Query API
+// Typed where / sort / pagination over a collection,
+// built on the existing PaginationParams type
+// ============================================
+
+import type { PaginationParams } from '@/types';
+
+export interface RangeCondition {
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+}
+
+// Equality, one-of (array) or range per field
+export type WhereCondition<V> = V | V[] | RangeCondition;
+
+export type WhereClause<T> = {
+  [K in keyof T]?: WhereCondition<T[K]>;
+};
+
+export interface QueryOptions<T> extends Partial<PaginationParams> {
+  where?: WhereClause<T>;
+  // Extra predicate for conditions a where clause cannot express (e.g. text search)
+  filter?: (item: T) => boolean;
+  // Custom ordering; takes precedence over sortBy / sortOrder
+  sort?: (a: T, b: T) => number;
+}
+
+export interface QueryResult<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+function isRangeCondition(condition: unknown): condition is RangeCondition {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition) || condition instanceof Date) {
+    return false;
+  }
+  return ['gt', 'gte', 'lt', 'lte'].some((key) => key in condition);
+}
+
+// Dates compare by time, whether stored as Date objects or ISO strings
+function toComparable(value: unknown): number | string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const time = new Date(text).getTime();
+    if (!isNaN(time)) return time;
+  }
+  return text;
+}
+
+export function compareValues(a: unknown, b: unknown): number {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === undefined && right === undefined) return 0;
+  if (left === undefined) return 1; // Missing values sort last
+  if (right === undefined) return -1;
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+export function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (Array.isArray(condition)) {
+    return condition.some((option) => matchesCondition(value, option));
+  }
+  if (isRangeCondition(condition)) {
+    if (value === undefined || value === null) return false;
+    if (condition.gt !== undefined && !(compareValues(value, condition.gt) > 0)) return false;
+    if (condition.gte !== undefined && !(compareValues(value, condition.gte) >= 0)) return false;
+    if (condition.lt !== undefined && !(compareValues(value, condition.lt) < 0)) return false;
+    if (condition.lte !== undefined && !(compareValues(value, condition.lte) <= 0)) return false;
+    return true;
+  }
+  if (condition instanceof Date || value instanceof Date) {
+    return compareValues(value, condition) === 0;
+  }
+  return value === condition;
+}
+
+export function matchesWhere<T>(item: T, where: WhereClause<T>): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) return true;
+    return matchesCondition((item as Record<string, unknown>)[field], condition);
+  });
+}
+
+// Applies filtering, sorting and pagination to an in-memory list
+export function applyQuery<T>(items: T[], options: QueryOptions<T> = {}): QueryResult<T> {
+  const { where, filter, sort, sortBy, sortOrder = 'asc' } = options;
+
+  let results = items;
+  if (where) results = results.filter((item) => matchesWhere(item, where));
+  if (filter) results = results.filter(filter);
+
+  if (sort) {
+    results = [...results].sort(sort);
+  } else if (sortBy) {
+    const direction = sortOrder === 'desc' ? -1 : 1;
+    results = [...results].sort((a, b) => {
+      const left = (a as Record<string, unknown>)[sortBy];
+      const right = (b as Record<string, unknown>)[sortBy];
+      // Missing values stay last in both directions
+      if ((left === undefined || left === null) !== (right === undefined || right === null)) {
+        return left === undefined || left === null ? 1 : -1;
+      }
+      return direction * compareValues(left, right);
+    });
+  }
+
+  const total = results.length;
+  const limit = options.limit && options.limit > 0 ? options.limit : total;
+  const totalPages = limit > 0 ? Math.ceil(total / limit) : 1;
+  const page = Math.min(Math.max(options.page || 1, 1), Math.max(totalPages, 1));
+  const start = (page - 1) * limit;
+
+  return {
+    data: options.limit ? results.slice(start, start + limit) : results,
+    total,
+    page,
+    limit,
+    totalPages: Math.max(totalPages, 1),
+  };
+}
@@ -0,0 +1,371 @@
+// ============================================
+// LAN Sync - Browser Replicator
+// Stamps every local write with a version vector, queues it
+// in an outbox and exchanges changes with the sync server
+// ============================================
+
+import { db } from './database';
+import type { RecordWrite } from './storage';
+import {
+  SYNC_FIELD,
+  bumpVector,
+  compareVectors,
+  getStamp,
+  isSyncedCollection,
+  type SyncChange,
+  type SyncPullResponse,
+  type SyncPushRequest,
+  type SyncPushResponse,
+  type SyncStamp,
+} from './sync';
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string; // Empty for the server this app was loaded from
+  intervalSeconds: number;
+  // Pairing token from a server at another address, derived from its access
+  // key; the server this app was loaded from uses its pairing cookie instead
+  accessToken: string;
+}
+
+export interface SyncStatus {
+  state: 'disabled' | 'idle' | 'syncing' | 'error';
+  nodeId: string;
+  pending: number;
+  lastSyncAt?: string;
+  lastError?: string;
+  lastConflicts: number;
+}
+
+// Local write waiting to be pushed; keyed by `${collection}:${id}`
+interface OutboxEntry {
+  collection: string;
+  id: string;
+  deleted: boolean;
+  stamp: SyncStamp;
+}
+
+const CONFIG_KEY = 'pms_sync_config';
+const NODE_KEY = 'pms_sync_node_id';
+const CURSOR_KEY = 'pms_sync_cursor';
+const OUTBOX_KEY = 'pms_sync_outbox';
+// Set once every existing record has been offered to the server
+const SEEDED_KEY = 'pms_sync_seeded';
+const LOCK_NAME = 'pms_sync';
+const PUSH_BATCH_SIZE = 200;
+const PUSH_DELAY_MS = 1000;
+
+const DEFAULT_CONFIG: SyncConfig = {
+  enabled: false,
+  serverUrl: '',
+  intervalSeconds: 10,
+  accessToken: '',
+};
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? (JSON.parse(saved) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+class SyncReplicator {
+  private initialized = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private running: Promise<void> | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private status: SyncStatus = { state: 'disabled', nodeId: '', pending: 0, lastConflicts: 0 };
+
+  // Stamps are needed even while sync is off, so a later sync sends the right versions
+  init(): void {
+    if (this.initialized || typeof window === 'undefined') return;
+    this.initialized = true;
+    this.status.nodeId = this.getNodeId();
+    this.status.pending = Object.keys(this.readOutbox()).length;
+
+    const nodeId = this.status.nodeId;
+    db.setWriteStamper((collection, record, previous) => {
+      if (!isSyncedCollection(collection)) return;
+      record[SYNC_FIELD] = {
+        vector: bumpVector(getStamp(previous)?.vector, nodeId),
+        updatedAt: new Date().toISOString(),
+        node: nodeId,
+      } satisfies SyncStamp;
+    });
+
+    if (this.getConfig().enabled) this.start();
+  }
+
+  getNodeId(): string {
+    let nodeId = localStorage.getItem(NODE_KEY);
+    if (!nodeId) {
+      nodeId = `pc-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+      localStorage.setItem(NODE_KEY, nodeId);
+    }
+    return nodeId;
+  }
+
+  getConfig(): SyncConfig {
+    const { accessKey, ...saved } = readJson<Partial<SyncConfig> & { accessKey?: string }>(CONFIG_KEY, {});
+    // Older settings kept the raw access key; it is dropped and the PC paired again
+    if (accessKey !== undefined) localStorage.setItem(CONFIG_KEY, JSON.stringify(saved));
+    return { ...DEFAULT_CONFIG, ...saved };
+  }
+
+  saveConfig(config: SyncConfig): void {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    this.stop();
+    if (config.enabled) {
+      this.start();
+    } else {
+      // Writes made while sync is off are found again by the next full push
+      localStorage.removeItem(SEEDED_KEY);
+    }
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  onStatus(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach((listener) => listener(this.getStatus()));
+  }
+
+  private start(): void {
+    const config = this.getConfig();
+    this.unsubscribe = db.subscribe('*', null, (changes) => {
+      const outbox = this.readOutbox();
+      changes.forEach((change) => {
+        if (change.origin !== 'local' || !isSyncedCollection(change.collection)) return;
+        const deleted = change.type === 'delete';
+        const stamp = deleted
+          ? {
+              vector: bumpVector(getStamp(change.previous)?.vector, this.status.nodeId),
+              updatedAt: new Date().toISOString(),
+              node: this.status.nodeId,
+            }
+          : getStamp(change.record);
+        if (!stamp) return;
+        outbox[`${change.collection}:${change.id}`] = { collection: change.collection, id: change.id, deleted, stamp };
+      });
+      this.writeOutbox(outbox);
+      this.schedulePush();
+    });
+    this.timer = setInterval(() => this.syncNow(), Math.max(config.intervalSeconds, 2) * 1000);
+    this.setStatus({ state: 'idle' });
+    this.syncNow();
+  }
+
+  private stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearInterval(this.timer);
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.timer = null;
+    this.pushTimer = null;
+    this.setStatus({ state: 'disabled' });
+  }
+
+  // Pushes soon after a burst of local writes instead of waiting for the interval
+  private schedulePush(): void {
+    if (this.pushTimer) return;
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.syncNow();
+    }, PUSH_DELAY_MS);
+  }
+
+  // One push-then-pull cycle; only one tab of this browser syncs at a time
+  syncNow(): Promise<void> {
+    if (!this.getConfig().enabled) return Promise.resolve();
+    if (this.running) return this.running;
+
+    const cycle = async () => {
+      this.setStatus({ state: 'syncing' });
+      try {
+        const conflicts = await this.push();
+        await this.pull();
+        this.setStatus({
+          state: 'idle',
+          lastSyncAt: new Date().toISOString(),
+          lastError: undefined,
+          lastConflicts: conflicts,
+        });
+      } catch (e) {
+        this.setStatus({ state: 'error', lastError: e instanceof Error ? e.message : String(e) });
+      }
+    };
+
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = async () => {
+      if (!locks) return cycle();
+      // Another tab holding the lock is already syncing for this browser
+      await locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => (lock ? cycle() : undefined));
+    };
+    const running = run().finally(() => {
+      this.running = null;
+    });
+    this.running = running;
+    return running;
+  }
+
+  private endpoint(query = ''): string {
+    const base = this.getConfig().serverUrl.replace(/\/+$/, '');
+    return `${base}/api/sync${query}`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const { accessToken } = this.getConfig();
+    return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+  }
+
+  private async push(): Promise<number> {
+    if (!localStorage.getItem(SEEDED_KEY)) {
+      await this.pushAllRecords();
+      localStorage.setItem(SEEDED_KEY, new Date().toISOString());
+    }
+
+    const entries = Object.values(this.readOutbox());
+    let conflicts = 0;
+    for (let i = 0; i < entries.length; i += PUSH_BATCH_SIZE) {
+      const batch = entries.slice(i, i + PUSH_BATCH_SIZE);
+      const changes = batch
+        .map((entry) => this.toChange(entry))
+        .filter((change): change is SyncChange => change !== null);
+      const result = await this.send(changes);
+      conflicts += result.conflicts;
+
+      // Entries rewritten by a newer local write during the request stay queued
+      const outbox = this.readOutbox();
+      batch.forEach((entry) => {
+        const key = `${entry.collection}:${entry.id}`;
+        const current = outbox[key];
+        if (current && compareVectors(current.stamp.vector, entry.stamp.vector) === 'equal') {
+          delete outbox[key];
+        }
+      });
+      this.writeOutbox(outbox);
+    }
+    return conflicts;
+  }
+
+  // First sync from this PC: offer every record; the server keeps what it lacks
+  private async pushAllRecords(): Promise<void> {
+    const changes: SyncChange[] = [];
+    db.getCollectionNames().filter(isSyncedCollection).forEach((collection) => {
+      db.getAll<Record<string, unknown>>(collection, { includeDeleted: true }).forEach((record) => {
+        if (record?.id === undefined) return;
+        changes.push({
+          collection,
+          id: String(record.id),
+          deleted: false,
+          record,
+          // Records written before sync existed carry no vector yet
+          stamp: getStamp(record) || {
+            vector: {},
+            updatedAt: new Date((record.updatedAt as string) || 0).toISOString(),
+            node: this.status.nodeId,
+          },
+        });
+      });
+    });
+    for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+      await this.send(changes.slice(i, i + PUSH_BATCH_SIZE));
+    }
+  }
+
+  private toChange(entry: OutboxEntry): SyncChange | null {
+    if (entry.deleted) {
+      return { collection: entry.collection, id: entry.id, deleted: true, stamp: entry.stamp };
+    }
+    const record = db.getById<Record<string, unknown>>(entry.collection, entry.id, { includeDeleted: true });
+    const stamp = getStamp(record);
+    if (!record || !stamp) return null;
+    return { collection: entry.collection, id: entry.id, deleted: false, record, stamp };
+  }
+
+  private async send(changes: SyncChange[]): Promise<SyncPushResponse> {
+    if (changes.length === 0) return { accepted: 0, ignored: 0, conflicts: 0 };
+    const response = await fetch(this.endpoint(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      body: JSON.stringify({ nodeId: this.status.nodeId, changes } satisfies SyncPushRequest),
+    });
+    if (!response.ok) {
+      throw new Error(response.status === 401 ? 'This PC is not paired with the sync server' : `Push failed (${response.status})`);
+    }
+    return response.json();
+  }
+
+  private async pull(): Promise<void> {
+    let since = parseInt(localStorage.getItem(CURSOR_KEY) || '0', 10) || 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await fetch(this.endpoint(`?since=${since}`), { headers: this.authHeaders() });
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'This PC is not paired with the sync server' : `Pull failed (${response.status})`);
+      }
+      const page = (await response.json()) as SyncPullResponse;
+      this.applyPulled(page.changes);
+      since = page.cursor;
+      hasMore = page.hasMore;
+      localStorage.setItem(CURSOR_KEY, String(since));
+    }
+  }
+
+  // Takes each server version unless this PC already has it, or has an unpushed
+  // concurrent edit that the next push will hand to the server to resolve.
+  // Versions that fail their schema are logged as conflicts, not stored
+  private applyPulled(changes: SyncChange[]): void {
+    const outbox = this.readOutbox();
+    const writes: RecordWrite[] = [];
+
+    changes.forEach((change) => {
+      if (!isSyncedCollection(change.collection)) return;
+      const key = `${change.collection}:${change.id}`;
+      const pending = outbox[key];
+      const local = db.getById<Record<string, unknown>>(change.collection, change.id, { includeDeleted: true });
+      const localStamp = pending?.stamp || getStamp(local);
+
+      if (!local && !pending && change.deleted) return;
+      if (local || pending) {
+        const order = compareVectors(change.stamp.vector, localStamp?.vector || {});
+        if (order === 'equal' || order === 'less') return;
+        if (order === 'concurrent' && pending) return;
+      }
+
+      writes.push(change.deleted
+        ? { type: 'delete', collection: change.collection, id: change.id }
+        : { type: 'put', collection: change.collection, record: { ...change.record, [SYNC_FIELD]: change.stamp } });
+      delete outbox[key];
+    });
+
+    this.writeOutbox(outbox);
+    db.applySyncedChanges(writes.filter((write) =>
+      write.type === 'put' || db.getById(write.collection, write.id, { includeDeleted: true }) !== undefined));
+  }
+
+  private readOutbox(): Record<string, OutboxEntry> {
+    return readJson<Record<string, OutboxEntry>>(OUTBOX_KEY, {});
+  }
+
+  private writeOutbox(outbox: Record<string, OutboxEntry>): void {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    this.status.pending = Object.keys(outbox).length;
+  }
+}
+
+export const syncReplicator = new SyncReplicator();
@@ -0,0 +1,117 @@
+// ============================================
+// Record Revisions
+// Immutable field-level history of clinical records,
+// written by LocalDatabase on every change to a tracked collection
+// ============================================
+
+import { SYNC_FIELD } from './sync';
+
+export const REVISIONS_COLLECTION = 'revisions';
+
+// Patients, visits and prescription rows are medico-legal records
+export const REVISIONED_COLLECTIONS = ['patients', 'visits', 'prescriptions'];
+
+// Bookkeeping fields that change on every write and say nothing about the record
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', SYNC_FIELD];
+
+// Fields holding inline files (photos as data URLs); revisions keep a fingerprint, not the file
+const BLOB_FIELDS = ['photoUrl'];
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Entry in the revisions collection; never updated or removed once written
+export interface RecordRevision {
+  id: string;
+  collection: string;
+  recordId: string;
+  // Copied from the record so a visit's history also finds its (possibly purged) prescriptions
+  patientId?: string;
+  visitId?: string;
+  action: RevisionAction;
+  changes: FieldChange[];
+  changedAt: Date;
+  changedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function isRevisionedCollection(collection: string): boolean {
+  return REVISIONED_COLLECTIONS.includes(collection);
+}
+
+// Dates become ISO strings so a stored value compares equal to the in-memory one
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, normalize(inner)]));
+  }
+  return value;
+}
+
+function isBlob(field: string, value: unknown): value is string {
+  return typeof value === 'string' && (BLOB_FIELDS.includes(field) || value.startsWith('data:'));
+}
+
+// FNV-1a: enough to tell two versions of a file apart in the history view
+function fingerprint(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function summarizeBlob(value: string): string {
+  if (!value.startsWith('data:')) return value; // A plain URL is small enough to keep
+  return `[file, ${Math.ceil(value.length / 1024)} KB, #${fingerprint(value)}]`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Top-level fields that differ between two versions of a record, in field order
+export function diffRecords(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const previous = normalize(before?.[field]);
+    const next = normalize(after?.[field]);
+    if (isEmpty(previous) && isEmpty(next)) return;
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+    const change: FieldChange = { field };
+    if (!isEmpty(previous)) change.before = isBlob(field, previous) ? summarizeBlob(previous) : previous;
+    if (!isEmpty(next)) change.after = isBlob(field, next) ? summarizeBlob(next) : next;
+    changes.push(change);
+  });
+  return changes;
+}
+
+// Soft deletes and restores are updates underneath; name them for the history view
+export function revisionAction(changes: FieldChange[]): RevisionAction {
+  const deletedAt = changes.find((change) => change.field === 'deletedAt');
+  if (!deletedAt) return 'update';
+  return deletedAt.after ? 'delete' : 'restore';
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (isEmpty(value)) return '—';
+  if (typeof value === 'string') {
+    // Photos are stored inline as data URLs
+    return value.startsWith('data:') ? '[image]' : value;
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
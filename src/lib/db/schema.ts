@@ -3,6 +3,8 @@
 // Using LocalDatabase API
 // ============================================
 
+import type { SoftDeleteFields, Visit } from '@/types';
+
 // Patient type for Doctor Panel
 export interface DoctorPatient {
   id: string;
@@ -15,34 +17,8 @@ export interface DoctorPatient {
   medicalHistory?: string[];
 }
 
-// Visit type for Doctor Panel
-export interface DoctorVisit {
-  id: string;
-  patientId: string;
-  visitDate: Date;
-  visitNumber: number;
-  tokenNumber?: number;
-  chiefComplaint?: string;
-  caseText?: string;
-  diagnosis?: string;
-  advice?: string;
-  testsRequired?: string;
-  nextVisit?: Date;
-  prognosis?: string;
-  remarksToFrontdesk?: string;
-  bp?: string;
-  pulse?: string;
-  tempF?: string;
-  weightKg?: string;
-  status: string;
-  isSelfRepeat?: boolean; // Flag for patient-initiated prescription repeats
-  selfRepeatDate?: Date; // Date when patient requested repeat
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 // Prescription type for Doctor Panel
-export interface DoctorPrescription {
+export interface DoctorPrescription extends SoftDeleteFields {
   id: string;
   visitId: string;
   patientId: string;
@@ -256,8 +232,8 @@ export interface MedicineAmountMemory {
 // Type exports
 export type InsertPatient = Omit<DoctorPatient, 'id'>;
 export type SelectPatient = DoctorPatient;
-export type InsertVisit = Omit<DoctorVisit, 'id' | 'createdAt' | 'updatedAt'>;
-export type SelectVisit = DoctorVisit;
+export type InsertVisit = Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>;
+export type SelectVisit = Visit;
 export type InsertPrescription = Omit<DoctorPrescription, 'id'>;
 export type SelectPrescription = DoctorPrescription;
 export type InsertCombination = Omit<CombinationMedicine, 'id'>;
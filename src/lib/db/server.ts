@@ -0,0 +1,37 @@
+// ============================================
+// Server Database
+// API routes share the same db singleton as the browser code;
+// on the server it is persisted to a SQLite file. At-rest
+// encryption is a browser setting keyed by the doctor's
+// passphrase, so this file, which holds every record the PCs
+// sync, is plaintext: protect it with disk encryption
+// ============================================
+
+import { join } from 'path';
+import type { DatabaseConfig } from '@/types';
+import { db } from './database';
+import { SqliteBackend } from './sqlite';
+import { installServerSync } from './sync-server';
+
+export const serverDbConfig: DatabaseConfig = {
+  type: 'sqlite',
+  name: 'pms_database',
+  path: process.env.PMS_SQLITE_PATH || join(process.cwd(), 'data', 'clinic.db'),
+  version: 4,
+};
+
+let attached: Promise<void> | null = null;
+
+// Call at the start of every route handler that touches the database
+export async function ensureServerDatabase(): Promise<typeof db> {
+  if (!attached) {
+    attached = db.attachBackend(new SqliteBackend(serverDbConfig.path as string))
+      .then(() => installServerSync());
+    attached.catch(() => {
+      // Allow the next request to retry opening the file
+      attached = null;
+    });
+  }
+  await attached;
+  return db;
+}
@@ -0,0 +1,132 @@
+// ============================================
+// SQLite Storage Backend (server only)
+// File-backed store used by the API routes.
+// Records are kept as JSON, one row per record.
+// ============================================
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { getRecordKey, type RecordWrite, type StorageBackend, type StoredDatabase } from './storage';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export class SqliteBackend implements StorageBackend {
+  readonly type = 'sqlite' as const;
+  private database: Database.Database;
+
+  constructor(filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.database = new Database(filePath);
+    this.database.pragma('journal_mode = WAL');
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+      CREATE TABLE IF NOT EXISTS backups (
+        label TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  async load(): Promise<StoredDatabase | null> {
+    const rows = this.database
+      .prepare('SELECT collection, data FROM records ORDER BY rowid')
+      .all() as Array<{ collection: string; data: string }>;
+    const meta = this.database
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get(SCHEMA_VERSION_KEY) as { value: string | null } | undefined;
+
+    if (rows.length === 0 && !meta) return null;
+
+    const collections: Record<string, unknown[]> = {};
+    rows.forEach((row) => {
+      if (!collections[row.collection]) collections[row.collection] = [];
+      collections[row.collection].push(JSON.parse(row.data));
+    });
+    return { schemaVersion: meta?.value ?? null, collections };
+  }
+
+  async saveAll(data: StoredDatabase): Promise<void> {
+    const insert = this.database.prepare('INSERT INTO records (collection, id, data) VALUES (?, ?, ?)');
+    const replaceAll = this.database.transaction(() => {
+      this.database.prepare('DELETE FROM records').run();
+      Object.entries(data.collections).forEach(([collection, records]) => {
+        records.forEach((record) => {
+          const key = getRecordKey(record);
+          if (key === null) {
+            console.warn(`Skipping ${collection} record without id`, record);
+            return;
+          }
+          insert.run(collection, key, JSON.stringify(record));
+        });
+      });
+      this.database
+        .prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+        .run(SCHEMA_VERSION_KEY, data.schemaVersion);
+    });
+    replaceAll();
+  }
+
+  // better-sqlite3 is synchronous, so the row is on disk before the route responds
+  async putRecord(collection: string, record: Record<string, unknown>): Promise<void> {
+    const key = getRecordKey(record);
+    if (key === null) throw new Error(`Cannot store ${collection} record without id`);
+    // Upsert keeps the original rowid so collections load back in insertion order
+    this.database
+      .prepare(`INSERT INTO records (collection, id, data) VALUES (?, ?, ?)
+        ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data`)
+      .run(collection, key, JSON.stringify(record));
+  }
+
+  async deleteRecord(collection: string, id: string): Promise<void> {
+    this.database
+      .prepare('DELETE FROM records WHERE collection = ? AND id = ?')
+      .run(collection, id);
+  }
+
+  async writeBatch(writes: RecordWrite[]): Promise<void> {
+    const upsert = this.database.prepare(`INSERT INTO records (collection, id, data) VALUES (?, ?, ?)
+      ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data`);
+    const remove = this.database.prepare('DELETE FROM records WHERE collection = ? AND id = ?');
+    const applyAll = this.database.transaction(() => {
+      writes.forEach((write) => {
+        if (write.type === 'delete') {
+          remove.run(write.collection, write.id);
+          return;
+        }
+        const key = getRecordKey(write.record);
+        if (key === null) throw new Error(`Cannot store ${write.collection} record without id`);
+        upsert.run(write.collection, key, JSON.stringify(write.record));
+      });
+    });
+    applyAll();
+  }
+
+  async saveBackup(label: string, data: StoredDatabase): Promise<void> {
+    this.database
+      .prepare('INSERT OR REPLACE INTO backups (label, created_at, data) VALUES (?, ?, ?)')
+      .run(label, new Date().toISOString(), JSON.stringify(data));
+  }
+
+  async rewriteBackups(transform: (data: StoredDatabase) => Promise<StoredDatabase>): Promise<void> {
+    const rows = this.database.prepare('SELECT label, data FROM backups').all() as Array<{ label: string; data: string }>;
+    const update = this.database.prepare('UPDATE backups SET data = ? WHERE label = ?');
+    for (const row of rows) {
+      update.run(JSON.stringify(await transform(JSON.parse(row.data) as StoredDatabase)), row.label);
+    }
+  }
+
+  close(): void {
+    this.database.close();
+  }
+}
@@ -0,0 +1,120 @@
+// ============================================
+// Storage Backends for LocalDatabase
+// LocalDatabase keeps every collection in memory and
+// hands each write to a backend for persistence
+// ============================================
+
+// Snapshot of every collection as persisted by a backend
+export interface StoredDatabase {
+  schemaVersion: string | null;
+  collections: Record<string, unknown[]>;
+}
+
+// One record change, as grouped by a LocalDatabase transaction
+export type RecordWrite =
+  | { type: 'put'; collection: string; record: Record<string, unknown> }
+  | { type: 'delete'; collection: string; id: string };
+
+export interface StorageBackend {
+  readonly type: 'localstorage' | 'indexeddb' | 'sqlite';
+  // Returns null when nothing has been persisted yet
+  load(): Promise<StoredDatabase | null>;
+  // Replaces everything that is stored
+  saveAll(data: StoredDatabase): Promise<void>;
+  putRecord(collection: string, record: Record<string, unknown>): Promise<void>;
+  deleteRecord(collection: string, id: string): Promise<void>;
+  // Applies every write or none of them
+  writeBatch(writes: RecordWrite[]): Promise<void>;
+  // Keeps a full copy aside, e.g. before running schema migrations
+  saveBackup(label: string, data: StoredDatabase): Promise<void>;
+  // Replaces every copy kept by saveBackup, e.g. to encrypt them
+  rewriteBackups(transform: (data: StoredDatabase) => Promise<StoredDatabase>): Promise<void>;
+}
+
+// Keys used by the original single-blob localStorage layout
+export const LEGACY_STORAGE_KEY = 'pms_database';
+export const LEGACY_SCHEMA_VERSION_KEY = 'pms_schema_version';
+
+// Reads the record key used by every backend; records without an id cannot be stored
+export function getRecordKey(record: unknown): string | null {
+  if (record && typeof record === 'object' && 'id' in record) {
+    const id = (record as { id: unknown }).id;
+    if (typeof id === 'string' || typeof id === 'number') {
+      return String(id);
+    }
+  }
+  return null;
+}
+
+// ============================================
+// localStorage Backend
+// Whole database serialized under a single key. Used as a fallback
+// when IndexedDB is unavailable and as the source of the one-time
+// migration into IndexedDB.
+// ============================================
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly type = 'localstorage' as const;
+
+  constructor(
+    private getSnapshot: () => StoredDatabase,
+    private key: string = LEGACY_STORAGE_KEY,
+    private versionKey: string = LEGACY_SCHEMA_VERSION_KEY
+  ) {}
+
+  async load(): Promise<StoredDatabase | null> {
+    const savedData = localStorage.getItem(this.key);
+    if (!savedData) return null;
+    return {
+      schemaVersion: localStorage.getItem(this.versionKey),
+      collections: JSON.parse(savedData) as Record<string, unknown[]>,
+    };
+  }
+
+  async saveAll(data: StoredDatabase): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(data.collections));
+    if (data.schemaVersion !== null) {
+      localStorage.setItem(this.versionKey, data.schemaVersion);
+    }
+  }
+
+  // The blob layout cannot write a single record, so every change re-serializes the snapshot
+  async putRecord(): Promise<void> {
+    await this.saveAll(this.getSnapshot());
+  }
+
+  async deleteRecord(): Promise<void> {
+    await this.saveAll(this.getSnapshot());
+  }
+
+  // A single setItem is already all-or-nothing
+  async writeBatch(): Promise<void> {
+    await this.saveAll(this.getSnapshot());
+  }
+
+  async saveBackup(label: string, data: StoredDatabase): Promise<void> {
+    localStorage.setItem(`${this.key}_backup_${label}`, JSON.stringify(data));
+  }
+
+  async rewriteBackups(transform: (data: StoredDatabase) => Promise<StoredDatabase>): Promise<void> {
+    const prefix = `${this.key}_backup_`;
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => !!key && key.startsWith(prefix));
+    for (const key of keys) {
+      const saved = localStorage.getItem(key);
+      if (!saved) continue;
+      const rewritten = JSON.stringify(await transform(JSON.parse(saved) as StoredDatabase));
+      try {
+        localStorage.setItem(key, rewritten);
+      } catch {
+        // The rewritten copy no longer fits: drop it rather than keep the old one
+        localStorage.removeItem(key);
+      }
+    }
+  }
+
+  clear(): void {
+    localStorage.removeItem(this.key);
+    localStorage.removeItem(this.versionKey);
+  }
+}
@@ -0,0 +1,288 @@
+// ============================================
+// LAN Sync - Server Side
+// The server database is the hub every PC replicates with.
+// It numbers each accepted version in a change log (seq),
+// resolves concurrent edits and records them in syncConflicts,
+// where records that fail their schema end up too.
+// Pulls are served from that log, which the change feed keeps
+// up to date, rather than by scanning every collection.
+// ============================================
+
+import { db } from './database';
+import type { RecordWrite } from './storage';
+import {
+  SERVER_NODE_ID,
+  SYNC_FIELD,
+  bumpVector,
+  compareVectors,
+  getStamp,
+  isSyncedCollection,
+  mergeVectors,
+  pickWinner,
+  toConflictVersion,
+  type SyncChange,
+  type SyncPullResponse,
+  type SyncPushResponse,
+  type SyncStamp,
+} from './sync';
+
+const TOMBSTONES = 'syncTombstones';
+const DEFAULT_PULL_LIMIT = 500;
+
+// Deleted records are remembered so the delete can be pulled by other nodes
+interface Tombstone {
+  id: string; // `${collection}:${recordId}`
+  collection: string;
+  recordId: string;
+  [SYNC_FIELD]: SyncStamp;
+}
+
+let lastSeq: number | null = null;
+let installed = false;
+
+// Versions in seq order; an entry is live while it is the newest for its record
+let changeLog: SyncChange[] | null = null;
+const newestSeq = new Map<string, number>(); // `${collection}:${id}` -> seq
+
+function tombstoneId(collection: string, id: string): string {
+  return `${collection}:${id}`;
+}
+
+// The version a stored record or tombstone stands for, if it has a place in the log
+function toLoggedChange(collection: string, record: Record<string, unknown>): SyncChange | null {
+  const stamp = getStamp(record);
+  if (!stamp?.seq) return null;
+  if (collection === TOMBSTONES) {
+    const tombstone = record as unknown as Tombstone;
+    return { collection: tombstone.collection, id: tombstone.recordId, deleted: true, stamp };
+  }
+  if (!isSyncedCollection(collection)) return null;
+  return { collection, id: String(record.id), deleted: false, record, stamp };
+}
+
+function appendToLog(log: SyncChange[], change: SyncChange): void {
+  const seq = change.stamp.seq || 0;
+  const key = tombstoneId(change.collection, change.id);
+  // Already logged when the log was built from the stored records
+  if ((newestSeq.get(key) || 0) >= seq) return;
+  newestSeq.set(key, seq);
+  let at = log.length;
+  while (at > 0 && (log[at - 1].stamp.seq || 0) > seq) at--;
+  log.splice(at, 0, change);
+
+  // Superseded entries are dropped once they outnumber the live ones
+  if (log.length > 2 * newestSeq.size + 1000) {
+    changeLog = log.filter(isLive);
+  }
+}
+
+function isLive(change: SyncChange): boolean {
+  return newestSeq.get(tombstoneId(change.collection, change.id)) === change.stamp.seq;
+}
+
+// Built once from the stored records; the change feed appends after that
+function getChangeLog(): SyncChange[] {
+  if (!changeLog) {
+    const stored: SyncChange[] = [];
+    db.getCollectionNames().forEach((collection) => {
+      if (!isSyncedCollection(collection) && collection !== TOMBSTONES) return;
+      db.getAll<Record<string, unknown>>(collection, { includeDeleted: true }).forEach((record) => {
+        const change = toLoggedChange(collection, record);
+        if (change) stored.push(change);
+      });
+    });
+    stored.sort((a, b) => (a.stamp.seq || 0) - (b.stamp.seq || 0));
+    const log: SyncChange[] = [];
+    changeLog = log;
+    stored.forEach((change) => appendToLog(log, change));
+  }
+  return changeLog;
+}
+
+// Highest seq in the log; computed once from the stored records
+function currentSeq(): number {
+  if (lastSeq === null) {
+    let max = 0;
+    db.getCollectionNames().forEach((collection) => {
+      db.getAll(collection, { includeDeleted: true }).forEach((record) => {
+        const seq = getStamp(record)?.seq || 0;
+        if (seq > max) max = seq;
+      });
+    });
+    lastSeq = max;
+  }
+  return lastSeq;
+}
+
+function nextSeq(): number {
+  lastSeq = currentSeq() + 1;
+  return lastSeq;
+}
+
+// Stamps writes made by the API routes themselves and keeps tombstones for
+// their deletes, so they replicate like edits made on any PC
+export function installServerSync(): void {
+  if (installed) return;
+  installed = true;
+
+  db.setWriteStamper((collection, record, previous) => {
+    if (!isSyncedCollection(collection)) return;
+    record[SYNC_FIELD] = {
+      vector: bumpVector(getStamp(previous)?.vector, SERVER_NODE_ID),
+      updatedAt: new Date().toISOString(),
+      node: SERVER_NODE_ID,
+      seq: nextSeq(),
+    } satisfies SyncStamp;
+  });
+
+  db.subscribe('*', null, (changes) => {
+    changes.forEach((change) => {
+      if (change.origin === 'archive') {
+        // Archived records leave the hot store without a tombstone
+        newestSeq.delete(tombstoneId(change.collection, change.id));
+        return;
+      }
+      if (!changeLog || change.type === 'delete' || !change.record) return;
+      const logged = toLoggedChange(change.collection, change.record as Record<string, unknown>);
+      if (logged) appendToLog(changeLog, logged);
+    });
+
+    const tombstones: RecordWrite[] = changes
+      .filter((change) => change.origin === 'local' && change.type === 'delete' && isSyncedCollection(change.collection))
+      .map((change) => ({
+        type: 'put',
+        collection: TOMBSTONES,
+        record: {
+          id: tombstoneId(change.collection, change.id),
+          collection: change.collection,
+          recordId: change.id,
+          [SYNC_FIELD]: {
+            vector: bumpVector(getStamp(change.previous)?.vector, SERVER_NODE_ID),
+            updatedAt: new Date().toISOString(),
+            node: SERVER_NODE_ID,
+            seq: nextSeq(),
+          },
+        } satisfies Tombstone,
+      }));
+    db.applySyncedChanges(tombstones);
+  });
+}
+
+// The server's current version of a record, live or deleted
+function getServerVersion(collection: string, id: string): SyncChange | null {
+  const record = db.getById<Record<string, unknown>>(collection, id, { includeDeleted: true });
+  const recordStamp = getStamp(record);
+  if (record && recordStamp) {
+    return { collection, id, deleted: false, record, stamp: recordStamp };
+  }
+  const tombstone = db.getById<Tombstone>(TOMBSTONES, tombstoneId(collection, id));
+  if (tombstone) {
+    return { collection, id, deleted: true, stamp: tombstone[SYNC_FIELD] };
+  }
+  if (record) {
+    // Existed before sync was set up: treat as the first version
+    return { collection, id, deleted: false, record, stamp: { vector: {}, updatedAt: new Date(0).toISOString(), node: SERVER_NODE_ID } };
+  }
+  return null;
+}
+
+// Writes one version with the given vector and a new position in the log;
+// false when the database refused it and logged it as a conflict instead
+function storeVersion(change: SyncChange, vector: SyncChange['stamp']['vector'], stamp: Pick<SyncStamp, 'node' | 'updatedAt'>): boolean {
+  const synced: SyncStamp = { vector, updatedAt: stamp.updatedAt, node: stamp.node, seq: nextSeq() };
+  const writes: RecordWrite[] = [];
+  if (change.deleted) {
+    if (db.getById(change.collection, change.id, { includeDeleted: true })) {
+      writes.push({ type: 'delete', collection: change.collection, id: change.id });
+    }
+    writes.push({
+      type: 'put',
+      collection: TOMBSTONES,
+      record: {
+        id: tombstoneId(change.collection, change.id),
+        collection: change.collection,
+        recordId: change.id,
+        [SYNC_FIELD]: synced,
+      } satisfies Tombstone,
+    });
+  } else {
+    writes.push({ type: 'put', collection: change.collection, record: { ...change.record, id: change.id, [SYNC_FIELD]: synced } });
+    if (db.getById(TOMBSTONES, tombstoneId(change.collection, change.id))) {
+      writes.push({ type: 'delete', collection: TOMBSTONES, id: tombstoneId(change.collection, change.id) });
+    }
+  }
+  return db.applySyncedChanges(writes).length === 0;
+}
+
+export function applyPush(changes: SyncChange[]): SyncPushResponse {
+  const result: SyncPushResponse = { accepted: 0, ignored: 0, conflicts: 0 };
+
+  changes.forEach((incoming) => {
+    if (!isSyncedCollection(incoming.collection)) {
+      result.ignored++;
+      return;
+    }
+    const current = getServerVersion(incoming.collection, incoming.id);
+    const order = current ? compareVectors(incoming.stamp.vector, current.stamp.vector) : 'greater';
+
+    if (!current || order === 'greater') {
+      if (storeVersion(incoming, incoming.stamp.vector, incoming.stamp)) result.accepted++;
+      else result.conflicts++;
+      return;
+    }
+    if (order === 'equal' || order === 'less') {
+      result.ignored++;
+      return;
+    }
+
+    // Concurrent edits: keep the deterministic winner under a vector that
+    // supersedes both, so every node replaces its copy on the next pull
+    const { winner, loser } = pickWinner(incoming, current);
+    const merged = bumpVector(mergeVectors(incoming.stamp.vector, current.stamp.vector), SERVER_NODE_ID);
+    if (!storeVersion(winner, merged, winner.stamp)) {
+      result.conflicts++;
+      return;
+    }
+    db.create('syncConflicts', {
+      collection: incoming.collection,
+      recordId: incoming.id,
+      detectedAt: new Date(),
+      winner: toConflictVersion(winner),
+      loser: toConflictVersion(loser),
+      status: 'open',
+    });
+    result.conflicts++;
+  });
+
+  return result;
+}
+
+// The newest version of each record changed after `since`, oldest first
+export function readChanges(since: number, limit: number = DEFAULT_PULL_LIMIT): SyncPullResponse {
+  const log = getChangeLog();
+
+  // First entry after the cursor
+  let low = 0;
+  let high = log.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((log[mid].stamp.seq || 0) <= since) low = mid + 1;
+    else high = mid;
+  }
+
+  const page: SyncChange[] = [];
+  let hasMore = false;
+  for (let i = low; i < log.length; i++) {
+    if (!isLive(log[i])) continue;
+    if (page.length === limit) {
+      hasMore = true;
+      break;
+    }
+    page.push(log[i]);
+  }
+  return {
+    changes: page,
+    cursor: page.length > 0 ? page[page.length - 1].stamp.seq || since : Math.max(since, 0),
+    hasMore,
+  };
+}
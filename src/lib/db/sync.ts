@@ -0,0 +1,156 @@
+// ============================================
+// LAN Sync - Shared Model
+// Version vectors, change payloads and the conflict rule
+// used by both the sync server route and the browser replicator
+// ============================================
+
+// Per-node write counters; a record's vector grows by one for each write on a node
+export type VersionVector = Record<string, number>;
+
+// Stored on every synced record under SYNC_FIELD
+export interface SyncStamp {
+  vector: VersionVector;
+  updatedAt: string; // ISO time of the write that produced this version
+  node: string; // Node that made that write
+  seq?: number; // Position in the server change log, set by the server
+}
+
+export const SYNC_FIELD = '_sync';
+
+// Node id the sync server stamps its own writes with
+export const SERVER_NODE_ID = 'server';
+
+// Collections that describe one machine rather than the clinic
+export const LOCAL_ONLY_COLLECTIONS = [
+  'sessions',
+  'schemaMigrations',
+  'materiaMedicaAISearchCache',
+  'syncTombstones',
+];
+
+export function isSyncedCollection(collection: string): boolean {
+  return !LOCAL_ONLY_COLLECTIONS.includes(collection);
+}
+
+// One record version moving between a node and the server
+export interface SyncChange {
+  collection: string;
+  id: string;
+  deleted: boolean;
+  record?: Record<string, unknown>; // Absent for deletes
+  stamp: SyncStamp;
+}
+
+export interface SyncPushRequest {
+  nodeId: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResponse {
+  accepted: number;
+  ignored: number; // Already known or older than the server copy
+  conflicts: number; // Concurrent edits, and records refused by their schema
+}
+
+export interface SyncPullResponse {
+  changes: SyncChange[];
+  cursor: number; // Pass back as `since` on the next pull
+  hasMore: boolean;
+}
+
+// Entry in the syncConflicts collection, reviewed by the doctor
+export interface SyncConflictVersion {
+  node: string;
+  updatedAt: string;
+  deleted: boolean;
+  data?: Record<string, unknown>;
+}
+
+export interface SyncConflict {
+  id: string;
+  collection: string;
+  recordId: string;
+  detectedAt: Date;
+  winner: SyncConflictVersion;
+  loser: SyncConflictVersion;
+  status: 'open' | 'accepted' | 'overridden';
+  reason?: string; // Why the other version was refused rather than outvoted, e.g. a failed schema check
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function getStamp(record: unknown): SyncStamp | undefined {
+  if (!record || typeof record !== 'object') return undefined;
+  const stamp = (record as Record<string, unknown>)[SYNC_FIELD];
+  return stamp && typeof stamp === 'object' ? (stamp as SyncStamp) : undefined;
+}
+
+export function bumpVector(vector: VersionVector | undefined, node: string): VersionVector {
+  return { ...vector, [node]: (vector?.[node] || 0) + 1 };
+}
+
+export function mergeVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged: VersionVector = { ...a };
+  Object.entries(b).forEach(([node, counter]) => {
+    merged[node] = Math.max(merged[node] || 0, counter);
+  });
+  return merged;
+}
+
+// 'greater' when a has seen every write in b and more; 'concurrent' when each has writes the other lacks
+export function compareVectors(a: VersionVector, b: VersionVector): 'equal' | 'greater' | 'less' | 'concurrent' {
+  let aAhead = false;
+  let bAhead = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach((node) => {
+    const left = a[node] || 0;
+    const right = b[node] || 0;
+    if (left > right) aAhead = true;
+    if (right > left) bAhead = true;
+  });
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'greater';
+  if (bAhead) return 'less';
+  return 'equal';
+}
+
+// Deterministic winner between two concurrent versions, so every node settles
+// on the same result: an edit beats a delete, then the later write wins, then
+// the higher node id breaks a tie
+export function pickWinner(a: SyncChange, b: SyncChange): { winner: SyncChange; loser: SyncChange } {
+  if (a.deleted !== b.deleted) {
+    return a.deleted ? { winner: b, loser: a } : { winner: a, loser: b };
+  }
+  const timeA = new Date(a.stamp.updatedAt).getTime() || 0;
+  const timeB = new Date(b.stamp.updatedAt).getTime() || 0;
+  if (timeA !== timeB) {
+    return timeA > timeB ? { winner: a, loser: b } : { winner: b, loser: a };
+  }
+  return a.stamp.node >= b.stamp.node ? { winner: a, loser: b } : { winner: b, loser: a };
+}
+
+export function toConflictVersion(change: SyncChange): SyncConflictVersion {
+  return {
+    node: change.stamp.node,
+    updatedAt: change.stamp.updatedAt,
+    deleted: change.deleted,
+    data: change.record ? stripStamp(change.record) : undefined,
+  };
+}
+
+// A stored record, or its absence, as one side of a conflict
+export function toRecordVersion(record: Record<string, unknown> | undefined, stamp = getStamp(record)): SyncConflictVersion {
+  return {
+    node: stamp?.node || 'unknown',
+    updatedAt: stamp?.updatedAt || new Date(0).toISOString(),
+    deleted: !record,
+    data: record ? stripStamp(record) : undefined,
+  };
+}
+
+export function stripStamp(record: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...record };
+  delete copy[SYNC_FIELD];
+  return copy;
+}
@@ -0,0 +1,253 @@
+// ============================================
+// Patient Timeline
+// Every record about one patient, from every collection
+// (archived ones included), as a single list of dated events
+// with a link back to the screen that owns the record
+// ============================================
+
+import { archiveDb, db } from './database';
+import { ARCHIVED_COLLECTIONS, mergeArchived } from './archive';
+import { OPEN_REDACTOR, type Redactor } from '@/lib/privacy';
+import { safeHref } from '@/lib/safe-url';
+import type { Appointment, FeeHistoryEntry, Investigation, StaffMessage, Visit, VoiceNote } from '@/types';
+import type { BillingQueueItem, BillingReceipt, DoctorPrescription, MedicineBill, PharmacyQueueItem } from './schema';
+
+export type TimelineEventType =
+  | 'visit'
+  | 'prescription'
+  | 'appointment'
+  | 'pharmacy'
+  | 'fee'
+  | 'receipt'
+  | 'bill'
+  | 'investigation'
+  | 'voiceNote'
+  | 'message';
+
+export const TIMELINE_EVENT_TYPES: { type: TimelineEventType; label: string }[] = [
+  { type: 'visit', label: 'Visits' },
+  { type: 'prescription', label: 'Prescriptions' },
+  { type: 'appointment', label: 'Appointments' },
+  { type: 'pharmacy', label: 'Pharmacy' },
+  { type: 'fee', label: 'Fees' },
+  { type: 'receipt', label: 'Receipts' },
+  { type: 'bill', label: 'Medicine Bills' },
+  { type: 'investigation', label: 'Investigations' },
+  { type: 'voiceNote', label: 'Voice Notes' },
+  { type: 'message', label: 'Messages' },
+];
+
+export interface TimelineEvent {
+  id: string; // Unique across types
+  type: TimelineEventType;
+  date: Date;
+  title: string;
+  detail?: string;
+  status?: string;
+  amount?: number;
+  href?: string; // Deep link into the screen that owns the record
+  external?: boolean; // href is a file, opened in a new tab
+  visitId?: string;
+}
+
+// ============================================
+// Deep Links
+// ============================================
+
+function dayParam(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+}
+
+export const timelineLinks = {
+  visit: (patientId: string, visitId: string) => `/doctor-panel?patientId=${patientId}&visitId=${visitId}`,
+  pharmacy: (visitId: string) => `/pharmacy?visitId=${visitId}`,
+  billingDay: (date: Date | string) => `/billing?date=${dayParam(date)}`,
+  receipt: (receiptId: string) => `/billing?receiptId=${receiptId}`,
+  appointment: (appointmentId: string) => `/appointments/${appointmentId}`,
+};
+
+// ============================================
+// Events
+// ============================================
+
+function medicineLine(prescription: DoctorPrescription): string {
+  return [prescription.medicine, prescription.potency].filter(Boolean).join(' ');
+}
+
+function forPatient<T extends { patientId: string; deletedAt?: Date }>(collection: string, patientId: string, archived?: unknown[]): T[] {
+  const hot = db.findBy<T & { id: string }>(collection, 'patientId', patientId);
+  const old = (archived as (T & { id: string })[] | undefined)?.filter((record) => record.patientId === patientId && !record.deletedAt);
+  return mergeArchived(hot, old);
+}
+
+// Newest first; the redactor masks the patient's private clinical text
+export async function getPatientTimeline(patientId: string, redactor: Redactor = OPEN_REDACTOR): Promise<TimelineEvent[]> {
+  const archived = (await archiveDb.readFrom(new Date(0), ARCHIVED_COLLECTIONS)) || {};
+  const visits = forPatient<Visit>('visits', patientId, archived.visits);
+  const visitsById = new Map(visits.map((visit) => [visit.id, visit]));
+  const events: TimelineEvent[] = [];
+
+  visits.forEach((visit) => {
+    events.push({
+      id: `visit-${visit.id}`,
+      type: 'visit',
+      date: new Date(visit.visitDate),
+      title: `Visit ${visit.visitNumber}${visit.mode !== 'in-person' ? ` (${visit.mode})` : ''}`,
+      detail: [redactor.visitField('chiefComplaint', visit.chiefComplaint), redactor.visitField('diagnosis', visit.diagnosis)].filter(Boolean).join(' · ') || undefined,
+      status: visit.status,
+      href: timelineLinks.visit(patientId, visit.id),
+      visitId: visit.id,
+    });
+  });
+
+  // One event per visit's prescription, not per medicine line
+  const prescriptionsByVisit = new Map<string, DoctorPrescription[]>();
+  forPatient<DoctorPrescription>('prescriptions', patientId, archived.prescriptions).forEach((prescription) => {
+    prescriptionsByVisit.set(prescription.visitId, [...(prescriptionsByVisit.get(prescription.visitId) || []), prescription]);
+  });
+  prescriptionsByVisit.forEach((lines, visitId) => {
+    const visit = visitsById.get(visitId);
+    if (!visit) return;
+    events.push({
+      id: `prescription-${visitId}`,
+      type: 'prescription',
+      date: new Date(visit.visitDate),
+      title: `Prescription (${lines.length} ${lines.length === 1 ? 'medicine' : 'medicines'})`,
+      detail: lines.sort((a, b) => a.rowOrder - b.rowOrder).map(medicineLine).join(', '),
+      href: timelineLinks.visit(patientId, visitId),
+      visitId,
+    });
+  });
+
+  db.findBy<Appointment>('appointments', 'patientId', patientId).forEach((appointment) => {
+    const date = new Date(appointment.appointmentDate);
+    const [hours, minutes] = (appointment.appointmentTime || '').split(':').map(Number);
+    if (!isNaN(hours)) date.setHours(hours, minutes || 0, 0, 0);
+    events.push({
+      id: `appointment-${appointment.id}`,
+      type: 'appointment',
+      date,
+      title: `Appointment${appointment.tokenNumber ? ` · Token ${appointment.tokenNumber}` : ''}`,
+      detail: [appointment.type, appointment.visitMode, appointment.notes].filter(Boolean).join(' · '),
+      status: appointment.status,
+      href: timelineLinks.appointment(appointment.id),
+    });
+  });
+
+  forPatient<PharmacyQueueItem>('pharmacy', patientId, archived.pharmacy).forEach((item) => {
+    events.push({
+      id: `pharmacy-${item.id}`,
+      type: 'pharmacy',
+      date: new Date(item.deliveredAt || item.preparedAt || item.createdAt),
+      title: `Pharmacy${item.courier ? ' (courier)' : ''}`,
+      detail: `${item.prescriptionIds.length} ${item.prescriptionIds.length === 1 ? 'medicine' : 'medicines'}${item.stopReason ? ` · ${item.stopReason}` : ''}`,
+      status: item.status,
+      href: timelineLinks.pharmacy(item.visitId),
+      visitId: item.visitId,
+    });
+  });
+
+  forPatient<BillingQueueItem>('billingQueue', patientId, archived.billingQueue).forEach((item) => {
+    events.push({
+      id: `fee-${item.id}`,
+      type: 'fee',
+      date: new Date(item.createdAt),
+      title: item.feeType || 'Fee',
+      status: item.paymentStatus,
+      amount: item.netAmount,
+      href: item.receiptNumber ? undefined : timelineLinks.billingDay(item.createdAt),
+      visitId: item.visitId,
+    });
+  });
+
+  const receipts = forPatient<BillingReceipt>('billingReceipts', patientId, archived.billingReceipts);
+  receipts.forEach((receipt) => {
+    events.push({
+      id: `receipt-${receipt.id}`,
+      type: 'receipt',
+      date: new Date(receipt.createdAt),
+      title: `Receipt ${receipt.receiptNumber}`,
+      detail: receipt.items.map((item) => item.description).join(', ') || undefined,
+      status: receipt.paymentStatus,
+      amount: receipt.netAmount,
+      href: timelineLinks.receipt(receipt.id),
+      visitId: receipt.visitId,
+    });
+  });
+
+  // Fee history from before billing receipts existed
+  const receiptKeys = new Set(receipts.flatMap((receipt) => [receipt.id, receipt.receiptNumber]));
+  db.findBy<FeeHistoryEntry>('feeHistory', 'patientId', patientId)
+    .filter((entry) => !receiptKeys.has(entry.receiptId))
+    .forEach((entry) => {
+      events.push({
+        id: `fee-history-${entry.id}`,
+        type: 'fee',
+        date: new Date(entry.paidDate),
+        title: `Fee (${entry.feeType})`,
+        detail: entry.receiptId ? `Receipt ${entry.receiptId}` : undefined,
+        status: entry.paymentStatus,
+        amount: entry.amount,
+        visitId: entry.visitId,
+      });
+    });
+
+  forPatient<MedicineBill>('medicineBills', patientId, archived.medicineBills).forEach((bill) => {
+    events.push({
+      id: `bill-${bill.id}`,
+      type: 'bill',
+      date: new Date(bill.createdAt),
+      title: 'Medicine Bill',
+      detail: bill.items.map((item) => [item.medicine, item.potency].filter(Boolean).join(' ')).join(', ') || undefined,
+      status: bill.paymentStatus || bill.status,
+      amount: bill.grandTotal,
+      href: timelineLinks.billingDay(bill.createdAt),
+      visitId: bill.visitId,
+    });
+  });
+
+  db.findBy<Investigation>('investigations', 'patientId', patientId).forEach((investigation) => {
+    events.push({
+      id: `investigation-${investigation.id}`,
+      type: 'investigation',
+      date: new Date(investigation.investigationDate),
+      title: investigation.title,
+      detail: investigation.labValues?.length
+        ? investigation.labValues.map((labValue) => `${labValue.name} ${labValue.value} ${labValue.unit}`.trim()).join(', ')
+        : investigation.description || investigation.fileName,
+      href: safeHref(investigation.fileUrl),
+      external: true,
+      visitId: investigation.visitId,
+    });
+  });
+
+  db.findBy<VoiceNote>('voiceNotes', 'patientId', patientId).forEach((note) => {
+    events.push({
+      id: `voice-note-${note.id}`,
+      type: 'voiceNote',
+      date: new Date(note.createdAt),
+      title: `Voice Note (${Math.round(note.duration)}s)`,
+      detail: redactor.caseText(note.transcript)?.slice(0, 160),
+      href: safeHref(note.fileUrl),
+      external: true,
+      visitId: note.visitId,
+    });
+  });
+
+  db.findBy<StaffMessage>('staffMessages', 'patientId', patientId).forEach((message) => {
+    events.push({
+      id: `message-${message.id}`,
+      type: 'message',
+      date: new Date(message.createdAt),
+      title: `Message from ${message.senderName} to ${message.recipientName}`,
+      detail: message.content,
+      status: message.priority !== 'normal' ? message.priority : undefined,
+      href: '/messages',
+    });
+  });
+
+  return events
+    .filter((event) => !isNaN(event.date.getTime()))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
@@ -0,0 +1,175 @@
+// ============================================
+// Record Validation
+// Runtime field checks for LocalDatabase writes: values are
+// coerced to their declared type (e.g. ISO strings to Date)
+// and anything that cannot be is reported field by field
+// ============================================
+
+import type { SoftDeleteFields } from '@/types';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'enum' | 'array' | 'object';
+
+export interface FieldSchema {
+  type: FieldType;
+  // Must be present and non-empty when the record is created
+  required?: boolean;
+  values?: readonly string[]; // enum
+  items?: FieldSchema; // array
+  fields?: Record<string, FieldSchema>; // object
+  // Filled in on create when the field is missing
+  default?: () => unknown;
+}
+
+interface FieldOptions {
+  required?: boolean;
+  default?: () => unknown;
+}
+
+export const field = {
+  string: (options: FieldOptions = {}): FieldSchema => ({ type: 'string', ...options }),
+  number: (options: FieldOptions = {}): FieldSchema => ({ type: 'number', ...options }),
+  boolean: (options: FieldOptions = {}): FieldSchema => ({ type: 'boolean', ...options }),
+  date: (options: FieldOptions = {}): FieldSchema => ({ type: 'date', ...options }),
+  enum: (values: readonly string[], options: FieldOptions = {}): FieldSchema => ({ type: 'enum', values, ...options }),
+  array: (items: FieldSchema, options: FieldOptions = {}): FieldSchema => ({ type: 'array', items, ...options }),
+  object: (fields: Record<string, FieldSchema>, options: FieldOptions = {}): FieldSchema => ({ type: 'object', fields, ...options }),
+};
+
+// Fields LocalDatabase manages itself and never validates
+type ManagedField = 'id' | 'createdAt' | 'updatedAt' | keyof SoftDeleteFields;
+
+// One entry per field of T, so adding a field to the type without declaring it fails to compile
+export type CollectionSchema<T> = {
+  [K in Exclude<keyof T, ManagedField>]-?: FieldSchema;
+};
+
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. address.pincode or tags[2]
+  message: string;
+  value?: unknown;
+}
+
+export interface ValidationResult<T = Record<string, unknown>> {
+  valid: boolean;
+  value: T; // The record with coerced values; only safe to write when valid
+  issues: ValidationIssue[];
+}
+
+export class ValidationError extends Error {
+  constructor(public collection: string, public issues: ValidationIssue[]) {
+    super(`Invalid ${collection} record: ${issues.map((issue) => `${issue.field} ${issue.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// Alert text for a failed save: the fields to correct, or the fallback for anything else
+export function saveErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof ValidationError
+    ? `Please correct: ${error.issues.map((issue) => `${issue.field} ${issue.message}`).join(', ')}`
+    : fallback;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+const TRUE_STRINGS = ['true', 'yes', '1'];
+const FALSE_STRINGS = ['false', 'no', '0'];
+
+// Returns the coerced value, pushing an issue when the value cannot be used
+function coerceField(schema: FieldSchema, value: unknown, path: string, issues: ValidationIssue[]): unknown {
+  if (isBlank(value)) {
+    if (schema.type === 'number' || schema.type === 'date') return undefined;
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      issues.push({ field: path, message: 'must be text', value });
+      return value;
+
+    case 'number': {
+      if (typeof value === 'number' && !isNaN(value)) return value;
+      const parsed = typeof value === 'string' ? Number(value.trim()) : NaN;
+      if (!isNaN(parsed)) return parsed;
+      issues.push({ field: path, message: 'must be a number', value });
+      return value;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (TRUE_STRINGS.includes(String(value).toLowerCase())) return true;
+      if (FALSE_STRINGS.includes(String(value).toLowerCase())) return false;
+      issues.push({ field: path, message: 'must be true or false', value });
+      return value;
+
+    case 'date': {
+      const date = value instanceof Date ? value
+        : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      if (date && !isNaN(date.getTime())) return date;
+      issues.push({ field: path, message: 'must be a valid date', value });
+      return value;
+    }
+
+    case 'enum':
+      if (typeof value === 'string' && schema.values!.includes(value)) return value;
+      issues.push({ field: path, message: `must be one of ${schema.values!.join(', ')}`, value });
+      return value;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ field: path, message: 'must be a list', value });
+        return value;
+      }
+      return value.map((item, index) => coerceField(schema.items!, item, `${path}[${index}]`, issues));
+
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ field: path, message: 'must be an object', value });
+        return value;
+      }
+      return coerceFields(schema.fields!, value as Record<string, unknown>, false, `${path}.`, issues);
+  }
+}
+
+function coerceFields(
+  fields: Record<string, FieldSchema>,
+  record: Record<string, unknown>,
+  partial: boolean,
+  prefix: string,
+  issues: ValidationIssue[]
+): Record<string, unknown> {
+  // Fields without a schema (e.g. sync stamps) pass through unchanged
+  const result: Record<string, unknown> = { ...record };
+  Object.entries(fields).forEach(([name, schema]) => {
+    const present = name in record;
+    // Partial writes only touch the fields they carry
+    if (partial && !present) return;
+    let value = record[name];
+    if (!present && schema.default) {
+      value = schema.default();
+    }
+    if (isBlank(value) && schema.required) {
+      issues.push({ field: `${prefix}${name}`, message: 'is required' });
+      return;
+    }
+    const coerced = coerceField(schema, value, `${prefix}${name}`, issues);
+    if (coerced !== undefined || present) {
+      result[name] = coerced;
+    }
+  });
+  return result;
+}
+
+// Validates a whole record (create) or only the given fields (partial, for updates)
+export function validateRecord<T extends Record<string, unknown>>(
+  schema: Record<string, FieldSchema>,
+  record: T,
+  options: { partial?: boolean } = {}
+): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const value = coerceFields(schema, record, !!options.partial, '', issues) as T;
+  return { valid: issues.length === 0, value, issues };
+}
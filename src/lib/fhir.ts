@@ -0,0 +1,555 @@
+// ============================================
+// FHIR R4 Mapping
+// Patients, visits, prescriptions, vitals and investigations
+// to and from FHIR R4 resources, for handing records to other
+// providers (and ABDM-aligned systems). Only the elements this
+// clinic records are mapped; homeopathy details with no FHIR
+// element (potency, dose pattern, case notes...) travel as
+// extensions so a Bundle exported here imports back intact
+// ============================================
+
+import type { Investigation, Patient, Visit } from '@/types';
+import type { DoctorPrescription } from '@/lib/db/schema';
+import { isSafeFileUrl } from '@/lib/safe-url';
+
+export const FHIR_SYSTEMS = {
+  registrationNumber: 'urn:homeopathy-pms:registration-number',
+  extension: 'urn:homeopathy-pms:fhir',
+  loinc: 'http://loinc.org',
+  ucum: 'http://unitsofmeasure.org',
+  actCode: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+  maritalStatus: 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus',
+  observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category',
+} as const;
+
+// ============================================
+// Resource Types
+// The subset of R4 read and written here
+// ============================================
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueString?: string;
+  valueInteger?: number;
+}
+
+interface FhirResourceBase {
+  id?: string;
+  meta?: { lastUpdated?: string };
+  extension?: FhirExtension[];
+}
+
+export interface FhirPatient extends FhirResourceBase {
+  resourceType: 'Patient';
+  identifier?: { system?: string; value?: string }[];
+  active?: boolean;
+  name?: { use?: string; text?: string; family?: string; given?: string[]; prefix?: string[] }[];
+  telecom?: { system?: 'phone' | 'email'; value?: string; use?: string; rank?: number }[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  address?: { line?: string[]; city?: string; state?: string; postalCode?: string; country?: string }[];
+  maritalStatus?: FhirCodeableConcept;
+}
+
+export interface FhirEncounter extends FhirResourceBase {
+  resourceType: 'Encounter';
+  status: 'planned' | 'in-progress' | 'finished' | 'cancelled' | 'entered-in-error' | 'unknown';
+  class: FhirCoding;
+  subject?: FhirReference;
+  participant?: { individual?: FhirReference }[];
+  period?: { start?: string; end?: string };
+  reasonCode?: FhirCodeableConcept[];
+}
+
+export interface FhirMedicationRequest extends FhirResourceBase {
+  resourceType: 'MedicationRequest';
+  status: 'active' | 'completed' | 'cancelled' | 'stopped' | 'unknown';
+  intent: 'order' | 'plan' | 'proposal';
+  medicationCodeableConcept?: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  authoredOn?: string;
+  dosageInstruction?: {
+    sequence?: number;
+    text?: string;
+    timing?: { code?: FhirCodeableConcept };
+    patientInstruction?: string;
+  }[];
+  dispenseRequest?: { expectedSupplyDuration?: FhirQuantity };
+}
+
+export interface FhirObservation extends FhirResourceBase {
+  resourceType: 'Observation';
+  status: 'final' | 'amended' | 'preliminary' | 'registered' | 'cancelled' | 'entered-in-error' | 'unknown';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: FhirQuantity;
+  valueString?: string;
+  component?: { code: FhirCodeableConcept; valueQuantity?: FhirQuantity }[];
+}
+
+export interface FhirDocumentReference extends FhirResourceBase {
+  resourceType: 'DocumentReference';
+  status: 'current' | 'superseded' | 'entered-in-error';
+  type?: FhirCodeableConcept;
+  subject?: FhirReference;
+  date?: string;
+  author?: FhirReference[];
+  description?: string;
+  content: { attachment: { contentType?: string; url?: string; data?: string; title?: string; size?: number; creation?: string } }[];
+  context?: { encounter?: FhirReference[]; period?: { start?: string } };
+}
+
+export type FhirResource = FhirPatient | FhirEncounter | FhirMedicationRequest | FhirObservation | FhirDocumentReference;
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource | { resourceType: string; id?: string };
+  search?: { mode: 'match' | 'include' };
+  request?: { method: string; url: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'searchset' | 'collection' | 'transaction' | 'batch' | 'document';
+  timestamp?: string;
+  total?: number;
+  entry?: FhirBundleEntry[];
+}
+
+export interface FhirOperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: { severity: 'error' | 'warning' | 'information'; code: string; diagnostics: string; expression?: string[] }[];
+}
+
+// ============================================
+// Shared Helpers
+// ============================================
+
+function extension(name: string, value: string | number | undefined): FhirExtension[] {
+  if (value === undefined || value === '') return [];
+  const url = `${FHIR_SYSTEMS.extension}/${name}`;
+  return [typeof value === 'number' ? { url, valueInteger: value } : { url, valueString: value }];
+}
+
+export function readExtension(resource: FhirResourceBase, name: string): string | undefined {
+  const found = resource.extension?.find((ext) => ext.url === `${FHIR_SYSTEMS.extension}/${name}`);
+  if (!found) return undefined;
+  return found.valueString ?? (found.valueInteger !== undefined ? String(found.valueInteger) : undefined);
+}
+
+function dateTime(value: Date | string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function reference(resourceType: string, id: string): FhirReference {
+  return { reference: `${resourceType}/${id}` };
+}
+
+// Drops undefined and empty-array elements so exported JSON stays readable
+function compact<T extends object>(resource: T): T {
+  return Object.fromEntries(
+    Object.entries(resource).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  ) as T;
+}
+
+// ============================================
+// To FHIR
+// ============================================
+
+const MARITAL_STATUS_CODES: Record<NonNullable<Patient['maritalStatus']>, string> = {
+  single: 'S',
+  married: 'M',
+  divorced: 'D',
+  widowed: 'W',
+};
+
+export function toFhirPatient(patient: Patient): FhirPatient {
+  const address = patient.address;
+  return compact<FhirPatient>({
+    resourceType: 'Patient',
+    id: patient.id,
+    meta: { lastUpdated: dateTime(patient.updatedAt) },
+    identifier: [{ system: FHIR_SYSTEMS.registrationNumber, value: patient.registrationNumber }],
+    active: !patient.deletedAt,
+    name: [compact({
+      use: 'official',
+      text: patient.fullName,
+      family: patient.lastName || undefined,
+      given: patient.firstName ? [patient.firstName] : undefined,
+      prefix: patient.salutation ? [patient.salutation] : undefined,
+    })],
+    telecom: [
+      ...(patient.mobileNumber ? [{ system: 'phone' as const, value: patient.mobileNumber, use: 'mobile', rank: 1 }] : []),
+      ...(patient.alternateMobile ? [{ system: 'phone' as const, value: patient.alternateMobile, use: 'mobile', rank: 2 }] : []),
+      ...(patient.email ? [{ system: 'email' as const, value: patient.email }] : []),
+    ],
+    gender: patient.gender,
+    birthDate: patient.dateOfBirth || undefined,
+    address: address && Object.values(address).some(Boolean)
+      ? [compact({
+          line: address.street ? [address.street] : undefined,
+          city: address.city || undefined,
+          state: address.state || undefined,
+          postalCode: address.pincode || undefined,
+          country: address.country || undefined,
+        })]
+      : undefined,
+    maritalStatus: patient.maritalStatus
+      ? { coding: [{ system: FHIR_SYSTEMS.maritalStatus, code: MARITAL_STATUS_CODES[patient.maritalStatus] }], text: patient.maritalStatus }
+      : undefined,
+    extension: [
+      ...extension('blood-group', patient.bloodGroup !== 'unknown' ? patient.bloodGroup : undefined),
+      ...extension('occupation', patient.occupation),
+      ...(patient.allergies || []).flatMap((allergy) => extension('allergy', allergy)),
+      ...(patient.medicalHistory || []).flatMap((condition) => extension('medical-history', condition)),
+    ],
+  });
+}
+
+const ENCOUNTER_STATUSES: Record<Visit['status'], FhirEncounter['status']> = {
+  active: 'in-progress',
+  locked: 'finished',
+  completed: 'finished',
+  cancelled: 'cancelled',
+  'no-show': 'cancelled',
+};
+
+// Tele and video consultations are virtual encounters; everything else happened at the clinic
+function encounterClass(mode: Visit['mode']): FhirCoding {
+  return mode === 'tele' || mode === 'video'
+    ? { system: FHIR_SYSTEMS.actCode, code: 'VR', display: 'virtual' }
+    : { system: FHIR_SYSTEMS.actCode, code: 'AMB', display: 'ambulatory' };
+}
+
+export function toFhirEncounter(visit: Visit): FhirEncounter {
+  return compact<FhirEncounter>({
+    resourceType: 'Encounter',
+    id: visit.id,
+    meta: { lastUpdated: dateTime(visit.updatedAt) },
+    status: ENCOUNTER_STATUSES[visit.status] || 'unknown',
+    class: encounterClass(visit.mode),
+    subject: reference('Patient', visit.patientId),
+    participant: visit.doctorName ? [{ individual: { display: visit.doctorName } }] : undefined,
+    period: { start: dateTime(visit.visitDate) },
+    reasonCode: visit.chiefComplaint ? [{ text: visit.chiefComplaint }] : undefined,
+    extension: [
+      ...extension('visit-mode', visit.mode),
+      ...extension('visit-status', visit.status),
+      ...extension('diagnosis', visit.diagnosis),
+      ...extension('case-notes', visit.caseText),
+      ...extension('advice', visit.advice),
+      ...extension('prognosis', visit.prognosis),
+      ...extension('tests-required', visit.testsRequired),
+      ...extension('notes', visit.notes),
+      ...extension('next-visit', visit.nextVisit ? dateTime(visit.nextVisit) : undefined),
+    ],
+  });
+}
+
+export function toFhirMedicationRequest(prescription: DoctorPrescription, visit: Visit): FhirMedicationRequest {
+  return compact<FhirMedicationRequest>({
+    resourceType: 'MedicationRequest',
+    id: prescription.id,
+    status: visit.status === 'active' ? 'active' : visit.status === 'cancelled' ? 'cancelled' : 'completed',
+    intent: 'order',
+    medicationCodeableConcept: { text: prescription.medicine },
+    subject: reference('Patient', prescription.patientId),
+    encounter: reference('Encounter', prescription.visitId),
+    authoredOn: dateTime(visit.visitDate),
+    dosageInstruction: [compact({
+      sequence: prescription.rowOrder + 1,
+      text: prescription.dosePattern || undefined,
+      timing: prescription.frequency ? { code: { text: prescription.frequency } } : undefined,
+      patientInstruction: prescription.instructions || undefined,
+    })],
+    dispenseRequest: prescription.durationDays
+      ? { expectedSupplyDuration: { value: prescription.durationDays, unit: 'days', system: FHIR_SYSTEMS.ucum, code: 'd' } }
+      : undefined,
+    extension: [
+      ...extension('potency', prescription.potency),
+      ...extension('dose-form', prescription.doseForm),
+      ...extension('quantity', prescription.quantity),
+      ...extension('duration', prescription.duration),
+      ...extension('bottles', prescription.bottles),
+      ...extension('combination', prescription.isCombination ? prescription.combinationName || prescription.medicine : undefined),
+      ...extension('combination-content', prescription.combinationContent),
+    ],
+  });
+}
+
+type VitalField = 'bp' | 'pulse' | 'tempF' | 'weightKg';
+
+// LOINC vital-sign codes; values are kept as typed when they are not plain numbers
+export const VITAL_SIGNS: Record<VitalField, { code: string; display: string; unit: string; ucum: string }> = {
+  bp: { code: '85354-9', display: 'Blood pressure panel', unit: 'mmHg', ucum: 'mm[Hg]' },
+  pulse: { code: '8867-4', display: 'Heart rate', unit: 'beats/minute', ucum: '/min' },
+  tempF: { code: '8310-5', display: 'Body temperature', unit: 'degF', ucum: '[degF]' },
+  weightKg: { code: '29463-7', display: 'Body weight', unit: 'kg', ucum: 'kg' },
+};
+
+const BP_COMPONENTS = {
+  systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+};
+
+function loinc(code: string, display: string): FhirCodeableConcept {
+  return { coding: [{ system: FHIR_SYSTEMS.loinc, code, display }], text: display };
+}
+
+function quantity(value: number, field: VitalField): FhirQuantity {
+  return { value, unit: VITAL_SIGNS[field].unit, system: FHIR_SYSTEMS.ucum, code: VITAL_SIGNS[field].ucum };
+}
+
+// One Observation per vital recorded on the visit
+export function toFhirVitalObservations(visit: Visit): FhirObservation[] {
+  return (Object.keys(VITAL_SIGNS) as VitalField[]).flatMap((field) => {
+    const raw = visit[field]?.trim();
+    if (!raw) return [];
+    const { code, display } = VITAL_SIGNS[field];
+    const observation: FhirObservation = {
+      resourceType: 'Observation',
+      id: `${visit.id}-${field}`,
+      status: 'final',
+      category: [{ coding: [{ system: FHIR_SYSTEMS.observationCategory, code: 'vital-signs', display: 'Vital Signs' }] }],
+      code: loinc(code, display),
+      subject: reference('Patient', visit.patientId),
+      encounter: reference('Encounter', visit.id),
+      effectiveDateTime: dateTime(visit.visitDate),
+    };
+
+    const bp = field === 'bp' ? raw.match(/^(\d{2,3})\s*\/\s*(\d{2,3})$/) : null;
+    if (bp) {
+      observation.component = [
+        { code: loinc(BP_COMPONENTS.systolic.code, BP_COMPONENTS.systolic.display), valueQuantity: quantity(Number(bp[1]), 'bp') },
+        { code: loinc(BP_COMPONENTS.diastolic.code, BP_COMPONENTS.diastolic.display), valueQuantity: quantity(Number(bp[2]), 'bp') },
+      ];
+    } else if (field !== 'bp' && /^\d+(\.\d+)?$/.test(raw)) {
+      observation.valueQuantity = quantity(Number(raw), field);
+    } else {
+      observation.valueString = raw;
+    }
+    return [observation];
+  });
+}
+
+const CONTENT_TYPES: Record<Investigation['fileType'], string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// Relative file URLs are made absolute against baseUrl so the receiver can fetch them
+export function toFhirDocumentReference(investigation: Investigation, baseUrl?: string): FhirDocumentReference {
+  const url = baseUrl && investigation.fileUrl.startsWith('/') ? `${baseUrl}${investigation.fileUrl}` : investigation.fileUrl;
+  return compact<FhirDocumentReference>({
+    resourceType: 'DocumentReference',
+    id: investigation.id,
+    status: 'current',
+    type: { text: investigation.title },
+    subject: reference('Patient', investigation.patientId),
+    date: dateTime(investigation.uploadedAt),
+    author: investigation.uploadedBy ? [{ display: investigation.uploadedBy }] : undefined,
+    description: investigation.description || undefined,
+    content: [{
+      attachment: compact({
+        contentType: CONTENT_TYPES[investigation.fileType],
+        url,
+        title: investigation.fileName,
+        size: investigation.fileSize || undefined,
+        creation: dateTime(investigation.investigationDate),
+      }),
+    }],
+    context: compact({
+      encounter: investigation.visitId ? [reference('Encounter', investigation.visitId)] : undefined,
+      period: { start: dateTime(investigation.investigationDate) },
+    }),
+  });
+}
+
+export function fileTypeFromContentType(contentType: string | undefined, fileName = ''): Investigation['fileType'] | undefined {
+  const match = Object.entries(CONTENT_TYPES).find(([, type]) => type === contentType?.toLowerCase());
+  if (match) return match[0] as Investigation['fileType'];
+  const extensionMatch = fileName.toLowerCase().match(/\.(pdf|jpe?g|png|webp)$/);
+  return extensionMatch ? (extensionMatch[1] as Investigation['fileType']) : undefined;
+}
+
+// ============================================
+// From FHIR
+// ============================================
+
+export function fromFhirGender(gender: FhirPatient['gender']): Patient['gender'] | undefined {
+  return gender === 'male' || gender === 'female' || gender === 'other' ? gender : undefined;
+}
+
+export function fromFhirMaritalStatus(concept: FhirCodeableConcept | undefined): Patient['maritalStatus'] {
+  const code = concept?.coding?.find((coding) => coding.system === FHIR_SYSTEMS.maritalStatus)?.code;
+  const match = Object.entries(MARITAL_STATUS_CODES).find(([, value]) => value === code);
+  return match ? (match[0] as Patient['maritalStatus']) : undefined;
+}
+
+export function fromFhirEncounterStatus(encounter: FhirEncounter): Visit['status'] {
+  const recorded = readExtension(encounter, 'visit-status') as Visit['status'] | undefined;
+  if (recorded && recorded in ENCOUNTER_STATUSES) return recorded;
+  if (encounter.status === 'in-progress') return 'active';
+  if (encounter.status === 'cancelled') return 'cancelled';
+  return 'completed';
+}
+
+export function fromFhirEncounterMode(encounter: FhirEncounter): Visit['mode'] {
+  const recorded = readExtension(encounter, 'visit-mode') as Visit['mode'] | undefined;
+  if (recorded && ['in-person', 'tele', 'video', 'self-repeat'].includes(recorded)) return recorded;
+  return encounter.class?.code === 'VR' ? 'tele' : 'in-person';
+}
+
+// The vital an Observation records and its value as this clinic writes it ("120/80", "72")
+export function fromFhirVitalObservation(observation: FhirObservation): { field: VitalField; value: string } | undefined {
+  const codes = observation.code.coding?.filter((coding) => coding.system === FHIR_SYSTEMS.loinc).map((coding) => coding.code) || [];
+  const field = (Object.keys(VITAL_SIGNS) as VitalField[]).find((name) => codes.includes(VITAL_SIGNS[name].code));
+  if (!field) return undefined;
+
+  if (field === 'bp' && observation.component) {
+    const part = (code: string) => observation.component!.find((component) =>
+      component.code.coding?.some((coding) => coding.code === code))?.valueQuantity?.value;
+    const systolic = part(BP_COMPONENTS.systolic.code);
+    const diastolic = part(BP_COMPONENTS.diastolic.code);
+    if (systolic !== undefined && diastolic !== undefined) return { field, value: `${systolic}/${diastolic}` };
+  }
+  const value = observation.valueQuantity?.value !== undefined ? String(observation.valueQuantity.value) : observation.valueString;
+  return value ? { field, value } : undefined;
+}
+
+// ============================================
+// Validation
+// Structural checks on an incoming Bundle; references are
+// resolved (and reported) by the importer
+// ============================================
+
+export const SUPPORTED_RESOURCE_TYPES = ['Patient', 'Encounter', 'MedicationRequest', 'Observation', 'DocumentReference'] as const;
+
+export interface FhirValidationIssue {
+  severity: 'error' | 'warning';
+  path: string; // e.g. "Bundle.entry[3].resource"
+  message: string;
+}
+
+export function validateBundle(input: unknown): FhirValidationIssue[] {
+  const issues: FhirValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+
+  if (!input || typeof input !== 'object' || (input as { resourceType?: unknown }).resourceType !== 'Bundle') {
+    error('Bundle', 'Not a FHIR Bundle');
+    return issues;
+  }
+  const bundle = input as FhirBundle;
+  if (!['searchset', 'collection', 'transaction', 'batch', 'document'].includes(bundle.type)) {
+    error('Bundle.type', `Unsupported Bundle type "${bundle.type}"`);
+  }
+  if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) {
+    error('Bundle.entry', 'The Bundle has no entries');
+    return issues;
+  }
+
+  bundle.entry.forEach((entry, index) => {
+    const path = `Bundle.entry[${index}].resource`;
+    const resource = entry?.resource as FhirResource | undefined;
+    if (!resource || typeof resource !== 'object' || typeof resource.resourceType !== 'string') {
+      error(path, 'Entry has no resource');
+      return;
+    }
+    if (!(SUPPORTED_RESOURCE_TYPES as readonly string[]).includes(resource.resourceType)) {
+      issues.push({ severity: 'warning', path, message: `${resource.resourceType} is not imported` });
+      return;
+    }
+    if (!resource.id && !entry.fullUrl) error(path, `${resource.resourceType} has neither an id nor a fullUrl`);
+
+    switch (resource.resourceType) {
+      case 'Patient': {
+        const name = resource.name?.[0];
+        if (!name || !(name.text || name.family || name.given?.length)) error(`${path}.name`, 'Patient has no name');
+        if (!fromFhirGender(resource.gender)) error(`${path}.gender`, 'Patient gender must be male, female or other');
+        if (resource.birthDate && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(resource.birthDate)) {
+          error(`${path}.birthDate`, `Invalid birthDate "${resource.birthDate}"`);
+        }
+        break;
+      }
+      case 'Encounter':
+        if (!resource.subject?.reference) error(`${path}.subject`, 'Encounter has no subject');
+        if (!dateTime(resource.period?.start)) error(`${path}.period.start`, 'Encounter has no valid start date');
+        break;
+      case 'MedicationRequest':
+        if (!resource.subject?.reference) error(`${path}.subject`, 'MedicationRequest has no subject');
+        if (!resource.encounter?.reference) error(`${path}.encounter`, 'MedicationRequest has no encounter; prescriptions belong to a visit');
+        if (!resource.medicationCodeableConcept?.text && !resource.medicationCodeableConcept?.coding?.some((coding) => coding.display)) {
+          error(`${path}.medicationCodeableConcept`, 'MedicationRequest has no medicine name');
+        }
+        break;
+      case 'Observation':
+        if (!resource.code) {
+          error(`${path}.code`, 'Observation has no code');
+        } else if (!fromFhirVitalObservation(resource)) {
+          issues.push({ severity: 'warning', path, message: 'Only BP, pulse, temperature and weight observations with a value are imported' });
+        } else {
+          if (!resource.subject?.reference) error(`${path}.subject`, 'Vital sign Observation has no subject');
+          if (!resource.encounter?.reference) error(`${path}.encounter`, 'Vital sign Observation has no encounter');
+        }
+        break;
+      case 'DocumentReference': {
+        if (!resource.subject?.reference) error(`${path}.subject`, 'DocumentReference has no subject');
+        const attachment = resource.content?.[0]?.attachment;
+        if (!attachment?.url) {
+          error(`${path}.content`, attachment?.data ? 'Inline attachment data is not supported; give the attachment url' : 'DocumentReference has no attachment url');
+        } else if (!isSafeFileUrl(attachment.url)) {
+          error(`${path}.content`, 'Attachment url must be an http(s) address or a path on this server');
+        } else if (!fileTypeFromContentType(attachment.contentType, attachment.title || attachment.url)) {
+          error(`${path}.content`, 'Attachment must be a PDF or a JPEG, PNG or WebP image');
+        }
+        break;
+      }
+    }
+  });
+  return issues;
+}
+
+export function toOperationOutcome(issues: FhirValidationIssue[]): FhirOperationOutcome {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: issues.map((issue) => ({
+      severity: issue.severity,
+      code: issue.severity === 'error' ? 'invalid' : 'informational',
+      diagnostics: issue.message,
+      expression: [issue.path],
+    })),
+  };
+}
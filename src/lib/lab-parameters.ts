@@ -0,0 +1,148 @@
+// ============================================
+// Lab Parameters
+// Catalogue of the common lab values entered from investigation
+// reports, with units and adult reference ranges, plus the helpers
+// that turn entered values into per-parameter trends
+// ============================================
+
+import type { Investigation, LabValue } from '@/types';
+
+export type LabCategory = 'Haematology' | 'Diabetes' | 'Thyroid' | 'Lipids' | 'Kidney' | 'Liver' | 'Vitamins & Minerals';
+
+export interface ReferenceRange {
+  low?: number; // Missing bound = open-ended
+  high?: number;
+}
+
+export interface LabParameter {
+  key: string;
+  name: string;
+  unit: string;
+  category: LabCategory;
+  range: ReferenceRange;
+  femaleRange?: ReferenceRange; // When the range differs by sex
+  loinc?: string;
+}
+
+export const LAB_PARAMETERS: LabParameter[] = [
+  // Haematology
+  { key: 'hb', name: 'Haemoglobin (Hb)', unit: 'g/dL', category: 'Haematology', range: { low: 13, high: 17 }, femaleRange: { low: 12, high: 15 }, loinc: '718-7' },
+  { key: 'wbc', name: 'Total WBC Count', unit: '10³/µL', category: 'Haematology', range: { low: 4, high: 11 }, loinc: '6690-2' },
+  { key: 'platelets', name: 'Platelet Count', unit: '10³/µL', category: 'Haematology', range: { low: 150, high: 450 }, loinc: '777-3' },
+  { key: 'esr', name: 'ESR', unit: 'mm/hr', category: 'Haematology', range: { high: 15 }, femaleRange: { high: 20 }, loinc: '4537-7' },
+  // Diabetes
+  { key: 'hba1c', name: 'HbA1c', unit: '%', category: 'Diabetes', range: { low: 4, high: 5.6 }, loinc: '4548-4' },
+  { key: 'fbs', name: 'Fasting Blood Sugar', unit: 'mg/dL', category: 'Diabetes', range: { low: 70, high: 100 }, loinc: '1558-6' },
+  { key: 'ppbs', name: 'Post-Prandial Blood Sugar', unit: 'mg/dL', category: 'Diabetes', range: { low: 70, high: 140 }, loinc: '1521-4' },
+  // Thyroid
+  { key: 'tsh', name: 'TSH', unit: 'mIU/L', category: 'Thyroid', range: { low: 0.4, high: 4 }, loinc: '3016-3' },
+  { key: 't3', name: 'Total T3', unit: 'ng/dL', category: 'Thyroid', range: { low: 80, high: 200 }, loinc: '3053-6' },
+  { key: 't4', name: 'Total T4', unit: 'µg/dL', category: 'Thyroid', range: { low: 5, high: 12 }, loinc: '3026-2' },
+  // Lipids
+  { key: 'cholesterol', name: 'Total Cholesterol', unit: 'mg/dL', category: 'Lipids', range: { high: 200 }, loinc: '2093-3' },
+  { key: 'ldl', name: 'LDL Cholesterol', unit: 'mg/dL', category: 'Lipids', range: { high: 100 }, loinc: '13457-7' },
+  { key: 'hdl', name: 'HDL Cholesterol', unit: 'mg/dL', category: 'Lipids', range: { low: 40 }, femaleRange: { low: 50 }, loinc: '2085-9' },
+  { key: 'triglycerides', name: 'Triglycerides', unit: 'mg/dL', category: 'Lipids', range: { high: 150 }, loinc: '2571-8' },
+  // Kidney
+  { key: 'creatinine', name: 'Serum Creatinine', unit: 'mg/dL', category: 'Kidney', range: { low: 0.7, high: 1.3 }, femaleRange: { low: 0.6, high: 1.1 }, loinc: '2160-0' },
+  { key: 'urea', name: 'Blood Urea', unit: 'mg/dL', category: 'Kidney', range: { low: 15, high: 40 }, loinc: '3091-6' },
+  { key: 'uricAcid', name: 'Uric Acid', unit: 'mg/dL', category: 'Kidney', range: { low: 3.4, high: 7 }, femaleRange: { low: 2.4, high: 6 }, loinc: '3084-1' },
+  // Liver
+  { key: 'sgpt', name: 'SGPT (ALT)', unit: 'U/L', category: 'Liver', range: { low: 7, high: 56 }, loinc: '1742-6' },
+  { key: 'sgot', name: 'SGOT (AST)', unit: 'U/L', category: 'Liver', range: { low: 10, high: 40 }, loinc: '1920-8' },
+  { key: 'bilirubin', name: 'Total Bilirubin', unit: 'mg/dL', category: 'Liver', range: { low: 0.1, high: 1.2 }, loinc: '1975-2' },
+  // Vitamins & minerals
+  { key: 'vitaminD', name: 'Vitamin D (25-OH)', unit: 'ng/mL', category: 'Vitamins & Minerals', range: { low: 30, high: 100 }, loinc: '1989-3' },
+  { key: 'vitaminB12', name: 'Vitamin B12', unit: 'pg/mL', category: 'Vitamins & Minerals', range: { low: 200, high: 900 }, loinc: '2132-9' },
+  { key: 'ferritin', name: 'Serum Ferritin', unit: 'ng/mL', category: 'Vitamins & Minerals', range: { low: 24, high: 336 }, femaleRange: { low: 11, high: 307 }, loinc: '2276-4' },
+  { key: 'calcium', name: 'Serum Calcium', unit: 'mg/dL', category: 'Vitamins & Minerals', range: { low: 8.5, high: 10.5 }, loinc: '17861-6' },
+];
+
+export function getLabParameter(key: string): LabParameter | undefined {
+  return LAB_PARAMETERS.find((parameter) => parameter.key === key);
+}
+
+export function referenceRangeFor(parameter: LabParameter, gender?: string): ReferenceRange {
+  return gender === 'female' && parameter.femaleRange ? parameter.femaleRange : parameter.range;
+}
+
+// A fresh value row for a catalogue parameter, range filled in for the patient
+export function newLabValue(parameter: LabParameter, gender?: string): LabValue {
+  const range = referenceRangeFor(parameter, gender);
+  return {
+    parameter: parameter.key,
+    name: parameter.name,
+    value: NaN,
+    unit: parameter.unit,
+    refLow: range.low,
+    refHigh: range.high,
+  };
+}
+
+export type LabFlag = 'low' | 'high' | 'normal';
+
+// Judged against the range stored on the value, which may be the lab's own
+export function labValueFlag(value: LabValue): LabFlag {
+  if (value.refLow !== undefined && value.value < value.refLow) return 'low';
+  if (value.refHigh !== undefined && value.value > value.refHigh) return 'high';
+  return 'normal';
+}
+
+export function formatReferenceRange(value: Pick<LabValue, 'refLow' | 'refHigh'>): string {
+  if (value.refLow !== undefined && value.refHigh !== undefined) return `${value.refLow}–${value.refHigh}`;
+  if (value.refLow !== undefined) return `≥ ${value.refLow}`;
+  if (value.refHigh !== undefined) return `≤ ${value.refHigh}`;
+  return '';
+}
+
+// ============================================
+// Trends
+// ============================================
+
+export interface LabTrendPoint {
+  date: Date;
+  value: number;
+  flag: LabFlag;
+  refLow?: number;
+  refHigh?: number;
+  investigationId: string;
+  visitId?: string;
+}
+
+export interface LabTrend {
+  parameter: string;
+  name: string;
+  unit: string;
+  points: LabTrendPoint[]; // Oldest first
+}
+
+// One series per parameter and unit; values entered in a different
+// unit are kept as their own series rather than plotted on one axis
+export function getLabTrends(investigations: Investigation[]): LabTrend[] {
+  const trends = new Map<string, LabTrend>();
+  investigations.forEach((investigation) => {
+    (investigation.labValues || []).forEach((labValue) => {
+      if (!Number.isFinite(labValue.value)) return;
+      const key = `${labValue.parameter}|${labValue.unit}`;
+      const trend = trends.get(key) || { parameter: labValue.parameter, name: labValue.name, unit: labValue.unit, points: [] };
+      trend.points.push({
+        date: new Date(investigation.investigationDate),
+        value: labValue.value,
+        flag: labValueFlag(labValue),
+        refLow: labValue.refLow,
+        refHigh: labValue.refHigh,
+        investigationId: investigation.id,
+        visitId: investigation.visitId,
+      });
+      trends.set(key, trend);
+    });
+  });
+
+  const order = (parameter: string) => {
+    const index = LAB_PARAMETERS.findIndex((entry) => entry.key === parameter);
+    return index === -1 ? LAB_PARAMETERS.length : index;
+  };
+  return [...trends.values()]
+    .map((trend) => ({ ...trend, points: trend.points.sort((a, b) => a.date.getTime() - b.date.getTime()) }))
+    .sort((a, b) => order(a.parameter) - order(b.parameter) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,139 @@
+// ============================================
+// Patient Privacy
+// One place that decides which of a patient's privacySettings
+// apply to the current viewer and masks those fields. Screens
+// mask in place so staff can see something is withheld; prints,
+// WhatsApp shares and exports leave the field out altogether.
+// Only ever redact what is shown or sent, never what is saved
+// ============================================
+
+import type { Patient, Role, Visit } from '@/types';
+
+export type PrivacySettings = Patient['privacySettings'];
+export type PrivacyFlag = keyof PrivacySettings;
+
+export const PRIVACY_FLAGS: { flag: PrivacyFlag; label: string }[] = [
+  { flag: 'hideMentalSymptoms', label: 'Mental symptoms' },
+  { flag: 'hideDiagnosis', label: 'Diagnosis' },
+  { flag: 'hidePrognosis', label: 'Prognosis' },
+  { flag: 'hideFees', label: 'Fees' },
+  { flag: 'hideCaseNotes', label: 'Case notes' },
+];
+
+export const PRIVACY_MASK = '••••';
+
+// Who is looking, as far as privacy is concerned
+export interface PrivacyViewer {
+  exempt: boolean; // The doctor, emergency mode or a logged break-glass reveal
+  canViewFees: boolean; // Fee handlers keep seeing amounts so they can collect them
+}
+
+export function privacyViewer(role: Role | null, options: { isDoctor?: boolean; emergencyMode?: boolean; revealed?: boolean; canViewFees?: boolean }): PrivacyViewer {
+  const isDoctor = role?.id === 'role-doctor' || !!options.isDoctor;
+  return {
+    exempt: isDoctor || !!options.emergencyMode || !!options.revealed,
+    canViewFees: !!options.canViewFees,
+  };
+}
+
+// Flags in force for this viewer
+export function hiddenFlags(settings: Partial<PrivacySettings> | undefined, viewer: PrivacyViewer): PrivacyFlag[] {
+  if (!settings || viewer.exempt) return [];
+  return PRIVACY_FLAGS
+    .map(({ flag }) => flag)
+    .filter((flag) => settings[flag] && !(flag === 'hideFees' && viewer.canViewFees));
+}
+
+// ============================================
+// Mental Symptoms
+// Case text has no separate mental section, so lines about the
+// mind are recognised by the usual rubric vocabulary
+// ============================================
+
+const MENTAL_TERMS = /\b(mind|mental|anxi\w*|fears?|fearful|phobi\w*|panic\w*|grief|griev\w*|sad\w*|depress\w*|anger|angry|irritab\w*|jealous\w*|suicid\w*|weep\w*|crying|mood\w*|stress\w*|worr\w*|nervous\w*|delusion\w*|hallucinat\w*|obsess\w*|compuls\w*|indifferen\w*|despair\w*|restlessness of mind)\b/i;
+
+export function isMentalSymptom(line: string): boolean {
+  return MENTAL_TERMS.test(line);
+}
+
+// ============================================
+// Redactor
+// ============================================
+
+export type RedactMode = 'mask' | 'omit';
+
+type VisitText = Pick<Visit, 'chiefComplaint' | 'caseText' | 'notes' | 'diagnosis' | 'prognosis'>;
+
+export interface Redactor {
+  hidden: PrivacyFlag[];
+  isHidden(flag: PrivacyFlag): boolean;
+  // Field value, masked or dropped when its flag is hidden
+  text(flag: PrivacyFlag, value: string | undefined, mode?: RedactMode): string | undefined;
+  // Case notes: whole text under hideCaseNotes, mental lines under hideMentalSymptoms
+  caseText(value: string | undefined, mode?: RedactMode): string | undefined;
+  amount(value: number | undefined, format?: (amount: number) => string): string;
+  // A visit field by name; fields privacy does not cover pass through
+  visitField(field: string, value: string | undefined, mode?: RedactMode): string | undefined;
+  visit<T extends Partial<VisitText>>(visit: T, mode?: RedactMode): T;
+}
+
+export function createRedactor(settings: Partial<PrivacySettings> | undefined, viewer: PrivacyViewer): Redactor {
+  const hidden = hiddenFlags(settings, viewer);
+  const isHidden = (flag: PrivacyFlag) => hidden.includes(flag);
+
+  const text = (flag: PrivacyFlag, value: string | undefined, mode: RedactMode = 'mask') => {
+    if (!value || !isHidden(flag)) return value;
+    return mode === 'mask' ? PRIVACY_MASK : undefined;
+  };
+
+  const caseText = (value: string | undefined, mode: RedactMode = 'mask') => {
+    if (!value) return value;
+    if (isHidden('hideCaseNotes')) return mode === 'mask' ? PRIVACY_MASK : undefined;
+    if (!isHidden('hideMentalSymptoms')) return value;
+    const lines = value.split('\n')
+      .map((line) => (isMentalSymptom(line) ? (mode === 'mask' ? PRIVACY_MASK : null) : line))
+      .filter((line): line is string => line !== null);
+    return lines.join('\n') || undefined;
+  };
+
+  const visitField = (field: string, value: string | undefined, mode: RedactMode = 'mask') => {
+    switch (field) {
+      case 'chiefComplaint':
+      case 'caseText':
+      case 'notes':
+        return caseText(value, mode);
+      case 'diagnosis':
+        return text('hideDiagnosis', value, mode);
+      case 'prognosis':
+        return text('hidePrognosis', value, mode);
+      default:
+        return value;
+    }
+  };
+
+  return {
+    hidden,
+    isHidden,
+    text,
+    caseText,
+    amount: (value, format = (amount) => String(amount)) => {
+      if (value === undefined) return '';
+      return isHidden('hideFees') ? PRIVACY_MASK : format(value);
+    },
+    visitField,
+    visit: (visit, mode = 'mask') => {
+      if (hidden.length === 0) return visit;
+      return {
+        ...visit,
+        chiefComplaint: visitField('chiefComplaint', visit.chiefComplaint, mode),
+        caseText: visitField('caseText', visit.caseText, mode),
+        notes: visitField('notes', visit.notes, mode),
+        diagnosis: visitField('diagnosis', visit.diagnosis, mode),
+        prognosis: visitField('prognosis', visit.prognosis, mode),
+      };
+    },
+  };
+}
+
+// Nothing hidden; for records without a patient
+export const OPEN_REDACTOR = createRedactor(undefined, { exempt: true, canViewFees: true });
@@ -0,0 +1,20 @@
+// ============================================
+// Safe Links
+// File URLs can come from other systems (FHIR imports), so
+// only web addresses and paths on this server are ever put
+// in an href or src; javascript:, data: and the like are not
+// ============================================
+
+// http(s) address, or a path starting with a single slash; browsers drop tabs and
+// newlines inside URLs, so any whitespace or control character is refused outright
+const SAFE_URL = /^(https?:\/\/|\/(?![/\\]))/i;
+const UNSAFE_CHARACTERS = /[\s\u0000-\u001f\u007f]/;
+
+export function isSafeFileUrl(url: unknown): url is string {
+  return typeof url === 'string' && SAFE_URL.test(url) && !UNSAFE_CHARACTERS.test(url);
+}
+
+// The URL when it is safe to link to, otherwise undefined
+export function safeHref(url: string | undefined): string | undefined {
+  return isSafeFileUrl(url) ? url : undefined;
+}
@@ -0,0 +1,289 @@
+// ============================================
+// Spreadsheet Reader
+// CSV (RFC 4180) and Excel .xlsx files read into rows of
+// text cells, for the import screens. An .xlsx file is a
+// zip of XML parts; only the first worksheet is read
+// ============================================
+
+export type SpreadsheetRow = string[];
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: SpreadsheetRow[];
+  rowNumbers: number[]; // Row of the file each data row came from, for messages
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+// ============================================
+// CSV
+// ============================================
+
+// Comma unless the header line clearly uses semicolons or tabs (regional Excel exports)
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter;
+}
+
+// Quoted fields may hold delimiters, doubled quotes and line breaks
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new SpreadsheetError('The file ends inside a quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// File name -> contents of every entry in the zip's central directory
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new SpreadsheetError('Not an Excel .xlsx file');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new SpreadsheetError('The .xlsx file is damaged');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, await inflateRaw(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// All <t> runs of a shared or inline string, so rich text reads as plain text
+function textRuns(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Built-in number formats that show a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Style index -> whether cells with that style hold a date
+function dateStyles(stylesXml: string | undefined): boolean[] {
+  if (!stylesXml) return [];
+  const customDateFormats = new Set(
+    [...stylesXml.matchAll(/<numFmt\s[^>]*>/g)]
+      .filter((match) => /[dmy]/i.test((attribute(match[0], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map((match) => Number(attribute(match[0], 'numFmtId')))
+  );
+  const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return [];
+  return [...cellXfs[1].matchAll(/<xf\s[^>]*>/g)].map((match) => {
+    const id = Number(attribute(match[0], 'numFmtId') || 0);
+    return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+  });
+}
+
+// Excel stores dates as days since 1899-12-30
+function serialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  return date.toISOString().split('T')[0];
+}
+
+export async function parseXLSX(buffer: ArrayBuffer): Promise<SpreadsheetRow[]> {
+  const files = await unzip(buffer);
+  const decoder = new TextDecoder();
+  const read = (name: string) => {
+    const data = files.get(name);
+    return data ? decoder.decode(data) : undefined;
+  };
+
+  // The first sheet in workbook order, found through the workbook relationships
+  const workbook = read('xl/workbook.xml');
+  const rels = read('xl/_rels/workbook.xml.rels');
+  if (!workbook) throw new SpreadsheetError('Not an Excel .xlsx file');
+  const firstSheet = workbook.match(/<sheet\s[^>]*>/);
+  const relId = firstSheet && attribute(firstSheet[0], 'r:id');
+  const relationship = relId && rels
+    ? [...rels.matchAll(/<Relationship\s[^>]*>/g)].find((match) => attribute(match[0], 'Id') === relId)
+    : undefined;
+  const target = relationship ? attribute(relationship[0], 'Target') || '' : 'worksheets/sheet1.xml';
+  const sheet = read(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new SpreadsheetError('The workbook has no worksheet');
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => textRuns(match[1]));
+  const isDateStyle = dateStyles(read('xl/styles.xml'));
+
+  const rows: SpreadsheetRow[] = [];
+  for (const rowMatch of sheet.matchAll(/<row(\s[^>]*)?>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(attribute(rowMatch[0], 'r') || rows.length + 1);
+    const row: string[] = [];
+    for (const cell of rowMatch[2].matchAll(/<c(\s[^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = cell[1];
+      const body = cell[2] || '';
+      const reference = attribute(tag, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = attribute(tag, 't');
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textRuns(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) {
+        value = decodeXml(raw);
+        if ((!type || type === 'n') && isDateStyle[Number(attribute(tag, 's') || 0)] && value !== '') {
+          value = serialToDate(Number(value));
+        }
+      }
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    // Rows missing from the sheet are blank rows
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ============================================
+// Column Mapping
+// ============================================
+
+export interface ImportFieldDefinition<F extends string> {
+  field: F;
+  label: string;
+  aliases: string[]; // Compared with spaces and punctuation removed
+}
+
+export function headerKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// One field per column ('' for none): exact alias matches first, then headers
+// that contain an alias ("Patient Mobile"), the longest alias winning
+export function suggestColumnMapping<F extends string>(headers: string[], fields: ImportFieldDefinition<F>[]): (F | '')[] {
+  const mapping: (F | '')[] = headers.map(() => '');
+  const used = new Set<F>();
+  const keys = headers.map(headerKey);
+
+  const assign = (matches: (key: string, alias: string) => boolean) => {
+    keys.forEach((key, index) => {
+      if (mapping[index] || !key) return;
+      const match = fields
+        .filter(({ field }) => !used.has(field))
+        .flatMap(({ field, aliases }) => aliases.map((alias) => ({ field, alias: headerKey(alias) })))
+        .filter(({ alias }) => matches(key, alias))
+        .sort((a, b) => b.alias.length - a.alias.length)[0];
+      if (match) {
+        mapping[index] = match.field;
+        used.add(match.field);
+      }
+    });
+  };
+  assign((key, alias) => key === alias);
+  assign((key, alias) => alias.length >= 4 && key.includes(alias));
+  return mapping;
+}
+
+// ============================================
+// Files
+// ============================================
+
+export function isExcelFile(fileName: string): boolean {
+  return /\.xlsx$/i.test(fileName);
+}
+
+// First non-blank row is the header; blank rows are dropped and every row is padded to the header width
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const allRows = isExcelFile(file.name) ? await parseXLSX(await file.arrayBuffer()) : parseCSV(await file.text());
+  const rows = allRows
+    .map((cells, index) => ({ cells: cells.map((cell) => cell.trim()), rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell !== ''));
+  if (rows.length === 0) throw new SpreadsheetError('The file is empty');
+
+  const [header, ...data] = rows;
+  const width = Math.max(header.cells.length, ...data.map(({ cells }) => cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')];
+  return {
+    headers: pad(header.cells).map((name, index) => name || `Column ${index + 1}`),
+    rows: data.map(({ cells }) => pad(cells)),
+    rowNumbers: data.map(({ rowNumber }) => rowNumber),
+  };
+}
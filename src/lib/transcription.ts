@@ -0,0 +1,108 @@
+// ============================================
+// Transcription (server only)
+// Speech-to-text behind a small provider interface. The default
+// "local" provider runs a speech-to-text binary on this machine
+// (whisper.cpp's whisper-cli unless configured otherwise), so
+// recordings never leave the clinic
+// ============================================
+
+import { execFile } from 'child_process';
+import { join } from 'path';
+
+export interface TranscriptionOptions {
+  language: string; // ISO 639-1 code, or 'auto'
+}
+
+// Languages end up on the binary's command line, so nothing else gets through
+export const TRANSCRIPTION_LANGUAGE = /^(auto|[a-z]{2})$/;
+
+export interface TranscriptionResult {
+  text: string;
+  provider: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audioPath: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+// ============================================
+// Local Binary Provider
+// ============================================
+
+// Configured with PMS_STT_BINARY, PMS_STT_MODEL and PMS_STT_ARGS;
+// {input}, {model} and {language} in the args are filled in per call.
+// The binary prints the transcript on stdout
+export interface LocalBinaryConfig {
+  binary: string;
+  model: string;
+  args: string;
+  timeoutMs: number;
+}
+
+export const localBinaryConfig: LocalBinaryConfig = {
+  binary: process.env.PMS_STT_BINARY || 'whisper-cli',
+  model: process.env.PMS_STT_MODEL || join(process.cwd(), 'data', 'models', 'ggml-base.bin'),
+  args: process.env.PMS_STT_ARGS || '-m {model} -l {language} -nt -np -f {input}',
+  timeoutMs: 5 * 60 * 1000,
+};
+
+export function createLocalBinaryProvider(config: LocalBinaryConfig = localBinaryConfig): TranscriptionProvider {
+  return {
+    name: 'local',
+    transcribe(audioPath, { language = 'auto' }) {
+      if (!TRANSCRIPTION_LANGUAGE.test(language)) {
+        return Promise.reject(new TranscriptionError(`Unsupported language "${language}"`));
+      }
+      const values: Record<string, string> = { input: audioPath, model: config.model, language };
+      // Split before substituting so paths with spaces stay one argument
+      const args = config.args.split(/\s+/).filter(Boolean)
+        .map((arg) => arg.replace(/\{(input|model|language)\}/g, (_, key: string) => values[key]));
+
+      return new Promise((resolve, reject) => {
+        execFile(config.binary, args, { timeout: config.timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+          if (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            reject(new TranscriptionError(code === 'ENOENT'
+              ? `Speech-to-text binary "${config.binary}" was not found; set PMS_STT_BINARY`
+              : `Speech-to-text failed: ${String(stderr || error.message).trim().split('\n').pop()}`));
+            return;
+          }
+          const text = stdout.split('\n').map((line) => line.trim()).filter(Boolean).join('\n');
+          resolve({ text, provider: 'local' });
+        });
+      });
+    },
+  };
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+
+const providers = new Map<string, TranscriptionProvider>([['local', createLocalBinaryProvider()]]);
+
+// Cloud or other engines plug in here; select one with PMS_STT_PROVIDER
+export function registerTranscriptionProvider(provider: TranscriptionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getTranscriptionProvider(name: string = process.env.PMS_STT_PROVIDER || 'local'): TranscriptionProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new TranscriptionError(`Unknown transcription provider "${name}"`);
+  }
+  return provider;
+}
+
+export async function transcribeAudio(audioPath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+  const result = await getTranscriptionProvider().transcribe(audioPath, options);
+  return { ...result, text: result.text.trim() };
+}
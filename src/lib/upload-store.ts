@@ -0,0 +1,98 @@
+// ============================================
+// Upload Store (server only)
+// Investigation reports and voice notes on disk next to the
+// SQLite database, outside public/, so they are only handed
+// out by /api/files to paired PCs. Files are addressed by
+// their URL, which is what the records keep
+// ============================================
+
+import { access, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+export const uploadDir = process.env.PMS_UPLOAD_DIR || join(process.cwd(), 'data', 'uploads');
+
+export type UploadKind = 'investigations' | 'voice-notes';
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+};
+
+// Only names the upload routes write: /api/files/<kind>/<patientId>/<fileId>.<extension>
+const UPLOAD_URL = /^\/api\/files\/(investigations|voice-notes)\/([\w-]+)\/([\w-]+\.(pdf|jpg|png|webp|wav|webm|ogg|mp3|m4a))$/;
+
+export interface StoredUpload {
+  kind: UploadKind;
+  patientId: string;
+  fileName: string;
+  contentType: string;
+  path: string;
+}
+
+export function uploadUrl(kind: UploadKind, patientId: string, fileName: string): string {
+  return `/api/files/${kind}/${patientId}/${fileName}`;
+}
+
+// Null for anything that is not an upload URL
+export function parseUploadUrl(url: string): StoredUpload | null {
+  const match = UPLOAD_URL.exec(url);
+  if (!match) return null;
+  const [, kind, patientId, fileName, extension] = match;
+  return {
+    kind: kind as UploadKind,
+    patientId,
+    fileName,
+    contentType: CONTENT_TYPES[extension],
+    path: join(uploadDir, kind, patientId, fileName),
+  };
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(() => true, () => false);
+}
+
+// Files uploaded before storage moved out of public/ are moved over the first time they are asked for
+async function moveFromPublic(upload: StoredUpload): Promise<boolean> {
+  const legacyPath = join(process.cwd(), 'public', upload.kind, upload.patientId, upload.fileName);
+  if (!(await exists(legacyPath))) return false;
+  await mkdir(dirname(upload.path), { recursive: true });
+  await rename(legacyPath, upload.path);
+  return true;
+}
+
+// Returns the URL to keep on the record
+export async function saveUpload(kind: UploadKind, patientId: string, fileName: string, data: Uint8Array): Promise<string> {
+  const url = uploadUrl(kind, patientId, fileName);
+  const upload = parseUploadUrl(url);
+  if (!upload) throw new Error(`Invalid upload name: ${kind}/${patientId}/${fileName}`);
+  await mkdir(dirname(upload.path), { recursive: true });
+  await writeFile(upload.path, data);
+  return url;
+}
+
+// The stored file for a URL; null when it is not an upload or no longer on disk
+export async function findUpload(url: string): Promise<StoredUpload | null> {
+  const upload = parseUploadUrl(url);
+  if (!upload) return null;
+  if (await exists(upload.path) || await moveFromPublic(upload)) return upload;
+  return null;
+}
+
+export async function readUpload(upload: StoredUpload): Promise<Buffer> {
+  return readFile(upload.path);
+}
+
+// Removes the file behind a purged record; false when there was none
+export async function deleteUpload(url: string): Promise<boolean> {
+  const upload = await findUpload(url);
+  if (!upload) return false;
+  await unlink(upload.path);
+  return true;
+}
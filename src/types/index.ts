@@ -26,11 +26,11 @@ export interface FeeType {
   updatedAt: Date;
 }
 
-// Visit Status
-export type VisitStatus = 'completed' | 'cancelled' | 'no-show';
+// Visit Status - 'active' while the doctor is consulting, 'locked' once the consultation is ended
+export type VisitStatus = 'active' | 'locked' | 'completed' | 'cancelled' | 'no-show';
 
 // Appointment Status
-export type AppointmentStatus = 'scheduled' | 'confirmed' | 'checked-in' | 'in-progress' | 'completed' | 'medicines-prepared' | 'billed' | 'cancelled' | 'no-show';
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'checked-in' | 'in-progress' | 'completed' | 'sent-to-pharmacy' | 'medicines-prepared' | 'billed' | 'cancelled' | 'no-show';
 
 // Appointment Type
 export type AppointmentType = 'new' | 'follow-up' | 'consultation' | 'emergency';
@@ -51,24 +51,48 @@ export type QueueItemStatus = 'waiting' | 'in-consultation' | 'completed' | 'ski
 export type PriorityLevel = 'normal' | 'vip' | 'emergency' | 'doctor-priority';
 
 // Visit / Case Record
-export interface Visit {
+// Visit - the one record for a consultation, whether written by the doctor panel,
+// the patient profile or a self-repeat from the prescriptions page
+export interface Visit extends SoftDeleteFields {
   id: string;
   patientId: string;
-  registrationNumber: string;
+  registrationNumber?: string;
   caseId?: string; // Linked case if any
   visitNumber: number; // Sequential visit count for patient
   visitDate: Date;
-  visitTime: string; // HH:mm format
-  doctorId: string;
-  doctorName: string;
+  visitTime?: string; // HH:mm format
+  tokenNumber?: number;
+  doctorId?: string;
+  doctorName?: string;
   mode: VisitMode;
   status: VisitStatus;
+
+  // Consultation
   chiefComplaint?: string;
+  caseText?: string;
   diagnosis?: string;
-  prescriptionId?: string;
-  feeId?: string;
+  advice?: string;
+  testsRequired?: string;
+  prognosis?: string;
+  nextVisit?: Date;
+  remarksToFrontdesk?: string;
   notes?: string;
+
+  // Vitals, as entered
+  bp?: string;
+  pulse?: string;
+  tempF?: string;
+  weightKg?: string;
+
   isSelfRepeat: boolean; // If patient came only for medicines
+  selfRepeatDate?: Date; // Date when patient requested repeat
+  prescriptionId?: string;
+  feeId?: string;
+
+  // Visits brought over from another system's export
+  historyImportId?: string;
+  legacyVisitRef?: string; // The visit's id in the old system, when the export had one
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,14 +105,26 @@ export interface Investigation {
   fileName: string;
   fileType: 'pdf' | 'jpg' | 'jpeg' | 'png' | 'webp';
   fileSize: number; // bytes
-  fileUrl: string; // Blob URL or path
+  fileUrl: string; // /api/files/investigations/..., served to paired PCs only
+  thumbnailUrl?: string; // First page of a PDF, or a downscaled image
   title: string;
   description?: string;
+  labValues?: LabValue[];
   investigationDate: Date;
   uploadedBy: string;
   uploadedAt: Date;
 }
 
+// One structured value read off an investigation report
+export interface LabValue {
+  parameter: string; // Key from LAB_PARAMETERS, or the name for custom values
+  name: string;
+  value: number;
+  unit: string;
+  refLow?: number; // Range as printed on the report
+  refHigh?: number;
+}
+
 // Voice Note
 export interface VoiceNote {
   id: string;
@@ -133,16 +169,22 @@ export interface FeeHistoryEntry {
   patientId: string;
   visitId?: string;
   receiptId: string;
-  feeType: 'first-visit' | 'follow-up' | 'exempt' | 'consultation' | 'medicine';
+  feeType: 'first-visit' | 'follow-up' | 'free-follow-up' | 'exempt' | 'consultation' | 'medicine';
   amount: number;
   paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'insurance' | 'exempt';
-  paymentStatus: 'paid' | 'pending' | 'partial' | 'refunded';
+  paymentStatus: 'paid' | 'pending' | 'partial' | 'refunded' | 'exempt';
   paidDate: Date;
   daysSinceLastFee?: number;
 }
 
+// Stamped on clinical and financial records instead of removing them
+export interface SoftDeleteFields {
+  deletedAt?: Date;
+  deletedBy?: string;
+}
+
 // Patient Type - Module 3 Complete
-export interface Patient {
+export interface Patient extends SoftDeleteFields {
   // Core Identity
   id: string;
   registrationNumber: string; // Unique, auto-generated, never reused
@@ -233,6 +275,23 @@ export interface DuplicateWarning {
   matchReasons: string[]; // ['Mobile number matches', 'Name similarity: 85%']
 }
 
+// Family / Household - patients living together, e.g. sharing a mobile number
+export type FamilyRelationship = 'head' | 'spouse' | 'child' | 'parent' | 'sibling' | 'grandparent' | 'grandchild' | 'in-law' | 'other';
+
+export interface HouseholdMember {
+  patientId: string;
+  relationship: FamilyRelationship; // To the head of the household
+}
+
+export interface Household {
+  id: string;
+  name: string; // e.g. 'Sharma Family'
+  members: HouseholdMember[]; // A patient belongs to at most one household
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Address {
   street: string;
   city: string;
@@ -348,7 +407,7 @@ export interface Appointment {
   type: AppointmentType;
   status: AppointmentStatus;
   priority: PriorityLevel;
-  feeStatus: 'pending' | 'paid' | 'exempt';
+  feeStatus: 'pending' | 'paid' | 'partial' | 'exempt';
   feeType?: string;
   feeAmount?: number;
   feeId?: string;
@@ -638,6 +697,8 @@ export interface StaffMessage {
   subject?: string;
   content: string;
   priority: 'normal' | 'urgent' | 'critical';
+  patientId?: string; // The patient the message is about, shown on their timeline
+  patientName?: string;
   readAt?: Date;
   createdAt: Date;
 }